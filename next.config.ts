@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    // Middleware buffers request bodies and truncates them past 10 MB by default.
+    // Media uploads go up to the 100 MB WhatsApp document limit (see
+    // MEDIA_LIMITS in src/lib/whatsapp-media.ts), plus multipart overhead.
+    middlewareClientMaxBodySize: "105mb",
+  },
 };
 
 export default nextConfig;
@@ -4,6 +4,9 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import useSWR from 'swr';
 import { Header } from '@/components/header';
 import { MermaidDiagram } from '@/components/mermaid-diagram';
+import { ConversationTracePanel } from '@/components/conversation-trace-panel';
+import { PromptEditorDialog } from '@/components/prompt-editor-dialog';
+import { PromptPlayground } from '@/components/prompt-playground';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -27,6 +30,8 @@ import {
   Search,
   X,
   AlertCircle,
+  Pencil,
+  Route,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type {
@@ -102,7 +107,10 @@ export default function AIBrainPage() {
   const [loadingPrompt, setLoadingPrompt] = useState<string | null>(null);
   const [promptDetails, setPromptDetails] = useState<Record<string, PromptDetail>>({});
   const [copiedPromptId, setCopiedPromptId] = useState<string | null>(null);
+  const [editingPrompt, setEditingPrompt] = useState<PromptDetail | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [traceMode, setTraceMode] = useState(false);
+  const [tracePath, setTracePath] = useState<string[] | null>(null);
 
   // Debounced search query for performance
   const debouncedSearchQuery = useDebounce(searchQuery, SEARCH_DEBOUNCE_MS);
@@ -140,6 +148,12 @@ export default function AIBrainPage() {
     mutatePrompts();
   };
 
+  // Trace mode replaces node selection with the path of a conversation turn
+  const toggleTraceMode = () => {
+    setSelectedNode(null);
+    setTraceMode((prev) => !prev);
+  };
+
   // Handle node click from diagram - toggle selection
   const handleNodeClick = useCallback((agentId: string) => {
     setSelectedNode((prev) => (prev === agentId ? null : agentId));
@@ -311,17 +325,31 @@ export default function AIBrainPage() {
                   <GitBranch className="w-5 h-5 text-indigo-600" />
                   Simplified Agent Flow
                 </h2>
-                {selectedNode && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setSelectedNode(null)}
-                    className="text-gray-500 gap-1"
-                  >
-                    <X className="w-4 h-4" />
-                    Clear selection
-                  </Button>
-                )}
+                <div className="flex items-center gap-1">
+                  {selectedNode && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedNode(null)}
+                      className="text-gray-500 gap-1"
+                    >
+                      <X className="w-4 h-4" />
+                      Clear selection
+                    </Button>
+                  )}
+                  {architecture?.diagram && (
+                    <Button
+                      variant={traceMode ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={toggleTraceMode}
+                      aria-pressed={traceMode}
+                      className="text-gray-500 gap-1"
+                    >
+                      <Route className="w-4 h-4" />
+                      {traceMode ? 'Exit trace' : 'Trace'}
+                    </Button>
+                  )}
+                </div>
               </div>
 
               {loading ? (
@@ -331,12 +359,15 @@ export default function AIBrainPage() {
                   <MermaidDiagram
                     diagram={architecture.diagram}
                     selectedNode={selectedNode}
-                    onNodeClick={handleNodeClick}
+                    onNodeClick={traceMode ? undefined : handleNodeClick}
                     nodeIdMapping={architecture.node_id_mapping}
+                    tracePath={traceMode ? tracePath : null}
                     className="h-[500px]"
                   />
                   <p className="text-xs text-gray-400 mt-2 text-center">
-                    Click on a node to filter prompts. Scroll to zoom, drag to pan.
+                    {traceMode
+                      ? 'Nodes visited on the current turn are highlighted. Scroll to zoom, drag to pan.'
+                      : 'Click on a node to filter prompts. Scroll to zoom, drag to pan.'}
                   </p>
                 </div>
               ) : (
@@ -345,8 +376,15 @@ export default function AIBrainPage() {
                 </div>
               )}
 
+              {/* Conversation Trace */}
+              {traceMode && (
+                <div className="mt-4 pt-4 border-t border-gray-100">
+                  <ConversationTracePanel onPathChange={setTracePath} />
+                </div>
+              )}
+
               {/* Node Legend */}
-              {architecture?.nodes && (
+              {!traceMode && architecture?.nodes && (
                 <div className="mt-4 pt-4 border-t border-gray-100" role="group" aria-label="Filter by agent node">
                   <p className="text-xs font-medium text-gray-500 mb-2">Agent Nodes</p>
                   <div className="flex flex-wrap gap-2">
@@ -454,6 +492,7 @@ export default function AIBrainPage() {
                                 detail={promptDetails[prompt.id]}
                                 onToggle={() => togglePrompt(prompt.id)}
                                 onCopy={copyPromptContent}
+                                onEdit={setEditingPrompt}
                                 isCopied={copiedPromptId === prompt.id}
                               />
                             ))}
@@ -528,8 +567,26 @@ export default function AIBrainPage() {
               </div>
             </div>
           )}
+
+          {/* Playground */}
+          {architecture && (
+            <PromptPlayground
+              prompts={promptsData?.prompts ?? []}
+              stateFields={architecture.state_fields}
+            />
+          )}
         </div>
       </div>
+
+      <PromptEditorDialog
+        open={editingPrompt !== null}
+        prompt={editingPrompt}
+        onOpenChange={(open) => !open && setEditingPrompt(null)}
+        onPublished={(detail) => {
+          setEditingPrompt(detail);
+          setPromptDetails((prev) => ({ ...prev, [detail.id]: detail }));
+        }}
+      />
     </div>
   );
 }
@@ -542,6 +599,7 @@ function PromptItem({
   detail,
   onToggle,
   onCopy,
+  onEdit,
   isCopied,
 }: {
   prompt: PromptMetadata;
@@ -550,6 +608,7 @@ function PromptItem({
   detail?: PromptDetail;
   onToggle: () => void;
   onCopy: (id: string, content: string) => void;
+  onEdit: (detail: PromptDetail) => void;
   isCopied: boolean;
 }) {
   return (
@@ -610,17 +669,26 @@ function PromptItem({
                 <pre className="text-xs bg-gray-900 text-gray-100 p-3 rounded-lg overflow-x-auto max-h-64">
                   <code>{detail.content}</code>
                 </pre>
-                <button
-                  onClick={() => onCopy(prompt.id, detail.content)}
-                  className="absolute top-2 right-2 p-1.5 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                  aria-label={isCopied ? 'Copied!' : 'Copy to clipboard'}
-                >
-                  {isCopied ? (
-                    <Check className="w-3.5 h-3.5 text-green-400" aria-hidden="true" />
-                  ) : (
-                    <Copy className="w-3.5 h-3.5" aria-hidden="true" />
-                  )}
-                </button>
+                <div className="absolute top-2 right-2 flex gap-1">
+                  <button
+                    onClick={() => onEdit(detail)}
+                    className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    aria-label="Edit prompt"
+                  >
+                    <Pencil className="w-3.5 h-3.5" aria-hidden="true" />
+                  </button>
+                  <button
+                    onClick={() => onCopy(prompt.id, detail.content)}
+                    className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    aria-label={isCopied ? 'Copied!' : 'Copy to clipboard'}
+                  >
+                    {isCopied ? (
+                      <Check className="w-3.5 h-3.5 text-green-400" aria-hidden="true" />
+                    ) : (
+                      <Copy className="w-3.5 h-3.5" aria-hidden="true" />
+                    )}
+                  </button>
+                </div>
               </div>
 
               {/* Meta */}
@@ -1,18 +1,10 @@
 import { NextResponse } from 'next/server';
-import { validateApiAuth } from '@/lib/auth-api';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL;
-const CORTEX_API_KEY = process.env.CORTEX_API_KEY;
+import { validateApiAuth, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { recordTemplateVersions } from '@/lib/template-history-store';
 
 const TEMPLATES_ALLOWED_ROLES = ['admin', 'manager'];
 
-function getAuthHeaders() {
-  return {
-    'Content-Type': 'application/json',
-    Authorization: `Bearer ${CORTEX_API_KEY}`,
-  };
-}
-
 /**
  * GET /api/admin/templates/[template_id]
  * Get a specific template
@@ -27,26 +19,14 @@ export async function GET(
 
   try {
     const { template_id } = await params;
-    const headers = getAuthHeaders();
-
-    const response = await fetch(`${CORTEX_API_URL}/templates/${template_id}`, { headers });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to fetch template' }));
-      return NextResponse.json(
-        { error: error.detail || 'Failed to fetch template' },
-        { status: response.status }
-      );
-    }
+    const client = await getUserCortexClient({ signal: request.signal });
+    const data = await client.getTemplate(template_id);
 
-    const data = await response.json();
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error fetching template:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch template' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch template');
   }
 }
 
@@ -64,39 +44,32 @@ export async function DELETE(
 
   try {
     const { template_id } = await params;
-    const headers = getAuthHeaders();
 
     // Get query params for delete_from_meta option
     const url = new URL(request.url);
     const deleteFromMeta = url.searchParams.get('delete_from_meta') !== 'false';
 
-    const response = await fetch(
-      `${CORTEX_API_URL}/templates/${template_id}?delete_from_meta=${deleteFromMeta}`,
-      {
-        method: 'DELETE',
-        headers,
-      }
-    );
+    const client = await getUserCortexClient();
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to delete template' }));
-      return NextResponse.json(
-        { error: error.detail || 'Failed to delete template' },
-        { status: response.status }
-      );
+    // Snapshot the template first so its last content survives in history
+    const template = await client.getTemplate(template_id).catch(() => null);
+    const result = await client.deleteTemplate(template_id, deleteFromMeta);
+
+    if (template) {
+      try {
+        await recordTemplateVersions([template], 'deleted', auth.user?.email ?? null);
+      } catch (historyError) {
+        console.error('Error recording template history:', historyError);
+      }
     }
 
     // Return the detailed deletion result
-    const result = await response.json();
     return NextResponse.json({
       success: true,
       ...result,
     });
   } catch (error) {
     console.error('Error deleting template:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to delete template' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to delete template');
   }
 }
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { validateApiAuth } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { listTemplateVersions } from '@/lib/template-history-store';
+
+const TEMPLATES_ALLOWED_ROLES = ['admin', 'manager'];
+
+/**
+ * GET /api/admin/templates/history?name=...&language=...
+ * List recorded template versions, newest first. Without filters, returns
+ * history for every template, including deleted ones.
+ * Allowed roles: admin, manager
+ */
+export async function GET(request: Request) {
+  const auth = await validateApiAuth(TEMPLATES_ALLOWED_ROLES);
+  if (auth.error) return auth.error;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const versions = await listTemplateVersions({
+      name: searchParams.get('name') || undefined,
+      language: searchParams.get('language') || undefined,
+    });
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error fetching template history:', error);
+    return toErrorResponse(error, 'Failed to fetch template history');
+  }
+}
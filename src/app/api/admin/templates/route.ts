@@ -1,19 +1,12 @@
 import { NextResponse } from 'next/server';
-import { validateApiAuth } from '@/lib/auth-api';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL;
-const CORTEX_API_KEY = process.env.CORTEX_API_KEY;
+import { validateApiAuth, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { validateTemplateDraft, type TemplateDraft } from '@/lib/template-validation';
+import { recordTemplateVersions } from '@/lib/template-history-store';
 
 // Roles allowed to access templates
 const TEMPLATES_ALLOWED_ROLES = ['admin', 'manager'];
 
-function getAuthHeaders() {
-  return {
-    'Content-Type': 'application/json',
-    Authorization: `Bearer ${CORTEX_API_KEY}`,
-  };
-}
-
 /**
  * GET /api/admin/templates
  * List all WhatsApp templates with optional status filter
@@ -26,45 +19,24 @@ export async function GET(request: Request) {
 
   try {
     const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status');
-    const category = searchParams.get('category');
-    const language = searchParams.get('language');
-
-    const headers = getAuthHeaders();
 
-    // Build query string for backend
-    const params = new URLSearchParams();
-    if (status) params.set('status', status);
-    if (category) params.set('category', category);
-    if (language) params.set('language', language);
-
-    const queryString = params.toString();
-    const url = `${CORTEX_API_URL}/templates${queryString ? `?${queryString}` : ''}`;
-
-    const response = await fetch(url, { headers });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to fetch templates' }));
-      return NextResponse.json(
-        { error: error.detail || 'Failed to fetch templates' },
-        { status: response.status }
-      );
-    }
+    const client = await getUserCortexClient({ signal: request.signal });
+    const data = await client.listTemplates({
+      status: searchParams.get('status') || undefined,
+      category: searchParams.get('category') || undefined,
+      language: searchParams.get('language') || undefined,
+    });
 
-    const data = await response.json();
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error fetching templates:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch templates' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch templates');
   }
 }
 
 /**
  * POST /api/admin/templates
- * Create a new WhatsApp template
+ * Create a new WhatsApp template after checking it against Meta's template rules
  * Allowed roles: admin, manager
  */
 export async function POST(request: Request) {
@@ -73,30 +45,29 @@ export async function POST(request: Request) {
   if (auth.error) return auth.error;
 
   try {
-    const body = await request.json();
-    const headers = getAuthHeaders();
-
-    const response = await fetch(`${CORTEX_API_URL}/templates`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body),
-    });
+    const body: TemplateDraft = await request.json();
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to create template' }));
+    // Reject what Meta would reject, with errors keyed by form field
+    const errors = validateTemplateDraft(body);
+    if (Object.keys(errors).length > 0) {
       return NextResponse.json(
-        { error: error.detail || 'Failed to create template' },
-        { status: response.status }
+        { error: Object.values(errors)[0], errors },
+        { status: 400 }
       );
     }
 
-    const data = await response.json();
+    const client = await getUserCortexClient();
+    const data = await client.createTemplate({ ...body });
+
+    try {
+      await recordTemplateVersions([data], 'created', auth.user?.email ?? null);
+    } catch (historyError) {
+      console.error('Error recording template history:', historyError);
+    }
+
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error creating template:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to create template' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to create template');
   }
 }
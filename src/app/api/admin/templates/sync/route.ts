@@ -1,14 +1,13 @@
 import { NextResponse } from 'next/server';
-import { validateApiAuth } from '@/lib/auth-api';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL;
-const CORTEX_API_KEY = process.env.CORTEX_API_KEY;
+import { validateApiAuth, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { recordTemplateVersions } from '@/lib/template-history-store';
 
 const TEMPLATES_ALLOWED_ROLES = ['admin', 'manager'];
 
 /**
  * POST /api/admin/templates/sync
- * Sync templates from Meta
+ * Sync templates from Meta and record what changed in template history
  * Allowed roles: admin, manager
  */
 export async function POST() {
@@ -16,29 +15,19 @@ export async function POST() {
   if (auth.error) return auth.error;
 
   try {
-    const response = await fetch(`${CORTEX_API_URL}/templates/sync`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${CORTEX_API_KEY}`,
-      },
-    });
+    const client = await getUserCortexClient();
+    const data = await client.syncTemplates();
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to sync templates' }));
-      return NextResponse.json(
-        { error: error.detail || 'Failed to sync templates' },
-        { status: response.status }
-      );
+    try {
+      const { items } = await client.listTemplates();
+      await recordTemplateVersions(items ?? [], 'synced', auth.user?.email ?? null);
+    } catch (historyError) {
+      console.error('Error recording template history:', historyError);
     }
 
-    const data = await response.json();
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error syncing templates:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to sync templates' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to sync templates');
   }
 }
@@ -1,8 +1,6 @@
 import { NextResponse } from 'next/server';
-import { validateApiAuth } from '@/lib/auth-api';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL;
-const CORTEX_API_KEY = process.env.CORTEX_API_KEY;
+import { validateApiAuth, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 const TEMPLATES_ALLOWED_ROLES = ['admin', 'manager'];
 
@@ -21,6 +19,7 @@ export async function POST(request: Request) {
 
   try {
     const contentType = request.headers.get('content-type') || '';
+    const client = await getUserCortexClient();
 
     if (contentType.includes('application/json')) {
       // URL-based upload (recommended)
@@ -34,25 +33,7 @@ export async function POST(request: Request) {
         );
       }
 
-      // Forward JSON to the backend
-      const response = await fetch(`${CORTEX_API_URL}/templates/upload-media`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${CORTEX_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ url, filename, content_type }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ detail: 'Failed to upload media' }));
-        return NextResponse.json(
-          { error: error.detail || error.error || 'Failed to upload media' },
-          { status: response.status }
-        );
-      }
-
-      const data = await response.json();
+      const data = await client.uploadTemplateMedia({ url, filename, content_type });
       return NextResponse.json(data);
     } else {
       // Direct file upload (fallback)
@@ -66,35 +47,11 @@ export async function POST(request: Request) {
         );
       }
 
-      // Create a new FormData to forward to the backend
-      const backendFormData = new FormData();
-      backendFormData.append('file', file);
-
-      // Forward to the backend
-      const response = await fetch(`${CORTEX_API_URL}/templates/upload-media`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${CORTEX_API_KEY}`,
-        },
-        body: backendFormData,
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ detail: 'Failed to upload media' }));
-        return NextResponse.json(
-          { error: error.detail || error.error || 'Failed to upload media' },
-          { status: response.status }
-        );
-      }
-
-      const data = await response.json();
+      const data = await client.uploadTemplateMedia(file);
       return NextResponse.json(data);
     }
   } catch (error) {
     console.error('Error uploading media:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to upload media' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to upload media');
   }
 }
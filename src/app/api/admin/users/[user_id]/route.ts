@@ -1,18 +1,9 @@
 import { NextResponse } from 'next/server';
-import { validateApiAuth, getAuthToken } from '@/lib/auth-api';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL;
+import { validateApiAuth, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 const ADMIN_ONLY_ROLES = ['admin'];
 
-async function getAuthHeaders() {
-  const authToken = await getAuthToken();
-  return {
-    'Content-Type': 'application/json',
-    ...(authToken && { Authorization: `Bearer ${authToken}` }),
-  };
-}
-
 /**
  * PATCH /api/admin/users/[user_id]
  * Update user (activate, deactivate, change role)
@@ -31,17 +22,13 @@ export async function PATCH(
     const body = await request.json();
     const { action, role } = body;
 
-    const headers = await getAuthHeaders();
-    let endpoint: string;
-    let requestBody: object | undefined;
+    const client = await getUserCortexClient();
 
     switch (action) {
       case 'activate':
-        endpoint = `${CORTEX_API_URL}/auth/users/${user_id}/activate`;
-        break;
+        return NextResponse.json(await client.activateUser(user_id));
       case 'deactivate':
-        endpoint = `${CORTEX_API_URL}/auth/users/${user_id}/deactivate`;
-        break;
+        return NextResponse.json(await client.deactivateUser(user_id));
       case 'role':
         if (!role) {
           return NextResponse.json(
@@ -49,37 +36,15 @@ export async function PATCH(
             { status: 400 }
           );
         }
-        endpoint = `${CORTEX_API_URL}/auth/users/${user_id}/role`;
-        requestBody = { role };
-        break;
+        return NextResponse.json(await client.changeUserRole(user_id, role));
       default:
         return NextResponse.json(
           { error: 'Invalid action. Use: activate, deactivate, or role' },
           { status: 400 }
         );
     }
-
-    const response = await fetch(endpoint, {
-      method: 'PATCH',
-      headers,
-      ...(requestBody && { body: JSON.stringify(requestBody) }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: `Failed to ${action} user` }));
-      return NextResponse.json(
-        { error: error.detail || `Failed to ${action} user` },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
   } catch (error) {
     console.error('Error updating user:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to update user' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to update user');
   }
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 interface RouteParams {
   params: Promise<{ nodeId: string }>;
@@ -12,14 +13,11 @@ interface RouteParams {
 export async function GET(request: Request, { params }: RouteParams) {
   try {
     const { nodeId } = await params;
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
     const data = await client.getAINode(nodeId);
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error fetching AI node:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch AI node' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch AI node');
   }
 }
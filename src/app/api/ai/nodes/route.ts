@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/ai/nodes
@@ -7,14 +8,11 @@ import { getCortexClient } from '@/lib/cortex-client';
  */
 export async function GET() {
   try {
-    const client = getCortexClient();
+    const client = await getUserCortexClient();
     const data = await client.getAINodes();
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error fetching AI nodes:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch AI nodes' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch AI nodes');
   }
 }
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { isAgentNode, validatePlaygroundMessages } from '@/lib/playground';
+import { getPlaygroundRunner, getPlaygroundRunnerName } from '@/lib/playground-runner';
+import type { PlaygroundRunResult } from '@/types/cortex';
+
+// An agent turn can involve several model calls
+const RUN_TIMEOUT_MS = 90_000;
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+/**
+ * POST /api/ai/playground
+ * Run an agent node against a sample conversation. Nothing is sent to the lead.
+ * Body: { node, messages, prompt_id?, prompt_content?, state_fields? }
+ * - prompt_content: replaces the live prompt for this run (e.g. a draft)
+ * Uses a local stub instead of Cortex when AI_PLAYGROUND_RUNNER=stub.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    if (!isAgentNode(body.node)) {
+      return NextResponse.json({ error: 'A valid agent node is required' }, { status: 400 });
+    }
+
+    const messagesError = validatePlaygroundMessages(body.messages);
+    if (messagesError) {
+      return NextResponse.json({ error: messagesError }, { status: 400 });
+    }
+
+    const stateFields = Array.isArray(body.state_fields)
+      ? body.state_fields.filter((field: unknown): field is string => typeof field === 'string')
+      : [];
+
+    const run = getPlaygroundRunner(() =>
+      getUserCortexClient({ signal: request.signal, timeoutMs: RUN_TIMEOUT_MS })
+    );
+    const startedAt = Date.now();
+    const result = await run({
+      node: body.node,
+      messages: body.messages,
+      prompt_id: optionalString(body.prompt_id),
+      prompt_content: optionalString(body.prompt_content),
+      state_fields: stateFields,
+    });
+
+    const response: PlaygroundRunResult = {
+      ...result,
+      state: result.state ?? {},
+      source: getPlaygroundRunnerName(),
+      duration_ms: Date.now() - startedAt,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error running playground:', error);
+    return toErrorResponse(error, 'Failed to run playground');
+  }
+}
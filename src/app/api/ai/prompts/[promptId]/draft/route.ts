@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getActingUser, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { discardPromptDraft, savePromptDraft } from '@/lib/prompt-history-store';
+
+interface RouteParams {
+  params: Promise<{ promptId: string }>;
+}
+
+/**
+ * PUT /api/ai/prompts/[promptId]/draft
+ * Save the prompt's draft without changing the live prompt
+ * Body: { content }
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { promptId } = await params;
+    const { content } = await request.json();
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ error: 'Prompt content is required' }, { status: 400 });
+    }
+
+    const client = await getUserCortexClient();
+    const live = await client.getAIPrompt(promptId);
+
+    const actingUser = await getActingUser();
+    const draft = await savePromptDraft(promptId, content, actingUser?.email ?? null, live.content);
+
+    return NextResponse.json(draft);
+  } catch (error) {
+    console.error('Error saving prompt draft:', error);
+    return toErrorResponse(error, 'Failed to save prompt draft');
+  }
+}
+
+/**
+ * DELETE /api/ai/prompts/[promptId]/draft
+ * Discard the prompt's draft
+ */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { promptId } = await params;
+    const deleted = await discardPromptDraft(promptId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error discarding prompt draft:', error);
+    return toErrorResponse(error, 'Failed to discard prompt draft');
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getActingUser, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { releasePrompt } from '@/lib/prompt-history-store';
+
+interface RouteParams {
+  params: Promise<{ promptId: string }>;
+}
+
+/**
+ * POST /api/ai/prompts/[promptId]/publish
+ * Make new content live in Cortex and record it as a version
+ * Body: { content, note?, base_content? }
+ * - base_content: live content the edit started from; 409 if Cortex serves anything else now
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { promptId } = await params;
+    const { content, note, base_content: baseContent } = await request.json();
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ error: 'Prompt content is required' }, { status: 400 });
+    }
+    if (baseContent !== undefined && typeof baseContent !== 'string') {
+      return NextResponse.json({ error: 'base_content must be a string' }, { status: 400 });
+    }
+
+    const client = await getUserCortexClient();
+    const actingUser = await getActingUser();
+    const author = actingUser?.email ?? null;
+    const releaseNote = typeof note === 'string' && note.trim() ? note.trim() : null;
+
+    const result = await releasePrompt(
+      promptId,
+      { event: 'published', content, author, note: releaseNote },
+      {
+        getLiveContent: async () => (await client.getAIPrompt(promptId)).content,
+        update: () => client.updateAIPrompt(promptId, { content, author, note: releaseNote }),
+      },
+      baseContent
+    );
+
+    if (result.status === 'conflict') {
+      return NextResponse.json(
+        { error: 'This prompt was changed by someone else since you started editing. Review the latest version first.' },
+        { status: 409 }
+      );
+    }
+    if (result.status === 'unchanged') {
+      return NextResponse.json({ error: 'No changes to publish' }, { status: 400 });
+    }
+
+    return NextResponse.json({ prompt: result.prompt, version: result.version });
+  } catch (error) {
+    console.error('Error publishing prompt:', error);
+    return toErrorResponse(error, 'Failed to publish prompt');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getActingUser, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { getPromptVersion, releasePrompt } from '@/lib/prompt-history-store';
+
+interface RouteParams {
+  params: Promise<{ promptId: string }>;
+}
+
+/**
+ * POST /api/ai/prompts/[promptId]/rollback
+ * Make an earlier version's content live again
+ * Body: { version }
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { promptId } = await params;
+    const { version: versionNumber } = await request.json();
+
+    if (typeof versionNumber !== 'number') {
+      return NextResponse.json({ error: 'version is required' }, { status: 400 });
+    }
+
+    const target = await getPromptVersion(promptId, versionNumber);
+    if (!target) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    const client = await getUserCortexClient();
+    const actingUser = await getActingUser();
+    const author = actingUser?.email ?? null;
+    const note = `Rolled back to v${versionNumber}`;
+
+    const result = await releasePrompt(
+      promptId,
+      { event: 'rolled_back', content: target.content, author, note, rolled_back_to: versionNumber },
+      {
+        getLiveContent: async () => (await client.getAIPrompt(promptId)).content,
+        update: () => client.updateAIPrompt(promptId, { content: target.content, author, note }),
+      }
+    );
+
+    // Without a base content the only refusal is the version already being live
+    if (result.status !== 'released') {
+      return NextResponse.json({ error: `Version ${versionNumber} is already live` }, { status: 400 });
+    }
+
+    return NextResponse.json({ prompt: result.prompt, version: result.version });
+  } catch (error) {
+    console.error('Error rolling back prompt:', error);
+    return toErrorResponse(error, 'Failed to roll back prompt');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/api-errors';
+import { getPromptHistory } from '@/lib/prompt-history-store';
+
+interface RouteParams {
+  params: Promise<{ promptId: string }>;
+}
+
+/**
+ * GET /api/ai/prompts/[promptId]/versions
+ * Get a prompt's draft and version history, newest first
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { promptId } = await params;
+    const history = await getPromptHistory(promptId);
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Error fetching prompt history:', error);
+    return toErrorResponse(error, 'Failed to fetch prompt history');
+  }
+}
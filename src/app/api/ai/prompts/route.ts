@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/ai/prompts
@@ -11,14 +12,11 @@ export async function GET(request: Request) {
     const category = searchParams.get('category') || undefined;
     const node = searchParams.get('node') || undefined;
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
     const data = await client.getAIPrompts({ category, node });
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error fetching AI prompts:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch AI prompts' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch AI prompts');
   }
 }
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/ai/trace/[id]
+ * Get the agent nodes visited on each turn of a conversation, oldest first
+ * - id: internal (numeric) or external conversation ID
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const client = await getUserCortexClient({ signal: request.signal });
+
+    // Determine if ID is internal (numeric) or external (string)
+    const isNumeric = /^\d+$/.test(id);
+
+    const data = await client.getConversationTrace(
+      isNumeric ? { internal_id: parseInt(id, 10) } : { external_id: id }
+    );
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error fetching conversation trace:', error);
+    return toErrorResponse(error, 'Failed to fetch conversation trace');
+  }
+}
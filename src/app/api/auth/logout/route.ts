@@ -1,13 +1,14 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { AUTH_TOKEN_COOKIE, SESSION_COOKIE } from '@/lib/session';
 
 export async function POST() {
   try {
     const cookieStore = await cookies();
 
     // Clear auth cookies
-    cookieStore.delete('auth_token');
-    cookieStore.delete('user_info');
+    cookieStore.delete(AUTH_TOKEN_COOKIE);
+    cookieStore.delete(SESSION_COOKIE);
 
     return NextResponse.json({ success: true });
   } catch (error) {
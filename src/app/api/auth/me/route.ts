@@ -1,13 +1,21 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import type { UserResponse } from '@/types/cortex';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL || 'http://localhost:8000';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { getErrorStatus } from '@/lib/api-errors';
+import { CortexAPIError } from '@/lib/cortex-client';
+import {
+  AUTH_TOKEN_COOKIE,
+  SESSION_COOKIE,
+  createSession,
+  getSessionCookieOptions,
+  verifySession,
+} from '@/lib/session';
 
 export async function GET() {
+  const cookieStore = await cookies();
+
   try {
-    const cookieStore = await cookies();
-    const token = cookieStore.get('auth_token')?.value;
+    const token = cookieStore.get(AUTH_TOKEN_COOKIE)?.value;
 
     if (!token) {
       return NextResponse.json(
@@ -16,28 +24,34 @@ export async function GET() {
       );
     }
 
-    const response = await fetch(`${CORTEX_API_URL}/auth/me`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+    const client = await getUserCortexClient();
+    const user = await client.getCurrentUser();
+
+    // Re-sign the session with the current role, keeping the original expiry
+    const session = await verifySession(cookieStore.get(SESSION_COOKIE)?.value, token);
+    if (session) {
+      const expiresAt = new Date(session.exp);
+      cookieStore.set(
+        SESSION_COOKIE,
+        await createSession(user, expiresAt, token),
+        getSessionCookieOptions(expiresAt, false)
+      );
+    }
 
-    if (!response.ok) {
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof CortexAPIError) {
       // Token might be expired, clear cookies
-      if (response.status === 401) {
-        cookieStore.delete('auth_token');
-        cookieStore.delete('user_info');
+      if (error.status === 401) {
+        cookieStore.delete(AUTH_TOKEN_COOKIE);
+        cookieStore.delete(SESSION_COOKIE);
       }
       return NextResponse.json(
         { error: 'Authentication failed' },
-        { status: response.status }
+        { status: getErrorStatus(error) }
       );
     }
 
-    const user: UserResponse = await response.json();
-
-    return NextResponse.json({ user });
-  } catch (error) {
     console.error('Auth check error:', error);
     return NextResponse.json(
       { error: 'An error occurred' },
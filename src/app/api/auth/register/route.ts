@@ -1,56 +1,33 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import type { TokenResponse, UserRegister } from '@/types/cortex';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL || 'http://localhost:8000';
+import {
+  AUTH_TOKEN_COOKIE,
+  SESSION_COOKIE,
+  createSession,
+  getSessionCookieOptions,
+} from '@/lib/session';
+import { getCortexClient, CortexAPIError } from '@/lib/cortex-client';
+import { getErrorStatus } from '@/lib/api-errors';
+import type { UserRegister } from '@/types/cortex';
 
 export async function POST(request: Request) {
   try {
     const body: UserRegister = await request.json();
 
-    const response = await fetch(`${CORTEX_API_URL}/auth/register`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      return NextResponse.json(
-        { error: error.detail || 'Registration failed' },
-        { status: response.status }
-      );
-    }
-
-    const data: TokenResponse = await response.json();
+    const data = await getCortexClient().register(body);
 
     // Set the auth cookie
     const cookieStore = await cookies();
     const expiresAt = new Date(data.expires_at);
 
-    cookieStore.set('auth_token', data.access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      expires: expiresAt,
-      path: '/',
-    });
+    cookieStore.set(AUTH_TOKEN_COOKIE, data.access_token, getSessionCookieOptions(expiresAt, true));
 
-    // Also store user info in a separate cookie
-    cookieStore.set('user_info', JSON.stringify({
-      id: data.user.id,
-      email: data.user.email,
-      role: data.user.role,
-      is_active: data.user.is_active,
-    }), {
-      httpOnly: false,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      expires: expiresAt,
-      path: '/',
-    });
+    // Also store signed user info in a separate cookie (not httpOnly so JS can read it)
+    cookieStore.set(
+      SESSION_COOKIE,
+      await createSession(data.user, expiresAt, data.access_token),
+      getSessionCookieOptions(expiresAt, false)
+    );
 
     return NextResponse.json({
       success: true,
@@ -58,6 +35,13 @@ export async function POST(request: Request) {
       expires_at: data.expires_at,
     });
   } catch (error) {
+    if (error instanceof CortexAPIError) {
+      return NextResponse.json(
+        { error: error.message || 'Registration failed' },
+        { status: getErrorStatus(error) }
+      );
+    }
+
     console.error('Registration error:', error);
     return NextResponse.json(
       { error: 'An error occurred during registration' },
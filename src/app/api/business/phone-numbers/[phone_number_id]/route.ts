@@ -1,14 +1,6 @@
 import { NextResponse } from 'next/server';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL;
-const CORTEX_API_KEY = process.env.CORTEX_API_KEY;
-
-function getAuthHeaders() {
-  return {
-    'Content-Type': 'application/json',
-    Authorization: `Bearer ${CORTEX_API_KEY}`,
-  };
-}
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/business/phone-numbers/[phone_number_id]
@@ -20,28 +12,14 @@ export async function GET(
 ) {
   try {
     const { phone_number_id } = await params;
-    const headers = getAuthHeaders();
 
-    const response = await fetch(`${CORTEX_API_URL}/business/phone-numbers/${phone_number_id}`, {
-      headers,
-    });
+    const client = await getUserCortexClient({ signal: request.signal });
+    const data = await client.getPhoneNumber(phone_number_id);
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to fetch phone number details' }));
-      return NextResponse.json(
-        { error: error.detail || 'Failed to fetch phone number details' },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error fetching phone number details:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch phone number details' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch phone number details');
   }
 }
 
@@ -56,29 +34,13 @@ export async function POST(
   try {
     const { phone_number_id } = await params;
     const body = await request.json();
-    const headers = getAuthHeaders();
-
-    const response = await fetch(`${CORTEX_API_URL}/business/phone-numbers/${phone_number_id}`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body),
-    });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to update phone number settings' }));
-      return NextResponse.json(
-        { error: error.detail || 'Failed to update phone number settings' },
-        { status: response.status }
-      );
-    }
+    const client = await getUserCortexClient();
+    const data = await client.updatePhoneNumber(phone_number_id, body);
 
-    const data = await response.json();
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error updating phone number settings:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to update phone number settings' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to update phone number settings');
   }
 }
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getActingUser } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { CampaignError, applyCampaignAction, getCampaign } from '@/lib/campaigns';
+import type { CampaignAction } from '@/types/cortex';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const CAMPAIGN_ACTIONS: CampaignAction[] = ['pause', 'resume', 'cancel', 'retry_failed'];
+
+/**
+ * GET /api/campaigns/[id]
+ * Get a campaign with its per-recipient report
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const campaign = await getCampaign(id);
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(campaign);
+  } catch (error) {
+    console.error('Error fetching campaign:', error);
+    return toErrorResponse(error, 'Failed to fetch campaign');
+  }
+}
+
+/**
+ * PATCH /api/campaigns/[id]
+ * Control the send queue
+ * Body: { action: 'pause' | 'resume' | 'cancel' | 'retry_failed' }
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { action } = await request.json();
+
+    if (!CAMPAIGN_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${CAMPAIGN_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const actingUser = await getActingUser();
+    if (!actingUser) {
+      return NextResponse.json({ error: 'Unauthorized - Invalid or expired session' }, { status: 401 });
+    }
+
+    const campaign = await applyCampaignAction(id, action, actingUser);
+
+    return NextResponse.json(campaign);
+  } catch (error) {
+    if (error instanceof CampaignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating campaign:', error);
+    return toErrorResponse(error, 'Failed to update campaign');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getActingUser } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { CampaignError, createCampaign, listCampaigns } from '@/lib/campaigns';
+import type { CreateCampaignRequest } from '@/types/cortex';
+
+/**
+ * GET /api/campaigns
+ * List template broadcast campaigns, newest first (without recipients)
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ campaigns: await listCampaigns() });
+  } catch (error) {
+    console.error('Error listing campaigns:', error);
+    return toErrorResponse(error, 'Failed to list campaigns');
+  }
+}
+
+/**
+ * POST /api/campaigns
+ * Create a campaign from a lead search or CSV audience and start sending
+ */
+export async function POST(request: Request) {
+  try {
+    const actingUser = await getActingUser();
+    if (!actingUser) {
+      return NextResponse.json({ error: 'Unauthorized - Invalid or expired session' }, { status: 401 });
+    }
+
+    const body: CreateCampaignRequest = await request.json();
+    const campaign = await createCampaign(actingUser, body);
+
+    return NextResponse.json(campaign, { status: 201 });
+  } catch (error) {
+    if (error instanceof CampaignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating campaign:', error);
+    return toErrorResponse(error, 'Failed to create campaign');
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import type { ConversationSearchItem } from '@/types/cortex';
+
+/**
+ * GET /api/conversations
+ * List recent conversations in the format used by ConversationList
+ * Query params: q (optional), limit (optional, default 50, max 100)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const q = searchParams.get('q') || undefined;
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? Math.min(parseInt(limitParam, 10), 100) : 50;
+
+    const client = await getUserCortexClient({ signal: request.signal });
+    const response = await client.searchConversations({ q, limit });
+
+    const conversations = response.items.map((item: ConversationSearchItem) => ({
+      id: String(item.id),
+      phoneNumber: item.client_phone || '',
+      status: item.window_status === 'open' ? 'active' : 'ended',
+      lastActiveAt: item.last_message_at || item.updated_at,
+      phoneNumberId: process.env.PHONE_NUMBER_ID || '',
+      contactName: item.client_name || undefined,
+      messagesCount: item.messages_count,
+      metadata: {
+        external_id: item.external_id,
+        company: item.client_company,
+        qualification: item.qualification,
+        agent_state: item.state,
+      },
+      lastMessage: item.last_message_content
+        ? {
+            content: item.last_message_content.substring(0, 100),
+            direction: item.last_message_role === 'user' ? 'inbound' : 'outbound',
+          }
+        : undefined,
+    }));
+
+    return NextResponse.json({
+      data: conversations,
+      total_count: response.total_count,
+    });
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return toErrorResponse(error, 'Failed to fetch conversations');
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/crm/contact/activity
@@ -19,7 +20,7 @@ export async function GET(request: Request) {
       );
     }
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
     const response = await client.getContactActivity({
       phone,
       limit: limit ? parseInt(limit, 10) : undefined,
@@ -29,9 +30,6 @@ export async function GET(request: Request) {
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error fetching contact activity:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch contact activity' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch contact activity');
   }
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/crm/contact/full
@@ -18,15 +19,12 @@ export async function GET(request: Request) {
       );
     }
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
     const response = await client.getFullContact(phone);
 
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error fetching full contact:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch full contact' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch full contact');
   }
 }
@@ -1,36 +1,72 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { CortexAPIError, type CortexClient } from '@/lib/cortex-client';
+import type { DealStage } from '@/types/cortex';
+
+// Map of stage ID to label for easy lookup
+function toStagesMap(stages: DealStage[]): Record<string, string> {
+  const stagesMap: Record<string, string> = {};
+  stages.forEach((stage) => {
+    stagesMap[stage.id] = stage.label;
+  });
+  return stagesMap;
+}
+
+// Stages of a single pipeline, without the pipeline list
+async function getPipelineStages(client: CortexClient, pipelineId: string) {
+  const response = await client.getDealStages(pipelineId);
+  const stages = (response.stages || []).map((stage) => ({ ...stage, pipeline_id: response.pipeline_id }));
+
+  return {
+    pipeline_id: response.pipeline_id,
+    pipelines: [],
+    stages,
+    stages_map: toStagesMap(stages),
+  };
+}
 
 /**
  * GET /api/crm/deal-stages
- * Get deal stages for mapping IDs to labels
+ * Get deal stages for mapping IDs to labels.
+ * Without pipeline_id, returns every pipeline and the stages of all of them,
+ * or only the default pipeline's stages when pipelines can't be listed.
  */
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
-    const pipelineId = searchParams.get('pipeline_id') || 'default';
+    const pipelineId = searchParams.get('pipeline_id');
+
+    const client = await getUserCortexClient({ signal: request.signal });
 
-    const client = getCortexClient();
-    const response = await client.getDealStages(pipelineId);
+    if (pipelineId) {
+      return NextResponse.json(await getPipelineStages(client, pipelineId));
+    }
 
-    // Create a map of stage ID to label for easy lookup
-    const stagesMap: Record<string, string> = {};
-    if (response.stages) {
-      response.stages.forEach((stage) => {
-        stagesMap[stage.id] = stage.label;
-      });
+    let response;
+    try {
+      response = await client.getDealPipelines();
+    } catch (error) {
+      if (error instanceof CortexAPIError && error.kind === 'unauthorized') throw error;
+      console.error('Error fetching deal pipelines, falling back to the default pipeline:', error);
+      return NextResponse.json(await getPipelineStages(client, 'default'));
     }
 
+    const pipelines = [...(response.pipelines || [])]
+      .sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0))
+      .map((pipeline) => ({
+        ...pipeline,
+        stages: pipeline.stages.map((stage) => ({ ...stage, pipeline_id: pipeline.id })),
+      }));
+    const stages = pipelines.flatMap((pipeline) => pipeline.stages);
+
     return NextResponse.json({
-      pipeline_id: response.pipeline_id,
-      stages: response.stages,
-      stages_map: stagesMap,
+      pipelines,
+      stages,
+      stages_map: toStagesMap(stages),
     });
   } catch (error) {
     console.error('Error fetching deal stages:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch deal stages' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch deal stages');
   }
 }
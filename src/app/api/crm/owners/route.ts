@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+
+/**
+ * GET /api/crm/owners
+ * List HubSpot owners that leads can be assigned to.
+ *
+ * Query params:
+ * - active_only: "false" to include deactivated owners
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const activeOnly = searchParams.get('active_only') !== 'false';
+
+    const client = await getUserCortexClient({ signal: request.signal });
+    const response = await client.getHubSpotOwners();
+
+    const owners = activeOnly ? response.owners.filter((owner) => owner.active) : response.owners;
+
+    return NextResponse.json({ owners, total_count: owners.length });
+  } catch (error) {
+    console.error('Error fetching HubSpot owners:', error);
+    return toErrorResponse(error, 'Failed to fetch owners');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import type { HubSpotPortal } from '@/lib/hubspot-links';
+
+/**
+ * GET /api/crm/portal
+ * HubSpot portal ID and region used to build deep links.
+ * The business profile takes precedence over HUBSPOT_PORTAL_ID / HUBSPOT_REGION.
+ */
+export async function GET(request: Request) {
+  try {
+    const client = await getUserCortexClient({ signal: request.signal });
+    const profile = await client.getBusinessProfile().catch((error) => {
+      console.error('Error fetching business profile for HubSpot portal:', error);
+      return null;
+    });
+
+    const portal: HubSpotPortal = {
+      portal_id: profile?.hubspot_portal_id || process.env.HUBSPOT_PORTAL_ID || null,
+      region: profile?.hubspot_region || process.env.HUBSPOT_REGION || null,
+    };
+
+    return NextResponse.json(portal);
+  } catch (error) {
+    console.error('Error fetching HubSpot portal:', error);
+    return toErrorResponse(error, 'Failed to fetch HubSpot portal');
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { invalidateOwnerTasks } from '@/lib/my-tasks';
 
 /**
  * GET /api/crm/tasks/[taskId]
@@ -12,16 +14,13 @@ export async function GET(
   try {
     const { taskId } = await params;
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
     const response = await client.getTask(taskId);
 
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error fetching task:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch task' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch task');
   }
 }
 
@@ -37,7 +36,7 @@ export async function PATCH(
     const { taskId } = await params;
     const body = await request.json();
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient();
     const response = await client.updateTask(taskId, {
       title: body.title,
       due_date: body.due_date,
@@ -48,13 +47,11 @@ export async function PATCH(
       notes: body.notes,
     });
 
+    invalidateOwnerTasks();
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error updating task:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to update task' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to update task');
   }
 }
 
@@ -69,15 +66,13 @@ export async function DELETE(
   try {
     const { taskId } = await params;
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient();
     const response = await client.deleteTask(taskId);
 
+    invalidateOwnerTasks();
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error deleting task:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to delete task' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to delete task');
   }
 }
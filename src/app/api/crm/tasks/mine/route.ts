@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { getActingUser } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { getCortexClient } from '@/lib/cortex-client';
+import { getOwnerTasks } from '@/lib/my-tasks';
+import type { MyTasksResponse } from '@/types/cortex';
+
+/**
+ * GET /api/crm/tasks/mine
+ * Get the logged-in user's HubSpot tasks across their leads.
+ *
+ * The user is matched to a HubSpot owner and an SDR profile by email. Tasks are
+ * collected from the conversations assigned to that SDR (or the most recent
+ * conversations when the user isn't an SDR) and filtered to the owner. Users
+ * without a HubSpot owner get an empty list. Results are cached for a few
+ * minutes (see lib/my-tasks.ts).
+ *
+ * Query params:
+ * - include_completed: "true" to include completed tasks
+ * - refresh: "true" to collect the tasks again instead of using the cache
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const includeCompleted = searchParams.get('include_completed') === 'true';
+    const refresh = searchParams.get('refresh') === 'true';
+
+    const actingUser = await getActingUser();
+    if (!actingUser) {
+      return NextResponse.json({ error: 'Unauthorized - Invalid or expired session' }, { status: 401 });
+    }
+    const client = getCortexClient().forUser(actingUser);
+    const email = actingUser.email.toLowerCase();
+
+    const [{ owners }, agents] = await Promise.all([
+      client.withOptions({ signal: request.signal }).getHubSpotOwners(),
+      client.withOptions({ signal: request.signal }).listSDRAgents(true),
+    ]);
+    const owner = owners.find((o) => o.email?.toLowerCase() === email) ?? null;
+    const sdr = agents.find((agent) => agent.email.toLowerCase() === email) ?? null;
+
+    // Tasks are matched by HubSpot owner, so there is nothing to show without one
+    if (!owner) {
+      const empty: MyTasksResponse = {
+        owner_id: null,
+        sdr_id: sdr?.id ?? null,
+        tasks: [],
+        total_count: 0,
+        conversations_scanned: 0,
+        truncated: false,
+        failed_conversations: 0,
+        collected_at: null,
+      };
+      return NextResponse.json(empty);
+    }
+
+    const collected = await getOwnerTasks(client, owner.id, sdr?.id ?? null, { refresh });
+
+    const tasks = collected.tasks
+      .filter((task) => includeCompleted || task.status !== 'COMPLETED')
+      // Soonest due first, undated tasks last
+      .sort((a, b) => {
+        if (!a.due_date) return b.due_date ? 1 : 0;
+        if (!b.due_date) return -1;
+        return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
+      });
+
+    const response: MyTasksResponse = {
+      owner_id: owner.id,
+      sdr_id: sdr?.id ?? null,
+      tasks,
+      total_count: tasks.length,
+      conversations_scanned: collected.conversations_scanned,
+      truncated: collected.truncated,
+      failed_conversations: collected.failed_conversations,
+      collected_at: collected.collected_at,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching my tasks:', error);
+    return toErrorResponse(error, 'Failed to fetch tasks');
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { invalidateOwnerTasks } from '@/lib/my-tasks';
 
 /**
  * GET /api/crm/tasks
@@ -19,7 +21,7 @@ export async function GET(request: Request) {
       );
     }
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
     const response = await client.getTasks({
       phone: phone || undefined,
       external_id: externalId || undefined,
@@ -29,10 +31,7 @@ export async function GET(request: Request) {
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error fetching tasks:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch tasks' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch tasks');
   }
 }
 
@@ -63,7 +62,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient();
     const response = await client.createTask(
       {
         phone: phone || undefined,
@@ -78,12 +77,10 @@ export async function POST(request: Request) {
       }
     );
 
+    invalidateOwnerTasks();
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error creating task:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to create task' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to create task');
   }
 }
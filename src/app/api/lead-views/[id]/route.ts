@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getActingUser } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { deleteLeadView } from '@/lib/lead-view-store';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/lead-views/[id]
+ * Delete one of the logged-in user's saved views
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const actingUser = await getActingUser();
+    if (!actingUser) {
+      return NextResponse.json({ error: 'Unauthorized - Invalid or expired session' }, { status: 401 });
+    }
+
+    const deleted = await deleteLeadView(actingUser.id, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting lead view:', error);
+    return toErrorResponse(error, 'Failed to delete view');
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getActingUser } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { leadFiltersToSearchParams, parseLeadFilters, type LeadFilters } from '@/lib/lead-filters';
+import { listLeadViews, saveLeadView } from '@/lib/lead-view-store';
+
+const MAX_VIEW_NAME_LENGTH = 100;
+
+/**
+ * GET /api/lead-views
+ * List the logged-in user's saved inbox views
+ */
+export async function GET() {
+  try {
+    const actingUser = await getActingUser();
+    if (!actingUser) {
+      return NextResponse.json({ error: 'Unauthorized - Invalid or expired session' }, { status: 401 });
+    }
+
+    const views = await listLeadViews(actingUser.id);
+    return NextResponse.json({ views });
+  } catch (error) {
+    console.error('Error fetching lead views:', error);
+    return toErrorResponse(error, 'Failed to fetch saved views');
+  }
+}
+
+/**
+ * POST /api/lead-views
+ * Save the current filters as a view; an existing view with the same name is replaced
+ * Body: { name, filters }
+ */
+export async function POST(request: Request) {
+  try {
+    const actingUser = await getActingUser();
+    if (!actingUser) {
+      return NextResponse.json({ error: 'Unauthorized - Invalid or expired session' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_VIEW_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `name is required and can be at most ${MAX_VIEW_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    if (!body.filters || typeof body.filters !== 'object') {
+      return NextResponse.json({ error: 'filters is required' }, { status: 400 });
+    }
+
+    // Round-trip through URL params to keep only known, valid filters
+    const filters = parseLeadFilters(leadFiltersToSearchParams(body.filters as LeadFilters));
+    const view = await saveLeadView(actingUser.id, name, filters);
+
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    console.error('Error saving lead view:', error);
+    return toErrorResponse(error, 'Failed to save view');
+  }
+}
@@ -1,12 +1,23 @@
 import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { getErrorStatus } from '@/lib/api-errors';
+import { CortexAPIError } from '@/lib/cortex-client';
 
-const CORTEX_API_URL = process.env.CORTEX_API_URL;
-const CORTEX_API_KEY = process.env.CORTEX_API_KEY;
-
-function getAuthHeaders() {
+/**
+ * Status and error_code for a failed company intelligence call
+ */
+function getFailure(error: unknown, fallbackMessage: string) {
+  if (error instanceof CortexAPIError) {
+    return {
+      error: error.message || fallbackMessage,
+      error_code: error.errorCode,
+      status: getErrorStatus(error),
+    };
+  }
   return {
-    'Content-Type': 'application/json',
-    Authorization: `Bearer ${CORTEX_API_KEY}`,
+    error: error instanceof Error ? error.message : fallbackMessage,
+    error_code: undefined,
+    status: 500,
   };
 }
 
@@ -27,46 +38,24 @@ export async function GET(
     const { searchParams } = new URL(request.url);
     const phone = searchParams.get('phone');
 
-    const headers = getAuthHeaders();
-
     // Use phone if provided, otherwise use client_id
-    const identifier = phone || id;
-    const identifier_type = phone ? 'phone' : 'client_id';
-
-    const queryParams = new URLSearchParams({
-      identifier,
-      identifier_type,
-    });
-
-    const response = await fetch(
-      `${CORTEX_API_URL}/sales/company-intelligence?${queryParams}`,
-      { headers }
+    const client = await getUserCortexClient({ signal: request.signal });
+    const data = await client.getCompanyIntelligence(
+      phone || id,
+      phone ? 'phone' : 'client_id'
     );
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to check company intelligence' }));
-      return NextResponse.json(
-        {
-          exists: false,
-          status: 'failed',
-          error: errorData.error || errorData.detail || errorData.message || 'Failed to check company intelligence',
-          error_code: errorData.error_code
-        },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error checking company intelligence:', error);
+    const { status, ...failure } = getFailure(error, 'Failed to check company intelligence');
     return NextResponse.json(
       {
         exists: false,
         status: 'failed',
-        error: error instanceof Error ? error.message : 'Failed to check company intelligence'
+        ...failure,
       },
-      { status: 500 }
+      { status }
     );
   }
 }
@@ -85,44 +74,24 @@ export async function POST(
     const body = await request.json().catch(() => ({}));
     const { refresh = false, phone } = body;
 
-    const headers = getAuthHeaders();
-
     // Use phone if provided, otherwise use client_id
-    const identifier = phone || id;
-    const identifier_type = phone ? 'phone' : 'client_id';
-
-    const response = await fetch(`${CORTEX_API_URL}/sales/company-intelligence`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        identifier,
-        identifier_type,
-        refresh,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to generate company intelligence' }));
-      return NextResponse.json(
-        {
-          success: false,
-          error: errorData.error || errorData.detail || errorData.message || 'Failed to generate company intelligence',
-          error_code: errorData.error_code
-        },
-        { status: response.status }
-      );
-    }
+    const client = await getUserCortexClient();
+    const data = await client.generateCompanyIntelligence(
+      phone || id,
+      phone ? 'phone' : 'client_id',
+      refresh
+    );
 
-    const data = await response.json();
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error generating company intelligence:', error);
+    const { status, ...failure } = getFailure(error, 'Failed to generate company intelligence');
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to generate company intelligence'
+        ...failure,
       },
-      { status: 500 }
+      { status }
     );
   }
 }
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import type { UpdateDealRequest } from '@/types/cortex';
 
 interface RouteParams {
   params: Promise<{
@@ -14,7 +16,7 @@ interface RouteParams {
 export async function GET(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
 
     // Determine if ID is internal (numeric) or external (string)
     const isNumeric = /^\d+$/.test(id);
@@ -44,9 +46,97 @@ export async function GET(request: Request, { params }: RouteParams) {
     });
   } catch (error) {
     console.error('Error fetching CRM data:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch CRM data' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch CRM data');
+  }
+}
+
+/**
+ * Pick the editable deal properties from a request body.
+ * Returns an error message when the body isn't an object or a value is invalid.
+ */
+function parseDealUpdate(input: unknown): { updates: UpdateDealRequest } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+  const body = input as Record<string, unknown>;
+  const updates: UpdateDealRequest = {};
+
+  if (body.dealstage !== undefined) {
+    if (typeof body.dealstage !== 'string' || !body.dealstage) {
+      return { error: 'dealstage must be a stage ID' };
+    }
+    updates.dealstage = body.dealstage;
+  }
+  if (body.pipeline !== undefined) {
+    if (typeof body.pipeline !== 'string' || !body.pipeline) {
+      return { error: 'pipeline must be a pipeline ID' };
+    }
+    updates.pipeline = body.pipeline;
+  }
+  if (body.amount !== undefined) {
+    if (body.amount !== null && (typeof body.amount !== 'number' || !Number.isFinite(body.amount) || body.amount < 0)) {
+      return { error: 'amount must be a non-negative number' };
+    }
+    updates.amount = body.amount;
+  }
+  if (body.closedate !== undefined) {
+    if (body.closedate !== null && (typeof body.closedate !== 'string' || Number.isNaN(Date.parse(body.closedate)))) {
+      return { error: 'closedate must be a date' };
+    }
+    updates.closedate = body.closedate;
+  }
+  if (body.hs_next_step !== undefined) {
+    if (body.hs_next_step !== null && typeof body.hs_next_step !== 'string') {
+      return { error: 'hs_next_step must be text' };
+    }
+    updates.hs_next_step = body.hs_next_step ? body.hs_next_step.trim() || null : null;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return { error: 'No deal properties to update' };
+  }
+  return { updates };
+}
+
+/**
+ * PATCH /api/leads/[id]/crm
+ * Update the lead's HubSpot deal: stage, amount, close date or next step
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    // Malformed JSON is rejected like any other invalid body
+    const parsed = parseDealUpdate(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const client = await getUserCortexClient();
+
+    const isNumeric = /^\d+$/.test(id);
+    const idParams = isNumeric ? { internal_id: parseInt(id, 10) } : { external_id: id };
+
+    // Only the deal associated with this lead can be edited here
+    const { deal } = await client.getDeal(idParams);
+    if (!deal) {
+      return NextResponse.json({ error: 'This lead has no deal' }, { status: 404 });
+    }
+
+    const response = await client.updateDeal(deal.id, parsed.updates);
+    if (!response.success) {
+      // HubSpot rejected the update through Cortex: an upstream failure, like other Cortex errors
+      return NextResponse.json(
+        { error: response.error || 'Failed to update deal', code: 'upstream' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      deal: response.deal ?? { ...deal, ...parsed.updates },
+      updated_properties: response.updated_properties ?? Object.keys(parsed.updates),
+    });
+  } catch (error) {
+    console.error('Error updating deal:', error);
+    return toErrorResponse(error, 'Failed to update deal');
   }
 }
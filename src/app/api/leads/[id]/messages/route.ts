@@ -1,5 +1,11 @@
 import { NextResponse } from 'next/server';
+import { getActingUser, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 import { getCortexClient } from '@/lib/cortex-client';
+import { paginateMessages, DEFAULT_MESSAGE_PAGE_SIZE } from '@/lib/messages';
+import { getConversationThread, invalidateConversationThread } from '@/lib/thread-cache';
+import { isOutboundMediaType, MAX_CAPTION_LENGTH, supportsCaption } from '@/lib/whatsapp-media';
+import type { MessagePage, MessageSentResponse } from '@/types/cortex';
 
 interface RouteParams {
   params: Promise<{
@@ -9,63 +15,88 @@ interface RouteParams {
 
 /**
  * GET /api/leads/[id]/messages
- * Get all messages for a conversation
+ * Get a page of messages for a conversation, oldest first
+ *
+ * Query params:
+ * - limit: page size (default 50, max 200)
+ * - cursor: message ID; returns the messages before it (older history)
+ * - since: message ID; returns only the messages after it (incremental polling)
  */
 export async function GET(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const client = getCortexClient();
-
-    // Determine if ID is internal (numeric) or external (string)
-    const isNumeric = /^\d+$/.test(id);
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '', 10);
+    const actingUser = await getActingUser();
+    if (!actingUser) {
+      return NextResponse.json({ error: 'Unauthorized - Invalid or expired session' }, { status: 401 });
+    }
 
-    const conversation = await client.getConversation(
-      isNumeric ? { internal_id: parseInt(id, 10) } : { external_id: id }
+    // Cortex only returns whole threads, so polls within a few seconds share one fetch
+    const { conversation, messages } = await getConversationThread(
+      getCortexClient().forUser(actingUser),
+      actingUser.id,
+      id
     );
+    const page = paginateMessages(messages, {
+      cursor: searchParams.get('cursor'),
+      since: searchParams.get('since'),
+      limit: Number.isNaN(limit) ? DEFAULT_MESSAGE_PAGE_SIZE : limit,
+    });
 
-    // Transform messages to frontend format
-    const messages = conversation.conversation.map((msg, index) => ({
-      id: `${conversation.id}-${index}`,
-      role: msg.role,
-      content: msg.content,
-      direction: msg.role === 'user' ? 'inbound' : 'outbound',
-      createdAt: conversation.created_at, // Messages don't have individual timestamps in Cortex
-      metadata: msg.metadata,
-    }));
-
-    return NextResponse.json({
-      messages,
+    const response: MessagePage = {
+      ...page,
+      total: messages.length,
+      user_messages_count: messages.filter((msg) => msg.role === 'user').length,
       conversation_id: conversation.id,
       external_id: conversation.external_id,
-      client_data: conversation.client_data,
-    });
+    };
+
+    return NextResponse.json(response);
   } catch (error) {
     console.error('Error fetching messages:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch messages' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch messages');
   }
 }
 
 /**
  * POST /api/leads/[id]/messages
  * Send a message as the assistant (manual takeover)
+ *
+ * Body: { message, media? }
+ * - media: { media_id, type, filename? } from POST /api/media/upload; `message`
+ *   becomes its caption, or a separate text message for audio
  */
 export async function POST(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
     const body = await request.json();
-    const { message } = body;
+    const { message, media } = body;
 
-    if (!message || typeof message !== 'string') {
+    if (media !== undefined) {
+      if (!media || typeof media.media_id !== 'string' || !media.media_id || !isOutboundMediaType(media.type)) {
+        return NextResponse.json(
+          { error: 'media requires a media_id and a type of image, video, audio or document' },
+          { status: 400 }
+        );
+      }
+      if (message !== undefined && message !== null && typeof message !== 'string') {
+        return NextResponse.json({ error: 'Message must be text' }, { status: 400 });
+      }
+      if (typeof message === 'string' && supportsCaption(media.type) && message.length > MAX_CAPTION_LENGTH) {
+        return NextResponse.json(
+          { error: `Captions can be at most ${MAX_CAPTION_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    } else if (!message || typeof message !== 'string') {
       return NextResponse.json(
         { error: 'Message is required' },
         { status: 400 }
       );
     }
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient();
 
     // Get conversation to retrieve phone number
     const isNumeric = /^\d+$/.test(id);
@@ -81,18 +112,35 @@ export async function POST(request: Request, { params }: RouteParams) {
       );
     }
 
-    // Send message via WhatsApp as the assistant
-    const response = await client.sendTextMessage({
+    if (!media) {
+      // Send message via WhatsApp as the assistant
+      const response = await client.sendTextMessage({
+        phone,
+        message,
+      });
+
+      invalidateConversationThread(id, conversation.id, conversation.external_id);
+      return NextResponse.json(response);
+    }
+
+    const text = typeof message === 'string' ? message.trim() : '';
+    const withCaption = supportsCaption(media.type);
+    const response: MessageSentResponse = await client.sendMediaMessage({
       phone,
-      message,
+      type: media.type,
+      media_id: media.media_id,
+      caption: withCaption && text ? text : undefined,
+      filename: media.type === 'document' && typeof media.filename === 'string' ? media.filename : undefined,
     });
 
+    if (!withCaption && text) {
+      await client.sendTextMessage({ phone, message: text });
+    }
+
+    invalidateConversationThread(id, conversation.id, conversation.external_id);
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error sending message:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to send message' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to send message');
   }
 }
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * GET /api/leads/[id]/owner
+ * Get the HubSpot owner assigned to a lead
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const client = await getUserCortexClient({ signal: request.signal });
+    const isNumeric = /^\d+$/.test(id);
+    const response = await client.getAssignedOwner(
+      isNumeric ? { internal_id: parseInt(id, 10) } : { external_id: id }
+    );
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching lead owner:', error);
+    return toErrorResponse(error, 'Failed to fetch lead owner');
+  }
+}
+
+/**
+ * POST /api/leads/[id]/owner
+ * Reassign a lead's HubSpot contact to another owner
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { owner_id: ownerId, phone } = body;
+
+    if (!ownerId || typeof ownerId !== 'string') {
+      return NextResponse.json(
+        { error: 'owner_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const client = await getUserCortexClient();
+    const isNumeric = /^\d+$/.test(id);
+    const response = await client.changeOwner(
+      phone ? { phone } : isNumeric ? { internal_id: parseInt(id, 10) } : { external_id: id },
+      ownerId
+    );
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error changing lead owner:', error);
+    return toErrorResponse(error, 'Failed to change lead owner');
+  }
+}
@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
+import { getActingUser, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 import { getCortexClient } from '@/lib/cortex-client';
+import { getConversationThread } from '@/lib/thread-cache';
 
 interface RouteParams {
   params: Promise<{
@@ -10,17 +13,27 @@ interface RouteParams {
 /**
  * GET /api/leads/[id]
  * Get a single lead/conversation with all messages
+ * Pass ?messages=false to leave out the thread (loaded from /api/leads/[id]/messages instead)
  */
 export async function GET(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const client = getCortexClient();
+    const { searchParams } = new URL(request.url);
+    const includeMessages = searchParams.get('messages') !== 'false';
+    const actingUser = await getActingUser();
+    if (!actingUser) {
+      return NextResponse.json({ error: 'Unauthorized - Invalid or expired session' }, { status: 401 });
+    }
+    const client = getCortexClient().forUser(actingUser).withOptions({ signal: request.signal });
 
     // Determine if ID is internal (numeric) or external (string)
     const isNumeric = /^\d+$/.test(id);
 
-    const conversation = await client.getConversation(
-      isNumeric ? { internal_id: parseInt(id, 10) } : { external_id: id }
+    // Shares the thread fetch with the messages route
+    const { conversation, messages } = await getConversationThread(
+      getCortexClient().forUser(actingUser),
+      actingUser.id,
+      id
     );
 
     // Get agent status for this lead
@@ -46,15 +59,13 @@ export async function GET(request: Request, { params }: RouteParams) {
 
     return NextResponse.json({
       ...conversation,
+      conversation: includeMessages ? messages : undefined,
       agent_status: agentStatus,
       meetings,
     });
   } catch (error) {
     console.error('Error fetching lead:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch lead' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch lead');
   }
 }
 
@@ -65,16 +76,13 @@ export async function GET(request: Request, { params }: RouteParams) {
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const client = getCortexClient();
+    const client = await getUserCortexClient();
 
     await client.deleteConversation(id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting lead:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to delete lead' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to delete lead');
   }
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 interface RouteParams {
   params: Promise<{
@@ -14,7 +15,7 @@ interface RouteParams {
 export async function GET(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
 
     // Determine if ID is internal (numeric) or external (string)
     const isNumeric = /^\d+$/.test(id);
@@ -26,9 +27,6 @@ export async function GET(request: Request, { params }: RouteParams) {
     return NextResponse.json(summary);
   } catch (error) {
     console.error('Error fetching conversation summary:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch summary' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch summary');
   }
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 interface RouteParams {
   params: Promise<{
@@ -24,7 +25,7 @@ export async function POST(request: Request, { params }: RouteParams) {
       );
     }
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient();
 
     // If phone is not provided, we need to fetch the conversation first
     let phoneNumber = phone;
@@ -51,10 +52,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error toggling agent:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to toggle agent' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to toggle agent');
   }
 }
 
@@ -68,7 +66,7 @@ export async function GET(request: Request, { params }: RouteParams) {
     const { searchParams } = new URL(request.url);
     let phone = searchParams.get('phone');
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
 
     // If phone is not provided, fetch the conversation first
     if (!phone) {
@@ -91,9 +89,6 @@ export async function GET(request: Request, { params }: RouteParams) {
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error getting agent status:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to get agent status' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to get agent status');
   }
 }
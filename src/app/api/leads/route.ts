@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
 import type { ConversationSearchItem, LeadStatus } from '@/types/cortex';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/leads
@@ -9,7 +10,7 @@ import type { ConversationSearchItem, LeadStatus } from '@/types/cortex';
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
 
     // Search parameters
     const q = searchParams.get('q') || undefined;
@@ -22,6 +23,9 @@ export async function GET(request: Request) {
     const windowStatus = searchParams.get('window_status') || undefined;
     const assignedSdrIdParam = searchParams.get('assigned_sdr_id');
     const assignedSdrId = assignedSdrIdParam ? parseInt(assignedSdrIdParam, 10) : undefined;
+    const qualification = searchParams.get('qualification') || undefined;
+    const dealStage = searchParams.get('deal_stage') || undefined;
+    const dealPipeline = searchParams.get('deal_pipeline') || undefined;
 
     // Build search params - use lead_status directly for API filtering
     const searchPayload: {
@@ -31,6 +35,9 @@ export async function GET(request: Request) {
       date_to?: string;
       window_status?: string;
       assigned_sdr_id?: number;
+      qualification?: string;
+      deal_stage?: string;
+      deal_pipeline?: string;
       cursor?: string;
       limit?: number;
     } = {
@@ -41,6 +48,9 @@ export async function GET(request: Request) {
       date_to: dateTo,
       window_status: windowStatus,
       assigned_sdr_id: assignedSdrId,
+      qualification,
+      deal_stage: dealStage,
+      deal_pipeline: dealPipeline,
     };
 
     // Only add lead_status if not 'all'
@@ -63,6 +73,7 @@ export async function GET(request: Request) {
       qualification: item.qualification,
       has_meeting: item.has_meeting,
       deal_stage: item.deal_stage,
+      deal_pipeline: item.deal_pipeline,
       client_id: item.client_id,
       client_name: item.client_name,
       client_email: item.client_email,
@@ -84,10 +95,7 @@ export async function GET(request: Request) {
     });
   } catch (error) {
     console.error('Error fetching leads:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch leads' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch leads');
   }
 }
 
@@ -0,0 +1,251 @@
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { cacheMedia, getCachedMedia, isCacheableMediaSize, type CachedMedia } from '@/lib/media-cache';
+import type { MediaDownload } from '@/types/cortex';
+
+interface RouteParams {
+  params: Promise<{
+    mediaId: string;
+  }>;
+}
+
+// WhatsApp media IDs are numeric; the wider pattern also keeps IDs safe as file names
+const MEDIA_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+// Large videos and documents take longer than the default Cortex timeout
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+
+type ByteRange = { start: number; end: number };
+
+/**
+ * Parse a single-range `Range: bytes=...` header.
+ * Returns null to serve the whole file and 'invalid' when the range can't be satisfied.
+ */
+function parseRange(header: string | null, size: number): ByteRange | null | 'invalid' {
+  if (!header) return null;
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  // Multiple ranges and other units aren't supported; fall back to the whole file
+  if (!match) return null;
+
+  const [, startText, endText] = match;
+  if (!startText && !endText) return 'invalid';
+
+  let start: number;
+  let end: number;
+  if (!startText) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(endText, 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(startText, 10);
+    end = endText ? Math.min(parseInt(endText, 10), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return 'invalid';
+  return { start, end };
+}
+
+// Types safe to render in the browser. Inbound media comes from leads, so
+// anything else (HTML, SVG, ...) is downloaded instead of displayed.
+const INLINE_CONTENT_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'audio/aac',
+  'audio/amr',
+  'audio/mp4',
+  'audio/mpeg',
+  'audio/ogg',
+  'audio/wav',
+  'video/3gpp',
+  'video/mp4',
+  'video/webm',
+  'application/pdf',
+]);
+
+function isInlineContentType(contentType: string): boolean {
+  return INLINE_CONTENT_TYPES.has(contentType.split(';')[0].trim().toLowerCase());
+}
+
+function buildHeaders(contentType: string, filename: string | null, length: number): Headers {
+  const headers = new Headers({
+    'Content-Type': contentType,
+    'Content-Length': String(length),
+    'Accept-Ranges': 'bytes',
+    // Media IDs always point to the same file; keep it out of shared caches
+    'Cache-Control': 'private, max-age=86400, immutable',
+    // Never let the browser guess a more dangerous type or run scripts in the file
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': 'sandbox',
+  });
+
+  const disposition = isInlineContentType(contentType) ? 'inline' : 'attachment';
+  headers.set(
+    'Content-Disposition',
+    filename ? `${disposition}; filename*=UTF-8''${encodeURIComponent(filename)}` : disposition
+  );
+  return headers;
+}
+
+/**
+ * Build a full or partial (206) response for `size` bytes, read by `read`
+ */
+function buildMediaResponse(
+  request: Request,
+  media: { size: number; content_type: string; filename: string | null },
+  read: (range: ByteRange) => BodyInit
+): Response {
+  const range = parseRange(request.headers.get('Range'), media.size);
+
+  if (range === 'invalid') {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${media.size}`, 'Accept-Ranges': 'bytes' },
+    });
+  }
+
+  if (!range) {
+    const headers = buildHeaders(media.content_type, media.filename, media.size);
+    const body = media.size > 0 ? read({ start: 0, end: media.size - 1 }) : null;
+    return new Response(body, { status: 200, headers });
+  }
+
+  const headers = buildHeaders(media.content_type, media.filename, range.end - range.start + 1);
+  headers.set('Content-Range', `bytes ${range.start}-${range.end}/${media.size}`);
+  return new Response(read(range), { status: 206, headers });
+}
+
+// Downloads being written to the cache, so concurrent requests (e.g. a
+// player's seeks) wait for one download instead of starting their own
+const pendingCaches = new Map<string, Promise<CachedMedia>>();
+
+function trackCache(mediaId: string, caching: Promise<CachedMedia>): void {
+  pendingCaches.set(mediaId, caching);
+  caching
+    .catch((error) => {
+      // The file was still served; it will be downloaded again next time
+      console.error('Error caching media:', error);
+    })
+    .finally(() => pendingCaches.delete(mediaId));
+}
+
+function serveCachedMedia(request: Request, cached: CachedMedia): Response {
+  return buildMediaResponse(request, cached, ({ start, end }) =>
+    Readable.toWeb(createReadStream(cached.file, { start, end })) as ReadableStream<Uint8Array>
+  );
+}
+
+/**
+ * Pass through only bytes `start` to `end` of a streamed file, cancelling
+ * the source once the range has been sent
+ */
+function sliceStream(body: ReadableStream<Uint8Array>, { start, end }: ByteRange): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        const chunkStart = offset;
+        offset += chunk.length;
+        if (offset > start && chunkStart <= end) {
+          controller.enqueue(chunk.subarray(Math.max(start - chunkStart, 0), Math.min(end - chunkStart + 1, chunk.length)));
+        }
+        if (offset > end) controller.terminate();
+      },
+    })
+  );
+}
+
+/**
+ * Serve a download that is still streaming in. Ranges are cut from the
+ * stream when Cortex sent the whole file.
+ */
+function serveDownload(request: Request, download: MediaDownload, contentType: string): Response {
+  if (download.range && download.size !== null) {
+    // Cortex answered the Range request itself
+    const { start, end } = download.range;
+    const headers = buildHeaders(contentType, download.filename, end - start + 1);
+    headers.set('Content-Range', `bytes ${start}-${end}/${download.size}`);
+    return new Response(download.body, { status: 206, headers });
+  }
+
+  if (download.size === null) {
+    const headers = buildHeaders(contentType, download.filename, 0);
+    headers.delete('Content-Length');
+    headers.delete('Accept-Ranges');
+    return new Response(download.body, { status: 200, headers });
+  }
+
+  const { size } = download;
+  let bodyUsed = false;
+  const response = buildMediaResponse(
+    request,
+    { size, content_type: contentType, filename: download.filename },
+    (range) => {
+      bodyUsed = true;
+      return range.start === 0 && range.end === size - 1 ? download.body : sliceStream(download.body, range);
+    }
+  );
+  if (!bodyUsed) download.body.cancel().catch(() => undefined);
+  return response;
+}
+
+/**
+ * GET /api/media/[mediaId]
+ * Proxy WhatsApp media through Cortex, with a disk cache and HTTP Range support
+ * so audio and video can seek. Downloads are streamed to the browser while
+ * they are written to the cache; later requests, ranges included, are served
+ * from disk.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { mediaId } = await params;
+    if (!MEDIA_ID_PATTERN.test(mediaId)) {
+      return NextResponse.json({ error: 'Invalid media ID' }, { status: 400 });
+    }
+
+    // Resolve the session first so cached files are never served without one
+    const client = await getUserCortexClient({ signal: request.signal, timeoutMs: DOWNLOAD_TIMEOUT_MS });
+
+    const pending = pendingCaches.get(mediaId);
+    const cached = pending ? await pending.catch(() => null) : await getCachedMedia(mediaId);
+    if (cached) {
+      return serveCachedMedia(request, cached);
+    }
+
+    const download = await client.downloadMedia(mediaId, request.headers.get('Range'));
+    const contentType = download.content_type || DEFAULT_CONTENT_TYPE;
+
+    const { size } = download;
+    if (size === null || !isCacheableMediaSize(size)) {
+      return serveDownload(request, download, contentType);
+    }
+
+    if (download.range) {
+      // Cortex sent only part of the file; fetch the whole of it for the cache
+      // separately, without this request's signal so it outlives the response
+      const cacheClient = await getUserCortexClient({ timeoutMs: DOWNLOAD_TIMEOUT_MS });
+      trackCache(
+        mediaId,
+        cacheClient
+          .downloadMedia(mediaId)
+          .then((full) => cacheMedia(mediaId, full.body, contentType, download.filename, size))
+      );
+      return serveDownload(request, download, contentType);
+    }
+
+    // The cache copy keeps downloading even if the browser goes away
+    const [toClient, toCache] = download.body.tee();
+    trackCache(mediaId, cacheMedia(mediaId, toCache, contentType, download.filename, size));
+    return serveDownload(request, { ...download, body: toClient }, contentType);
+  } catch (error) {
+    console.error('Error fetching media:', error);
+    return toErrorResponse(error, 'Failed to fetch media');
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { validateMediaFile } from '@/lib/whatsapp-media';
+
+// Large videos and documents take longer than the default Cortex timeout
+const UPLOAD_TIMEOUT_MS = 60_000;
+
+/**
+ * POST /api/media/upload
+ * Upload a file to WhatsApp for sending as a media message
+ * Body (multipart/form-data): { file }
+ */
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateMediaFile(file);
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const client = await getUserCortexClient({ timeoutMs: UPLOAD_TIMEOUT_MS });
+    const data = await client.uploadMedia(file);
+
+    return NextResponse.json({
+      ...data,
+      type: validation.type,
+      mime_type: data.mime_type ?? file.type,
+      filename: data.filename ?? file.name,
+      size: data.size ?? file.size,
+    });
+  } catch (error) {
+    console.error('Error uploading media:', error);
+    return toErrorResponse(error, 'Failed to upload media');
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { normalizeMessages } from '@/lib/messages';
+
+interface RouteParams {
+  params: Promise<{
+    conversationId: string;
+  }>;
+}
+
+/**
+ * GET /api/messages/[conversationId]
+ * Get messages for a conversation in the format used by MessageView
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { conversationId } = await params;
+    const client = await getUserCortexClient({ signal: request.signal });
+
+    // Determine if ID is internal (numeric) or external (string)
+    const isNumeric = /^\d+$/.test(conversationId);
+    const conversation = await client.getConversation(
+      isNumeric ? { internal_id: parseInt(conversationId, 10) } : { external_id: conversationId }
+    );
+
+    const phoneNumber = conversation.client_data?.phone || '';
+
+    const messages = normalizeMessages(conversation)
+      .filter((msg) => msg.role !== 'system')
+      .map((msg) => {
+        const media = msg.metadata?.media;
+        const mediaId = typeof msg.metadata?.media_id === 'string' ? msg.metadata.media_id : undefined;
+
+        return {
+          id: msg.id,
+          direction: msg.role === 'user' ? 'inbound' : 'outbound',
+          content: msg.content,
+          createdAt: msg.created_at,
+          status: msg.status,
+          error: msg.error,
+          phoneNumber,
+          hasMedia: !!media,
+          mediaData: media?.url
+            ? { url: media.url, contentType: media.mime_type, filename: media.filename }
+            : undefined,
+          filename: media?.filename ?? null,
+          mimeType: media?.mime_type ?? null,
+          messageType: msg.metadata?.message_type || media?.type || 'text',
+          caption: media?.caption ?? null,
+          metadata: {
+            ...msg.metadata,
+            mediaId,
+            caption: media?.caption,
+          },
+        };
+      });
+
+    return NextResponse.json({ data: messages });
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    return toErrorResponse(error, 'Failed to fetch messages');
+  }
+}
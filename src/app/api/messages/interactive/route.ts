@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import type { InteractiveButton } from '@/types/cortex';
+
+// WhatsApp limits for reply-button messages
+const MAX_BUTTONS = 3;
+const MAX_BUTTON_TITLE_LENGTH = 20;
+const MAX_HEADER_LENGTH = 60;
+const MAX_BODY_LENGTH = 1024;
+
+/**
+ * POST /api/messages/interactive
+ * Send an interactive message with reply buttons
+ * Body: { phoneNumber, body, buttons: [{ id, title }], header?, conversationId? }
+ */
+export async function POST(request: Request) {
+  try {
+    const { phoneNumber, header, body, buttons } = await request.json();
+
+    if (!phoneNumber || !body) {
+      return NextResponse.json(
+        { error: 'Missing required fields: phoneNumber, body' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(buttons) || buttons.length === 0 || buttons.length > MAX_BUTTONS) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_BUTTONS} buttons are required` },
+        { status: 400 }
+      );
+    }
+
+    const invalidButton = (buttons as InteractiveButton[]).find(
+      (btn) => !btn?.id || !btn.title?.trim() || btn.title.length > MAX_BUTTON_TITLE_LENGTH
+    );
+    if (invalidButton) {
+      return NextResponse.json(
+        { error: `Each button needs an id and a title of at most ${MAX_BUTTON_TITLE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (body.length > MAX_BODY_LENGTH || (header && header.length > MAX_HEADER_LENGTH)) {
+      return NextResponse.json(
+        { error: `Header must be at most ${MAX_HEADER_LENGTH} and body at most ${MAX_BODY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const client = await getUserCortexClient();
+    const response = await client.sendInteractiveButtons({
+      phone: phoneNumber,
+      body,
+      header: header || undefined,
+      buttons: (buttons as InteractiveButton[]).map((btn) => ({
+        id: btn.id,
+        title: btn.title.trim(),
+      })),
+    });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error sending interactive message:', error);
+    return toErrorResponse(error, 'Failed to send interactive message');
+  }
+}
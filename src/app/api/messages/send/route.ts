@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { MAX_CAPTION_LENGTH, supportsCaption, validateMediaFile } from '@/lib/whatsapp-media';
+
+// Large videos and documents take longer than the default Cortex timeout
+const UPLOAD_TIMEOUT_MS = 60_000;
+
+/**
+ * POST /api/messages/send
+ * Send a text or media message to a WhatsApp number
+ * Body (multipart/form-data or JSON): { to, body, file? }
+ * - file (multipart only): image, video, audio or document; `body` becomes its caption
+ */
+export async function POST(request: Request) {
+  try {
+    const contentType = request.headers.get('content-type') || '';
+
+    let to: string | null = null;
+    let body: string | null = null;
+    let file: File | null = null;
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      to = formData.get('to') as string | null;
+      body = formData.get('body') as string | null;
+      const upload = formData.get('file');
+      file = upload instanceof File ? upload : null;
+    } else {
+      const json = await request.json();
+      to = json.to ?? null;
+      body = json.body ?? null;
+    }
+
+    if (!to) {
+      return NextResponse.json(
+        { error: 'Missing required field: to' },
+        { status: 400 }
+      );
+    }
+
+    if (file) {
+      const validation = validateMediaFile(file);
+      if ('error' in validation) {
+        return NextResponse.json({ error: validation.error }, { status: 400 });
+      }
+
+      const caption = body?.trim() || '';
+      const withCaption = supportsCaption(validation.type);
+      if (withCaption && caption.length > MAX_CAPTION_LENGTH) {
+        return NextResponse.json(
+          { error: `Captions can be at most ${MAX_CAPTION_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+
+      const client = await getUserCortexClient({ timeoutMs: UPLOAD_TIMEOUT_MS });
+      const upload = await client.uploadMedia(file);
+      const response = await client.sendMediaMessage({
+        phone: to,
+        type: validation.type,
+        media_id: upload.media_id,
+        caption: withCaption && caption ? caption : undefined,
+        filename: validation.type === 'document' ? file.name : undefined,
+      });
+
+      // Audio can't carry a caption, so the text follows as its own message
+      if (!withCaption && caption) {
+        await client.sendTextMessage({ phone: to, message: caption });
+      }
+
+      return NextResponse.json(response);
+    }
+
+    if (!body || !body.trim()) {
+      return NextResponse.json(
+        { error: 'Message body is required' },
+        { status: 400 }
+      );
+    }
+
+    const client = await getUserCortexClient();
+    const response = await client.sendTextMessage({
+      phone: to,
+      message: body,
+    });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error sending message:', error);
+    return toErrorResponse(error, 'Failed to send message');
+  }
+}
@@ -1,16 +1,19 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
 import type { CRMMetricsResponse } from '@/types/cortex';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/metrics/crm
- * Get CRM funnel metrics data (both volume and conversion rates)
+ * Get CRM funnel metrics data (both volume and conversion rates),
+ * optionally limited to one deal pipeline via pipeline_id
  */
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
     const startDate = searchParams.get('start_date');
     const endDate = searchParams.get('end_date');
+    const pipelineId = searchParams.get('pipeline_id') || undefined;
 
     if (!startDate || !endDate) {
       return NextResponse.json(
@@ -19,12 +22,12 @@ export async function GET(request: Request) {
       );
     }
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
 
     // Fetch both endpoints in parallel for better performance
     const [volume, conversions] = await Promise.all([
-      client.getCRMFunnelVolume(startDate, endDate),
-      client.getCRMConversionRates(startDate, endDate),
+      client.getCRMFunnelVolume(startDate, endDate, pipelineId),
+      client.getCRMConversionRates(startDate, endDate, pipelineId),
     ]);
 
     const response: CRMMetricsResponse = {
@@ -35,9 +38,6 @@ export async function GET(request: Request) {
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error fetching CRM metrics:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch CRM metrics' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch CRM metrics');
   }
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/metrics
@@ -19,7 +20,7 @@ export async function GET(request: Request) {
       );
     }
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
 
     // Fetch different metrics based on type
     if (type === 'funnel') {
@@ -95,9 +96,6 @@ export async function GET(request: Request) {
     });
   } catch (error) {
     console.error('Error fetching metrics:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch metrics' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch metrics');
   }
 }
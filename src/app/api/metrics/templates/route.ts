@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getActingUser } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { getCortexClient } from '@/lib/cortex-client';
+import { getTemplateMetrics } from '@/lib/template-metrics';
+
+/**
+ * GET /api/metrics/templates
+ * Get per-template performance (sends, failures, replies, meetings, deal stages)
+ * for templates sent from this app, from the template send log and the leads'
+ * conversations, meetings and deals. Results are cached for a few minutes
+ * (see lib/template-metrics.ts).
+ *
+ * Query params:
+ * - start_date, end_date: YYYY-MM-DD, inclusive
+ * - template_name, language (optional): one template, with its daily breakdown and meetings
+ * - refresh: "true" to collect the outcomes again instead of using the cache
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    const templateName = searchParams.get('template_name');
+
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'start_date and end_date are required' },
+        { status: 400 }
+      );
+    }
+
+    const actingUser = await getActingUser();
+    if (!actingUser) {
+      return NextResponse.json({ error: 'Unauthorized - Invalid or expired session' }, { status: 401 });
+    }
+
+    const data = await getTemplateMetrics(getCortexClient().forUser(actingUser), actingUser.id, startDate, endDate, {
+      template: templateName
+        ? { template_name: templateName, language: searchParams.get('language') || '' }
+        : undefined,
+      refresh: searchParams.get('refresh') === 'true',
+    });
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error fetching template metrics:', error);
+    return toErrorResponse(error, 'Failed to fetch template metrics');
+  }
+}
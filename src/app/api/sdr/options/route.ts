@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/sdr/options
@@ -7,15 +8,12 @@ import { getCortexClient } from '@/lib/cortex-client';
  */
 export async function GET() {
   try {
-    const client = getCortexClient();
+    const client = await getUserCortexClient();
     const options = await client.getSdrOptions();
 
     return NextResponse.json({ options });
   } catch (error) {
     console.error('Error fetching SDR options:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch SDR options' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch SDR options');
   }
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getCortexClient } from '@/lib/cortex-client';
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/sdr
@@ -10,15 +11,12 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const activeOnly = searchParams.get('active_only') !== 'false';
 
-    const client = getCortexClient();
+    const client = await getUserCortexClient({ signal: request.signal });
     const agents = await client.listSDRAgents(activeOnly);
 
     return NextResponse.json({ agents });
   } catch (error) {
     console.error('Error fetching SDR agents:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch SDR agents' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch SDR agents');
   }
 }
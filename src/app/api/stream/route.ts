@@ -0,0 +1,87 @@
+import { subscribeInboxEvents } from '@/lib/inbox-events';
+import type { InboxEvent } from '@/types/cortex';
+
+// Long-lived response: never cache, always run on Node (shared watcher state)
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Tells EventSource how long to wait before reconnecting
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * GET /api/stream
+ * Server-Sent Events stream of inbox changes seen by this server instance's watcher
+ * (see src/lib/inbox-events.ts for what it covers)
+ * Query params: leads (optional) - comma-separated lead IDs or external IDs to filter by
+ *
+ * Events: message.new, agent.toggled, window.changed, deal_stage.changed
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const leadsParam = searchParams.get('leads');
+  const leadFilter = leadsParam
+    ? new Set(leadsParam.split(',').map((id) => id.trim()).filter(Boolean))
+    : null;
+
+  const matchesFilter = (event: InboxEvent) =>
+    !leadFilter ||
+    leadFilter.has(String(event.lead_id)) ||
+    leadFilter.has(event.external_id);
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let eventId = 0;
+
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      const unsubscribe = subscribeInboxEvents((event) => {
+        if (!matchesFilter(event)) return;
+        eventId += 1;
+        send(`id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = null;
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getActingUser } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { validateTemplateMapping } from '@/lib/template-mapping';
+import {
+  deleteTemplateMapping,
+  listTemplateMappings,
+  saveTemplateMapping,
+} from '@/lib/template-mapping-store';
+import type { TemplateParameterMapping } from '@/types/whatsapp';
+
+/**
+ * GET /api/templates/mappings
+ * List the parameter mappings configured for templates
+ */
+export async function GET() {
+  try {
+    const mappings = await listTemplateMappings();
+    return NextResponse.json({ mappings });
+  } catch (error) {
+    console.error('Error fetching template mappings:', error);
+    return toErrorResponse(error, 'Failed to fetch template mappings');
+  }
+}
+
+/**
+ * PUT /api/templates/mappings
+ * Create or replace the parameter mapping for one template (name + language)
+ */
+export async function PUT(request: Request) {
+  try {
+    const body: TemplateParameterMapping = await request.json();
+
+    const validationError = validateTemplateMapping(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const actingUser = await getActingUser();
+    const mapping = await saveTemplateMapping(body, actingUser?.email ?? null);
+
+    return NextResponse.json(mapping);
+  } catch (error) {
+    console.error('Error saving template mapping:', error);
+    return toErrorResponse(error, 'Failed to save template mapping');
+  }
+}
+
+/**
+ * DELETE /api/templates/mappings?template_name=...&language=...
+ * Remove a template's mapping so its parameters fall back to auto-fill
+ */
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const templateName = searchParams.get('template_name');
+    const language = searchParams.get('language');
+
+    if (!templateName || !language) {
+      return NextResponse.json(
+        { error: 'template_name and language are required' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteTemplateMapping(templateName, language);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Mapping not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting template mapping:', error);
+    return toErrorResponse(error, 'Failed to delete template mapping');
+  }
+}
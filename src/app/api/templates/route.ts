@@ -1,37 +1,20 @@
 import { NextResponse } from 'next/server';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL;
-const CORTEX_API_KEY = process.env.CORTEX_API_KEY;
+import { getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
 
 /**
  * GET /api/templates
  * List approved WhatsApp templates for sending
  */
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const response = await fetch(`${CORTEX_API_URL}/templates?status=APPROVED`, {
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${CORTEX_API_KEY}`,
-      },
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to fetch templates' }));
-      return NextResponse.json(
-        { error: error.detail || 'Failed to fetch templates' },
-        { status: response.status }
-      );
-    }
+    const client = await getUserCortexClient({ signal: request.signal });
+    const result = await client.listTemplates({ status: 'APPROVED' });
 
-    const result = await response.json();
     // Backend returns { items: [...], total_count, has_more }
     return NextResponse.json({ data: result.items || [] });
   } catch (error) {
     console.error('Error fetching templates:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to fetch templates' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to fetch templates');
   }
 }
@@ -1,11 +1,13 @@
 import { NextResponse } from 'next/server';
-
-const CORTEX_API_URL = process.env.CORTEX_API_URL;
-const CORTEX_API_KEY = process.env.CORTEX_API_KEY;
+import { getActingUser, getUserCortexClient } from '@/lib/auth-api';
+import { toErrorResponse } from '@/lib/api-errors';
+import { recordTemplateSend } from '@/lib/template-send-log';
+import type { SendTemplateRequest } from '@/types/cortex';
 
 /**
  * POST /api/templates/send
- * Send a template message to a WhatsApp contact
+ * Send a template message to a WhatsApp contact.
+ * The send is logged for template analytics.
  */
 export async function POST(request: Request) {
   try {
@@ -20,7 +22,7 @@ export async function POST(request: Request) {
     }
 
     // Build the request payload for the backend
-    const payload: Record<string, unknown> = {
+    const payload: SendTemplateRequest = {
       phone_number: to,
       template_name: templateName,
     };
@@ -34,30 +36,27 @@ export async function POST(request: Request) {
       payload.parameters = parameters;
     }
 
-    const response = await fetch(`${CORTEX_API_URL}/templates/send`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${CORTEX_API_KEY}`,
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to send template' }));
-      return NextResponse.json(
-        { error: error.detail || error.error || 'Failed to send template' },
-        { status: response.status }
-      );
+    const client = await getUserCortexClient();
+    const result = await client.sendTemplate(payload);
+
+    try {
+      const actingUser = await getActingUser();
+      await recordTemplateSend({
+        template_name: templateName,
+        language: languageCode || '',
+        conversation_id: result.conversation_id ?? null,
+        phone: to,
+        message_id: result.message_id ?? null,
+        failed: !result.success,
+        sent_by: actingUser?.email ?? null,
+      });
+    } catch (logError) {
+      console.error('Error logging template send:', logError);
     }
 
-    const result = await response.json();
     return NextResponse.json(result);
   } catch (error) {
     console.error('Error sending template:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to send template' },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Failed to send template');
   }
 }
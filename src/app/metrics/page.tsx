@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import useSWR from 'swr';
 import { Header } from '@/components/header';
+import { useDealStages } from '@/contexts/deal-stages-context';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -25,6 +26,7 @@ import {
   CheckCircle2,
   Target,
   Sparkles,
+  GitBranch,
 } from 'lucide-react';
 import { cn, formatNumber } from '@/lib/utils';
 import {
@@ -156,10 +158,13 @@ const CustomTooltip = ({ active, payload, label, formatter }: {
 
 export default function FunnelMetricsPage() {
   const [dateRange, setDateRange] = useState<DateRange>('7d');
+  const [pipelineId, setPipelineId] = useState<string>('all');
   const [lastFetched, setLastFetched] = useState<Date | null>(null);
+  const { pipelines } = useDealStages();
 
   const { startDate, endDate } = getDateRange(dateRange);
-  const apiUrl = `/api/metrics/crm?start_date=${startDate}&end_date=${endDate}`;
+  const pipelineParam = pipelineId !== 'all' ? `&pipeline_id=${encodeURIComponent(pipelineId)}` : '';
+  const apiUrl = `/api/metrics/crm?start_date=${startDate}&end_date=${endDate}${pipelineParam}`;
 
   const { data: metrics, error, isLoading, isValidating, mutate } = useSWR<CRMMetricsResponse>(
     apiUrl,
@@ -238,6 +243,23 @@ export default function FunnelMetricsPage() {
                   <span className="hidden sm:inline">Refresh</span>
                 </Button>
 
+                {pipelines.length > 1 && (
+                  <Select value={pipelineId} onValueChange={setPipelineId}>
+                    <SelectTrigger className="w-[140px] sm:w-[180px]">
+                      <GitBranch className="w-4 h-4 mr-2" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All pipelines</SelectItem>
+                      {pipelines.map((pipeline) => (
+                        <SelectItem key={pipeline.id} value={pipeline.id}>
+                          {pipeline.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
                 <Select value={dateRange} onValueChange={(v) => setDateRange(v as DateRange)}>
                   <SelectTrigger className="w-[140px] sm:w-[160px]">
                     <Calendar className="w-4 h-4 mr-2" />
@@ -1,44 +1,107 @@
 'use client';
 
-import { useState, useRef, useCallback, useMemo } from 'react';
+import { Suspense, useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Header } from '@/components/header';
-import { LeadSidebar, type LeadStatus, type WindowStatus } from '@/components/lead-sidebar';
+import { LeadSidebar } from '@/components/lead-sidebar';
 import { LeadList, type LeadListRef } from '@/components/lead-list';
 import { ChatPanel } from '@/components/chat-panel';
 import { useHydratedFilterStore } from '@/lib/stores';
+import { useSavedLeadViews } from '@/hooks/use-saved-lead-views';
+import { useAuth } from '@/contexts/auth-context';
+import { useDealStages } from '@/contexts/deal-stages-context';
+import {
+  getDefaultLeadFilters,
+  hasLeadFilterParams,
+  parseLeadFilters,
+  leadFiltersToSearchParams,
+  areLeadFiltersEqual,
+  type LeadFilters,
+  type LeadStatus,
+  type SavedLeadView,
+  type WindowStatus,
+} from '@/lib/lead-filters';
 import type { ConversationSearchItem } from '@/types/cortex';
 
+// Wait for a pause in typing before writing the search to the URL
+const URL_SEARCH_DEBOUNCE_MS = 400;
+
 interface SelectedLead extends ConversationSearchItem {
   displayName: string;
 }
 
-// Helper to get date string in YYYY-MM-DD format
-function getDateString(date: Date): string {
-  return date.toISOString().split('T')[0];
-}
+// Main inbox content (uses useSearchParams)
+function HomeContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user } = useAuth();
 
-// Calculate default date range (last 7 days)
-function getDefaultDateRange(): { from: string; to: string } {
-  const today = new Date();
-  const sevenDaysAgo = new Date(today);
-  sevenDaysAgo.setDate(today.getDate() - 7);
-  return {
-    from: getDateString(sevenDaysAgo),
-    to: getDateString(today),
-  };
-}
+  // Filters from a shared view link win over the default 7-day range
+  const [initialFilters] = useState<LeadFilters>(() =>
+    hasLeadFilterParams(searchParams) ? parseLeadFilters(searchParams) : getDefaultLeadFilters()
+  );
+  const [sharedViewName] = useState(() => searchParams.get('view'));
+  // Lead opened from a link (e.g. My Tasks) until one is picked from the list
+  const [linkedLeadId, setLinkedLeadId] = useState(() => searchParams.get('lead'));
 
-export default function Home() {
-  // Initialize with default 7-day date range
-  const defaultDates = useMemo(() => getDefaultDateRange(), []);
-  const [selectedCategory, setSelectedCategory] = useState<LeadStatus>('all');
+  const [selectedCategory, setSelectedCategory] = useState<LeadStatus>(initialFilters.lead_status);
   const [selectedLead, setSelectedLead] = useState<SelectedLead | null>(null);
-  const [dateFrom, setDateFrom] = useState<string | null>(defaultDates.from);
-  const [dateTo, setDateTo] = useState<string | null>(defaultDates.to);
-  const [windowStatus, setWindowStatus] = useState<WindowStatus>('all');
+  const [searchQuery, setSearchQuery] = useState(initialFilters.q);
+  const [dateFrom, setDateFrom] = useState<string | null>(initialFilters.date_from);
+  const [dateTo, setDateTo] = useState<string | null>(initialFilters.date_to);
+  const [windowStatus, setWindowStatus] = useState<WindowStatus>(initialFilters.window_status);
+  const [qualification, setQualification] = useState<string | null>(initialFilters.qualification);
+  const [dealPipeline, setDealPipeline] = useState<string | null>(initialFilters.deal_pipeline);
+  const [dealStage, setDealStage] = useState<string | null>(initialFilters.deal_stage);
+  const { getPipelineStages } = useDealStages();
   const { assignedSdrId, setAssignedSdrId, isHydrated } = useHydratedFilterStore();
+  const { savedViews, saveView, deleteView } = useSavedLeadViews(user?.id);
+  const [urlFiltersApplied, setUrlFiltersApplied] = useState(false);
   const leadListRef = useRef<LeadListRef>(null);
 
+  // A shared link's owner filter replaces the remembered one
+  useEffect(() => {
+    if (!isHydrated || urlFiltersApplied) return;
+    if (hasLeadFilterParams(searchParams)) {
+      setAssignedSdrId(initialFilters.assigned_sdr_id);
+    }
+    setUrlFiltersApplied(true);
+  }, [isHydrated, urlFiltersApplied, searchParams, initialFilters, setAssignedSdrId]);
+
+  const filtersReady = isHydrated && urlFiltersApplied;
+
+  const filters = useMemo<LeadFilters>(() => ({
+    lead_status: selectedCategory,
+    q: searchQuery,
+    date_from: dateFrom,
+    date_to: dateTo,
+    window_status: windowStatus,
+    assigned_sdr_id: assignedSdrId,
+    qualification,
+    deal_pipeline: dealPipeline,
+    deal_stage: dealStage,
+  }), [selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId, qualification, dealPipeline, dealStage]);
+
+  // Search changes on every keystroke; other filters reach the URL right away
+  const [urlSearchQuery, setUrlSearchQuery] = useState(searchQuery);
+  useEffect(() => {
+    const timer = setTimeout(() => setUrlSearchQuery(searchQuery), URL_SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Keep the URL in sync so the current filters can always be shared
+  useEffect(() => {
+    if (!filtersReady) return;
+    const params = leadFiltersToSearchParams({ ...filters, q: urlSearchQuery });
+    if (linkedLeadId) {
+      params.set('lead', linkedLeadId);
+    }
+    const query = params.toString();
+    if (query !== searchParams.toString()) {
+      router.replace(`/?${query}`, { scroll: false });
+    }
+  }, [filters, urlSearchQuery, filtersReady, linkedLeadId, searchParams, router]);
+
   const handleCategoryChange = useCallback((category: LeadStatus) => {
     setSelectedCategory(category);
   }, []);
@@ -52,9 +115,47 @@ export default function Home() {
     setWindowStatus(status);
   }, []);
 
+  // A stage from another pipeline can't match, so drop it when the pipeline changes
+  const handleDealPipelineChange = useCallback((pipelineId: string | null) => {
+    setDealPipeline(pipelineId);
+    if (pipelineId) {
+      const pipelineStages = getPipelineStages(pipelineId);
+      setDealStage((stage) => (stage && pipelineStages.some((s) => s.id === stage) ? stage : null));
+    }
+  }, [getPipelineStages]);
+
+  const handleApplyView = useCallback((view: SavedLeadView) => {
+    setSelectedCategory(view.filters.lead_status);
+    setSearchQuery(view.filters.q);
+    setDateFrom(view.filters.date_from);
+    setDateTo(view.filters.date_to);
+    setWindowStatus(view.filters.window_status);
+    setQualification(view.filters.qualification);
+    setDealPipeline(view.filters.deal_pipeline);
+    setDealStage(view.filters.deal_stage);
+    setAssignedSdrId(view.filters.assigned_sdr_id);
+  }, [setAssignedSdrId]);
+
+  const handleSaveView = useCallback((name: string) => {
+    saveView(name, filters);
+  }, [saveView, filters]);
+
+  const handleDeleteView = useCallback((viewId: string) => {
+    deleteView(viewId);
+  }, [deleteView]);
+
+  // Shareable link: the view's filters plus its name, so the recipient can save it as-is
+  const getViewLink = useCallback((view: SavedLeadView) => {
+    const params = leadFiltersToSearchParams(view.filters);
+    params.set('view', view.name);
+    return `${window.location.origin}/?${params.toString()}`;
+  }, []);
+
+  const activeView = savedViews.find((view) => areLeadFiltersEqual(view.filters, filters)) ?? null;
 
   const handleSelectLead = useCallback((lead: SelectedLead | null) => {
     setSelectedLead(lead);
+    setLinkedLeadId(null);
   }, []);
 
   const handleLeadUpdate = useCallback(() => {
@@ -64,28 +165,46 @@ export default function Home() {
   // Mobile back handler - clears selected lead to show list
   const handleMobileBack = useCallback(() => {
     setSelectedLead(null);
+    setLinkedLeadId(null);
   }, []);
 
+  const activeLeadId = selectedLead
+    ? selectedLead.external_id || String(selectedLead.id)
+    : linkedLeadId;
+
   return (
     <div className="h-screen flex flex-col overflow-hidden bg-gray-50">
       {/* Top Header - hidden on mobile when conversation is open */}
-      <div className={selectedLead ? 'hidden md:block' : ''}>
+      <div className={activeLeadId ? 'hidden md:block' : ''}>
         <Header activeTab="inbox" />
       </div>
 
       {/* Main Content - pb-14 on mobile for bottom nav, pb-0 when header hidden */}
-      <div className={`flex-1 flex overflow-hidden md:pb-0 ${selectedLead ? 'pb-0' : 'pb-14'}`}>
+      <div className={`flex-1 flex overflow-hidden md:pb-0 ${activeLeadId ? 'pb-0' : 'pb-14'}`}>
         {/* Left Sidebar - Categories */}
         <LeadSidebar
           selectedCategory={selectedCategory}
           onCategoryChange={handleCategoryChange}
           onDateChange={handleDateChange}
-          initialDateFrom={defaultDates.from}
-          initialDateTo={defaultDates.to}
+          dateFrom={dateFrom}
+          dateTo={dateTo}
           windowStatus={windowStatus}
           onWindowStatusChange={handleWindowStatusChange}
           assignedSdrId={assignedSdrId}
           onSdrChange={setAssignedSdrId}
+          qualification={qualification}
+          onQualificationChange={setQualification}
+          dealPipeline={dealPipeline}
+          onDealPipelineChange={handleDealPipelineChange}
+          dealStage={dealStage}
+          onDealStageChange={setDealStage}
+          savedViews={user ? savedViews : undefined}
+          activeViewId={activeView?.id ?? null}
+          suggestedViewName={sharedViewName}
+          onApplyView={handleApplyView}
+          onSaveView={handleSaveView}
+          onDeleteView={handleDeleteView}
+          getViewLink={getViewLink}
           className="w-56 flex-shrink-0 hidden md:flex flex-col"
         />
 
@@ -94,32 +213,46 @@ export default function Home() {
         <LeadList
           ref={leadListRef}
           selectedCategory={selectedCategory}
+          searchQuery={searchQuery}
           dateFrom={dateFrom}
           dateTo={dateTo}
           windowStatus={windowStatus}
           assignedSdrId={assignedSdrId}
-          filtersReady={isHydrated}
-          selectedLeadId={selectedLead?.external_id || (selectedLead?.id ? String(selectedLead.id) : null)}
+          qualification={qualification}
+          dealPipeline={dealPipeline}
+          dealStage={dealStage}
+          filtersReady={filtersReady}
+          selectedLeadId={activeLeadId}
           onSelectLead={handleSelectLead}
+          onSearchChange={setSearchQuery}
           onCategoryChange={handleCategoryChange}
           onDateChange={handleDateChange}
           onWindowStatusChange={handleWindowStatusChange}
           onSdrChange={setAssignedSdrId}
-          className={`w-full md:w-80 flex-shrink-0 min-h-0 ${selectedLead ? 'hidden md:flex' : 'flex'}`}
+          className={`w-full md:w-80 flex-shrink-0 min-h-0 ${activeLeadId ? 'hidden md:flex' : 'flex'}`}
         />
 
         {/* Right Panel - Chat */}
         {/* On mobile: show only when lead selected. On desktop: always show */}
         <ChatPanel
-          leadId={selectedLead?.external_id || (selectedLead?.id ? String(selectedLead.id) : null)}
+          leadId={activeLeadId}
           leadName={selectedLead?.displayName || selectedLead?.client_name || undefined}
           leadCompany={selectedLead?.client_company || undefined}
           leadPhone={selectedLead?.client_phone || undefined}
           onLeadUpdate={handleLeadUpdate}
           onMobileBack={handleMobileBack}
-          className={`flex-1 min-w-0 min-h-0 ${selectedLead ? 'flex' : 'hidden md:flex'}`}
+          className={`flex-1 min-w-0 min-h-0 ${activeLeadId ? 'flex' : 'hidden md:flex'}`}
         />
       </div>
     </div>
   );
 }
+
+// Default export with Suspense wrapper for useSearchParams
+export default function Home() {
+  return (
+    <Suspense fallback={<div className="h-screen bg-gray-50" />}>
+      <HomeContent />
+    </Suspense>
+  );
+}
@@ -41,8 +41,16 @@ import {
   PlayCircle,
   Search,
   Clock,
+  Megaphone,
+  Link2,
+  History,
+  BarChart3,
 } from 'lucide-react';
 import { Header } from '@/components/header';
+import { CampaignsSection } from '@/components/campaigns-section';
+import { TemplateAnalyticsSection } from '@/components/template-analytics-section';
+import { TemplateMappingDialog } from '@/components/template-mapping-dialog';
+import { TemplateHistoryDialog } from '@/components/template-history-dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -75,7 +83,15 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { cn } from '@/lib/utils';
+import { templateHasParameters } from '@/lib/template-parser';
+import {
+  TEMPLATE_LIMITS,
+  getDraftPlaceholders,
+  validateTemplateDraft,
+  type TemplateValidationErrors,
+} from '@/lib/template-validation';
 import { useAuth } from '@/contexts/auth-context';
+import type { Template as WhatsAppTemplate, TemplateSnapshot } from '@/types/whatsapp';
 
 // Types
 interface BusinessProfile {
@@ -143,6 +159,11 @@ interface Template {
   updated_at: string;
 }
 
+// Shape used by the shared template helpers (string ids)
+function toWhatsAppTemplate(template: Template): WhatsAppTemplate {
+  return { ...template, id: String(template.id) };
+}
+
 type HeaderType = 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION' | '';
 type ButtonType = 'QUICK_REPLY' | 'URL' | 'PHONE_NUMBER' | 'COPY_CODE';
 
@@ -168,13 +189,24 @@ interface User {
   created_at: string;
 }
 
-type SectionType = 'profile' | 'phone-numbers' | 'templates' | 'users';
+type SectionType = 'profile' | 'phone-numbers' | 'templates' | 'template-analytics' | 'campaigns' | 'users';
 type UserFilterTab = 'all' | 'active' | 'inactive';
 type UserRoleFilter = 'all' | 'admin' | 'manager' | 'sdr';
 
 const ROLES = ['admin', 'sdr', 'manager'];
 
-const VALID_SECTIONS: SectionType[] = ['profile', 'phone-numbers', 'templates', 'users'];
+const VALID_SECTIONS: SectionType[] = ['profile', 'phone-numbers', 'templates', 'template-analytics', 'campaigns', 'users'];
+
+// Inline error under a create-template field
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="text-xs text-red-600 mt-1 flex items-start gap-1">
+      <AlertCircle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+      {message}
+    </p>
+  );
+}
 
 // Loading skeleton for Suspense fallback
 function SettingsLoadingSkeleton() {
@@ -206,9 +238,9 @@ function SettingsPageContent() {
 
   // Sections allowed per role
   const allowedSections: SectionType[] = isAdmin
-    ? ['profile', 'phone-numbers', 'templates', 'users']
+    ? ['profile', 'phone-numbers', 'templates', 'template-analytics', 'campaigns', 'users']
     : isManager
-      ? ['templates']
+      ? ['templates', 'template-analytics', 'campaigns']
       : [];
 
   // Get section from URL, validate permissions, or use default
@@ -286,6 +318,9 @@ function SettingsPageContent() {
     buttons: [],
     parameter_examples: {},
   });
+  // Validation errors show after the first submit attempt, then update as the form changes
+  const [showTemplateErrors, setShowTemplateErrors] = useState(false);
+  const [serverTemplateErrors, setServerTemplateErrors] = useState<TemplateValidationErrors>({});
   const [uploadingMedia, setUploadingMedia] = useState(false);
   const [mediaFileName, setMediaFileName] = useState<string>('');
 
@@ -295,6 +330,10 @@ function SettingsPageContent() {
   const [templateCategoryFilter, setTemplateCategoryFilter] = useState<string>('all');
   const [templateLanguageFilter, setTemplateLanguageFilter] = useState<string>('all');
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
+  const [mappingTemplate, setMappingTemplate] = useState<WhatsAppTemplate | null>(null);
+  // History dialog; a null template shows the history of every template
+  const [showTemplateHistory, setShowTemplateHistory] = useState(false);
+  const [historyTemplate, setHistoryTemplate] = useState<Pick<Template, 'name' | 'language'> | null>(null);
   const [currentTemplatePage, setCurrentTemplatePage] = useState(1);
   const TEMPLATES_PER_PAGE = 10;
 
@@ -614,6 +653,17 @@ function SettingsPageContent() {
     }
   };
 
+  const templateDraftErrors = useMemo(() => validateTemplateDraft(newTemplate), [newTemplate]);
+  const templateErrors: TemplateValidationErrors = showTemplateErrors
+    ? { ...serverTemplateErrors, ...templateDraftErrors }
+    : serverTemplateErrors;
+  const templatePlaceholders = getDraftPlaceholders(newTemplate);
+
+  // Server errors describe the submitted form; drop them once it changes
+  useEffect(() => {
+    setServerTemplateErrors({});
+  }, [newTemplate]);
+
   // Add button to template
   const addButton = (type: ButtonType) => {
     const newButton: TemplateButton = { type, text: '' };
@@ -629,6 +679,13 @@ function SettingsPageContent() {
     setNewTemplate({ ...newTemplate, buttons: updatedButtons });
   };
 
+  // Example for a URL button's {{1}} variable (the full URL)
+  const updateButtonExample = (index: number, value: string) => {
+    const updatedButtons = [...newTemplate.buttons];
+    updatedButtons[index] = { ...updatedButtons[index], example: value ? [value] : undefined };
+    setNewTemplate({ ...newTemplate, buttons: updatedButtons });
+  };
+
   // Remove button
   const removeButton = (index: number) => {
     const updatedButtons = newTemplate.buttons.filter((_, i) => i !== index);
@@ -651,10 +708,49 @@ function SettingsPageContent() {
       parameter_examples: {},
     });
     setMediaFileName('');
+    setShowTemplateErrors(false);
+    setServerTemplateErrors({});
+  };
+
+  // Prefill the create form from a historical version of a template
+  const handleCloneTemplateVersion = (snapshot: TemplateSnapshot) => {
+    const storedParams = snapshot.parameters_json as {
+      body_parameters?: Array<{ param_name: string; example: string }>;
+      header_parameters?: Array<{ param_name: string; example: string }>;
+    } | undefined;
+    const parameterExamples: Record<string, string> = {};
+    [...(storedParams?.header_parameters ?? []), ...(storedParams?.body_parameters ?? [])].forEach((param) => {
+      parameterExamples[param.param_name] = param.example;
+    });
+
+    setNewTemplate({
+      name: `${snapshot.name}_copy`,
+      category: snapshot.category || '',
+      language: snapshot.language || '',
+      body_text: snapshot.body_text || '',
+      header_type: (snapshot.header_type || '') as HeaderType,
+      header_text: snapshot.header_text || '',
+      // Media handles expire, so header media has to be uploaded again
+      header_handle: '',
+      header_media_url: '',
+      footer_text: snapshot.footer_text || '',
+      buttons: (snapshot.buttons_json?.buttons ?? []).map((button) => ({
+        ...button,
+        type: button.type as ButtonType,
+      })),
+      parameter_examples: parameterExamples,
+    });
+    setMediaFileName('');
+    setShowTemplateErrors(false);
+    setShowTemplateHistory(false);
+    setShowCreateTemplate(true);
   };
 
   // Create template
   const handleCreateTemplate = async () => {
+    setShowTemplateErrors(true);
+    if (Object.keys(templateDraftErrors).length > 0) return;
+
     try {
       setCreatingTemplate(true);
 
@@ -689,9 +785,11 @@ function SettingsPageContent() {
         payload.buttons = newTemplate.buttons;
       }
 
-      // Parameter examples (if any)
-      if (Object.keys(newTemplate.parameter_examples).length > 0) {
-        payload.parameter_examples = newTemplate.parameter_examples;
+      // Parameter examples for placeholders still in the header/body
+      if (templatePlaceholders.length > 0) {
+        payload.parameter_examples = Object.fromEntries(
+          templatePlaceholders.map((param) => [param, newTemplate.parameter_examples[param]])
+        );
       }
 
       const response = await fetch('/api/admin/templates', {
@@ -706,7 +804,11 @@ function SettingsPageContent() {
         await fetchTemplates();
       } else {
         const error = await response.json();
-        alert(`Failed to create template: ${error.error || 'Unknown error'}`);
+        if (error.errors) {
+          setServerTemplateErrors(error.errors);
+        } else {
+          alert(`Failed to create template: ${error.error || 'Unknown error'}`);
+        }
       }
     } catch (error) {
       console.error('Error creating template:', error);
@@ -870,6 +972,34 @@ function SettingsPageContent() {
                 Templates
               </button>
             )}
+            {canAccessTemplates && (
+              <button
+                onClick={() => handleSectionChange('template-analytics')}
+                className={cn(
+                  'flex items-center gap-1.5 px-3 py-2 text-sm font-medium rounded-lg whitespace-nowrap transition-colors cursor-pointer',
+                  activeSection === 'template-analytics'
+                    ? 'bg-gray-900 text-white dark:bg-white dark:text-gray-900'
+                    : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+                )}
+              >
+                <BarChart3 className="w-4 h-4" />
+                Analytics
+              </button>
+            )}
+            {canAccessTemplates && (
+              <button
+                onClick={() => handleSectionChange('campaigns')}
+                className={cn(
+                  'flex items-center gap-1.5 px-3 py-2 text-sm font-medium rounded-lg whitespace-nowrap transition-colors cursor-pointer',
+                  activeSection === 'campaigns'
+                    ? 'bg-gray-900 text-white dark:bg-white dark:text-gray-900'
+                    : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+                )}
+              >
+                <Megaphone className="w-4 h-4" />
+                Campaigns
+              </button>
+            )}
             {isAdmin && (
               <button
                 onClick={() => handleSectionChange('users')}
@@ -938,6 +1068,30 @@ function SettingsPageContent() {
                   <MessageSquare className="w-4 h-4" />
                   WhatsApp Templates
                 </button>
+                <button
+                  onClick={() => handleSectionChange('template-analytics')}
+                  className={cn(
+                    'w-full flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md transition-colors',
+                    activeSection === 'template-analytics'
+                      ? 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
+                      : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+                  )}
+                >
+                  <BarChart3 className="w-4 h-4" />
+                  Template Analytics
+                </button>
+                <button
+                  onClick={() => handleSectionChange('campaigns')}
+                  className={cn(
+                    'w-full flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md transition-colors',
+                    activeSection === 'campaigns'
+                      ? 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
+                      : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+                  )}
+                >
+                  <Megaphone className="w-4 h-4" />
+                  Campaigns
+                </button>
                 {isAdmin && (
                   <button
                     onClick={() => handleSectionChange('users')}
@@ -1291,6 +1445,17 @@ function SettingsPageContent() {
                         <RefreshCw className={cn('w-4 h-4 mr-2', syncingTemplates && 'animate-spin')} />
                         Sync
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setHistoryTemplate(null);
+                          setShowTemplateHistory(true);
+                        }}
+                      >
+                        <History className="w-4 h-4 mr-2" />
+                        History
+                      </Button>
                       <Button size="sm" onClick={() => setShowCreateTemplate(true)}>
                         <Plus className="w-4 h-4 mr-2" />
                         New
@@ -1659,6 +1824,29 @@ function SettingsPageContent() {
                         >
                           Close
                         </Button>
+                        {templateHasParameters(toWhatsAppTemplate(selectedTemplate)) && (
+                          <Button
+                            variant="outline"
+                            onClick={() => {
+                              setMappingTemplate(toWhatsAppTemplate(selectedTemplate));
+                              setSelectedTemplate(null);
+                            }}
+                          >
+                            <Link2 className="w-4 h-4 mr-2" />
+                            Parameter mapping
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setHistoryTemplate(selectedTemplate);
+                            setShowTemplateHistory(true);
+                            setSelectedTemplate(null);
+                          }}
+                        >
+                          <History className="w-4 h-4 mr-2" />
+                          History
+                        </Button>
                         <Button
                           variant="outline"
                           className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
@@ -1676,6 +1864,24 @@ function SettingsPageContent() {
                 </DialogContent>
               </Dialog>
 
+              <TemplateMappingDialog
+                template={mappingTemplate}
+                onOpenChange={(open) => !open && setMappingTemplate(null)}
+              />
+
+              <TemplateHistoryDialog
+                open={showTemplateHistory}
+                template={historyTemplate}
+                onOpenChange={setShowTemplateHistory}
+                onClone={handleCloneTemplateVersion}
+              />
+
+              {/* Template Analytics Section (Admin and Manager) */}
+              {activeSection === 'template-analytics' && canAccessTemplates && <TemplateAnalyticsSection />}
+
+              {/* Campaigns Section (Admin and Manager) */}
+              {activeSection === 'campaigns' && canAccessTemplates && <CampaignsSection />}
+
               {/* User Management Section (Admin only) */}
               {activeSection === 'users' && isAdmin && (
                 <div className="space-y-4">
@@ -1938,11 +2144,16 @@ function SettingsPageContent() {
                 value={newTemplate.name}
                 onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
                 placeholder="e.g., order_confirmation"
-                className="mt-1"
+                className={cn('mt-1', templateErrors.name && 'border-red-500')}
+                aria-invalid={!!templateErrors.name}
               />
-              <p className="text-xs text-gray-500 mt-1">
-                Lowercase letters, numbers, and underscores only
-              </p>
+              {templateErrors.name ? (
+                <FieldError message={templateErrors.name} />
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">
+                  Lowercase letters, numbers, and underscores only
+                </p>
+              )}
             </div>
 
             {/* Category and Language */}
@@ -2034,10 +2245,17 @@ function SettingsPageContent() {
                     value={newTemplate.header_text}
                     onChange={(e) => setNewTemplate({ ...newTemplate, header_text: e.target.value })}
                     placeholder="Header text (e.g., Order {{order_id}} Update)"
+                    className={cn(templateErrors.header_text && 'border-red-500')}
+                    aria-invalid={!!templateErrors.header_text}
                   />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Use {'{{param_name}}'} for dynamic variables
-                  </p>
+                  {templateErrors.header_text ? (
+                    <FieldError message={templateErrors.header_text} />
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-1 flex justify-between gap-2">
+                      <span>Use {'{{param_name}}'} for one dynamic variable</span>
+                      <span>{newTemplate.header_text.length}/{TEMPLATE_LIMITS.HEADER_TEXT_MAX_LENGTH}</span>
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -2095,6 +2313,7 @@ function SettingsPageContent() {
                     {newTemplate.header_type === 'VIDEO' && 'MP4 or 3GPP, max 16MB'}
                     {newTemplate.header_type === 'DOCUMENT' && 'PDF, Word, Excel, or PowerPoint, max 100MB'}
                   </p>
+                  <FieldError message={templateErrors.header_handle} />
                 </div>
               )}
 
@@ -2112,17 +2331,19 @@ function SettingsPageContent() {
                 value={newTemplate.body_text}
                 onChange={(e) => setNewTemplate({ ...newTemplate, body_text: e.target.value })}
                 placeholder="Enter your message template..."
-                className="mt-1 min-h-[100px]"
+                className={cn('mt-1 min-h-[100px]', templateErrors.body_text && 'border-red-500')}
+                aria-invalid={!!templateErrors.body_text}
               />
-              <p className="text-xs text-gray-500 mt-1">
-                Use {'{{1}}'}, {'{{2}}'} for positional params or {'{{customer_name}}'} for named params
+              <FieldError message={templateErrors.body_text} />
+              <p className="text-xs text-gray-500 mt-1 flex justify-between gap-2">
+                <span>Use {'{{1}}'}, {'{{2}}'} for positional params or {'{{customer_name}}'} for named params</span>
+                <span className="flex-shrink-0">{newTemplate.body_text.length}/{TEMPLATE_LIMITS.BODY_MAX_LENGTH}</span>
               </p>
             </div>
 
             {/* Parameter Examples - Show when body text has parameters */}
             {(() => {
-              const params = (newTemplate.body_text.match(/\{\{(\w+)\}\}/g) || []).map(p => p.replace(/[{}]/g, ''));
-              const uniqueParams = [...new Set(params)];
+              const uniqueParams = templatePlaceholders;
               if (uniqueParams.length === 0) return null;
 
               return (
@@ -2138,22 +2359,29 @@ function SettingsPageContent() {
                   </p>
                   <div className="space-y-2">
                     {uniqueParams.map((param) => (
-                      <div key={param} className="flex flex-col sm:flex-row sm:items-center gap-2">
-                        <Badge variant="outline" className="w-fit sm:min-w-[80px] justify-center bg-white text-xs">
-                          {'{{'}{param}{'}}'}
-                        </Badge>
-                        <Input
-                          value={newTemplate.parameter_examples[param] || ''}
-                          onChange={(e) => setNewTemplate({
-                            ...newTemplate,
-                            parameter_examples: {
-                              ...newTemplate.parameter_examples,
-                              [param]: e.target.value
-                            }
-                          })}
-                          placeholder={`Example ${param}`}
-                          className="flex-1 h-8 bg-white"
-                        />
+                      <div key={param}>
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                          <Badge variant="outline" className="w-fit sm:min-w-[80px] justify-center bg-white text-xs">
+                            {'{{'}{param}{'}}'}
+                          </Badge>
+                          <Input
+                            value={newTemplate.parameter_examples[param] || ''}
+                            onChange={(e) => setNewTemplate({
+                              ...newTemplate,
+                              parameter_examples: {
+                                ...newTemplate.parameter_examples,
+                                [param]: e.target.value
+                              }
+                            })}
+                            placeholder={`Example ${param}`}
+                            className={cn(
+                              'flex-1 h-8 bg-white',
+                              templateErrors[`parameter_examples.${param}`] && 'border-red-500'
+                            )}
+                            aria-invalid={!!templateErrors[`parameter_examples.${param}`]}
+                          />
+                        </div>
+                        <FieldError message={templateErrors[`parameter_examples.${param}`]} />
                       </div>
                     ))}
                   </div>
@@ -2171,8 +2399,16 @@ function SettingsPageContent() {
                 value={newTemplate.footer_text}
                 onChange={(e) => setNewTemplate({ ...newTemplate, footer_text: e.target.value })}
                 placeholder="e.g., Reply STOP to unsubscribe"
-                className="mt-1"
+                className={cn('mt-1', templateErrors.footer_text && 'border-red-500')}
+                aria-invalid={!!templateErrors.footer_text}
               />
+              {templateErrors.footer_text ? (
+                <FieldError message={templateErrors.footer_text} />
+              ) : newTemplate.footer_text && (
+                <p className="text-xs text-gray-500 mt-1 text-right">
+                  {newTemplate.footer_text.length}/{TEMPLATE_LIMITS.FOOTER_MAX_LENGTH}
+                </p>
+              )}
             </div>
 
             {/* Buttons Section */}
@@ -2217,55 +2453,75 @@ function SettingsPageContent() {
               {newTemplate.buttons.length > 0 && (
                 <div className="space-y-2">
                   {newTemplate.buttons.map((button, index) => (
-                    <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2 p-2 bg-gray-50 rounded">
-                      <div className="flex items-center gap-2 w-full sm:w-auto">
-                        <Badge variant="outline" className="text-xs flex-shrink-0">
-                          {button.type === 'QUICK_REPLY' ? 'Reply' : button.type === 'URL' ? 'URL' : 'Call'}
-                        </Badge>
-                        <Input
-                          value={button.text || ''}
-                          onChange={(e) => updateButton(index, 'text', e.target.value)}
-                          placeholder="Button text"
-                          className="flex-1 h-8"
-                        />
+                    <div key={index} className="p-2 bg-gray-50 rounded space-y-1">
+                      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                        <div className="flex items-center gap-2 w-full sm:w-auto">
+                          <Badge variant="outline" className="text-xs flex-shrink-0">
+                            {button.type === 'QUICK_REPLY' ? 'Reply' : button.type === 'URL' ? 'URL' : 'Call'}
+                          </Badge>
+                          <Input
+                            value={button.text || ''}
+                            onChange={(e) => updateButton(index, 'text', e.target.value)}
+                            placeholder="Button text"
+                            className={cn('flex-1 h-8', templateErrors[`buttons.${index}.text`] && 'border-red-500')}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeButton(index)}
+                            className="sm:hidden flex-shrink-0"
+                          >
+                            <X className="w-4 h-4 text-red-500" />
+                          </Button>
+                        </div>
+                        {button.type === 'URL' && (
+                          <Input
+                            value={button.url || ''}
+                            onChange={(e) => updateButton(index, 'url', e.target.value)}
+                            placeholder="https://example.com/{{1}}"
+                            className={cn('flex-1 h-8', templateErrors[`buttons.${index}.url`] && 'border-red-500')}
+                          />
+                        )}
+                        {button.type === 'PHONE_NUMBER' && (
+                          <Input
+                            value={button.phone_number || ''}
+                            onChange={(e) => updateButton(index, 'phone_number', e.target.value)}
+                            placeholder="+15551234567"
+                            className={cn('flex-1 h-8', templateErrors[`buttons.${index}.phone_number`] && 'border-red-500')}
+                          />
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={() => removeButton(index)}
-                          className="sm:hidden flex-shrink-0"
+                          className="hidden sm:flex flex-shrink-0"
                         >
                           <X className="w-4 h-4 text-red-500" />
                         </Button>
                       </div>
-                      {button.type === 'URL' && (
+                      {button.type === 'URL' && button.url?.includes('{{1}}') && (
                         <Input
-                          value={button.url || ''}
-                          onChange={(e) => updateButton(index, 'url', e.target.value)}
-                          placeholder="https://example.com"
-                          className="flex-1 h-8"
+                          value={button.example?.[0] || ''}
+                          onChange={(e) => updateButtonExample(index, e.target.value)}
+                          placeholder="Example full URL, e.g. https://example.com/orders/12345"
+                          className={cn('h-8', templateErrors[`buttons.${index}.example`] && 'border-red-500')}
                         />
                       )}
-                      {button.type === 'PHONE_NUMBER' && (
-                        <Input
-                          value={button.phone_number || ''}
-                          onChange={(e) => updateButton(index, 'phone_number', e.target.value)}
-                          placeholder="+15551234567"
-                          className="flex-1 h-8"
-                        />
-                      )}
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeButton(index)}
-                        className="hidden sm:flex flex-shrink-0"
-                      >
-                        <X className="w-4 h-4 text-red-500" />
-                      </Button>
+                      <FieldError
+                        message={
+                          templateErrors[`buttons.${index}.text`] ||
+                          templateErrors[`buttons.${index}.url`] ||
+                          templateErrors[`buttons.${index}.phone_number`] ||
+                          templateErrors[`buttons.${index}.example`]
+                        }
+                      />
                     </div>
                   ))}
                 </div>
               )}
 
+              <FieldError message={templateErrors.buttons} />
+
               {newTemplate.buttons.length === 0 && (
                 <p className="text-xs text-gray-500 text-center py-2">
                   No buttons added. Click above to add interactive buttons.
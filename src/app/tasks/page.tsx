@@ -0,0 +1,439 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { Header } from '@/components/header';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertCircle,
+  Calendar,
+  CheckCircle2,
+  Circle,
+  Clock,
+  ExternalLink,
+  ListTodo,
+  Mail,
+  MessageSquare,
+  PhoneCall,
+  RefreshCw,
+} from 'lucide-react';
+import { cn, formatNumber } from '@/lib/utils';
+import { useHubSpotPortal } from '@/hooks/use-hubspot-portal';
+import type { MyTask, MyTasksResponse, UpdateTaskRequest } from '@/types/cortex';
+
+type TaskGroup = 'overdue' | 'today' | 'upcoming' | 'completed';
+
+const TASK_STATUSES = [
+  { value: 'NOT_STARTED', label: 'Not Started' },
+  { value: 'IN_PROGRESS', label: 'In Progress' },
+  { value: 'WAITING', label: 'Waiting' },
+  { value: 'DEFERRED', label: 'Deferred' },
+  { value: 'COMPLETED', label: 'Completed' },
+] as const;
+
+const TASK_PRIORITIES = [
+  { value: 'LOW', label: 'Low' },
+  { value: 'MEDIUM', label: 'Medium' },
+  { value: 'HIGH', label: 'High' },
+] as const;
+
+const GROUPS: { id: TaskGroup; label: string; emptyText: string }[] = [
+  { id: 'overdue', label: 'Overdue', emptyText: 'Nothing overdue' },
+  { id: 'today', label: 'Today', emptyText: 'Nothing due today' },
+  { id: 'upcoming', label: 'Upcoming', emptyText: 'Nothing upcoming' },
+  { id: 'completed', label: 'Completed', emptyText: 'No completed tasks' },
+];
+
+// Fetcher function for SWR
+const fetcher = async (url: string): Promise<MyTasksResponse> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to load tasks');
+  }
+  return response.json();
+};
+
+// Due dates are compared by local calendar day; undated tasks count as upcoming
+function getTaskGroup(task: MyTask, today: Date): TaskGroup {
+  if (task.status === 'COMPLETED') return 'completed';
+  if (!task.due_date) return 'upcoming';
+
+  const due = new Date(task.due_date);
+  const dueDay = new Date(due.getFullYear(), due.getMonth(), due.getDate());
+  if (dueDay < today) return 'overdue';
+  if (dueDay.getTime() === today.getTime()) return 'today';
+  return 'upcoming';
+}
+
+function formatDueDate(dueDate: string | null | undefined, group: TaskGroup): string {
+  if (!dueDate) return 'No due date';
+  const date = new Date(dueDate);
+  if (group === 'today') {
+    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function getTaskTypeIcon(type: string | null | undefined) {
+  switch (type) {
+    case 'CALL':
+      return <PhoneCall className="w-4 h-4" />;
+    case 'EMAIL':
+      return <Mail className="w-4 h-4" />;
+    default:
+      return <ListTodo className="w-4 h-4" />;
+  }
+}
+
+function getStatusColor(status: string | null | undefined) {
+  switch (status) {
+    case 'COMPLETED':
+      return 'bg-green-100 text-green-700';
+    case 'IN_PROGRESS':
+      return 'bg-blue-100 text-blue-700';
+    case 'WAITING':
+    case 'DEFERRED':
+      return 'bg-yellow-100 text-yellow-700';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+}
+
+function getPriorityColor(priority: string | null | undefined) {
+  switch (priority) {
+    case 'HIGH':
+      return 'border-red-300 text-red-600';
+    case 'MEDIUM':
+      return 'border-yellow-300 text-yellow-600';
+    default:
+      return 'border-gray-300 text-gray-600';
+  }
+}
+
+export default function MyTasksPage() {
+  const [includeCompleted, setIncludeCompleted] = useState(false);
+  const [updateError, setUpdateError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const apiUrl = `/api/crm/tasks/mine${includeCompleted ? '?include_completed=true' : ''}`;
+
+  const { data, error, isLoading, isValidating, mutate } = useSWR<MyTasksResponse>(apiUrl, fetcher, {
+    revalidateOnFocus: false,
+  });
+
+  // Optimistic inline update; the cached list is restored if HubSpot rejects it
+  const handleUpdateTask = async (task: MyTask, changes: Pick<UpdateTaskRequest, 'status' | 'priority'>) => {
+    if (!data) return;
+    setUpdateError(null);
+
+    const updated: MyTasksResponse = {
+      ...data,
+      tasks: data.tasks.map((t) => (t.id === task.id ? { ...t, ...changes } : t)),
+    };
+
+    try {
+      await mutate(
+        async () => {
+          const response = await fetch(`/api/crm/tasks/${task.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes),
+          });
+          if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.error || 'Failed to update task');
+          }
+          return updated;
+        },
+        { optimisticData: updated, rollbackOnError: true, revalidate: false }
+      );
+    } catch (err) {
+      console.error('Error updating task:', err);
+      setUpdateError(err instanceof Error ? err.message : 'Failed to update task');
+    }
+  };
+
+  // The list is cached on the server for a few minutes; Refresh collects it again
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    setUpdateError(null);
+    try {
+      await mutate(fetcher(`${apiUrl}${includeCompleted ? '&' : '?'}refresh=true`), { revalidate: false });
+    } catch (err) {
+      console.error('Error refreshing tasks:', err);
+      setUpdateError(err instanceof Error ? err.message : 'Failed to load tasks');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const groupedTasks: Record<TaskGroup, MyTask[]> = { overdue: [], today: [], upcoming: [], completed: [] };
+  for (const task of data?.tasks ?? []) {
+    groupedTasks[getTaskGroup(task, today)].push(task);
+  }
+
+  const isUnmatched = data && data.owner_id === null;
+  const visibleGroups = GROUPS.filter((group) => group.id !== 'completed' || includeCompleted);
+
+  return (
+    <div className="h-screen flex flex-col overflow-hidden bg-gray-50">
+      <Header activeTab="tasks" />
+
+      <div className="flex-1 overflow-auto p-6 pb-20 md:pb-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {/* Page Header */}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-xl sm:text-2xl font-bold text-gray-900 flex items-center gap-2">
+                <ListTodo className="w-6 h-6 sm:w-7 sm:h-7 text-indigo-600" />
+                My Tasks
+              </h1>
+              <p className="text-sm sm:text-base text-gray-500 mt-1">
+                HubSpot tasks across all of your leads
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2 sm:gap-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIncludeCompleted((value) => !value)}
+                className="gap-1.5"
+              >
+                <CheckCircle2 className={cn('w-4 h-4', includeCompleted && 'text-green-600')} />
+                {includeCompleted ? 'Hide completed' : 'Show completed'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRefresh}
+                disabled={isValidating || refreshing}
+                className="gap-1.5"
+              >
+                <RefreshCw className={cn('w-4 h-4', (isValidating || refreshing) && 'animate-spin')} />
+                <span className="hidden sm:inline">Refresh</span>
+              </Button>
+            </div>
+          </div>
+
+          {/* Error Display */}
+          {(error || updateError) && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between">
+              <div className="flex items-center gap-2 text-red-700">
+                <AlertCircle className="w-5 h-5" />
+                <span>{updateError || error?.message || 'Failed to load tasks'}</span>
+              </div>
+              {error && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => mutate()}
+                  className="text-red-700 border-red-300 hover:bg-red-100"
+                >
+                  Retry
+                </Button>
+              )}
+            </div>
+          )}
+
+          {isLoading && (
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-20 w-full rounded-lg" />
+              ))}
+            </div>
+          )}
+
+          {isUnmatched && (
+            <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
+              <ListTodo className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+              <p className="font-medium text-gray-900">No HubSpot owner linked to your account</p>
+              <p className="text-sm text-gray-500 mt-1">
+                Tasks are matched to you by email. Ask an admin to check your HubSpot user.
+              </p>
+            </div>
+          )}
+
+          {data && !isUnmatched && (
+            <>
+              <p className="text-xs text-gray-500">
+                {formatNumber(data.total_count)} tasks from {formatNumber(data.conversations_scanned)} conversations
+                {data.collected_at && (
+                  <> · as of {new Date(data.collected_at).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}</>
+                )}
+              </p>
+
+              {(data.truncated || data.failed_conversations > 0) && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2 text-sm text-amber-800">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium">Some tasks may be missing</p>
+                    {data.truncated && (
+                      <p>
+                        Only your {formatNumber(data.conversations_scanned)} most recently updated conversations were
+                        checked. Tasks on older leads aren&apos;t listed.
+                      </p>
+                    )}
+                    {data.failed_conversations > 0 && (
+                      <p>
+                        Tasks for {formatNumber(data.failed_conversations)}{' '}
+                        {data.failed_conversations === 1 ? 'lead' : 'leads'} couldn&apos;t be loaded. Refresh to try again.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {visibleGroups.map((group) => (
+                <section key={group.id} className="space-y-2">
+                  <h2
+                    className={cn(
+                      'text-sm font-semibold flex items-center gap-2',
+                      group.id === 'overdue' && groupedTasks.overdue.length > 0 ? 'text-red-600' : 'text-gray-700'
+                    )}
+                  >
+                    {group.label}
+                    <Badge variant="secondary" className="text-xs">
+                      {groupedTasks[group.id].length}
+                    </Badge>
+                  </h2>
+
+                  {groupedTasks[group.id].length === 0 ? (
+                    <p className="text-sm text-gray-400 py-2">{group.emptyText}</p>
+                  ) : (
+                    groupedTasks[group.id].map((task) => (
+                      <TaskRow
+                        key={task.id}
+                        task={task}
+                        group={group.id}
+                        onUpdate={handleUpdateTask}
+                      />
+                    ))
+                  )}
+                </section>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TaskRow({
+  task,
+  group,
+  onUpdate,
+}: {
+  task: MyTask;
+  group: TaskGroup;
+  onUpdate: (task: MyTask, changes: Pick<UpdateTaskRequest, 'status' | 'priority'>) => void;
+}) {
+  const { getRecordLink } = useHubSpotPortal();
+  const isCompleted = task.status === 'COMPLETED';
+  const leadId = task.lead.external_id || String(task.lead.id);
+  const taskLink = getRecordLink('task', task.id);
+
+  return (
+    <div
+      className={cn(
+        'bg-white rounded-lg border p-3 flex flex-col sm:flex-row sm:items-center gap-3',
+        group === 'overdue' ? 'border-red-200' : 'border-gray-200'
+      )}
+    >
+      <div className="flex items-start gap-3 flex-1 min-w-0">
+        <button
+          onClick={() => onUpdate(task, { status: isCompleted ? 'NOT_STARTED' : 'COMPLETED' })}
+          className="mt-0.5 flex-shrink-0 text-gray-400 hover:text-green-600"
+          title={isCompleted ? 'Mark as not started' : 'Mark as complete'}
+        >
+          {isCompleted ? (
+            <CheckCircle2 className="w-5 h-5 text-green-600" />
+          ) : (
+            <Circle className="w-5 h-5" />
+          )}
+        </button>
+
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500 flex-shrink-0">{getTaskTypeIcon(task.task_type)}</span>
+            <p className={cn('font-medium text-gray-900 truncate', isCompleted && 'line-through text-gray-500')}>
+              {task.title || 'Untitled task'}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-gray-500">
+            <span className={cn('flex items-center gap-1', group === 'overdue' && 'text-red-600 font-medium')}>
+              {group === 'today' ? <Clock className="w-3 h-3" /> : <Calendar className="w-3 h-3" />}
+              {formatDueDate(task.due_date, group)}
+            </span>
+            <span className="truncate">
+              {task.lead.name || task.lead.phone || 'Unknown lead'}
+              {task.lead.company && ` · ${task.lead.company}`}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <Select
+          value={task.status || 'NOT_STARTED'}
+          onValueChange={(value) => onUpdate(task, { status: value as UpdateTaskRequest['status'] })}
+        >
+          <SelectTrigger className={cn('h-8 w-[130px] text-xs border-0', getStatusColor(task.status))}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TASK_STATUSES.map((status) => (
+              <SelectItem key={status.value} value={status.value} className="text-xs">
+                {status.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={task.priority || 'LOW'}
+          onValueChange={(value) => onUpdate(task, { priority: value as UpdateTaskRequest['priority'] })}
+        >
+          <SelectTrigger className={cn('h-8 w-[100px] text-xs bg-white', getPriorityColor(task.priority))}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TASK_PRIORITIES.map((priority) => (
+              <SelectItem key={priority.value} value={priority.value} className="text-xs">
+                {priority.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {taskLink && (
+          <Button asChild variant="ghost" size="sm" className="h-8 px-2 text-gray-500 hover:text-orange-600">
+            <a href={taskLink} target="_blank" rel="noopener noreferrer" title="Open in HubSpot">
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          </Button>
+        )}
+
+        <Button asChild variant="ghost" size="sm" className="h-8 gap-1.5 text-blue-600 hover:text-blue-700">
+          <Link href={`/?lead=${encodeURIComponent(leadId)}`}>
+            <MessageSquare className="w-4 h-4" />
+            <span className="hidden lg:inline">Open chat</span>
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,721 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import useSWR from 'swr';
+import {
+  AlertCircle,
+  ChevronDown,
+  ChevronUp,
+  Download,
+  FileText,
+  Loader2,
+  Megaphone,
+  Pause,
+  Play,
+  Plus,
+  RotateCcw,
+  Search,
+  Upload,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TemplateSelectorDialog } from '@/components/template-selector-dialog';
+import { useAuth } from '@/contexts/auth-context';
+import { useSavedLeadViews } from '@/hooks/use-saved-lead-views';
+import { getDefaultLeadFilters, leadFiltersToSearchFilters } from '@/lib/lead-filters';
+import {
+  CAMPAIGN_CLIENT_FIELDS,
+  MAX_CAMPAIGN_RECIPIENTS,
+  parseRecipientsCsv,
+  suggestParameterField,
+} from '@/lib/campaign-audience';
+import { cn, formatNumber } from '@/lib/utils';
+import type {
+  Campaign,
+  CampaignAction,
+  CampaignAudienceRequest,
+  CampaignClientField,
+  CampaignDetail,
+  CampaignParameterSource,
+  CampaignRecipientInput,
+  CampaignRecipientStatus,
+  CampaignStatus,
+  CreateCampaignRequest,
+} from '@/types/cortex';
+import type { Template, TemplateParameterInfo } from '@/types/whatsapp';
+
+// Poll while a queue is sending so progress stays live
+const LIVE_REFRESH_MS = 3000;
+const DEFAULT_MESSAGES_PER_MINUTE = 20;
+// Select value for a parameter filled with the same text for everyone
+const FIXED_TEXT = 'fixed';
+// Audience option for every lead, regardless of saved views
+const ALL_LEADS = 'all-leads';
+
+const fetcher = async <T,>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load campaigns');
+  }
+  return data;
+};
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  running: 'bg-blue-100 text-blue-700',
+  paused: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const RECIPIENT_STATUS_STYLES: Record<CampaignRecipientStatus, string> = {
+  pending: 'text-gray-500',
+  sent: 'text-green-700',
+  failed: 'text-red-600',
+  skipped: 'text-amber-700',
+};
+
+function formatDateTime(value: string | null | undefined): string {
+  if (!value) return '';
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function escapeCsvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Download the per-recipient report as CSV
+ */
+function downloadReport(campaign: CampaignDetail) {
+  const rows = [
+    ['phone', 'name', 'company', 'status', 'error', 'message_id', 'sent_at'],
+    ...campaign.recipients.map((recipient) => [
+      recipient.phone,
+      recipient.client_data.name,
+      recipient.client_data.company,
+      recipient.status,
+      recipient.error,
+      recipient.message_id,
+      recipient.sent_at,
+    ]),
+  ];
+  const csv = rows.map((row) => row.map(escapeCsvCell).join(',')).join('\n');
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${campaign.name.replace(/[^\w-]+/g, '_')}_report.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function CampaignsSection() {
+  const [showCreate, setShowCreate] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const { data, error, isLoading, mutate } = useSWR<{ campaigns: Campaign[] }>('/api/campaigns', fetcher, {
+    refreshInterval: (latest) =>
+      latest?.campaigns.some((campaign) => campaign.status === 'running') ? LIVE_REFRESH_MS : 0,
+  });
+  const campaigns = data?.campaigns ?? [];
+
+  const handleAction = async (campaign: Campaign, action: CampaignAction) => {
+    if (action === 'cancel' && !confirm(`Cancel "${campaign.name}"? Pending recipients will not be messaged.`)) {
+      return;
+    }
+
+    setActionError(null);
+    setUpdatingId(campaign.id);
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update campaign');
+      }
+      await mutate();
+    } catch (err) {
+      console.error('Error updating campaign:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to update campaign');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Campaigns</h1>
+          <p className="text-gray-500 text-sm mt-1">
+            Broadcast an approved template to a lead search or an uploaded list
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setShowCreate(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New campaign
+        </Button>
+      </div>
+
+      {(error || actionError) && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {actionError || error?.message}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full rounded-lg" />
+          ))}
+        </div>
+      ) : campaigns.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Megaphone className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+            <p className="font-medium text-gray-900">No campaigns yet</p>
+            <p className="text-sm text-gray-500 mt-1">Create one to message many leads with a template</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {campaigns.map((campaign) => {
+            const { counts } = campaign;
+            const processed = counts.sent + counts.failed + counts.skipped;
+            const isExpanded = expandedId === campaign.id;
+            const isUpdating = updatingId === campaign.id;
+
+            return (
+              <Card key={campaign.id}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium text-gray-900 truncate">{campaign.name}</h3>
+                        <Badge variant="secondary" className={cn('text-xs capitalize', STATUS_STYLES[campaign.status])}>
+                          {campaign.status}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {campaign.template.name.replace(/_/g, ' ')} · {campaign.audience.label} · {campaign.messages_per_minute}/min
+                      </p>
+                      <p className="text-xs text-gray-400 mt-0.5">
+                        {campaign.created_by} · {formatDateTime(campaign.created_at)}
+                      </p>
+                      {campaign.status_reason && (
+                        <p className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+                          <AlertCircle className="w-3 h-3" />
+                          {campaign.status_reason}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {campaign.status === 'running' && (
+                        <Button variant="outline" size="sm" onClick={() => handleAction(campaign, 'pause')} disabled={isUpdating}>
+                          <Pause className="w-4 h-4 mr-1" />
+                          Pause
+                        </Button>
+                      )}
+                      {campaign.status === 'paused' && (
+                        <Button variant="outline" size="sm" onClick={() => handleAction(campaign, 'resume')} disabled={isUpdating}>
+                          <Play className="w-4 h-4 mr-1" />
+                          Resume
+                        </Button>
+                      )}
+                      {counts.failed > 0 && campaign.status !== 'cancelled' && (
+                        <Button variant="outline" size="sm" onClick={() => handleAction(campaign, 'retry_failed')} disabled={isUpdating}>
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Retry failed
+                        </Button>
+                      )}
+                      {(campaign.status === 'running' || campaign.status === 'paused') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => handleAction(campaign, 'cancel')}
+                          disabled={isUpdating}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Progress */}
+                  <div className="space-y-1.5">
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden flex">
+                      <div className="h-full bg-green-500" style={{ width: `${(counts.sent / counts.total) * 100}%` }} />
+                      <div className="h-full bg-red-500" style={{ width: `${(counts.failed / counts.total) * 100}%` }} />
+                      <div className="h-full bg-amber-400" style={{ width: `${(counts.skipped / counts.total) * 100}%` }} />
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+                      <span>{formatNumber(processed)} of {formatNumber(counts.total)} processed</span>
+                      <span className="text-green-700">{formatNumber(counts.sent)} sent</span>
+                      <span className="text-red-600">{formatNumber(counts.failed)} failed</span>
+                      <span className="text-amber-700">{formatNumber(counts.skipped)} skipped</span>
+                      <button
+                        onClick={() => setExpandedId(isExpanded ? null : campaign.id)}
+                        className="ml-auto flex items-center gap-1 text-blue-600 hover:text-blue-700 cursor-pointer"
+                      >
+                        Report
+                        {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                      </button>
+                    </div>
+                  </div>
+
+                  {isExpanded && <CampaignReport campaignId={campaign.id} live={campaign.status === 'running'} />}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {showCreate && (
+        <NewCampaignDialog
+          onOpenChange={setShowCreate}
+          onCreated={(campaign) => {
+            mutate();
+            setExpandedId(campaign.id);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function CampaignReport({ campaignId, live }: { campaignId: string; live: boolean }) {
+  const [statusFilter, setStatusFilter] = useState<CampaignRecipientStatus | 'all'>('all');
+  const [search, setSearch] = useState('');
+
+  const { data: campaign, error, isLoading } = useSWR<CampaignDetail>(`/api/campaigns/${campaignId}`, fetcher, {
+    refreshInterval: live ? LIVE_REFRESH_MS : 0,
+  });
+
+  const recipients = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (campaign?.recipients ?? []).filter((recipient) =>
+      (statusFilter === 'all' || recipient.status === statusFilter) &&
+      (!query ||
+        recipient.phone.includes(query) ||
+        recipient.client_data.name?.toLowerCase().includes(query) ||
+        recipient.client_data.company?.toLowerCase().includes(query))
+    );
+  }, [campaign, statusFilter, search]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+  if (error || !campaign) {
+    return <p className="text-sm text-red-600">{error?.message || 'Failed to load report'}</p>;
+  }
+
+  return (
+    <div className="space-y-2 border-t border-gray-100 pt-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search recipients..."
+            className="pl-8 h-8 text-sm"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as CampaignRecipientStatus | 'all')}>
+          <SelectTrigger className="h-8 w-full sm:w-[140px] text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All recipients</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="sent">Sent</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="skipped">Skipped</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" className="h-8" onClick={() => downloadReport(campaign)}>
+          <Download className="w-4 h-4 mr-1" />
+          CSV
+        </Button>
+      </div>
+
+      <div className="max-h-72 overflow-auto border border-gray-200 rounded-md">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 text-gray-500 sticky top-0">
+            <tr>
+              <th className="text-left font-medium px-3 py-2">Recipient</th>
+              <th className="text-left font-medium px-3 py-2">Status</th>
+              <th className="text-left font-medium px-3 py-2">Details</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {recipients.map((recipient, index) => (
+              <tr key={`${recipient.phone}-${index}`}>
+                <td className="px-3 py-2">
+                  <p className="text-gray-900">{recipient.client_data.name || recipient.phone}</p>
+                  {recipient.client_data.name && <p className="text-gray-400">{recipient.phone}</p>}
+                </td>
+                <td className={cn('px-3 py-2 capitalize font-medium', RECIPIENT_STATUS_STYLES[recipient.status])}>
+                  {recipient.status}
+                </td>
+                <td className="px-3 py-2 text-gray-500">
+                  {recipient.error || (recipient.sent_at ? formatDateTime(recipient.sent_at) : '')}
+                </td>
+              </tr>
+            ))}
+            {recipients.length === 0 && (
+              <tr>
+                <td colSpan={3} className="px-3 py-6 text-center text-gray-400">No recipients match</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function NewCampaignDialog({
+  onOpenChange,
+  onCreated,
+}: {
+  onOpenChange: (open: boolean) => void;
+  onCreated: (campaign: CampaignDetail) => void;
+}) {
+  const { user } = useAuth();
+  const { savedViews } = useSavedLeadViews(user?.id);
+
+  const [name, setName] = useState('');
+  const [template, setTemplate] = useState<Template | null>(null);
+  const [parameterInfo, setParameterInfo] = useState<TemplateParameterInfo | null>(null);
+  const [mapping, setMapping] = useState<Record<string, CampaignParameterSource>>({});
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+
+  const [audienceType, setAudienceType] = useState<'search' | 'csv'>('search');
+  const [viewId, setViewId] = useState<string>(ALL_LEADS);
+  const [csvFileName, setCsvFileName] = useState<string | null>(null);
+  const [csvRecipients, setCsvRecipients] = useState<CampaignRecipientInput[]>([]);
+  const [csvInvalidRows, setCsvInvalidRows] = useState<number[]>([]);
+
+  const [messagesPerMinute, setMessagesPerMinute] = useState(String(DEFAULT_MESSAGES_PER_MINUTE));
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSelectTemplate = (selected: Template, info: TemplateParameterInfo) => {
+    setTemplate(selected);
+    setParameterInfo(info);
+    setMapping(Object.fromEntries(
+      info.parameters.map((param) => [param.name, { field: suggestParameterField(param.name), value: '' }])
+    ));
+  };
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    const { recipients, invalid_rows: invalidRows } = parseRecipientsCsv(await file.text());
+    setCsvFileName(file.name);
+    setCsvRecipients(recipients);
+    setCsvInvalidRows(invalidRows);
+  };
+
+  const updateMapping = (paramName: string, changes: Partial<CampaignParameterSource>) => {
+    setMapping((prev) => ({ ...prev, [paramName]: { ...prev[paramName], ...changes } }));
+  };
+
+  const buildAudience = (): CampaignAudienceRequest => {
+    if (audienceType === 'csv') {
+      return { type: 'csv', recipients: csvRecipients, label: csvFileName || 'CSV upload' };
+    }
+    const view = savedViews.find((v) => v.id === viewId);
+    if (view) {
+      return { type: 'search', filters: leadFiltersToSearchFilters(view.filters), label: `View: ${view.name}` };
+    }
+    const filters = { ...getDefaultLeadFilters(), date_from: null, date_to: null };
+    return { type: 'search', filters: leadFiltersToSearchFilters(filters), label: 'All leads' };
+  };
+
+  // Fixed-text parameters need their text; field parameters may leave the fallback empty
+  const mappingComplete = (parameterInfo?.parameters ?? []).every((param) => {
+    const source = mapping[param.name];
+    return source?.field || source?.value?.trim();
+  });
+  const audienceReady = audienceType === 'search' || csvRecipients.length > 0;
+  const canCreate = Boolean(name.trim() && template && mappingComplete && audienceReady);
+
+  const handleCreate = async () => {
+    if (!template || !canCreate) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      const body: CreateCampaignRequest = {
+        name: name.trim(),
+        template: { id: template.id, name: template.name, language: template.language },
+        parameter_mapping: mapping,
+        audience: buildAudience(),
+        messages_per_minute: parseInt(messagesPerMinute, 10) || DEFAULT_MESSAGES_PER_MINUTE,
+      };
+      const response = await fetch('/api/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create campaign');
+      }
+      onCreated(result);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error creating campaign:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create campaign');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open onOpenChange={(open) => !creating && onOpenChange(open)}>
+        <DialogContent className="max-h-[85vh] flex flex-col" style={{ maxWidth: '640px', width: '95vw' }}>
+          <DialogHeader className="flex-shrink-0">
+            <DialogTitle>New campaign</DialogTitle>
+            <DialogDescription>
+              Recipients are messaged one at a time at the rate you choose. You can pause, resume or cancel at any point.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 flex-shrink-0">
+              {error}
+            </div>
+          )}
+
+          <div className="flex-1 min-h-0 overflow-auto space-y-5 pr-1">
+            <div className="space-y-1.5">
+              <Label htmlFor="campaign-name">Name *</Label>
+              <Input
+                id="campaign-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. March webinar invite"
+              />
+            </div>
+
+            {/* Template */}
+            <div className="space-y-1.5">
+              <Label>Template *</Label>
+              <button
+                onClick={() => setShowTemplatePicker(true)}
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 border border-gray-200 rounded-md text-left text-sm hover:bg-gray-50 cursor-pointer"
+              >
+                {template ? (
+                  <span className="min-w-0">
+                    <span className="font-medium text-gray-900">{template.name.replace(/_/g, ' ')}</span>
+                    <span className="text-gray-500"> · {template.language}</span>
+                  </span>
+                ) : (
+                  <span className="text-gray-500">Choose an approved template</span>
+                )}
+                <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+              </button>
+              {template?.body_text && (
+                <p className="text-xs text-gray-500 bg-gray-50 rounded-md p-2 whitespace-pre-wrap line-clamp-4">
+                  {template.body_text}
+                </p>
+              )}
+            </div>
+
+            {/* Parameter mapping */}
+            {parameterInfo && parameterInfo.parameters.length > 0 && (
+              <div className="space-y-2">
+                <Label>Parameters</Label>
+                <p className="text-xs text-gray-500">
+                  Fill each slot from the recipient&apos;s data. The text is used when the field is empty; recipients left with an empty slot are skipped.
+                </p>
+                {parameterInfo.parameters.map((param) => {
+                  const source = mapping[param.name] ?? {};
+                  return (
+                    <div key={param.name} className="grid grid-cols-[minmax(0,1fr)_150px_minmax(0,1fr)] items-center gap-2">
+                      <span className="text-sm text-gray-700 font-mono truncate" title={param.name}>
+                        {`{{${param.name}}}`}
+                      </span>
+                      <Select
+                        value={source.field ?? FIXED_TEXT}
+                        onValueChange={(value) =>
+                          updateMapping(param.name, { field: value === FIXED_TEXT ? null : (value as CampaignClientField) })}
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CAMPAIGN_CLIENT_FIELDS.map((field) => (
+                            <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+                          ))}
+                          <SelectItem value={FIXED_TEXT}>Fixed text</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={source.value ?? ''}
+                        onChange={(e) => updateMapping(param.name, { value: e.target.value })}
+                        placeholder={source.field ? 'Fallback (optional)' : param.example || 'Text *'}
+                        className="h-8 text-sm"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Audience */}
+            <div className="space-y-2">
+              <Label>Audience *</Label>
+              <div className="flex rounded-lg bg-gray-100 p-1">
+                <button
+                  onClick={() => setAudienceType('search')}
+                  className={cn(
+                    'flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md transition-colors cursor-pointer',
+                    audienceType === 'search' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                  )}
+                >
+                  <Search className="w-4 h-4" />
+                  Lead search
+                </button>
+                <button
+                  onClick={() => setAudienceType('csv')}
+                  className={cn(
+                    'flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md transition-colors cursor-pointer',
+                    audienceType === 'csv' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                  )}
+                >
+                  <Upload className="w-4 h-4" />
+                  CSV upload
+                </button>
+              </div>
+
+              {audienceType === 'search' ? (
+                <div className="space-y-1.5">
+                  <Select value={viewId} onValueChange={setViewId}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_LEADS}>All leads</SelectItem>
+                      {savedViews.map((view) => (
+                        <SelectItem key={view.id} value={view.id}>{view.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500">
+                    Saved views from the inbox sidebar. Up to {formatNumber(MAX_CAMPAIGN_RECIPIENTS)} matching leads are included.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-1.5">
+                  <label className="flex items-center justify-center gap-2 px-3 py-4 border-2 border-dashed border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50 cursor-pointer">
+                    <Upload className="w-4 h-4" />
+                    {csvFileName || 'Choose a CSV file'}
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      className="hidden"
+                      onChange={(e) => handleCsvFile(e.target.files?.[0])}
+                    />
+                  </label>
+                  <p className="text-xs text-gray-500">
+                    Columns: phone (required), name, company, position, email. A header row is optional.
+                  </p>
+                  {csvFileName && (
+                    <p className={cn('text-xs', csvRecipients.length > 0 ? 'text-green-700' : 'text-red-600')}>
+                      {formatNumber(csvRecipients.length)} recipients
+                      {csvRecipients.length > MAX_CAMPAIGN_RECIPIENTS && ` (only the first ${formatNumber(MAX_CAMPAIGN_RECIPIENTS)} will be used)`}
+                      {csvInvalidRows.length > 0 && (
+                        <span className="text-amber-700">
+                          {' '}· {csvInvalidRows.length} rows without a valid phone (line {csvInvalidRows.slice(0, 5).join(', ')}
+                          {csvInvalidRows.length > 5 ? ', ...' : ''})
+                        </span>
+                      )}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Throttling */}
+            <div className="space-y-1.5">
+              <Label htmlFor="campaign-rate">Messages per minute</Label>
+              <Input
+                id="campaign-rate"
+                type="number"
+                min={1}
+                max={60}
+                value={messagesPerMinute}
+                onChange={(e) => setMessagesPerMinute(e.target.value)}
+                className="w-32"
+              />
+            </div>
+          </div>
+
+          <Separator className="my-2" />
+          <div className="flex justify-end gap-2 flex-shrink-0">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={creating}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!canCreate || creating}>
+              {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : (
+                <>
+                  <Megaphone className="w-4 h-4 mr-1" />
+                  Start campaign
+                </>
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <TemplateSelectorDialog
+        open={showTemplatePicker}
+        onOpenChange={setShowTemplatePicker}
+        onSelectTemplate={handleSelectTemplate}
+      />
+    </>
+  );
+}
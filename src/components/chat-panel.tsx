@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback, memo } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, memo } from 'react';
 import {
   MessageSquare,
   ClipboardCheck,
@@ -17,6 +17,9 @@ import {
   Loader2,
   CheckCircle,
   XCircle,
+  Check,
+  CheckCheck,
+  RotateCcw,
   Building2,
   Video,
   Clock,
@@ -49,6 +52,7 @@ import {
   MapPin,
   Eye,
   X,
+  Paperclip,
 } from 'lucide-react';
 import { FaWhatsapp } from 'react-icons/fa';
 import { Button } from '@/components/ui/button';
@@ -73,10 +77,20 @@ import { cn, formatNumber } from '@/lib/utils';
 import { getQualificationInfo, getQualificationClasses } from '@/lib/qualification';
 import { formatDateDivider, shouldShowDateDivider, formatChatBubbleTime } from '@/lib/utils/date';
 import { useAutoPolling } from '@/hooks/use-auto-polling';
+import { useInboxStream } from '@/hooks/use-inbox-stream';
+import { useVirtualList } from '@/hooks/use-virtual-list';
 import { TemplateSelectorDialog } from './template-selector-dialog';
+import {
+  ACCEPTED_MEDIA_MIME_TYPES,
+  MAX_CAPTION_LENGTH,
+  supportsCaption,
+  validateMediaFile,
+  type OutboundMediaType,
+} from '@/lib/whatsapp-media';
 import type {
-  ConversationObject,
+  ConversationSummary,
   Message,
+  MessagePage,
   AgentStatusResponse,
   Meeting,
   HubSpotDeal,
@@ -89,8 +103,13 @@ import type {
   HubSpotTask,
   CompanyIntelligenceCheckResponse,
   CompanyIntelligenceStatus,
+  InboxEvent,
+  MessageDeliveryStatus,
+  MediaUploadResponse,
+  UpdateDealRequest,
 } from '@/types/cortex';
 import { useDealStages } from '@/contexts/deal-stages-context';
+import { useHubSpotPortal } from '@/hooks/use-hubspot-portal';
 import { useCRMCacheStore } from '@/lib/stores/crm-cache-store';
 import { useAuth } from '@/contexts/auth-context';
 
@@ -120,6 +139,16 @@ interface CRMData {
   };
 }
 
+// How often lead details are refreshed while polling instead of streaming
+const LEAD_DETAILS_REFRESH_MS = 30000;
+
+// File waiting in the composer or being sent; previewUrl is a local object URL
+interface ComposerAttachment {
+  file: File;
+  type: OutboundMediaType;
+  previewUrl: string;
+}
+
 interface ChatPanelProps {
   leadId: string | null;
   leadName?: string;
@@ -140,7 +169,12 @@ export const ChatPanel = memo(function ChatPanel({
   onMobileBack,
 }: ChatPanelProps) {
   const [activeTab, setActiveTab] = useState<TabType>('chat');
-  const [conversation, setConversation] = useState<ConversationObject | null>(null);
+  const [conversation, setConversation] = useState<ConversationSummary | null>(null);
+  // Thread is loaded in pages from /api/leads/[id]/messages, newest page first
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [userMessagesCount, setUserMessagesCount] = useState(0);
   const [agentStatus, setAgentStatus] = useState<AgentStatusResponse | null>(null);
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [crmData, setCrmData] = useState<CRMData | null>(null);
@@ -157,7 +191,7 @@ export const ChatPanel = memo(function ChatPanel({
   const [loadingCompanyIntel, setLoadingCompanyIntel] = useState(false);
   const [generatingCompanyIntel, setGeneratingCompanyIntel] = useState(false);
   const companyIntelPollingRef = useRef<NodeJS.Timeout | null>(null);
-  const { getStageLabel } = useDealStages();
+  const { getStageLabel, getPipelineLabel } = useDealStages();
   const { user } = useAuth();
   const isAdmin = user?.role === 'admin';
 
@@ -167,11 +201,23 @@ export const ChatPanel = memo(function ChatPanel({
   const [loadingSummary, setLoadingSummary] = useState(false);
   const [messageInput, setMessageInput] = useState('');
   const [sending, setSending] = useState(false);
+  // Sent from this panel but not yet in the conversation (or failed before reaching Cortex)
+  const [pendingMessages, setPendingMessages] = useState<Message[]>([]);
+  const [retryingMessageId, setRetryingMessageId] = useState<string | null>(null);
+  // Failed thread messages already resent as a new message; kept across leads since IDs are unique
+  const [retriedMessageIds, setRetriedMessageIds] = useState<Set<string>>(() => new Set());
+  // Attachment in the composer; the typed text becomes its caption
+  const [attachment, setAttachment] = useState<ComposerAttachment | null>(null);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [draggingFile, setDraggingFile] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Attachments of pending messages, kept so a failed send can be retried
+  const pendingAttachmentsRef = useRef(new Map<string, ComposerAttachment>());
   const [toggling, setToggling] = useState(false);
   const [debugMode, setDebugMode] = useState(false);
   const [updatingAttendance, setUpdatingAttendance] = useState<number | null>(null);
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
-  const scrollRef = useRef<HTMLDivElement>(null);
+  const [threadElement, setThreadElement] = useState<HTMLDivElement | null>(null);
 
   // AbortController for cancelling in-flight requests on leadId change
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -179,14 +225,69 @@ export const ChatPanel = memo(function ChatPanel({
   const leadIdRef = useRef(leadId);
   leadIdRef.current = leadId;
 
-  // Fetch conversation - uses ref for stable reference in polling
-  const fetchConversation = useCallback(async (isInitial = false, signal?: AbortSignal) => {
+  // Messages loaded so far, read for the `since` cursor
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  // Fetch messages - the latest page initially, then only what arrived after the last loaded message
+  const fetchMessages = useCallback(async (isInitial = false, signal?: AbortSignal) => {
     const currentLeadId = leadIdRef.current;
     if (!currentLeadId) return;
 
+    const loaded = messagesRef.current;
+    const latestId = isInitial ? undefined : loaded[loaded.length - 1]?.id;
+    const params = new URLSearchParams();
+    if (latestId) params.set('since', latestId);
+
     try {
-      if (isInitial) setLoading(true);
-      const response = await fetch(`/api/leads/${currentLeadId}`, { signal });
+      const response = await fetch(`/api/leads/${currentLeadId}/messages?${params}`, { signal });
+      if (!response.ok) return;
+
+      const page: MessagePage = await response.json();
+      // Only update state if this is still the active lead
+      if (leadIdRef.current !== currentLeadId) return;
+
+      setUserMessagesCount(page.user_messages_count);
+
+      if (!latestId || page.reset) {
+        setMessages(page.messages);
+        setOlderCursor(page.next_cursor);
+        return;
+      }
+
+      const updates = new Map(page.statuses.map((update) => [update.id, update]));
+      setMessages((prev) => {
+        let changed = false;
+        const known = new Set<string | undefined>();
+        const next = prev.map((msg) => {
+          known.add(msg.id);
+          const update = msg.id ? updates.get(msg.id) : undefined;
+          if (!update || update.status === msg.status) return msg;
+          changed = true;
+          return { ...msg, status: update.status, error: update.error };
+        });
+        const appended = page.messages.filter((msg) => !known.has(msg.id));
+
+        // Keep the same array when nothing changed so the thread doesn't re-render
+        if (!changed && appended.length === 0) return prev;
+        return [...next, ...appended];
+      });
+    } catch (error) {
+      // Ignore abort errors
+      if (error instanceof Error && error.name === 'AbortError') return;
+      console.error('Error fetching messages:', error);
+    }
+  }, []); // No dependencies - uses refs for stable reference
+
+  // Fetch lead details (agent status, meetings, window) without the thread
+  const leadDetailsFetchedAtRef = useRef(0);
+  const fetchLeadDetails = useCallback(async (signal?: AbortSignal) => {
+    const currentLeadId = leadIdRef.current;
+    if (!currentLeadId) return;
+
+    try {
+      leadDetailsFetchedAtRef.current = Date.now();
+      const response = await fetch(`/api/leads/${currentLeadId}?messages=false`, { signal });
 
       if (response.ok) {
         const data = await response.json();
@@ -203,12 +304,56 @@ export const ChatPanel = memo(function ChatPanel({
       // Ignore abort errors
       if (error instanceof Error && error.name === 'AbortError') return;
       console.error('Error fetching conversation:', error);
+    }
+  }, []); // No dependencies - uses refs for stable reference
+
+  // Fetch conversation - lead details on the initial load only, then new messages
+  const fetchConversation = useCallback(async (isInitial = false, signal?: AbortSignal) => {
+    const currentLeadId = leadIdRef.current;
+    if (!currentLeadId) return;
+
+    try {
+      if (isInitial) setLoading(true);
+      await Promise.all([
+        isInitial ? fetchLeadDetails(signal) : undefined,
+        fetchMessages(isInitial, signal),
+      ]);
     } finally {
       if (isInitial && leadIdRef.current === currentLeadId) {
         setLoading(false);
       }
     }
-  }, []); // No dependencies - uses refs for stable reference
+  }, [fetchLeadDetails, fetchMessages]);
+
+  // Load the page of messages before the oldest loaded one
+  const prependAnchorRef = useRef<number | null>(null);
+  const loadOlderMessages = useCallback(async () => {
+    const currentLeadId = leadIdRef.current;
+    if (!currentLeadId || !olderCursor || loadingOlder) return;
+
+    try {
+      setLoadingOlder(true);
+      const response = await fetch(
+        `/api/leads/${currentLeadId}/messages?cursor=${encodeURIComponent(olderCursor)}`
+      );
+
+      if (response.ok) {
+        const page: MessagePage = await response.json();
+        if (leadIdRef.current === currentLeadId) {
+          // Remember the distance from the bottom so the view stays put after prepending
+          if (threadElement && !page.reset) {
+            prependAnchorRef.current = threadElement.scrollHeight - threadElement.scrollTop;
+          }
+          setMessages((prev) => (page.reset ? page.messages : [...page.messages, ...prev]));
+          setOlderCursor(page.next_cursor);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [olderCursor, loadingOlder, threadElement]);
 
   // Fetch CRM data
   const fetchCRMData = useCallback(async (signal?: AbortSignal) => {
@@ -230,6 +375,43 @@ export const ChatPanel = memo(function ChatPanel({
     }
   }, []); // No dependencies - uses refs for stable reference
 
+  // Update the lead's deal optimistically, reverting if HubSpot rejects the change
+  const updateDeal = useCallback(async (updates: UpdateDealRequest) => {
+    const currentLeadId = leadIdRef.current;
+    if (!currentLeadId || !crmData?.deal) return;
+
+    const previous = crmData;
+    const optimisticDeal: HubSpotDeal = { ...crmData.deal, ...updates };
+    if (updates.dealstage || updates.pipeline) {
+      optimisticDeal.dealstage_label = getStageLabel(optimisticDeal.dealstage, optimisticDeal.pipeline);
+      optimisticDeal.pipeline_label = getPipelineLabel(optimisticDeal.pipeline);
+    }
+    setCrmData({ ...crmData, deal: optimisticDeal });
+
+    try {
+      const response = await fetch(`/api/leads/${currentLeadId}/crm`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update deal');
+      }
+      // Cached CRM data for this lead no longer matches HubSpot
+      useCRMCacheStore.getState().invalidateCRMData(currentLeadId);
+      if (leadIdRef.current === currentLeadId) {
+        setCrmData((current) => current && { ...current, deal: { ...optimisticDeal, ...data.deal } });
+      }
+    } catch (error) {
+      console.error('Error updating deal:', error);
+      if (leadIdRef.current === currentLeadId) {
+        setCrmData(previous);
+      }
+      throw error;
+    }
+  }, [crmData, getStageLabel, getPipelineLabel]);
+
   const fetchSummary = async () => {
     if (!leadId || loadingSummary) return;
     try {
@@ -482,11 +664,36 @@ export const ChatPanel = memo(function ChatPanel({
     }
   };
 
-  // Use auto-polling hook for real-time updates (polling only, no immediate call)
+  // Real-time updates for this lead
+  const handleInboxEvent = useCallback((event: InboxEvent) => {
+    if (event.type === 'deal_stage.changed') {
+      fetchCRMData();
+    } else if (event.type === 'message.new') {
+      fetchConversation();
+    } else {
+      fetchLeadDetails();
+    }
+  }, [fetchConversation, fetchLeadDetails, fetchCRMData]);
+
+  const { connected: streamConnected } = useInboxStream({
+    leadIds: leadId ? [leadId] : undefined,
+    enabled: !!leadId,
+    onEvent: handleInboxEvent,
+  });
+
+  // Without the stream there are no agent or window events, so refresh lead details now and then
+  const pollConversation = useCallback(async () => {
+    await Promise.all([
+      fetchConversation(),
+      Date.now() - leadDetailsFetchedAtRef.current >= LEAD_DETAILS_REFRESH_MS ? fetchLeadDetails() : undefined,
+    ]);
+  }, [fetchConversation, fetchLeadDetails]);
+
+  // Fall back to auto-polling while the event stream is down (polling only, no immediate call)
   useAutoPolling({
     interval: 5000,
-    enabled: !!leadId,
-    onPoll: fetchConversation,
+    enabled: !!leadId && !streamConnected,
+    onPoll: pollConversation,
   });
 
   // Initial fetch when leadId changes - handles cancellation of in-flight requests
@@ -512,6 +719,13 @@ export const ChatPanel = memo(function ChatPanel({
       setTasksData(null);
       setCompanyIntelligence(null);
       setMessageInput('');
+      setMessages([]);
+      setOlderCursor(null);
+      setUserMessagesCount(0);
+      setPendingMessages([]);
+      pendingAttachmentsRef.current.forEach((media) => URL.revokeObjectURL(media.previewUrl));
+      pendingAttachmentsRef.current.clear();
+      clearAttachment();
 
       // Fetch data with abort signal
       fetchConversation(true, abortController.signal);
@@ -519,6 +733,8 @@ export const ChatPanel = memo(function ChatPanel({
     } else {
       // Clear states when no lead selected
       setConversation(null);
+      setMessages([]);
+      setOlderCursor(null);
       setSummary(null);
       setCrmData(null);
       setMeetings([]);
@@ -534,63 +750,250 @@ export const ChatPanel = memo(function ChatPanel({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [leadId]); // Only depend on leadId - callbacks use refs
 
-  // Scroll to bottom when messages change or conversation loads
-  const messageCount = conversation?.conversation?.length ?? 0;
+  const threadMessages = [...messages, ...pendingMessages];
+  const lastMessageId = threadMessages[threadMessages.length - 1]?.id;
+  const firstMessageId = threadMessages[0]?.id;
+
+  // Only the messages near the viewport are rendered
+  const {
+    items: virtualMessages,
+    totalSize: threadHeight,
+    measureElement,
+  } = useVirtualList({
+    scrollElement: threadElement,
+    keys: threadMessages.map((msg, index) => msg.id ?? `index-${index}`),
+  });
+
+  // Follow new messages only while the user is at the bottom of the thread
+  const stickToBottomRef = useRef(true);
+  const handleThreadScroll = () => {
+    if (!threadElement) return;
+    const { scrollTop, scrollHeight, clientHeight } = threadElement;
+    stickToBottomRef.current = scrollHeight - scrollTop - clientHeight < 120;
+    if (scrollTop < 300) {
+      loadOlderMessages();
+    }
+  };
+
+  // Keep the visible messages in place when older history is prepended
+  useLayoutEffect(() => {
+    if (!threadElement || prependAnchorRef.current === null) return;
+    threadElement.scrollTop = threadElement.scrollHeight - prependAnchorRef.current;
+    prependAnchorRef.current = null;
+  }, [firstMessageId, threadElement]);
+
+  // Scroll to bottom when a new message arrives or conversation loads
   const prevLeadIdRef = useRef<string | number | null>(null);
 
   useEffect(() => {
+    if (!lastMessageId || !threadElement) return;
+
     const isNewConversation = prevLeadIdRef.current !== leadId;
     prevLeadIdRef.current = leadId;
+    if (isNewConversation) {
+      stickToBottomRef.current = true;
+    } else if (!stickToBottomRef.current) {
+      return;
+    }
 
     const scrollToBottom = (behavior: ScrollBehavior = 'smooth') => {
-      if (scrollRef.current) {
-        scrollRef.current.scrollIntoView({ behavior, block: 'end' });
-      }
+      threadElement.scrollTo({ top: threadElement.scrollHeight, behavior });
     };
 
-    // Scroll on initial load and message updates
-    if (messageCount > 0) {
-      // For new conversations, do a quick initial scroll then smooth scroll
-      // For message updates in same conversation, just smooth scroll
-      const timeoutId = setTimeout(() => {
-        scrollToBottom(isNewConversation ? 'instant' : 'smooth');
-      }, 50);
-
-      // Smooth scroll after content settles (images loaded, etc.)
-      const delayedTimeoutId = setTimeout(() => {
-        scrollToBottom('smooth');
-      }, 300);
-
-      return () => {
-        clearTimeout(timeoutId);
-        clearTimeout(delayedTimeoutId);
-      };
-    }
-  }, [messageCount, leadId]);
+    // For new conversations, do a quick initial scroll then smooth scroll
+    // For message updates in same conversation, just smooth scroll
+    const timeoutId = setTimeout(() => {
+      scrollToBottom(isNewConversation ? 'instant' : 'smooth');
+    }, 50);
 
-  const handleSendMessage = async () => {
-    if (!messageInput.trim() || !leadId || sending) return;
+    // Smooth scroll after content settles (images loaded, etc.)
+    const delayedTimeoutId = setTimeout(() => {
+      scrollToBottom('smooth');
+    }, 300);
 
+    return () => {
+      clearTimeout(timeoutId);
+      clearTimeout(delayedTimeoutId);
+    };
+  }, [lastMessageId, leadId, threadElement]);
+
+  // Show a message as queued until the conversation includes it, or as failed with the reason
+  const sendPending = async (pending: Message, send: () => Promise<Response>, onSent?: () => void) => {
+    const pendingId = pending.id;
+    setPendingMessages((prev) => [...prev.filter((msg) => msg.id !== pendingId), pending]);
+    stickToBottomRef.current = true;
+
+    let error: Message['error'] = { title: 'Network error' };
     try {
-      setSending(true);
-      const response = await fetch(`/api/leads/${leadId}/messages`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: messageInput.trim() }),
-      });
+      const response = await send();
 
       if (response.ok) {
-        setMessageInput('');
-        fetchConversation();
+        await fetchConversation();
+        setPendingMessages((prev) => prev.filter((msg) => msg.id !== pendingId));
+        onSent?.();
         onLeadUpdate?.();
+        return;
+      }
+
+      const data = await response.json().catch(() => null);
+      error = { code: data?.code, title: data?.error || 'Failed to send message' };
+    } catch (err) {
+      console.error('Error sending message:', err);
+    }
+
+    setPendingMessages((prev) =>
+      prev.map((msg) => (msg.id === pendingId ? { ...msg, status: 'failed' as const, error } : msg))
+    );
+  };
+
+  const sendText = (text: string, pendingId: string) =>
+    sendPending(
+      {
+        id: pendingId,
+        role: 'assistant',
+        content: text,
+        created_at: new Date().toISOString(),
+        status: 'queued',
+      },
+      () =>
+        fetch(`/api/leads/${leadId}/messages`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ message: text }),
+        })
+    );
+
+  // Upload an attachment, then send it with the caption. The local preview
+  // is shown until the sent message comes back in the conversation.
+  const sendMedia = (media: ComposerAttachment, caption: string, pendingId: string) => {
+    pendingAttachmentsRef.current.set(pendingId, media);
+
+    return sendPending(
+      {
+        id: pendingId,
+        role: 'assistant',
+        content: caption,
+        created_at: new Date().toISOString(),
+        status: 'queued',
+        metadata: {
+          media: {
+            type: media.type,
+            url: media.previewUrl,
+            mime_type: media.file.type,
+            filename: media.file.name,
+            caption: caption || undefined,
+          },
+        },
+      },
+      async () => {
+        const formData = new FormData();
+        formData.append('file', media.file);
+        const uploadResponse = await fetch('/api/media/upload', { method: 'POST', body: formData });
+        if (!uploadResponse.ok) return uploadResponse;
+
+        const upload: MediaUploadResponse = await uploadResponse.json();
+        return fetch(`/api/leads/${leadId}/messages`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            message: caption,
+            media: { media_id: upload.media_id, type: media.type, filename: media.file.name },
+          }),
+        });
+      },
+      () => {
+        pendingAttachmentsRef.current.delete(pendingId);
+        URL.revokeObjectURL(media.previewUrl);
+      }
+    );
+  };
+
+  const selectAttachment = (file: File) => {
+    const validation = validateMediaFile(file);
+    if ('error' in validation) {
+      setAttachmentError(validation.error);
+      return;
+    }
+    setAttachmentError(null);
+    setAttachment((prev) => {
+      if (prev) URL.revokeObjectURL(prev.previewUrl);
+      return { file, type: validation.type, previewUrl: URL.createObjectURL(file) };
+    });
+  };
+
+  const clearAttachment = () => {
+    setAttachment((prev) => {
+      if (prev) URL.revokeObjectURL(prev.previewUrl);
+      return null;
+    });
+    setAttachmentError(null);
+  };
+
+  const handleComposerPaste = (e: React.ClipboardEvent) => {
+    const file = e.clipboardData.files[0];
+    if (!file) return;
+    e.preventDefault();
+    selectAttachment(file);
+  };
+
+  const handleComposerDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) selectAttachment(file);
+  };
+
+  const handleSendMessage = async () => {
+    const text = messageInput.trim();
+    if ((!text && !attachment) || !leadId || sending) return;
+
+    if (attachment && supportsCaption(attachment.type) && text.length > MAX_CAPTION_LENGTH) {
+      setAttachmentError(`Captions can be at most ${MAX_CAPTION_LENGTH} characters`);
+      return;
+    }
+
+    try {
+      setSending(true);
+      setMessageInput('');
+      const pendingId = `pending-${Date.now()}`;
+      if (attachment) {
+        // The pending message takes over the preview URL, so it isn't revoked here
+        const media = attachment;
+        setAttachment(null);
+        setAttachmentError(null);
+        await sendMedia(media, text, pendingId);
+      } else {
+        await sendText(text, pendingId);
       }
-    } catch (error) {
-      console.error('Error sending message:', error);
     } finally {
       setSending(false);
     }
   };
 
+  // Retry a failed send. Messages that failed in WhatsApp are sent again as a new message,
+  // once: the original is marked as resent and further retries go through the new message.
+  const handleRetryMessage = async (message: Message) => {
+    if (!leadId || !message.id || retryingMessageId) return;
+
+    const isPending = pendingMessages.some((msg) => msg.id === message.id);
+    if (!isPending) {
+      if (retriedMessageIds.has(message.id)) return;
+      const originalId = message.id;
+      setRetriedMessageIds((prev) => new Set(prev).add(originalId));
+    }
+    const media = isPending ? pendingAttachmentsRef.current.get(message.id) : undefined;
+    try {
+      setRetryingMessageId(message.id);
+      if (media) {
+        await sendMedia(media, message.content, message.id);
+      } else {
+        await sendText(message.content, isPending ? message.id : `pending-${Date.now()}`);
+      }
+    } finally {
+      setRetryingMessageId(null);
+    }
+  };
+
   const handleToggleAgent = async () => {
     if (!leadId || toggling) return;
 
@@ -610,7 +1013,7 @@ export const ChatPanel = memo(function ChatPanel({
       });
 
       if (response.ok) {
-        fetchConversation();
+        fetchLeadDetails();
         onLeadUpdate?.();
       }
     } catch (error) {
@@ -631,16 +1034,13 @@ export const ChatPanel = memo(function ChatPanel({
   // Check if within 24-hour messaging window (from API)
   // window_status: 'open' = within 24h, 'expired' = outside 24h
   const isWindowOpen = conversation?.window_status !== 'expired';
+  // Attachments follow the same rules as typed messages
+  const canAttach = isWindowOpen && !isAgentActive;
 
   // Get phone number for WhatsApp link
   const phoneNumber = leadPhone || conversation?.client_data?.phone;
   const cleanPhone = phoneNumber?.replace(/\D/g, '');
 
-  // Count messages from the user (not assistant/agent messages)
-  const userMessagesCount = conversation?.conversation?.filter(
-    (msg: Message) => msg.role === 'user'
-  ).length || 0;
-
   // Only show Summary tab when there are at least 5 user messages
   const showSummaryTab = userMessagesCount >= 5;
 
@@ -701,9 +1101,9 @@ export const ChatPanel = memo(function ChatPanel({
           {/* Action Buttons */}
           <div className="flex items-center gap-1 md:gap-2">
             {/* Deal Stage Badge - hidden on mobile */}
-            {(crmData?.deal?.dealstage_label || (crmData?.deal?.dealstage && getStageLabel(crmData.deal.dealstage))) && (
+            {(crmData?.deal?.dealstage_label || (crmData?.deal?.dealstage && getStageLabel(crmData.deal.dealstage, crmData.deal.pipeline))) && (
               <Badge className="hidden md:inline-flex bg-purple-100 text-purple-700 hover:bg-purple-100 px-3 py-1.5">
-                {crmData?.deal?.dealstage_label || getStageLabel(crmData?.deal?.dealstage)}
+                {crmData?.deal?.dealstage_label || getStageLabel(crmData?.deal?.dealstage, crmData?.deal?.pipeline)}
               </Badge>
             )}
 
@@ -797,7 +1197,29 @@ export const ChatPanel = memo(function ChatPanel({
       {/* Tab Content */}
       <div className="flex-1 flex flex-col min-h-0 overflow-hidden">
         {activeTab === 'chat' && (
-          <>
+          <div
+            className="relative flex-1 flex flex-col min-h-0"
+            onDragOver={(e) => {
+              if (!canAttach || !e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              setDraggingFile(true);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDraggingFile(false);
+            }}
+            onDrop={(e) => {
+              if (canAttach) handleComposerDrop(e);
+            }}
+          >
+            {draggingFile && (
+              <div className="absolute inset-2 z-20 flex items-center justify-center rounded-xl border-2 border-dashed border-blue-400 bg-blue-50/90 pointer-events-none">
+                <div className="text-center text-blue-700">
+                  <Paperclip className="w-8 h-8 mx-auto mb-2" />
+                  <p className="text-sm font-medium">Drop to attach</p>
+                </div>
+              </div>
+            )}
+
             {/* Debug Toggle - Admin only */}
             {isAdmin && (
               <div className="flex-shrink-0 flex items-center justify-end px-4 py-2 border-b border-gray-100 bg-white shadow-sm relative z-10">
@@ -817,8 +1239,10 @@ export const ChatPanel = memo(function ChatPanel({
             )}
 
             {/* Messages */}
-            <ScrollArea
-              className="flex-1 min-h-0"
+            <div
+              ref={setThreadElement}
+              onScroll={handleThreadScroll}
+              className="flex-1 min-h-0 overflow-y-auto"
               style={{
                 backgroundImage: 'linear-gradient(rgba(255,255,255,0.85), rgba(255,255,255,0.85)), url(/chat-pattern.png)',
                 backgroundRepeat: 'repeat',
@@ -867,37 +1291,65 @@ export const ChatPanel = memo(function ChatPanel({
                     </div>
                   </div>
                 </div>
-              ) : conversation?.conversation?.length === 0 ? (
+              ) : threadMessages.length === 0 ? (
                 <div className="text-center text-gray-500 py-8">
                   <p>No messages yet</p>
                 </div>
               ) : (
-                <div className="space-y-4">
-                  {conversation?.conversation?.map((msg: Message, index: number) => {
-                    const prevMsg = index > 0 ? conversation.conversation[index - 1] : null;
-                    const showDivider = shouldShowDateDivider(msg.created_at, prevMsg?.created_at);
-                    const dividerText = showDivider ? formatDateDivider(msg.created_at) : null;
+                <>
+                  {/* Older history */}
+                  {olderCursor && (
+                    <div className="flex justify-center pb-4">
+                      {loadingOlder ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                      ) : (
+                        <button
+                          onClick={loadOlderMessages}
+                          className="text-xs font-medium text-gray-600 bg-white px-3 py-1.5 rounded-full shadow-md border border-gray-200 hover:bg-gray-50"
+                        >
+                          Load earlier messages
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  <div className="relative" style={{ height: threadHeight }}>
+                    {virtualMessages.map(({ key, index, start }) => {
+                      const msg = threadMessages[index];
+                      const prevMsg = index > 0 ? threadMessages[index - 1] : null;
+                      const showDivider = shouldShowDateDivider(msg.created_at, prevMsg?.created_at);
+                      const dividerText = showDivider ? formatDateDivider(msg.created_at) : null;
 
-                    return (
-                      <div key={index}>
-                        {/* Date Divider */}
-                        {showDivider && dividerText && (
-                          <div className="flex justify-center my-4">
-                            <span className="bg-white text-gray-600 text-xs font-medium px-3 py-1.5 rounded-full shadow-md border border-gray-200">
-                              {dividerText}
-                            </span>
-                          </div>
-                        )}
-                        <MessageBubble message={msg} showDebug={debugMode} />
-                      </div>
-                    );
-                  })}
-                  {/* Scroll anchor */}
-                  <div ref={scrollRef} />
-                </div>
+                      return (
+                        <div
+                          key={key}
+                          data-key={key}
+                          ref={measureElement}
+                          className="absolute inset-x-0 top-0 flow-root pb-4"
+                          style={{ transform: `translateY(${start}px)` }}
+                        >
+                          {/* Date Divider */}
+                          {showDivider && dividerText && (
+                            <div className="flex justify-center my-4">
+                              <span className="bg-white text-gray-600 text-xs font-medium px-3 py-1.5 rounded-full shadow-md border border-gray-200">
+                                {dividerText}
+                              </span>
+                            </div>
+                          )}
+                          <MessageBubble
+                            message={msg}
+                            showDebug={debugMode}
+                            onRetry={handleRetryMessage}
+                            retrying={!!msg.id && retryingMessageId === msg.id}
+                            retried={!!msg.id && retriedMessageIds.has(msg.id)}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </>
               )}
               </div>
-            </ScrollArea>
+            </div>
 
             {/* Message Input or Window Expired Banner */}
             <div className="flex-shrink-0 p-4 border-t border-gray-200">
@@ -922,36 +1374,107 @@ export const ChatPanel = memo(function ChatPanel({
                   </Button>
                 </div>
               ) : (
-                <div className="flex gap-2">
-                  <Textarea
-                    placeholder={isAgentActive ? "Turn off agent to send messages..." : "Type a message..."}
-                    value={messageInput}
-                    onChange={(e) => setMessageInput(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' && !e.shiftKey && !isAgentActive) {
-                        e.preventDefault();
-                        handleSendMessage();
+                <div className="space-y-2">
+                  {attachment && (
+                    <div className="flex items-center gap-3 p-2 bg-gray-50 border border-gray-200 rounded-lg">
+                      {attachment.type === 'image' ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                          src={attachment.previewUrl}
+                          alt={attachment.file.name}
+                          className="w-12 h-12 rounded object-cover flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-12 h-12 rounded bg-blue-100 text-blue-600 flex items-center justify-center flex-shrink-0">
+                          {attachment.type === 'video' ? (
+                            <Video className="w-5 h-5" />
+                          ) : attachment.type === 'audio' ? (
+                            <Music className="w-5 h-5" />
+                          ) : (
+                            <FileText className="w-5 h-5" />
+                          )}
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{attachment.file.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {(attachment.file.size / 1024).toFixed(1)} KB
+                          {supportsCaption(attachment.type)
+                            ? ' · Your message will be sent as the caption'
+                            : ' · Your message will be sent separately'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={clearAttachment}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Remove attachment"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                  {attachmentError && (
+                    <p className="text-xs text-red-600">{attachmentError}</p>
+                  )}
+                  <div className="flex gap-2">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={ACCEPTED_MEDIA_MIME_TYPES}
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) selectAttachment(file);
+                        e.target.value = '';
+                      }}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={!canAttach || sending}
+                      className="h-[44px] w-[44px] flex-shrink-0"
+                      title="Attach a file"
+                    >
+                      <Paperclip className="w-4 h-4" />
+                    </Button>
+                    <Textarea
+                      placeholder={
+                        isAgentActive
+                          ? "Turn off agent to send messages..."
+                          : attachment && supportsCaption(attachment.type)
+                            ? "Add a caption..."
+                            : "Type a message..."
                       }
-                    }}
-                    disabled={isAgentActive}
-                    className={cn(
-                      "min-h-[44px] max-h-32 resize-none",
-                      isAgentActive && "bg-gray-50 text-gray-400 cursor-not-allowed"
-                    )}
-                    rows={1}
-                  />
-                  <Button
-                    onClick={handleSendMessage}
-                    disabled={isAgentActive || !messageInput.trim() || sending}
-                    size="icon"
-                    className="h-[44px] w-[44px]"
-                  >
-                    <Send className="w-4 h-4" />
-                  </Button>
+                      value={messageInput}
+                      onChange={(e) => setMessageInput(e.target.value)}
+                      onPaste={canAttach ? handleComposerPaste : undefined}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey && !isAgentActive) {
+                          e.preventDefault();
+                          handleSendMessage();
+                        }
+                      }}
+                      disabled={isAgentActive}
+                      className={cn(
+                        "min-h-[44px] max-h-32 resize-none",
+                        isAgentActive && "bg-gray-50 text-gray-400 cursor-not-allowed"
+                      )}
+                      rows={1}
+                    />
+                    <Button
+                      onClick={handleSendMessage}
+                      disabled={isAgentActive || (!messageInput.trim() && !attachment) || sending}
+                      size="icon"
+                      className="h-[44px] w-[44px]"
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  </div>
                 </div>
               )}
             </div>
-          </>
+          </div>
         )}
 
         {activeTab === 'qualification' && (
@@ -990,6 +1513,7 @@ export const ChatPanel = memo(function ChatPanel({
             fullContact={fullContact}
             loadingFullContact={loadingFullContact}
             onFetchFullContact={fetchFullContact}
+            onUpdateDeal={updateDeal}
           />
         )}
 
@@ -1035,6 +1559,10 @@ export const ChatPanel = memo(function ChatPanel({
           company: leadCompany || crmData?.contact?.company || '',
           position: crmData?.contact?.position || '',
         }}
+        crmContext={{
+          deal: crmData?.deal,
+          hubspot: fullContact?.properties,
+        }}
         onTemplateSent={() => {
           fetchConversation();
           onLeadUpdate?.();
@@ -1077,7 +1605,41 @@ function renderTextWithLinks(text: string, className?: string): React.ReactNode
 
 // Message Bubble Component
 // Inverted: We are the chatbot (assistant), so our messages go on the right
-function MessageBubble({ message, showDebug }: { message: Message; showDebug?: boolean }) {
+// Tick shown next to the time of an outbound message
+const DELIVERY_STATUS_LABELS: Record<Exclude<MessageDeliveryStatus, 'failed'>, string> = {
+  queued: 'Sending',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+};
+
+function DeliveryStatusIcon({ status }: { status: Exclude<MessageDeliveryStatus, 'failed'> }) {
+  const label = DELIVERY_STATUS_LABELS[status];
+  const className = 'w-3.5 h-3.5 flex-shrink-0';
+
+  return (
+    <span title={label} aria-label={label} className="flex items-center">
+      {status === 'queued' && <Clock className={className} />}
+      {status === 'sent' && <Check className={className} />}
+      {status === 'delivered' && <CheckCheck className={className} />}
+      {status === 'read' && <CheckCheck className={cn(className, 'text-cyan-300')} />}
+    </span>
+  );
+}
+
+function MessageBubble({
+  message,
+  showDebug,
+  onRetry,
+  retrying,
+  retried,
+}: {
+  message: Message;
+  showDebug?: boolean;
+  onRetry?: (message: Message) => void;
+  retrying?: boolean;
+  retried?: boolean; // Already resent as a new message
+}) {
   const [debugExpanded, setDebugExpanded] = useState(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [previewPdf, setPreviewPdf] = useState<{ url: string; filename: string } | null>(null);
@@ -1090,19 +1652,21 @@ function MessageBubble({ message, showDebug }: { message: Message; showDebug?: b
   const mediaUrl = metadata?.media_url as string | undefined;
   const payloadType = metadata?.payload_type as string | undefined;
   const isVoice = metadata?.is_voice as boolean | undefined;
-  const mediaMetadata = metadata?.media_metadata as {
+  // Attachment sent from this panel that isn't in the conversation yet (local preview)
+  const pendingMedia = metadata?.media;
+  const mediaMetadata = (metadata?.media_metadata as {
     mime_type?: string;
     filename?: string;
     caption?: string;
-  } | undefined;
+  } | undefined) ?? pendingMedia;
 
   // Template media (header_media_url from templates with VIDEO/IMAGE/DOCUMENT headers)
   const templateMediaUrl = metadata?.header_media_url as string | undefined;
   const templateMediaType = (metadata?.header_type as string | undefined)?.toLowerCase(); // VIDEO -> video
 
   // Use template media if regular media not present
-  const effectiveMediaUrl = mediaUrl || templateMediaUrl;
-  const effectivePayloadType = payloadType || templateMediaType;
+  const effectiveMediaUrl = mediaUrl || pendingMedia?.url || templateMediaUrl;
+  const effectivePayloadType = payloadType || pendingMedia?.type || templateMediaType;
 
   const hasMedia = effectiveMediaUrl && effectivePayloadType;
 
@@ -1157,10 +1721,17 @@ function MessageBubble({ message, showDebug }: { message: Message; showDebug?: b
     return contacts.length > 0 ? contacts : null;
   })() : null;
 
-  // Check if message failed and get failure reason
-  const messageFailed = metadata?.kapso_status === 'failed' || metadata?.status === 'failed';
-  const failureReason = metadata?.failure_reason as { code?: number; title?: string } | undefined;
+  // Delivery status and failure reason (normalized by the API)
+  const deliveryStatus = isAssistant ? message.status : undefined;
+  const messageFailed = deliveryStatus === 'failed';
+  const failureReason = message.error;
   const failureText = failureReason?.title || failureReason?.code?.toString() || 'Message failed to deliver';
+  // Plain text and attachments still held by this panel can be resent; other
+  // media and templates go through their own flows
+  const canRetry = messageFailed && !!onRetry && !retried && (
+    !!pendingMedia ||
+    (!!message.content && !hasMedia && !locationData && !contactsData && (!payloadType || payloadType === 'text'))
+  );
 
   // Don't show placeholder content like "[IMAGE]", "[Video]", or "[DOCUMENT: ...]" when we have media
   const isPlaceholderContent = message.content?.startsWith('[') && message.content?.endsWith(']');
@@ -1436,6 +2007,9 @@ function MessageBubble({ message, showDebug }: { message: Message; showDebug?: b
             isAssistant ? 'text-blue-200' : 'text-gray-400'
           )}>
             {formattedTime}
+            {deliveryStatus && deliveryStatus !== 'failed' && (
+              <DeliveryStatusIcon status={deliveryStatus} />
+            )}
             {messageFailed && (
               <TooltipProvider>
                 <Tooltip delayDuration={200}>
@@ -1455,6 +2029,26 @@ function MessageBubble({ message, showDebug }: { message: Message; showDebug?: b
                 </Tooltip>
               </TooltipProvider>
             )}
+            {messageFailed && retried && (
+              <span className="flex items-center gap-1 text-gray-500 bg-white px-2 py-0.5 rounded-full">
+                <RotateCcw className="w-3 h-3" />
+                <span className="text-[11px]">Resent</span>
+              </span>
+            )}
+            {canRetry && (
+              <button
+                onClick={() => onRetry?.(message)}
+                disabled={retrying}
+                className="flex items-center gap-1 text-red-600 font-medium bg-white hover:bg-red-50 px-2 py-0.5 rounded-full transition-colors disabled:opacity-60"
+              >
+                {retrying ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-3 h-3" />
+                )}
+                <span className="text-[11px]">Retry</span>
+              </button>
+            )}
           </div>
 
           {/* Debug metadata section */}
@@ -1578,7 +2172,7 @@ function MessageBubble({ message, showDebug }: { message: Message; showDebug?: b
 }
 
 // Qualification Tab Component
-function QualificationTab({ conversation }: { conversation: ConversationObject | null }) {
+function QualificationTab({ conversation }: { conversation: ConversationSummary | null }) {
   const qualInfo = getQualificationInfo(conversation?.qualification);
   const clientData = conversation?.client_data;
 
@@ -2201,16 +2795,95 @@ function CRMTab({
   fullContact,
   loadingFullContact,
   onFetchFullContact,
+  onUpdateDeal,
 }: {
   crmData: CRMData | null;
   fullContact: FullContactResponse | null;
   loadingFullContact: boolean;
   onFetchFullContact: () => void;
+  onUpdateDeal: (updates: UpdateDealRequest) => Promise<void>;
 }) {
-  const HUBSPOT_PORTAL_ID = '50418538';
-  const { getStageLabel } = useDealStages();
+  const { pipelines, getStageLabel, getPipelineLabel } = useDealStages();
+  const { getRecordLink } = useHubSpotPortal();
+  const dealPipelineLabel = crmData?.deal?.pipeline_label || getPipelineLabel(crmData?.deal?.pipeline);
   const [showAllProperties, setShowAllProperties] = useState(false);
 
+  // Inline deal editing
+  const [editingDeal, setEditingDeal] = useState(false);
+  const [savingDeal, setSavingDeal] = useState(false);
+  const [dealError, setDealError] = useState<string | null>(null);
+  const [formStage, setFormStage] = useState('');
+  const [formAmount, setFormAmount] = useState('');
+  const [formCloseDate, setFormCloseDate] = useState('');
+  const [formNextStep, setFormNextStep] = useState('');
+
+  const deal = crmData?.deal;
+
+  // Stage options are keyed by pipeline too, since stage IDs are only unique within a pipeline
+  const toStageValue = (pipelineId: string | null | undefined, stageId: string | null | undefined) =>
+    `${pipelineId ?? ''}|${stageId ?? ''}`;
+
+  const startEditingDeal = () => {
+    if (!deal) return;
+    setFormStage(toStageValue(deal.pipeline, deal.dealstage));
+    setFormAmount(deal.amount !== null && deal.amount !== undefined ? String(deal.amount) : '');
+    setFormCloseDate(deal.closedate ? deal.closedate.slice(0, 10) : '');
+    setFormNextStep(deal.hs_next_step || '');
+    setDealError(null);
+    setEditingDeal(true);
+  };
+
+  const saveDeal = async (updates: UpdateDealRequest) => {
+    if (Object.keys(updates).length === 0) {
+      setEditingDeal(false);
+      return;
+    }
+    try {
+      setSavingDeal(true);
+      setDealError(null);
+      setEditingDeal(false);
+      await onUpdateDeal(updates);
+    } catch (error) {
+      setDealError(error instanceof Error ? error.message : 'Failed to update deal');
+    } finally {
+      setSavingDeal(false);
+    }
+  };
+
+  const handleSaveDeal = () => {
+    if (!deal) return;
+    const updates: UpdateDealRequest = {};
+
+    const [pipelineId, stageId] = formStage.split('|');
+    if (stageId && stageId !== deal.dealstage) {
+      updates.dealstage = stageId;
+      if (pipelineId && pipelineId !== deal.pipeline) {
+        updates.pipeline = pipelineId;
+      }
+    }
+
+    const amount = formAmount.trim() === '' ? null : Number(formAmount);
+    if (amount !== null && (!Number.isFinite(amount) || amount < 0)) {
+      setDealError('Amount must be a positive number');
+      return;
+    }
+    if (amount !== (deal.amount ?? null)) {
+      updates.amount = amount;
+    }
+
+    const closeDate = formCloseDate || null;
+    if (closeDate !== (deal.closedate ? deal.closedate.slice(0, 10) : null)) {
+      updates.closedate = closeDate;
+    }
+
+    const nextStep = formNextStep.trim() || null;
+    if (nextStep !== (deal.hs_next_step || null)) {
+      updates.hs_next_step = nextStep;
+    }
+
+    saveDeal(updates);
+  };
+
   // Fetch full contact data on first render if not already loaded
   useEffect(() => {
     if (!fullContact && !loadingFullContact) {
@@ -2244,6 +2917,7 @@ function CRMTab({
   }
 
   const props = fullContact?.properties || {};
+  const companyLink = getRecordLink('company', fullContact?.company_ids?.[0]) || crmData.links.company_link;
 
   // Helper to format property values for display
   const formatPropertyValue = (value: string | number | boolean | null | undefined): string => {
@@ -2368,12 +3042,12 @@ function CRMTab({
                   </div>
                 </div>
                 {(() => {
-                  // Construct HubSpot link with proper fallback and validation
+                  // Prefer the configured portal; Cortex links are the fallback when none is set
                   const contactId = crmData.contact?.id || fullContact?.contact_id;
                   const hubspotLink =
+                    getRecordLink('contact', contactId) ||
                     fullContact?.hubspot_link ||
-                    crmData.links.contact_link ||
-                    (contactId ? `https://app.hubspot.com/contacts/${HUBSPOT_PORTAL_ID}/contact/${contactId}/` : null);
+                    crmData.links.contact_link;
 
                   return hubspotLink ? (
                     <a
@@ -2464,7 +3138,7 @@ function CRMTab({
         )}
 
         {/* 4. Company Card */}
-        {crmData.links.company_link && (
+        {companyLink && (
           <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
             <div className="p-3">
               <div className="flex items-center justify-between">
@@ -2480,7 +3154,7 @@ function CRMTab({
                   </div>
                 </div>
                 <a
-                  href={crmData.links.company_link}
+                  href={companyLink}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-orange-600 bg-orange-50 hover:bg-orange-100 rounded transition-colors"
@@ -2507,16 +3181,15 @@ function CRMTab({
                     <div className="flex items-center gap-2">
                       {(crmData.deal.dealstage_label || crmData.deal.dealstage) && (
                         <Badge className="text-[10px] px-1.5 py-0 h-4 bg-purple-100 text-purple-700 hover:bg-purple-100">
-                          {crmData.deal.dealstage_label || getStageLabel(crmData.deal.dealstage) || crmData.deal.dealstage}
+                          {crmData.deal.dealstage_label || getStageLabel(crmData.deal.dealstage, crmData.deal.pipeline) || crmData.deal.dealstage}
                         </Badge>
                       )}
+                      {savingDeal && <Loader2 className="w-3 h-3 animate-spin text-gray-400" />}
                     </div>
                   </div>
                 </div>
                 {(() => {
-                  // Construct HubSpot deal link with proper validation
-                  const dealLink = crmData.links.deal_link ||
-                    (crmData.deal.id ? `https://app.hubspot.com/contacts/${HUBSPOT_PORTAL_ID}/deal/${crmData.deal.id}/` : null);
+                  const dealLink = getRecordLink('deal', crmData.deal.id) || crmData.links.deal_link;
 
                   return dealLink ? (
                     <a
@@ -2537,26 +3210,118 @@ function CRMTab({
                 })()}
               </div>
             </div>
-            <div className="p-3 grid grid-cols-2 gap-3 text-xs">
-              {crmData.deal.amount !== null && crmData.deal.amount !== undefined && (
+            {dealError && (
+              <div className="mx-3 mt-3 px-2.5 py-1.5 text-xs text-red-700 bg-red-50 border border-red-200 rounded">
+                {dealError}
+              </div>
+            )}
+            {editingDeal ? (
+              <div className="p-3 space-y-3">
                 <div>
-                  <div className="text-gray-500">Amount</div>
-                  <div className="font-semibold text-gray-900">${crmData.deal.amount.toLocaleString()}</div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Stage</label>
+                  <select
+                    value={formStage}
+                    onChange={(e) => setFormStage(e.target.value)}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {pipelines.length === 0 && (
+                      <option value={toStageValue(crmData.deal.pipeline, crmData.deal.dealstage)}>
+                        {crmData.deal.dealstage_label || crmData.deal.dealstage || 'Unknown stage'}
+                      </option>
+                    )}
+                    {pipelines.map((pipeline) => (
+                      <optgroup key={pipeline.id} label={pipeline.label}>
+                        {pipeline.stages.map((stage) => (
+                          <option key={stage.id} value={toStageValue(pipeline.id, stage.id)}>
+                            {stage.label}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Amount</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={formAmount}
+                      onChange={(e) => setFormAmount(e.target.value)}
+                      placeholder="0"
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Close Date</label>
+                    <input
+                      type="date"
+                      value={formCloseDate}
+                      onChange={(e) => setFormCloseDate(e.target.value)}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
                 </div>
-              )}
-              {crmData.deal.pipeline_label && (
                 <div>
-                  <div className="text-gray-500">Pipeline</div>
-                  <div className="font-semibold text-gray-900">{crmData.deal.pipeline_label}</div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Next Step</label>
+                  <input
+                    type="text"
+                    value={formNextStep}
+                    onChange={(e) => setFormNextStep(e.target.value)}
+                    placeholder="What happens next..."
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="flex items-center justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setEditingDeal(false)}>
+                    <X className="w-3.5 h-3.5 mr-1" />
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={handleSaveDeal}>
+                    <Check className="w-3.5 h-3.5 mr-1" />
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="p-3 space-y-3 text-xs">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <div className="text-gray-500">Amount</div>
+                    <div className="font-semibold text-gray-900">
+                      {crmData.deal.amount !== null && crmData.deal.amount !== undefined
+                        ? `$${crmData.deal.amount.toLocaleString()}`
+                        : '-'}
+                    </div>
+                  </div>
+                  {dealPipelineLabel && (
+                    <div>
+                      <div className="text-gray-500">Pipeline</div>
+                      <div className="font-semibold text-gray-900">{dealPipelineLabel}</div>
+                    </div>
+                  )}
+                  <div>
+                    <div className="text-gray-500">Close Date</div>
+                    <div className="font-semibold text-gray-900">
+                      {crmData.deal.closedate ? new Date(crmData.deal.closedate).toLocaleDateString() : '-'}
+                    </div>
+                  </div>
                 </div>
-              )}
-              {crmData.deal.closedate && (
                 <div>
-                  <div className="text-gray-500">Close Date</div>
-                  <div className="font-semibold text-gray-900">{new Date(crmData.deal.closedate).toLocaleDateString()}</div>
+                  <div className="text-gray-500">Next Step</div>
+                  <div className="font-semibold text-gray-900 whitespace-pre-wrap">{crmData.deal.hs_next_step || '-'}</div>
                 </div>
-              )}
-            </div>
+                <button
+                  onClick={startEditingDeal}
+                  disabled={savingDeal}
+                  className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  <Edit3 className="w-3 h-3" />
+                  Edit deal
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -2633,6 +3398,8 @@ function TimelineTab({
   loading: boolean;
   onFetch: () => void;
 }) {
+  const { getActivityLink } = useHubSpotPortal();
+
   // Fetch data on first render if not already loaded
   useEffect(() => {
     if (!activityData && !loading) {
@@ -2754,6 +3521,7 @@ function TimelineTab({
             {activityData.activities.map((activity, index) => {
               const colors = getActivityColor(activity.type);
               const timestamp = activity.timestamp ? new Date(activity.timestamp) : null;
+              const activityLink = getActivityLink(activityData.contact_id, activity.id);
 
               return (
                 <div key={activity.id || index} className="relative pl-12">
@@ -2784,20 +3552,33 @@ function TimelineTab({
                           </Badge>
                         )}
                       </div>
-                      {timestamp && (
-                        <span className="text-xs text-gray-400 whitespace-nowrap">
-                          {timestamp.toLocaleDateString('en-US', {
-                            month: 'short',
-                            day: 'numeric',
-                            year: timestamp.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
-                          })}
-                          {' '}
-                          {timestamp.toLocaleTimeString('en-US', {
-                            hour: '2-digit',
-                            minute: '2-digit',
-                          })}
-                        </span>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {timestamp && (
+                          <span className="text-xs text-gray-400 whitespace-nowrap">
+                            {timestamp.toLocaleDateString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                              year: timestamp.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
+                            })}
+                            {' '}
+                            {timestamp.toLocaleTimeString('en-US', {
+                              hour: '2-digit',
+                              minute: '2-digit',
+                            })}
+                          </span>
+                        )}
+                        {activityLink && (
+                          <a
+                            href={activityLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-gray-400 hover:text-orange-600"
+                            title="Open in HubSpot"
+                          >
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        )}
+                      </div>
                     </div>
 
                     {/* Title */}
@@ -2916,6 +3697,7 @@ function TasksTab({
   onFetch: (forceRefresh?: boolean) => void;
   leadPhone: string | null;
 }) {
+  const { getRecordLink } = useHubSpotPortal();
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingTask, setEditingTask] = useState<HubSpotTask | null>(null);
   const [creating, setCreating] = useState(false);
@@ -3253,6 +4035,7 @@ function TasksTab({
               const dueDate = task.due_date ? new Date(task.due_date) : null;
               const isOverdue = dueDate && dueDate < new Date() && task.status !== 'COMPLETED';
               const isCompleted = task.status === 'COMPLETED';
+              const taskLink = getRecordLink('task', task.id);
 
               return (
                 <div
@@ -3299,6 +4082,17 @@ function TasksTab({
                           </span>
                         </div>
                         <div className="flex items-center gap-1 flex-shrink-0">
+                          {taskLink && (
+                            <a
+                              href={taskLink}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="p-1 text-gray-400 hover:text-orange-600 transition-colors"
+                              title="Open in HubSpot"
+                            >
+                              <ExternalLink className="w-4 h-4" />
+                            </a>
+                          )}
                           <button
                             onClick={() => startEditing(task)}
                             className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
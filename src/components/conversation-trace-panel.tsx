@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  ArrowRight,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Pause,
+  Play,
+  Route,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { ConversationTraceResponse, ConversationTraceStep } from '@/types/cortex';
+
+type Props = {
+  // Called with the current step's nodes in visiting order, or null when nothing is traced
+  onPathChange: (path: string[] | null) => void;
+};
+
+// Time each step stays on screen while playing
+const PLAY_INTERVAL_MS = 2000;
+
+function formatTime(value?: string | null): string | null {
+  if (!value) return null;
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatStateValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function StepDetail({ step }: { step: ConversationTraceStep }) {
+  return (
+    <div className="space-y-3">
+      {step.user_message && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">User</p>
+          <p className="text-sm text-gray-800 whitespace-pre-wrap bg-gray-50 rounded-lg p-2.5">{step.user_message}</p>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-1">Path</p>
+        {step.nodes.length > 0 ? (
+          <div className="flex flex-wrap items-center gap-1">
+            {step.nodes.map((node, index) => (
+              <span key={`${node}-${index}`} className="flex items-center gap-1">
+                {index > 0 && <ChevronRight className="w-3 h-3 text-gray-400" aria-hidden="true" />}
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    'text-xs',
+                    index === step.nodes.length - 1 && 'bg-emerald-50 border-emerald-300 text-emerald-700'
+                  )}
+                >
+                  {node}
+                </Badge>
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">No nodes ran on this turn.</p>
+        )}
+      </div>
+
+      {step.agent_reply && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">Agent</p>
+          <p className="text-sm text-gray-800 whitespace-pre-wrap bg-indigo-50 rounded-lg p-2.5">{step.agent_reply}</p>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-1">State changes</p>
+        {step.state_changes.length > 0 ? (
+          <div className="border rounded-lg divide-y">
+            {step.state_changes.map((change) => (
+              <div key={change.field} className="flex items-center gap-2 px-2.5 py-1.5 text-xs">
+                <code className="font-mono text-indigo-600 shrink-0">{change.field}</code>
+                <span className="text-gray-400 line-through truncate">{formatStateValue(change.from)}</span>
+                <ArrowRight className="w-3 h-3 text-gray-400 shrink-0" aria-hidden="true" />
+                <span className="text-gray-900 break-all">{formatStateValue(change.to)}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">No state fields changed.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Replay a conversation through the agent graph one turn at a time. The
+ * current turn's path is reported through onPathChange for highlighting on
+ * the diagram.
+ */
+export function ConversationTracePanel({ onPathChange }: Props) {
+  const [conversationId, setConversationId] = useState('');
+  const [trace, setTrace] = useState<ConversationTraceResponse | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const steps = trace?.steps ?? [];
+  const step = steps[stepIndex] ?? null;
+  const lastIndex = steps.length - 1;
+
+  useEffect(() => {
+    onPathChange(step ? step.nodes : null);
+  }, [step, onPathChange]);
+
+  // Clear the diagram when trace mode is closed
+  useEffect(() => () => onPathChange(null), [onPathChange]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (stepIndex >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStepIndex((index) => index + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, stepIndex, lastIndex]);
+
+  const loadTrace = async () => {
+    const id = conversationId.trim();
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+    setPlaying(false);
+    try {
+      const response = await fetch(`/api/ai/trace/${encodeURIComponent(id)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load conversation trace');
+      }
+      setTrace(data);
+      setStepIndex(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversation trace');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const goTo = (index: number) => {
+    setPlaying(false);
+    setStepIndex(Math.max(0, Math.min(lastIndex, index)));
+  };
+
+  const togglePlaying = () => {
+    // Start over when played from the last turn
+    if (!playing && stepIndex >= lastIndex) setStepIndex(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <label htmlFor="trace-conversation" className="sr-only">
+          Conversation ID
+        </label>
+        <Input
+          id="trace-conversation"
+          value={conversationId}
+          onChange={(e) => setConversationId(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && loadTrace()}
+          placeholder="Conversation ID or external ID"
+        />
+        <Button variant="outline" onClick={loadTrace} disabled={loading || !conversationId.trim()}>
+          {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Route className="w-4 h-4 mr-2" />}
+          Trace
+        </Button>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {trace && steps.length === 0 && (
+        <p className="text-sm text-gray-500">This conversation has no recorded agent turns.</p>
+      )}
+
+      {step && (
+        <>
+          {/* Timeline */}
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => goTo(stepIndex - 1)}
+              disabled={stepIndex === 0}
+              aria-label="Previous turn"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={togglePlaying}
+              aria-label={playing ? 'Pause' : 'Play'}
+            >
+              {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => goTo(stepIndex + 1)}
+              disabled={stepIndex >= lastIndex}
+              aria-label="Next turn"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <input
+              type="range"
+              min={0}
+              max={lastIndex}
+              value={stepIndex}
+              onChange={(e) => goTo(Number(e.target.value))}
+              className="flex-1 accent-emerald-600"
+              aria-label="Turn"
+            />
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              Turn {step.turn} · {stepIndex + 1}/{steps.length}
+            </span>
+          </div>
+
+          <div className="flex gap-1 overflow-x-auto pb-1" role="tablist" aria-label="Turns">
+            {steps.map((candidate, index) => (
+              <button
+                key={candidate.turn}
+                type="button"
+                role="tab"
+                aria-selected={index === stepIndex}
+                onClick={() => goTo(index)}
+                title={candidate.nodes.join(' → ')}
+                className={cn(
+                  'shrink-0 h-2 w-4 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-emerald-500',
+                  index === stepIndex
+                    ? 'bg-emerald-500'
+                    : index < stepIndex
+                      ? 'bg-emerald-200 hover:bg-emerald-300'
+                      : 'bg-gray-200 hover:bg-gray-300',
+                  candidate.state_changes.length > 0 && index !== stepIndex && 'ring-1 ring-indigo-300'
+                )}
+              />
+            ))}
+          </div>
+
+          {formatTime(step.created_at) && (
+            <p className="text-xs text-gray-400">{formatTime(step.created_at)}</p>
+          )}
+
+          <StepDetail step={step} />
+        </>
+      )}
+    </div>
+  );
+}
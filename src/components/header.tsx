@@ -9,12 +9,13 @@ import {
   LogOut,
   Bot,
   Brain,
+  ListTodo,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/auth-context';
 import { Button } from '@/components/ui/button';
 
-type TabType = 'inbox' | 'metrics' | 'ai-agent' | 'ai-brain' | 'settings';
+type TabType = 'inbox' | 'tasks' | 'metrics' | 'ai-agent' | 'ai-brain' | 'settings';
 
 interface HeaderProps {
   activeTab?: TabType;
@@ -23,6 +24,7 @@ interface HeaderProps {
 
 const allTabs = [
   { id: 'inbox' as const, label: 'Inbox', icon: Mail, href: '/', roles: ['admin', 'manager', 'sdr'] },
+  { id: 'tasks' as const, label: 'Tasks', icon: ListTodo, href: '/tasks', roles: ['admin', 'manager', 'sdr'] },
   { id: 'metrics' as const, label: 'Metrics', icon: BarChart3, href: '/metrics', roles: ['admin', 'manager', 'sdr'] },
   { id: 'ai-agent' as const, label: 'AI Agent', icon: Bot, href: '/ai-agent', roles: ['admin', 'manager', 'sdr'] },
   { id: 'ai-brain' as const, label: 'AI Brain', icon: Brain, href: '/ai-brain', roles: ['admin'] },
@@ -0,0 +1,620 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  AlertCircle,
+  Bot,
+  CheckCircle2,
+  ChevronDown,
+  Circle,
+  ListTodo,
+  Loader2,
+  MinusCircle,
+  Send,
+  Sparkles,
+  UserCog,
+  X,
+  XCircle,
+} from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { getTemplateParameters, formatParametersForTemplate } from '@/lib/template-parser';
+import {
+  findTemplateMapping,
+  getTemplateLocale,
+  resolveTemplateParameter,
+} from '@/lib/template-mapping';
+import { useCRMCacheStore } from '@/lib/stores';
+import { cn, mapWithConcurrency } from '@/lib/utils';
+import type { ConversationSearchItem, HubSpotOwner } from '@/types/cortex';
+import type { ContactData, Template, TemplateParameterMapping } from '@/types/whatsapp';
+
+export type BulkAction = 'changeOwner' | 'toggleAgent' | 'createTask' | 'sendTemplate';
+
+type LeadResultStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+
+interface LeadResult {
+  status: LeadResultStatus;
+  error?: string;
+}
+
+interface LeadBulkActionsProps {
+  leads: ConversationSearchItem[]; // Selected leads
+  onClearSelection: () => void;
+  onComplete?: (action: BulkAction) => void;
+  className?: string;
+}
+
+// Requests in flight at once, so a large selection doesn't flood Cortex
+const BULK_CONCURRENCY = 3;
+
+const ACTIONS: { id: BulkAction; label: string; description: string; icon: React.ElementType }[] = [
+  { id: 'changeOwner', label: 'Change owner', description: 'Reassign the HubSpot owner', icon: UserCog },
+  { id: 'toggleAgent', label: 'Turn AI agent on/off', description: 'Resume or pause the AI agent', icon: Bot },
+  { id: 'createTask', label: 'Create follow-up task', description: 'Add the same HubSpot task to each lead', icon: ListTodo },
+  { id: 'sendTemplate', label: 'Send template', description: 'Send an approved WhatsApp template', icon: Send },
+];
+
+function getLeadId(lead: ConversationSearchItem): string {
+  return lead.external_id || String(lead.id);
+}
+
+function getLeadName(lead: ConversationSearchItem): string {
+  return lead.client_name || lead.client_phone || `Lead #${lead.id}`;
+}
+
+function getContactData(lead: ConversationSearchItem): ContactData {
+  const [firstName, ...rest] = (lead.client_name || '').trim().split(/\s+/);
+  return {
+    name: lead.client_name || undefined,
+    firstName: firstName || undefined,
+    lastName: rest.join(' ') || undefined,
+    phone: lead.client_phone || undefined,
+    company: lead.client_company || undefined,
+  };
+}
+
+// Templates can only go to leads that have a WhatsApp conversation
+function canReceiveTemplate(lead: ConversationSearchItem): boolean {
+  return lead.window_status === 'open' || lead.window_status === 'expired';
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Request failed (${response.status})`);
+  }
+}
+
+export function LeadBulkActions({ leads, onClearSelection, onComplete, className }: LeadBulkActionsProps) {
+  // Selection is snapshotted when an action starts, so list refreshes don't change its targets
+  const [pending, setPending] = useState<{ action: BulkAction; leads: ConversationSearchItem[] } | null>(null);
+
+  return (
+    <div className={cn('flex items-center gap-2 px-4 py-2 bg-blue-50 border-b border-blue-100', className)}>
+      <span className="text-sm font-medium text-blue-700 flex-1">
+        {leads.length} selected
+      </span>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" className="h-8" disabled={leads.length === 0}>
+            Actions
+            <ChevronDown className="w-4 h-4 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          {ACTIONS.map((item) => {
+            const Icon = item.icon;
+            return (
+              <DropdownMenuItem key={item.id} onClick={() => setPending({ action: item.id, leads })}>
+                <Icon className="w-4 h-4" />
+                {item.label}
+              </DropdownMenuItem>
+            );
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 text-blue-700 hover:bg-blue-100"
+        onClick={onClearSelection}
+        title="Clear selection"
+      >
+        <X className="w-4 h-4" />
+      </Button>
+
+      {pending && (
+        <BulkActionDialog
+          action={pending.action}
+          leads={pending.leads}
+          onOpenChange={(open) => {
+            if (!open) setPending(null);
+          }}
+          onComplete={onComplete}
+        />
+      )}
+    </div>
+  );
+}
+
+function BulkActionDialog({
+  action,
+  leads,
+  onOpenChange,
+  onComplete,
+}: {
+  action: BulkAction;
+  leads: ConversationSearchItem[];
+  onOpenChange: (open: boolean) => void;
+  onComplete?: (action: BulkAction) => void;
+}) {
+  const invalidateTasks = useCRMCacheStore((state) => state.invalidateTasks);
+  const [results, setResults] = useState<Record<number, LeadResult>>({});
+  const [running, setRunning] = useState(false);
+  const [optionsError, setOptionsError] = useState<string | null>(null);
+
+  // Change owner
+  const [owners, setOwners] = useState<HubSpotOwner[]>([]);
+  const [ownerId, setOwnerId] = useState('');
+
+  // Toggle agent: 0 = agent active, 1 = paused (human takes over)
+  const [agentState, setAgentState] = useState<0 | 1>(1);
+
+  // Create task
+  const [taskTitle, setTaskTitle] = useState('');
+  const [taskDueDate, setTaskDueDate] = useState('');
+  const [taskType, setTaskType] = useState<'TODO' | 'CALL' | 'EMAIL'>('TODO');
+  const [taskNotes, setTaskNotes] = useState('');
+
+  // Send template: values typed here fill parameters a lead can't auto-fill
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [mappings, setMappings] = useState<TemplateParameterMapping[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [fallbackValues, setFallbackValues] = useState<Record<string, string>>({});
+
+  const [loadingOptions, setLoadingOptions] = useState(action === 'changeOwner' || action === 'sendTemplate');
+
+  useEffect(() => {
+    async function fetchOptions() {
+      try {
+        if (action === 'changeOwner') {
+          const response = await fetch('/api/crm/owners');
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error || 'Failed to load owners');
+          setOwners(data.owners || []);
+        } else if (action === 'sendTemplate') {
+          const [response, mappingsResponse] = await Promise.all([
+            fetch('/api/templates'),
+            fetch('/api/templates/mappings'),
+          ]);
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error || 'Failed to load templates');
+          setTemplates((data.data || []).filter((t: Template) => t.status === 'APPROVED'));
+          // Without mappings, parameters still auto-fill by name
+          if (mappingsResponse.ok) {
+            setMappings((await mappingsResponse.json()).mappings || []);
+          }
+        }
+      } catch (err) {
+        console.error('Error loading bulk action options:', err);
+        setOptionsError(err instanceof Error ? err.message : 'Failed to load options');
+      } finally {
+        setLoadingOptions(false);
+      }
+    }
+    if (action === 'changeOwner' || action === 'sendTemplate') {
+      fetchOptions();
+    }
+  }, [action]);
+
+  const selectedTemplate = templates.find((t) => t.id === templateId) ?? null;
+  const parameterInfo = useMemo(
+    () => (selectedTemplate ? getTemplateParameters(selectedTemplate) : null),
+    [selectedTemplate]
+  );
+
+  const eligibleLeads = action === 'sendTemplate' ? leads.filter(canReceiveTemplate) : leads;
+
+  // Only lead fields are known per recipient here; other mapped sources use their fallback
+  const templateMapping = selectedTemplate ? findTemplateMapping(mappings, selectedTemplate) : undefined;
+  const resolveForLead = (paramName: string, lead: ConversationSearchItem) =>
+    resolveTemplateParameter(paramName, templateMapping?.parameters[paramName], {
+      lead: getContactData(lead),
+      locale: getTemplateLocale(selectedTemplate?.language),
+    }).value;
+
+  // A fallback is only required when some recipient can't auto-fill the parameter
+  const parametersNeedingFallback = (parameterInfo?.parameters ?? []).filter((param) =>
+    eligibleLeads.some((lead) => !resolveForLead(param.name, lead))
+  );
+
+  const isFormValid = (() => {
+    switch (action) {
+      case 'changeOwner':
+        return Boolean(ownerId);
+      case 'toggleAgent':
+        return true;
+      case 'createTask':
+        return Boolean(taskTitle.trim() && taskDueDate);
+      case 'sendTemplate':
+        return Boolean(selectedTemplate) &&
+          eligibleLeads.length > 0 &&
+          parametersNeedingFallback.every((param) => fallbackValues[param.name]?.trim());
+    }
+  })();
+
+  const runForLead = async (lead: ConversationSearchItem) => {
+    const phone = lead.client_phone;
+    switch (action) {
+      case 'changeOwner':
+        await postJson(`/api/leads/${getLeadId(lead)}/owner`, { owner_id: ownerId, phone });
+        break;
+      case 'toggleAgent':
+        await postJson(`/api/leads/${getLeadId(lead)}/toggle-agent`, { state: agentState, phone });
+        break;
+      case 'createTask':
+        if (!phone) throw new Error('No phone number');
+        await postJson(`/api/crm/tasks?phone=${encodeURIComponent(phone)}`, {
+          title: taskTitle.trim(),
+          due_date: taskDueDate,
+          task_type: taskType,
+          notes: taskNotes.trim() || undefined,
+        });
+        invalidateTasks(phone);
+        break;
+      case 'sendTemplate': {
+        if (!phone) throw new Error('No phone number');
+        if (!selectedTemplate || !parameterInfo) return;
+        const values: Record<string, string> = {};
+        parameterInfo.parameters.forEach((param) => {
+          values[param.name] = resolveForLead(param.name, lead) || fallbackValues[param.name]?.trim() || '';
+        });
+        await postJson('/api/templates/send', {
+          to: phone,
+          templateName: selectedTemplate.name,
+          languageCode: selectedTemplate.language,
+          ...(parameterInfo.parameters.length > 0 && {
+            parameters: formatParametersForTemplate(parameterInfo, values),
+            parameterInfo,
+          }),
+        });
+        break;
+      }
+    }
+  };
+
+  const run = async (targets: ConversationSearchItem[]) => {
+    setRunning(true);
+    setResults((prev) => {
+      const next = { ...prev };
+      targets.forEach((lead) => {
+        next[lead.id] = action === 'sendTemplate' && !canReceiveTemplate(lead)
+          ? { status: 'skipped', error: 'No WhatsApp conversation' }
+          : { status: 'pending' };
+      });
+      return next;
+    });
+
+    const runnable = action === 'sendTemplate' ? targets.filter(canReceiveTemplate) : targets;
+    await mapWithConcurrency(runnable, BULK_CONCURRENCY, async (lead) => {
+      setResults((prev) => ({ ...prev, [lead.id]: { status: 'running' } }));
+      try {
+        await runForLead(lead);
+        setResults((prev) => ({ ...prev, [lead.id]: { status: 'success' } }));
+      } catch (err) {
+        console.error(`Error running ${action} for lead ${lead.id}:`, err);
+        setResults((prev) => ({
+          ...prev,
+          [lead.id]: { status: 'failed', error: err instanceof Error ? err.message : 'Failed' },
+        }));
+      }
+    });
+
+    setRunning(false);
+    onComplete?.(action);
+  };
+
+  const hasRun = Object.keys(results).length > 0;
+  const counts = leads.reduce(
+    (acc, lead) => {
+      const status = results[lead.id]?.status;
+      if (status === 'success' || status === 'failed' || status === 'skipped') {
+        acc[status]++;
+        acc.done++;
+      }
+      return acc;
+    },
+    { success: 0, failed: 0, skipped: 0, done: 0 }
+  );
+  const failedLeads = leads.filter((lead) => results[lead.id]?.status === 'failed');
+  const actionInfo = ACTIONS.find((item) => item.id === action)!;
+
+  return (
+    <Dialog open onOpenChange={(open) => !running && onOpenChange(open)}>
+      <DialogContent className="max-h-[85vh] flex flex-col" style={{ maxWidth: '560px', width: '95vw' }}>
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle>{actionInfo.label}</DialogTitle>
+          <DialogDescription>
+            {actionInfo.description} for {leads.length} lead{leads.length === 1 ? '' : 's'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {optionsError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 flex-shrink-0">
+            {optionsError}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-auto space-y-4 pr-1">
+          {!hasRun && (
+            <div className="space-y-3">
+              {loadingOptions ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                </div>
+              ) : action === 'changeOwner' ? (
+                <div className="space-y-1.5">
+                  <Label>New owner</Label>
+                  <Select value={ownerId} onValueChange={setOwnerId}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select an owner" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {owners.map((owner) => (
+                        <SelectItem key={owner.id} value={owner.id}>
+                          {[owner.firstName, owner.lastName].filter(Boolean).join(' ') || owner.email || owner.id}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : action === 'toggleAgent' ? (
+                <div className="flex rounded-lg bg-gray-100 p-1">
+                  <button
+                    onClick={() => setAgentState(0)}
+                    className={cn(
+                      'flex-1 px-3 py-2 text-sm font-medium rounded-md transition-colors cursor-pointer',
+                      agentState === 0 ? 'bg-white text-green-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                    )}
+                  >
+                    Turn on (AI responds)
+                  </button>
+                  <button
+                    onClick={() => setAgentState(1)}
+                    className={cn(
+                      'flex-1 px-3 py-2 text-sm font-medium rounded-md transition-colors cursor-pointer',
+                      agentState === 1 ? 'bg-white text-orange-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                    )}
+                  >
+                    Turn off (manual mode)
+                  </button>
+                </div>
+              ) : action === 'createTask' ? (
+                <>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="bulk-task-title">Title *</Label>
+                    <Input
+                      id="bulk-task-title"
+                      value={taskTitle}
+                      onChange={(e) => setTaskTitle(e.target.value)}
+                      placeholder="Follow up..."
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1.5">
+                      <Label htmlFor="bulk-task-due">Due date *</Label>
+                      <Input
+                        id="bulk-task-due"
+                        type="date"
+                        value={taskDueDate}
+                        onChange={(e) => setTaskDueDate(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label>Type</Label>
+                      <Select value={taskType} onValueChange={(value) => setTaskType(value as 'TODO' | 'CALL' | 'EMAIL')}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="TODO">To-do</SelectItem>
+                          <SelectItem value="CALL">Call</SelectItem>
+                          <SelectItem value="EMAIL">Email</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="bulk-task-notes">Notes</Label>
+                    <Textarea
+                      id="bulk-task-notes"
+                      value={taskNotes}
+                      onChange={(e) => setTaskNotes(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="space-y-1.5">
+                    <Label>Template</Label>
+                    <Select
+                      value={templateId}
+                      onValueChange={(value) => {
+                        setTemplateId(value);
+                        setFallbackValues({});
+                      }}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select an approved template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name.replace(/_/g, ' ')} ({template.language})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {selectedTemplate?.body_text && (
+                    <p className="text-xs text-gray-500 bg-gray-50 rounded-md p-2 whitespace-pre-wrap line-clamp-4">
+                      {selectedTemplate.body_text}
+                    </p>
+                  )}
+
+                  {parameterInfo?.parameters.map((param) => {
+                    const needsFallback = parametersNeedingFallback.includes(param);
+                    return (
+                      <div key={param.name} className="space-y-1.5">
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor={`bulk-param-${param.name}`} className="text-sm text-gray-700">
+                            {param.name.replace(/_/g, ' ')}
+                          </Label>
+                          {!needsFallback && (
+                            <Badge variant="secondary" className="text-xs bg-green-100 text-green-700">
+                              <Sparkles className="w-3 h-3 mr-1" />
+                              Auto
+                            </Badge>
+                          )}
+                        </div>
+                        <Input
+                          id={`bulk-param-${param.name}`}
+                          value={fallbackValues[param.name] || ''}
+                          onChange={(e) => setFallbackValues((prev) => ({ ...prev, [param.name]: e.target.value }))}
+                          placeholder={needsFallback
+                            ? param.example || 'Value for leads without this field'
+                            : 'Filled from each lead'}
+                          disabled={!needsFallback}
+                          className="h-9"
+                        />
+                      </div>
+                    );
+                  })}
+
+                  {eligibleLeads.length < leads.length && (
+                    <p className="text-xs text-amber-700 flex items-center gap-1">
+                      <AlertCircle className="w-3.5 h-3.5" />
+                      {leads.length - eligibleLeads.length} lead{leads.length - eligibleLeads.length === 1 ? '' : 's'} without a WhatsApp conversation will be skipped
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {hasRun && (
+            <>
+              {/* Summary */}
+              <div className="space-y-2">
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={cn('h-full transition-all', counts.failed > 0 ? 'bg-amber-500' : 'bg-green-500')}
+                    style={{ width: `${(counts.done / leads.length) * 100}%` }}
+                  />
+                </div>
+                <div className="flex items-center gap-3 text-xs text-gray-600">
+                  <span>{counts.done} of {leads.length} done</span>
+                  <span className="text-green-700">{counts.success} succeeded</span>
+                  {counts.failed > 0 && <span className="text-red-600">{counts.failed} failed</span>}
+                  {counts.skipped > 0 && <span className="text-gray-500">{counts.skipped} skipped</span>}
+                </div>
+              </div>
+
+              {/* Per-lead progress */}
+              <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {leads.map((lead) => {
+                  const result = results[lead.id];
+                  return (
+                    <div key={lead.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                      <LeadResultIcon status={result?.status} />
+                      <span className="flex-1 min-w-0 truncate text-gray-900">{getLeadName(lead)}</span>
+                      {result?.error && (
+                        <span
+                          className={cn(
+                            'text-xs truncate max-w-[50%]',
+                            result.status === 'failed' ? 'text-red-600' : 'text-gray-500'
+                          )}
+                          title={result.error}
+                        >
+                          {result.error}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        <Separator className="my-2" />
+        <div className="flex justify-end gap-2 flex-shrink-0">
+          {!hasRun ? (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => run(leads)} disabled={!isFormValid || loadingOptions}>
+                Apply to {action === 'sendTemplate' ? eligibleLeads.length : leads.length} lead{(action === 'sendTemplate' ? eligibleLeads.length : leads.length) === 1 ? '' : 's'}
+              </Button>
+            </>
+          ) : (
+            <>
+              {failedLeads.length > 0 && (
+                <Button variant="outline" onClick={() => run(failedLeads)} disabled={running}>
+                  Retry {failedLeads.length} failed
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)} disabled={running}>
+                {running ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Done'}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LeadResultIcon({ status }: { status?: LeadResultStatus }) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin text-blue-500" />;
+    case 'success':
+      return <CheckCircle2 className="w-4 h-4 flex-shrink-0 text-green-600" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 flex-shrink-0 text-red-600" />;
+    case 'skipped':
+      return <MinusCircle className="w-4 h-4 flex-shrink-0 text-gray-400" />;
+    default:
+      return <Circle className="w-4 h-4 flex-shrink-0 text-gray-300" />;
+  }
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useState, useCallback, forwardRef, useImperativeHandle, memo, useRef } from 'react';
-import { Search, AlertTriangle, Bot, User, Loader2, SlidersHorizontal, Inbox, UserPlus, MessageSquare, CheckCircle, Calendar, CalendarClock, AlertCircle, CalendarDays, MessageCircle, Clock } from 'lucide-react';
+import { Search, AlertTriangle, Bot, User, Loader2, SlidersHorizontal, Inbox, UserPlus, MessageSquare, CheckCircle, Calendar, CalendarClock, AlertCircle, CalendarDays, MessageCircle, Clock, CheckSquare, Square } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -12,8 +12,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { cn, formatNumber } from '@/lib/utils';
 import { formatTimeAgo } from '@/lib/utils/date';
 import { getQualificationInfo, getQualificationClasses } from '@/lib/qualification';
-import type { LeadStatus, WindowStatus } from '@/components/lead-sidebar';
-import type { ConversationSearchItem } from '@/types/cortex';
+import type { LeadStatus, WindowStatus } from '@/lib/lead-filters';
+import { useInboxStream } from '@/hooks/use-inbox-stream';
+import { LeadBulkActions } from '@/components/lead-bulk-actions';
+import type { ConversationSearchItem, InboxEvent } from '@/types/cortex';
 
 interface Lead extends ConversationSearchItem {
   displayName: string;
@@ -29,13 +31,18 @@ interface SdrOption {
 
 interface LeadListProps {
   selectedCategory: LeadStatus;
+  searchQuery?: string;
   dateFrom?: string | null;
   dateTo?: string | null;
   windowStatus?: WindowStatus;
   assignedSdrId?: number | null;
+  qualification?: string | null;
+  dealPipeline?: string | null;
+  dealStage?: string | null;
   filtersReady?: boolean; // Wait for hydration before fetching
   selectedLeadId: string | null;
   onSelectLead: (lead: Lead | null) => void;
+  onSearchChange?: (query: string) => void;
   className?: string;
   // Mobile filter props
   onCategoryChange?: (category: LeadStatus) => void;
@@ -60,18 +67,21 @@ export interface LeadListRef {
 }
 
 export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function LeadList(
-  { selectedCategory, dateFrom, dateTo, windowStatus, assignedSdrId, filtersReady = true, selectedLeadId, onSelectLead, className, onCategoryChange, onDateChange, onWindowStatusChange, onSdrChange },
+  { selectedCategory, searchQuery = '', dateFrom, dateTo, windowStatus, assignedSdrId, qualification, dealPipeline, dealStage, filtersReady = true, selectedLeadId, onSelectLead, onSearchChange, className, onCategoryChange, onDateChange, onWindowStatusChange, onSdrChange },
   ref
 ) {
   const [leads, setLeads] = useState<Lead[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   const [totalCount, setTotalCount] = useState(0);
   const [hasMore, setHasMore] = useState(false);
   const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [newLeadsCount, setNewLeadsCount] = useState(0); // New conversations available
 
+  // Multi-select for bulk actions
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<Set<number>>(new Set());
+
   // Mobile filter state
   const [mobileDateFrom, setMobileDateFrom] = useState<string>(dateFrom || '');
   const [mobileDateTo, setMobileDateTo] = useState<string>(dateTo || '');
@@ -79,6 +89,16 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
   const [sdrOptions, setSdrOptions] = useState<SdrOption[]>([]);
   const [mobileSdrId, setMobileSdrId] = useState<number | null>(assignedSdrId || null);
 
+  // Keep mobile filter inputs in step when filters change elsewhere (e.g. a saved view)
+  useEffect(() => {
+    setMobileDateFrom(dateFrom || '');
+    setMobileDateTo(dateTo || '');
+  }, [dateFrom, dateTo]);
+
+  useEffect(() => {
+    setMobileSdrId(assignedSdrId || null);
+  }, [assignedSdrId]);
+
   // Fetch SDR options on mount
   useEffect(() => {
     async function fetchSdrOptions() {
@@ -96,15 +116,15 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
   }, []);
 
   // Store filter params in refs for stable callback
-  const filtersRef = useRef({ selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId });
-  filtersRef.current = { selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId };
+  const filtersRef = useRef({ selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId, qualification, dealPipeline, dealStage });
+  filtersRef.current = { selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId, qualification, dealPipeline, dealStage };
 
   // Interval ref to avoid recreation
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // Stable fetch function that reads from refs
   const fetchLeads = useCallback(async (cursor?: string | null, append = false, isBackgroundRefresh = false) => {
-    const { selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId } = filtersRef.current;
+    const { selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId, qualification, dealPipeline, dealStage } = filtersRef.current;
 
     try {
       if (!append && !isBackgroundRefresh) setLoading(true);
@@ -130,6 +150,15 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
       if (assignedSdrId !== null && assignedSdrId !== undefined) {
         params.set('assigned_sdr_id', String(assignedSdrId));
       }
+      if (qualification) {
+        params.set('qualification', qualification);
+      }
+      if (dealPipeline) {
+        params.set('deal_pipeline', dealPipeline);
+      }
+      if (dealStage) {
+        params.set('deal_stage', dealStage);
+      }
       if (cursor) {
         params.set('cursor', cursor);
       }
@@ -186,9 +215,55 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
     fetchLeads();
   }, [fetchLeads]);
 
-  // Setup polling interval (only when filters are ready)
+  // Coalesce bursts of new-message events into one background refresh
+  const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const scheduleBackgroundRefresh = useCallback(() => {
+    if (refreshTimeoutRef.current) return;
+    refreshTimeoutRef.current = setTimeout(() => {
+      refreshTimeoutRef.current = null;
+      fetchLeads(null, false, true);
+    }, 1000);
+  }, [fetchLeads]);
+
+  useEffect(() => () => {
+    if (refreshTimeoutRef.current) {
+      clearTimeout(refreshTimeoutRef.current);
+    }
+  }, []);
+
+  // Apply real-time inbox events
+  const handleInboxEvent = useCallback((event: InboxEvent) => {
+    switch (event.type) {
+      case 'message.new':
+        // Needs fresh ordering, previews and new-lead count
+        scheduleBackgroundRefresh();
+        break;
+      case 'agent.toggled':
+        setLeads(prev => prev.map(lead => lead.id === event.lead_id
+          ? { ...lead, state: event.state, priority: event.state === 1 ? 'urgent' : 'normal' }
+          : lead));
+        break;
+      case 'window.changed':
+        setLeads(prev => prev.map(lead => lead.id === event.lead_id
+          ? { ...lead, window_status: event.window_status }
+          : lead));
+        break;
+      case 'deal_stage.changed':
+        setLeads(prev => prev.map(lead => lead.id === event.lead_id
+          ? { ...lead, deal_stage: event.deal_stage }
+          : lead));
+        break;
+    }
+  }, [scheduleBackgroundRefresh]);
+
+  const { connected: streamConnected } = useInboxStream({
+    enabled: filtersReady,
+    onEvent: handleInboxEvent,
+  });
+
+  // Fallback polling interval while the event stream is down (only when filters are ready)
   useEffect(() => {
-    if (!filtersReady) return;
+    if (!filtersReady || streamConnected) return;
 
     intervalRef.current = setInterval(() => fetchLeads(null, false, true), 10000);
     return () => {
@@ -196,7 +271,7 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
         clearInterval(intervalRef.current);
       }
     };
-  }, [fetchLeads, filtersReady]);
+  }, [fetchLeads, filtersReady, streamConnected]);
 
   // Fetch when filters change (separate from polling)
   // Only fetch when filtersReady is true (hydration complete)
@@ -204,7 +279,36 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
     if (filtersReady) {
       fetchLeads();
     }
-  }, [selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId, filtersReady, fetchLeads]);
+  }, [selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId, qualification, dealPipeline, dealStage, filtersReady, fetchLeads]);
+
+  // A new filter means a new list; don't carry a selection into it
+  useEffect(() => {
+    setCheckedIds(new Set());
+  }, [selectedCategory, searchQuery, dateFrom, dateTo, windowStatus, assignedSdrId, qualification, dealPipeline, dealStage]);
+
+  const toggleChecked = (leadId: number) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(leadId)) {
+        next.delete(leadId);
+      } else {
+        next.add(leadId);
+      }
+      return next;
+    });
+  };
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setCheckedIds(new Set());
+  };
+
+  const checkedLeads = leads.filter(lead => checkedIds.has(lead.id));
+  const allChecked = leads.length > 0 && checkedLeads.length === leads.length;
+
+  const handleBulkComplete = useCallback(() => {
+    fetchLeads(null, false, true);
+  }, [fetchLeads]);
 
   useImperativeHandle(ref, () => ({
     refresh: () => {
@@ -390,6 +494,16 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
               </Badge>
             )}
             <span className="text-sm text-gray-500">{formatNumber(totalCount)} leads</span>
+            <Button
+              variant={selectionMode ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => (selectionMode ? exitSelectionMode() : setSelectionMode(true))}
+              title={selectionMode ? 'Exit selection' : 'Select leads for bulk actions'}
+            >
+              <CheckSquare className="w-3.5 h-3.5 mr-1" />
+              {selectionMode ? 'Done' : 'Select'}
+            </Button>
           </div>
         </div>
 
@@ -400,7 +514,7 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
             type="text"
             placeholder="Search leads..."
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => onSearchChange?.(e.target.value)}
             className="pl-9 h-9"
           />
         </div>
@@ -460,6 +574,31 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
         </button>
       )}
 
+      {/* Bulk Actions */}
+      {selectionMode && (
+        <>
+          <LeadBulkActions
+            leads={checkedLeads}
+            onClearSelection={exitSelectionMode}
+            onComplete={handleBulkComplete}
+            className="flex-shrink-0"
+          />
+          {leads.length > 0 && (
+            <button
+              onClick={() => setCheckedIds(allChecked ? new Set() : new Set(leads.map(lead => lead.id)))}
+              className="flex-shrink-0 w-full flex items-center gap-2 px-4 py-2 border-b border-gray-200 text-xs text-gray-600 hover:bg-gray-50 cursor-pointer"
+            >
+              {allChecked ? (
+                <CheckSquare className="w-4 h-4 text-blue-600" />
+              ) : (
+                <Square className="w-4 h-4 text-gray-400" />
+              )}
+              {allChecked ? 'Deselect all' : `Select all ${formatNumber(leads.length)} loaded`}
+            </button>
+          )}
+        </>
+      )}
+
       {/* Lead List */}
       <ScrollArea className="flex-1 min-h-0">
         {loading && leads.length === 0 ? (
@@ -480,22 +619,34 @@ export const LeadList = memo(forwardRef<LeadListRef, LeadListProps>(function Lea
             {leads.map((lead) => {
               const isSelected = selectedLeadId === lead.external_id || selectedLeadId === String(lead.id);
               const needsHuman = lead.state === 1;
+              const isChecked = checkedIds.has(lead.id);
 
               return (
                 <button
                   key={lead.id}
-                  onClick={() => onSelectLead(lead)}
+                  onClick={() => (selectionMode ? toggleChecked(lead.id) : onSelectLead(lead))}
                   onDoubleClick={() => {
-                    if (isSelected) {
+                    if (isSelected && !selectionMode) {
                       onSelectLead(null);
                     }
                   }}
                   className={cn(
                     'w-full p-4 text-left transition-colors hover:bg-gray-50 cursor-pointer',
-                    isSelected && 'bg-blue-50 hover:bg-blue-50'
+                    (selectionMode ? isChecked : isSelected) && 'bg-blue-50 hover:bg-blue-50'
                   )}
                 >
                   <div className="flex items-start gap-3">
+                    {/* Selection checkbox */}
+                    {selectionMode && (
+                      <div className="flex-shrink-0 self-center">
+                        {isChecked ? (
+                          <CheckSquare className="w-5 h-5 text-blue-600" />
+                        ) : (
+                          <Square className="w-5 h-5 text-gray-300" />
+                        )}
+                      </div>
+                    )}
+
                     {/* Avatar with Status Indicator */}
                     <div className="relative flex-shrink-0">
                       <div
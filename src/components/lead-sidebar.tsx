@@ -2,17 +2,14 @@
 
 import { useState, useEffect, memo } from 'react';
 import { cn } from '@/lib/utils';
-import { Inbox, UserPlus, MessageSquare, CheckCircle, Calendar, CalendarClock, AlertCircle, CalendarDays, X, MessageCircle, Clock, User, HelpCircle } from 'lucide-react';
+import { Inbox, UserPlus, MessageSquare, CheckCircle, Calendar, CalendarClock, AlertCircle, CalendarDays, X, MessageCircle, Clock, User, HelpCircle, Bookmark, BookmarkPlus, Link2, Check, SlidersHorizontal } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-
-// Lead status values matching the API
-export type LeadStatus = 'all' | 'new_leads' | 'conversing' | 'qualified' | 'demo' | 'demo_today' | 'manual_mode';
-
-// Window status for 24h filter
-export type WindowStatus = 'all' | 'open' | 'expired';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDealStages } from '@/contexts/deal-stages-context';
+import { getQualificationOptions } from '@/lib/qualification';
+import type { LeadStatus, SavedLeadView, WindowStatus } from '@/lib/lead-filters';
 
 interface SdrOption {
   id: number;
@@ -23,15 +20,41 @@ interface LeadSidebarProps {
   selectedCategory: LeadStatus;
   onCategoryChange: (category: LeadStatus) => void;
   onDateChange?: (dateFrom: string | null, dateTo: string | null) => void;
-  initialDateFrom?: string | null;
-  initialDateTo?: string | null;
+  dateFrom?: string | null;
+  dateTo?: string | null;
   windowStatus?: WindowStatus;
   onWindowStatusChange?: (status: WindowStatus) => void;
   assignedSdrId?: number | null;
   onSdrChange?: (sdrId: number | null) => void;
+  qualification?: string | null;
+  onQualificationChange?: (qualification: string | null) => void;
+  dealPipeline?: string | null;
+  onDealPipelineChange?: (pipelineId: string | null) => void;
+  dealStage?: string | null;
+  onDealStageChange?: (dealStage: string | null) => void;
+  // Saved views (hidden when savedViews is undefined)
+  savedViews?: SavedLeadView[];
+  activeViewId?: string | null;
+  suggestedViewName?: string | null; // Name carried by a shared view link
+  onApplyView?: (view: SavedLeadView) => void;
+  onSaveView?: (name: string) => void;
+  onDeleteView?: (viewId: string) => void;
+  getViewLink?: (view: SavedLeadView) => string;
   className?: string;
 }
 
+const qualificationOptions = getQualificationOptions();
+
+// Deal stage option value when stages of every pipeline are listed; pipeline IDs never contain ':'
+function toGroupedStageValue(pipelineId: string, stageId: string): string {
+  return `${pipelineId}:${stageId}`;
+}
+
+function fromGroupedStageValue(value: string): { pipelineId: string; stageId: string } {
+  const separator = value.indexOf(':');
+  return { pipelineId: value.slice(0, separator), stageId: value.slice(separator + 1) };
+}
+
 interface CategoryItem {
   id: LeadStatus;
   label: string;
@@ -93,19 +116,68 @@ export const LeadSidebar = memo(function LeadSidebar({
   selectedCategory,
   onCategoryChange,
   onDateChange,
-  initialDateFrom,
-  initialDateTo,
+  dateFrom: appliedDateFrom,
+  dateTo: appliedDateTo,
   windowStatus = 'all',
   onWindowStatusChange,
   assignedSdrId,
   onSdrChange,
+  qualification,
+  onQualificationChange,
+  dealPipeline,
+  onDealPipelineChange,
+  dealStage,
+  onDealStageChange,
+  savedViews,
+  activeViewId,
+  suggestedViewName,
+  onApplyView,
+  onSaveView,
+  onDeleteView,
+  getViewLink,
   className,
 }: LeadSidebarProps) {
   const [showDateFilter, setShowDateFilter] = useState(false);
-  const [dateFrom, setDateFrom] = useState<string>(initialDateFrom || '');
-  const [dateTo, setDateTo] = useState<string>(initialDateTo || '');
+  const [dateFrom, setDateFrom] = useState<string>(appliedDateFrom || '');
+  const [dateTo, setDateTo] = useState<string>(appliedDateTo || '');
   const [sdrOptions, setSdrOptions] = useState<SdrOption[]>([]);
   const [loadingSdrs, setLoadingSdrs] = useState(true);
+  const [savingView, setSavingView] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [copiedViewId, setCopiedViewId] = useState<string | null>(null);
+  const { pipelines, getPipelineStages } = useDealStages();
+  const dealStages = getPipelineStages(dealPipeline);
+
+  // Without a pipeline, stages are listed per pipeline. Stage IDs are only unique
+  // within a pipeline, so each option carries its pipeline, and picking one
+  // selects that pipeline too.
+  const isGroupedStages = !dealPipeline && pipelines.length > 1;
+  const groupedStagePipeline = isGroupedStages && dealStage
+    ? pipelines.find((pipeline) => pipeline.stages.some((stage) => stage.id === dealStage))
+    : undefined;
+  const groupedStageValue = groupedStagePipeline && dealStage
+    ? toGroupedStageValue(groupedStagePipeline.id, dealStage)
+    : 'all';
+
+  const handleDealStageSelect = (value: string) => {
+    if (value === 'all') {
+      onDealStageChange?.(null);
+      return;
+    }
+    if (!isGroupedStages) {
+      onDealStageChange?.(value);
+      return;
+    }
+    const { pipelineId, stageId } = fromGroupedStageValue(value);
+    onDealPipelineChange?.(pipelineId);
+    onDealStageChange?.(stageId);
+  };
+
+  // Reflect date changes made elsewhere (e.g. applying a saved view)
+  useEffect(() => {
+    setDateFrom(appliedDateFrom || '');
+    setDateTo(appliedDateTo || '');
+  }, [appliedDateFrom, appliedDateTo]);
 
   // Fetch SDR options on mount
   useEffect(() => {
@@ -138,6 +210,30 @@ export const LeadSidebar = memo(function LeadSidebar({
 
   const hasDateFilter = dateFrom || dateTo;
 
+  const handleStartSaveView = () => {
+    setViewName(suggestedViewName || '');
+    setSavingView(true);
+  };
+
+  const handleSaveView = () => {
+    const name = viewName.trim();
+    if (!name) return;
+    onSaveView?.(name);
+    setSavingView(false);
+    setViewName('');
+  };
+
+  const handleCopyViewLink = async (view: SavedLeadView) => {
+    if (!getViewLink) return;
+    try {
+      await navigator.clipboard.writeText(getViewLink(view));
+      setCopiedViewId(view.id);
+      setTimeout(() => setCopiedViewId((current) => (current === view.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Error copying view link:', error);
+    }
+  };
+
   return (
     <div
       className={cn(
@@ -145,6 +241,106 @@ export const LeadSidebar = memo(function LeadSidebar({
         className
       )}
     >
+      {/* Saved Views */}
+      {savedViews && (
+        <div className="border-b border-gray-200 p-3">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-xs font-medium text-gray-500 uppercase tracking-wide flex items-center gap-1">
+              <Bookmark className="w-3 h-3" />
+              Views
+            </span>
+            {!savingView && (
+              <button
+                onClick={handleStartSaveView}
+                className="text-gray-400 hover:text-gray-700 cursor-pointer"
+                title="Save current filters as a view"
+              >
+                <BookmarkPlus className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {savingView && (
+            <div className="mb-2 space-y-2">
+              <Input
+                autoFocus
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSaveView();
+                  if (e.key === 'Escape') setSavingView(false);
+                }}
+                placeholder="View name"
+                className="h-8 text-sm"
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="flex-1 h-7 text-xs"
+                  onClick={() => setSavingView(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  className="flex-1 h-7 text-xs"
+                  onClick={handleSaveView}
+                  disabled={!viewName.trim()}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {savedViews.length === 0 && !savingView ? (
+            <p className="text-xs text-gray-400 px-2">Save the current filters to switch back to them later.</p>
+          ) : (
+            <div className="space-y-0.5">
+              {savedViews.map((view) => (
+                <div
+                  key={view.id}
+                  className={cn(
+                    'group flex items-center gap-1 rounded-md pr-1 transition-colors',
+                    activeViewId === view.id ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50 text-gray-700'
+                  )}
+                >
+                  <button
+                    onClick={() => onApplyView?.(view)}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-left text-sm truncate cursor-pointer"
+                  >
+                    {view.name}
+                  </button>
+                  {getViewLink && (
+                    <button
+                      onClick={() => handleCopyViewLink(view)}
+                      className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-700 cursor-pointer"
+                      title="Copy link to this view"
+                    >
+                      {copiedViewId === view.id ? (
+                        <Check className="w-3.5 h-3.5 text-green-600" />
+                      ) : (
+                        <Link2 className="w-3.5 h-3.5" />
+                      )}
+                    </button>
+                  )}
+                  {onDeleteView && (
+                    <button
+                      onClick={() => onDeleteView(view.id)}
+                      className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 cursor-pointer"
+                      title="Delete view"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Date Filter Section */}
       <div className="border-b border-gray-200 p-3">
         <button
@@ -267,6 +463,81 @@ export const LeadSidebar = memo(function LeadSidebar({
         </div>
       )}
 
+      {/* Qualification and Deal Stage Filters */}
+      {(onQualificationChange || onDealStageChange) && (
+        <div className="border-b border-gray-200 p-3 space-y-2">
+          <span className="text-xs font-medium text-gray-500 uppercase tracking-wide flex items-center gap-1">
+            <SlidersHorizontal className="w-3 h-3" />
+            Lead Filters
+          </span>
+          {onQualificationChange && (
+            <Select
+              value={qualification || 'all'}
+              onValueChange={(value) => onQualificationChange(value === 'all' ? null : value)}
+            >
+              <SelectTrigger className="w-full h-8 text-sm">
+                <SelectValue placeholder="Any Qualification" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Qualification</SelectItem>
+                {qualificationOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {onDealPipelineChange && pipelines.length > 1 && (
+            <Select
+              value={dealPipeline || 'all'}
+              onValueChange={(value) => onDealPipelineChange(value === 'all' ? null : value)}
+            >
+              <SelectTrigger className="w-full h-8 text-sm">
+                <SelectValue placeholder="Any Pipeline" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Pipeline</SelectItem>
+                {pipelines.map((pipeline) => (
+                  <SelectItem key={pipeline.id} value={pipeline.id}>
+                    {pipeline.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {onDealStageChange && (
+            <Select
+              value={isGroupedStages ? groupedStageValue : dealStage || 'all'}
+              onValueChange={handleDealStageSelect}
+            >
+              <SelectTrigger className="w-full h-8 text-sm">
+                <SelectValue placeholder="Any Deal Stage" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Deal Stage</SelectItem>
+                {isGroupedStages
+                  ? pipelines.map((pipeline) => (
+                    <SelectGroup key={pipeline.id}>
+                      <SelectLabel>{pipeline.label}</SelectLabel>
+                      {pipeline.stages.map((stage) => (
+                        <SelectItem key={stage.id} value={toGroupedStageValue(pipeline.id, stage.id)}>
+                          {stage.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))
+                  : dealStages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>
+                      {stage.label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
       {/* Categories */}
       <nav className="flex-1 py-2 overflow-y-auto">
         {categories.map((category) => {
@@ -12,6 +12,7 @@ interface MermaidDiagramProps {
   onNodeClick?: (nodeId: string) => void;
   selectedNode?: string | null;
   nodeIdMapping?: Record<string, string>;
+  tracePath?: string[] | null; // Agent IDs visited in order; the last one is the current node
 }
 
 // Initialize mermaid with configuration
@@ -60,12 +61,27 @@ mermaid.initialize({
   },
 });
 
+// Diagram node ID of a rendered node (e.g. "flowchart-orchestrator-3" -> "orchestrator")
+function getElementNodeId(node: Element): string {
+  return node.id?.replace(/^flowchart-/, '').replace(/-\d+$/, '') || '';
+}
+
+// Agent ID a diagram node stands for, using the architecture's node ID mapping
+function toAgentId(diagramId: string, nodeIdMapping?: Record<string, string>): string {
+  const normalized = diagramId.toLowerCase().replace(/[\s-]+/g, '_');
+  const mappingKey = nodeIdMapping
+    ? Object.keys(nodeIdMapping).find((key) => key.toLowerCase().replace(/[\s-]+/g, '_') === normalized)
+    : undefined;
+  return mappingKey && nodeIdMapping ? nodeIdMapping[mappingKey] : normalized;
+}
+
 export function MermaidDiagram({
   diagram,
   className,
   onNodeClick,
   selectedNode,
   nodeIdMapping,
+  tracePath,
 }: MermaidDiagramProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [error, setError] = useState<string | null>(null);
@@ -218,6 +234,60 @@ export function MermaidDiagram({
     }
   }, [selectedNode, isRendered]);
 
+  // Highlight the nodes of a conversation trace step and the edges between them
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isRendered || !container || !tracePath?.length) return;
+
+    const currentNode = tracePath[tracePath.length - 1];
+    const diagramIds = new Map<string, string>();
+
+    const nodes = container.querySelectorAll('.node');
+    nodes.forEach((node) => {
+      const diagramId = getElementNodeId(node);
+      const agentId = toAgentId(diagramId, nodeIdMapping);
+      const nodeElement = node as HTMLElement;
+
+      if (!tracePath.includes(agentId)) {
+        nodeElement.style.filter = 'none';
+        nodeElement.style.opacity = '0.3';
+        return;
+      }
+
+      diagramIds.set(agentId, diagramId);
+      nodeElement.style.opacity = '1';
+      nodeElement.style.filter = agentId === currentNode
+        ? 'drop-shadow(0 0 10px rgba(16, 185, 129, 0.9))'
+        : 'drop-shadow(0 0 6px rgba(16, 185, 129, 0.5))';
+    });
+
+    // Mermaid edge IDs are L_<from>_<to>_<counter>
+    const edges: SVGElement[] = [];
+    for (let i = 1; i < tracePath.length; i++) {
+      const from = diagramIds.get(tracePath[i - 1]);
+      const to = diagramIds.get(tracePath[i]);
+      if (!from || !to || from === to) continue;
+      container
+        .querySelectorAll<SVGElement>(`path[id*="L_${CSS.escape(from)}_${CSS.escape(to)}_"]`)
+        .forEach((edge) => edges.push(edge));
+    }
+    edges.forEach((edge) => {
+      edge.style.stroke = '#10b981';
+      edge.style.strokeWidth = '3px';
+    });
+
+    return () => {
+      nodes.forEach((node) => {
+        (node as HTMLElement).style.filter = 'none';
+        (node as HTMLElement).style.opacity = '1';
+      });
+      edges.forEach((edge) => {
+        edge.style.stroke = '';
+        edge.style.strokeWidth = '';
+      });
+    };
+  }, [tracePath, isRendered, nodeIdMapping]);
+
   const highlightNode = (nodeId: string) => {
     if (!containerRef.current) return;
 
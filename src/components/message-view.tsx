@@ -5,6 +5,7 @@ import { isValid, differenceInHours } from 'date-fns';
 import { formatChatBubbleTime, formatDateDivider, shouldShowDateDivider } from '@/lib/utils/date';
 import { RefreshCw, Paperclip, Send, X, AlertCircle, MessageSquare, XCircle, ListTree, ArrowLeft, MapPin, User, Phone, Mail, Building, FileText, Download, Eye } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ACCEPTED_MEDIA_MIME_TYPES } from '@/lib/whatsapp-media';
 import { MediaMessage } from '@/components/media-message';
 import { TemplateSelectorDialog } from '@/components/template-selector-dialog';
 import { InteractiveMessageDialog } from '@/components/interactive-message-dialog';
@@ -788,7 +789,7 @@ export function MessageView({ conversationId, phoneNumber, contactName, onTempla
                 ref={fileInputRef}
                 type="file"
                 onChange={handleFileSelect}
-                accept="image/*,video/*,audio/*,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                accept={ACCEPTED_MEDIA_MIME_TYPES}
                 className="hidden"
               />
               <Button
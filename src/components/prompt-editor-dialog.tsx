@@ -0,0 +1,410 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import useSWR from 'swr';
+import { AlertCircle, History, Loader2, RotateCcw, Save, Send, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PromptEditor } from '@/components/prompt-editor';
+import { SideBySideDiff } from '@/components/side-by-side-diff';
+import { cn } from '@/lib/utils';
+import { diffLines } from '@/lib/diff';
+import { checkPromptVariables } from '@/lib/prompt-variables';
+import type {
+  PromptDetail,
+  PromptHistoryResponse,
+  PromptVersion,
+  PromptVersionEvent,
+} from '@/types/cortex';
+
+type Props = {
+  open: boolean;
+  prompt: PromptDetail | null;
+  onOpenChange: (open: boolean) => void;
+  onPublished: (prompt: PromptDetail) => void;
+};
+
+type Action = 'save' | 'discard' | 'publish' | 'rollback';
+
+const fetcher = async <T,>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load prompt history');
+  }
+  return data;
+};
+
+const EVENT_LABELS: Record<PromptVersionEvent, string> = {
+  baseline: 'Baseline',
+  draft: 'Draft',
+  published: 'Published',
+  rolled_back: 'Rolled back',
+};
+
+const EVENT_STYLES: Record<PromptVersionEvent, string> = {
+  baseline: 'bg-gray-100 text-gray-700',
+  draft: 'bg-amber-100 text-amber-700',
+  published: 'bg-green-100 text-green-700',
+  rolled_back: 'bg-blue-100 text-blue-700',
+};
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+async function sendJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+function ContentDiff({ before, after, beforeLabel, afterLabel }: {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}) {
+  if (before === after) {
+    return <p className="text-sm text-gray-500 py-6 text-center">No differences.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-2 gap-2 text-xs text-gray-500">
+        <span>{beforeLabel}</span>
+        <span>{afterLabel}</span>
+      </div>
+      <SideBySideDiff rows={diffLines(before.split('\n'), after.split('\n'))} />
+    </div>
+  );
+}
+
+/**
+ * Edit an AI Brain prompt: save drafts, diff against the live content, publish,
+ * and browse or roll back to earlier versions.
+ */
+export function PromptEditorDialog({ open, prompt, onOpenChange, onPublished }: Props) {
+  const [content, setContent] = useState('');
+  const [note, setNote] = useState('');
+  const [tab, setTab] = useState('edit');
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [pendingAction, setPendingAction] = useState<Action | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  const historyUrl = open && prompt ? `/api/ai/prompts/${encodeURIComponent(prompt.id)}/versions` : null;
+  const { data: history, error, isLoading, mutate } = useSWR<PromptHistoryResponse>(historyUrl, fetcher);
+  const versions = useMemo(() => history?.versions ?? [], [history]);
+
+  // Start from the saved draft, or the live content, each time the dialog opens
+  useEffect(() => {
+    if (!open) {
+      setLoadedFor(null);
+      setNote('');
+      setTab('edit');
+      setSelectedVersion(null);
+      setActionError(null);
+      return;
+    }
+    if (prompt && history && loadedFor !== prompt.id) {
+      setContent(history.draft?.content ?? prompt.content);
+      setLoadedFor(prompt.id);
+    }
+  }, [open, prompt, history, loadedFor]);
+
+  if (!prompt) return null;
+
+  const liveContent = prompt.content;
+  const variables = prompt.variables ?? [];
+  const hasChanges = content !== liveContent;
+  const draft = history?.draft ?? null;
+  const draftIsStale = draft && history && draft.base_version !== history.live_version;
+  // A stale draft can be saved again unchanged to start it from the live version
+  const draftIsSaved = draft?.content === content && !draftIsStale;
+  // Live content the edit started from, so publishing over someone else's change is refused
+  const baseContent = draft
+    ? versions.find((version) => version.version === draft.base_version)?.content ?? liveContent
+    : liveContent;
+  const { missing, unknown } = checkPromptVariables(content, variables);
+  const selected = versions.find((version) => version.version === selectedVersion) ?? versions[0] ?? null;
+  const busy = pendingAction !== null;
+
+  const run = async (action: Action, task: () => Promise<void>) => {
+    setPendingAction(action);
+    setActionError(null);
+    try {
+      await task();
+      await mutate();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const baseUrl = `/api/ai/prompts/${encodeURIComponent(prompt.id)}`;
+
+  const saveDraft = () => run('save', async () => {
+    await sendJson(`${baseUrl}/draft`, 'PUT', { content });
+  });
+
+  const discardDraft = () => run('discard', async () => {
+    await sendJson(`${baseUrl}/draft`, 'DELETE');
+    setContent(liveContent);
+  });
+
+  const publish = () => run('publish', async () => {
+    const result = await sendJson<{ prompt: PromptDetail }>(`${baseUrl}/publish`, 'POST', {
+      content,
+      note,
+      base_content: baseContent,
+    });
+    setNote('');
+    onPublished(result.prompt);
+  });
+
+  const rollback = (version: PromptVersion) => {
+    if (!confirm(`Roll back to v${version.version}? Its content will go live immediately.`)) return;
+    run('rollback', async () => {
+      const result = await sendJson<{ prompt: PromptDetail }>(`${baseUrl}/rollback`, 'POST', {
+        version: version.version,
+      });
+      setContent(result.prompt.content);
+      onPublished(result.prompt);
+    });
+  };
+
+  const loadVersion = (version: PromptVersion) => {
+    setContent(version.content);
+    setTab('edit');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Edit prompt: {prompt.name}</DialogTitle>
+          <DialogDescription>
+            {draft
+              ? `Draft saved ${formatDateTime(draft.updated_at)}${draft.author ? ` by ${draft.author}` : ''}.`
+              : 'Changes stay private until you publish them.'}
+            {history?.live_version != null && ` Live: v${history.live_version}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 py-6 text-center">{error.message}</p>
+        ) : (
+          <Tabs value={tab} onValueChange={setTab} className="min-h-0 flex-1 flex flex-col">
+            <TabsList className="self-start">
+              <TabsTrigger value="edit">Edit</TabsTrigger>
+              <TabsTrigger value="diff">
+                Diff vs live
+                {hasChanges && <span className="ml-1.5 w-1.5 h-1.5 rounded-full bg-amber-500" aria-hidden="true" />}
+              </TabsTrigger>
+              <TabsTrigger value="history">
+                <History className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+                History ({versions.length})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="edit" className="min-h-0 flex-1 space-y-2">
+              {draftIsStale && (
+                <p className="flex items-center gap-1.5 text-xs text-amber-700 bg-amber-50 rounded-md px-2 py-1.5">
+                  <AlertCircle className="w-3.5 h-3.5 shrink-0" aria-hidden="true" />
+                  A newer version went live after this draft was started. Check the diff, then save the draft again to publish it.
+                </p>
+              )}
+              {variables.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {variables.map((varName) => (
+                    <code
+                      key={varName}
+                      className={cn(
+                        'px-1.5 py-0.5 text-xs rounded border',
+                        missing.includes(varName)
+                          ? 'bg-gray-50 text-gray-400 border-gray-200 line-through'
+                          : 'bg-amber-50 text-amber-700 border-amber-200'
+                      )}
+                      title={missing.includes(varName) ? 'Not used in the prompt' : undefined}
+                    >
+                      {`{${varName}}`}
+                    </code>
+                  ))}
+                </div>
+              )}
+              <PromptEditor
+                value={content}
+                onChange={setContent}
+                variables={variables}
+                disabled={busy}
+                className="h-[50vh]"
+              />
+              {unknown.length > 0 && (
+                <p className="text-xs text-red-600">
+                  Unknown variables: {unknown.map((name) => `{${name}}`).join(', ')}. The agent won&apos;t fill
+                  these in; use {'{{'} and {'}}'} for literal braces.
+                </p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="diff" className="min-h-0 flex-1">
+              <ScrollArea className="h-[55vh]">
+                <div className="pr-3">
+                  <ContentDiff before={liveContent} after={content} beforeLabel="Live" afterLabel="Your edit" />
+                </div>
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="history" className="min-h-0 flex-1">
+              {versions.length === 0 ? (
+                <p className="text-sm text-gray-500 py-6 text-center">
+                  No history yet. Versions are recorded when drafts are saved and changes are published.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-[240px_1fr] gap-4">
+                  <ScrollArea className="md:h-[55vh] max-h-48 md:max-h-none border rounded-md">
+                    <div className="divide-y">
+                      {versions.map((version) => (
+                        <button
+                          key={version.id}
+                          type="button"
+                          onClick={() => setSelectedVersion(version.version)}
+                          className={cn(
+                            'w-full text-left px-3 py-2 hover:bg-gray-50',
+                            selected?.id === version.id && 'bg-indigo-50 hover:bg-indigo-50'
+                          )}
+                        >
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium text-gray-900">v{version.version}</span>
+                            <Badge className={cn('text-[10px] px-1.5 py-0', EVENT_STYLES[version.event])}>
+                              {EVENT_LABELS[version.event]}
+                            </Badge>
+                            {version.version === history?.live_version && (
+                              <Badge variant="outline" className="text-[10px] px-1.5 py-0">Live</Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-gray-500 mt-0.5">
+                            {formatDateTime(version.created_at)}
+                            {version.author && ` · ${version.author}`}
+                          </p>
+                          {version.note && <p className="text-xs text-gray-700 truncate">{version.note}</p>}
+                        </button>
+                      ))}
+                    </div>
+                  </ScrollArea>
+
+                  {selected && (
+                    <ScrollArea className="md:h-[55vh]">
+                      <div className="space-y-3 pr-3">
+                        <div className="flex flex-wrap items-start justify-between gap-2">
+                          <div>
+                            <p className="font-medium text-gray-900">v{selected.version}</p>
+                            <p className="text-xs text-gray-500">
+                              {EVENT_LABELS[selected.event]} {formatDateTime(selected.created_at)}
+                              {selected.author ? ` by ${selected.author}` : ''}
+                              {selected.rolled_back_to != null && ` · restored v${selected.rolled_back_to}`}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="outline" onClick={() => loadVersion(selected)} disabled={busy}>
+                              Load into editor
+                            </Button>
+                            {selected.version !== history?.live_version && selected.content !== liveContent && (
+                              <Button size="sm" variant="outline" onClick={() => rollback(selected)} disabled={busy}>
+                                {pendingAction === 'rollback' ? (
+                                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                ) : (
+                                  <RotateCcw className="w-4 h-4 mr-2" />
+                                )}
+                                Roll back to this
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                        <ContentDiff
+                          before={liveContent}
+                          after={selected.content}
+                          beforeLabel="Live"
+                          afterLabel={`v${selected.version}`}
+                        />
+                      </div>
+                    </ScrollArea>
+                  )}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+
+        <DialogFooter className="gap-2 sm:items-center">
+          {draft && (
+            <Button variant="ghost" onClick={discardDraft} disabled={busy} className="sm:mr-auto text-red-600">
+              {pendingAction === 'discard' ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4 mr-2" />
+              )}
+              Discard draft
+            </Button>
+          )}
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What changed? (optional)"
+            aria-label="Release note"
+            className="sm:w-64"
+            disabled={busy}
+          />
+          <Button variant="outline" onClick={saveDraft} disabled={busy || !content.trim() || draftIsSaved}>
+            {pendingAction === 'save' ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            {draftIsSaved ? 'Draft saved' : 'Save draft'}
+          </Button>
+          <Button onClick={publish} disabled={busy || !content.trim() || !hasChanges}>
+            {pendingAction === 'publish' ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4 mr-2" />
+            )}
+            Publish
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { splitPromptVariables } from '@/lib/prompt-variables';
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  variables?: string[];
+  disabled?: boolean;
+  className?: string;
+};
+
+// Shared by the textarea and the highlight layer so their text lines up exactly
+const TEXT_CLASSES = 'font-mono text-xs leading-5 p-3 whitespace-pre-wrap break-words';
+
+/**
+ * Prompt textarea with `{variable}` placeholders highlighted. Declared
+ * variables are amber; undeclared ones are red, since the agent can't fill them.
+ */
+export function PromptEditor({ value, onChange, variables, disabled, className }: Props) {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const segments = useMemo(() => splitPromptVariables(value, variables), [value, variables]);
+
+  return (
+    <div className={cn('relative rounded-lg bg-gray-900 overflow-hidden', className)}>
+      <pre
+        ref={highlightRef}
+        aria-hidden="true"
+        className={cn(TEXT_CLASSES, 'absolute inset-0 m-0 overflow-hidden text-gray-100 pointer-events-none')}
+      >
+        {segments.map((segment, index) =>
+          segment.variable ? (
+            <mark
+              key={index}
+              className={cn(
+                'rounded-sm',
+                segment.known ? 'bg-amber-500/25 text-amber-300' : 'bg-red-500/30 text-red-300'
+              )}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+        {/* Keeps a trailing newline from collapsing so both layers stay the same height */}
+        {'\n'}
+      </pre>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        disabled={disabled}
+        spellCheck={false}
+        aria-label="Prompt content"
+        className={cn(
+          TEXT_CLASSES,
+          'relative block w-full h-full resize-none bg-transparent text-transparent caret-white',
+          'focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500 disabled:cursor-not-allowed'
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import useSWR from 'swr';
+import { AlertCircle, Download, FlaskConical, Loader2, Play } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { AGENT_NODES, formatTranscript, parseTranscript, toPlaygroundConversation } from '@/lib/playground';
+import type {
+  AgentNode,
+  MessagePage,
+  PlaygroundRunResult,
+  PromptHistoryResponse,
+  PromptMetadata,
+} from '@/types/cortex';
+
+type Props = {
+  prompts: PromptMetadata[];
+  stateFields: Record<string, string>[];
+};
+
+type PromptSource = 'live' | 'draft';
+
+// Select value for running the node with its own prompts
+const NODE_DEFAULT = '__default__';
+
+// The messages endpoint's page size limit
+const CONVERSATION_PAGE_SIZE = 200;
+
+const TRANSCRIPT_PLACEHOLDER = `User: Hi, I saw your ad
+Agent: Hi! Who am I talking to?
+User: I'm Ana from Acme, ana@acme.com`;
+
+const fetcher = async <T,>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load data');
+  }
+  return data;
+};
+
+function formatStateValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Run an agent node against a real or pasted conversation with its live or
+ * draft prompt, and compare the reply and extracted state. Nothing is sent
+ * to the lead.
+ */
+export function PromptPlayground({ prompts, stateFields }: Props) {
+  const [node, setNode] = useState<AgentNode>('qa_agent');
+  const [promptId, setPromptId] = useState(NODE_DEFAULT);
+  const [promptSource, setPromptSource] = useState<PromptSource>('live');
+  const [conversationId, setConversationId] = useState('');
+  const [transcript, setTranscript] = useState('');
+  const [recordedReply, setRecordedReply] = useState<string | null>(null);
+  const [loadingConversation, setLoadingConversation] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<PlaygroundRunResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const nodePrompts = useMemo(() => prompts.filter((prompt) => prompt.nodes.includes(node)), [prompts, node]);
+  const selectedPromptId = promptId === NODE_DEFAULT ? null : promptId;
+
+  const { data: history } = useSWR<PromptHistoryResponse>(
+    selectedPromptId ? `/api/ai/prompts/${encodeURIComponent(selectedPromptId)}/versions` : null,
+    fetcher
+  );
+  const draft = history?.draft ?? null;
+
+  // State field names and types, in the order the architecture lists them
+  const fields = useMemo(
+    () => stateFields.flatMap((field) => Object.entries(field).slice(0, 1)),
+    [stateFields]
+  );
+  const messages = useMemo(() => parseTranscript(transcript), [transcript]);
+  const extraState = result
+    ? Object.entries(result.state).filter(([name]) => !fields.some(([field]) => field === name))
+    : [];
+
+  const handleNodeChange = (value: string) => {
+    setNode(value as AgentNode);
+    setPromptId(NODE_DEFAULT);
+    setPromptSource('live');
+  };
+
+  const loadConversation = async () => {
+    const id = conversationId.trim();
+    if (!id) return;
+
+    setLoadingConversation(true);
+    setError(null);
+    try {
+      const page = await fetcher<MessagePage>(
+        `/api/leads/${encodeURIComponent(id)}/messages?limit=${CONVERSATION_PAGE_SIZE}`
+      );
+      const conversation = toPlaygroundConversation(page.messages);
+      setTranscript(formatTranscript(conversation.messages));
+      setRecordedReply(conversation.recorded_reply);
+      setResult(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversation');
+    } finally {
+      setLoadingConversation(false);
+    }
+  };
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/ai/playground', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          node,
+          messages,
+          prompt_id: selectedPromptId,
+          prompt_content: promptSource === 'draft' ? draft?.content : null,
+          state_fields: fields.map(([name]) => name),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run playground');
+      }
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run playground');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-indigo-600" />
+          Playground
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Try an agent node against a conversation. Nothing is sent to the lead.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-1.5">
+          <Label>Agent node</Label>
+          <Select value={node} onValueChange={handleNodeChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AGENT_NODES.map((agentNode) => (
+                <SelectItem key={agentNode} value={agentNode}>
+                  {agentNode}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Prompt</Label>
+          <Select value={promptId} onValueChange={(value) => { setPromptId(value); setPromptSource('live'); }}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NODE_DEFAULT}>Node defaults (live)</SelectItem>
+              {nodePrompts.map((prompt) => (
+                <SelectItem key={prompt.id} value={prompt.id}>
+                  {prompt.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Version</Label>
+          <Select
+            value={promptSource}
+            onValueChange={(value) => setPromptSource(value as PromptSource)}
+            disabled={!selectedPromptId}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="live">Live</SelectItem>
+              <SelectItem value="draft" disabled={!draft}>
+                {draft ? 'Draft' : 'Draft (none saved)'}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="playground-conversation">Load a conversation</Label>
+        <div className="flex gap-2">
+          <Input
+            id="playground-conversation"
+            value={conversationId}
+            onChange={(e) => setConversationId(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && loadConversation()}
+            placeholder="Conversation ID or external ID"
+          />
+          <Button
+            variant="outline"
+            onClick={loadConversation}
+            disabled={loadingConversation || !conversationId.trim()}
+          >
+            {loadingConversation ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Load
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="playground-transcript">Transcript</Label>
+          <span className="text-xs text-gray-400">
+            {messages.length} {messages.length === 1 ? 'message' : 'messages'}
+          </span>
+        </div>
+        <Textarea
+          id="playground-transcript"
+          value={transcript}
+          onChange={(e) => {
+            setTranscript(e.target.value);
+            setRecordedReply(null);
+          }}
+          placeholder={TRANSCRIPT_PLACEHOLDER}
+          className="font-mono text-xs min-h-40"
+        />
+        <p className="text-xs text-gray-500">
+          One turn per line, starting with <code>User:</code> or <code>Agent:</code>. The agent replies to the last
+          user message.
+        </p>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      <Button onClick={run} disabled={running || messages.length === 0}>
+        {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+        Run
+      </Button>
+
+      {result && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 pt-2">
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <h3 className="text-sm font-medium text-gray-900">Reply</h3>
+              <Badge variant="outline" className="text-xs">{result.node}</Badge>
+              {result.source === 'stub' && (
+                <Badge className="text-xs bg-amber-100 text-amber-700">Stub</Badge>
+              )}
+              <span className="text-xs text-gray-400">{(result.duration_ms / 1000).toFixed(1)}s</span>
+            </div>
+            <p className="text-sm text-gray-800 whitespace-pre-wrap bg-indigo-50 rounded-lg p-3">{result.reply}</p>
+            {recordedReply && (
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">Recorded reply</p>
+                <p className="text-sm text-gray-600 whitespace-pre-wrap bg-gray-50 rounded-lg p-3">{recordedReply}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-900">Extracted state</h3>
+            <div className="border rounded-lg divide-y">
+              {[...fields, ...extraState.map(([name]) => [name, ''] as [string, string])].map(([name, type]) => {
+                const value = result.state[name];
+                const isSet = value !== undefined && value !== null && value !== '';
+                return (
+                  <div key={name} className="flex items-start gap-3 px-3 py-2 text-sm">
+                    <code className={cn('font-mono text-xs w-40 shrink-0 truncate', isSet ? 'text-indigo-600' : 'text-gray-400')}>
+                      {name}
+                    </code>
+                    {type && <span className="text-xs text-gray-400 w-16 shrink-0 truncate">{type}</span>}
+                    <span className={cn('break-all', isSet ? 'text-gray-900' : 'text-gray-300')}>
+                      {formatStateValue(value)}
+                    </span>
+                  </div>
+                );
+              })}
+              {fields.length === 0 && extraState.length === 0 && (
+                <p className="px-3 py-2 text-sm text-gray-500">No state fields extracted.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
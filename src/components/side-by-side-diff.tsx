@@ -0,0 +1,41 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { DiffLine, DiffRow } from '@/lib/diff';
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-gray-700',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+function DiffCell({ line }: { line: DiffLine | null }) {
+  return (
+    <div
+      className={cn(
+        'px-2 py-0.5 font-mono text-xs whitespace-pre-wrap break-words min-h-[1.5rem]',
+        line ? LINE_STYLES[line.type] : 'bg-gray-50'
+      )}
+    >
+      {line?.type === 'added' && '+ '}
+      {line?.type === 'removed' && '- '}
+      {line?.text}
+    </div>
+  );
+}
+
+/**
+ * Two-column diff: removed lines on the left, added lines on the right
+ */
+export function SideBySideDiff({ rows, className }: { rows: DiffRow[]; className?: string }) {
+  return (
+    <div className={cn('border rounded-md overflow-hidden grid grid-cols-2 divide-x', className)}>
+      <div>
+        {rows.map((row, index) => <DiffCell key={index} line={row.left} />)}
+      </div>
+      <div>
+        {rows.map((row, index) => <DiffCell key={index} line={row.right} />)}
+      </div>
+    </div>
+  );
+}
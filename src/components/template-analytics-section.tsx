@@ -0,0 +1,485 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import useSWR from 'swr';
+import {
+  AlertCircle,
+  BarChart3,
+  Calendar,
+  CalendarCheck,
+  ChevronDown,
+  ChevronUp,
+  MessageSquareReply,
+  RefreshCw,
+  Search,
+  Send,
+  XCircle,
+} from 'lucide-react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn, formatNumber } from '@/lib/utils';
+import type { TemplateMetricsResponse, TemplatePerformance } from '@/types/cortex';
+
+type DateRange = '7d' | '14d' | '30d' | '90d' | '180d';
+
+const DATE_RANGE_DAYS: Record<DateRange, number> = {
+  '7d': 7,
+  '14d': 14,
+  '30d': 30,
+  '90d': 90,
+  '180d': 180,
+};
+
+const fetcher = async (url: string): Promise<TemplateMetricsResponse> => {
+  const response = await fetch(url);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load template analytics');
+  }
+  return data;
+};
+
+function getDateRange(range: DateRange): { startDate: string; endDate: string } {
+  const endDate = new Date();
+  const startDate = new Date();
+  startDate.setDate(endDate.getDate() - DATE_RANGE_DAYS[range]);
+
+  return {
+    startDate: startDate.toISOString().split('T')[0],
+    endDate: endDate.toISOString().split('T')[0],
+  };
+}
+
+function getRate(part: number, total: number): string {
+  if (total <= 0) return '—';
+  return `${((part / total) * 100).toFixed(1)}%`;
+}
+
+// Replies and meetings are measured against messages that were actually delivered
+function getDelivered(row: Pick<TemplatePerformance, 'sends' | 'delivery_failures'>): number {
+  return Math.max(row.sends - row.delivery_failures, 0);
+}
+
+function getRowKey(row: TemplatePerformance): string {
+  return `${row.template_name}:${row.language}`;
+}
+
+function SummaryCard({ title, value, detail, icon, iconBg }: {
+  title: string;
+  value: number;
+  detail?: string;
+  icon: React.ReactNode;
+  iconBg: string;
+}) {
+  return (
+    <Card>
+      <CardContent className="p-4 flex items-center gap-3">
+        <div className={cn('w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0', iconBg)}>
+          {icon}
+        </div>
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500">{title}</p>
+          <p className="text-xl font-semibold text-gray-900">{formatNumber(value)}</p>
+          {detail && <p className="text-xs text-gray-500">{detail}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Current deal stage of the leads it was sent to, as bars relative to delivered messages
+ */
+function DealStageBars({ row }: { row: TemplatePerformance }) {
+  const delivered = getDelivered(row);
+
+  if (row.deal_stages.length === 0) {
+    return <p className="text-sm text-gray-500">No deal progression in this period</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {row.deal_stages.map((stage) => (
+        <div key={stage.stage_id}>
+          <div className="flex items-center justify-between text-xs mb-1">
+            <span className="text-gray-700">{stage.stage_label}</span>
+            <span className="text-gray-500">
+              {formatNumber(stage.count)} · {getRate(stage.count, delivered)}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-500"
+              style={{ width: `${delivered > 0 ? Math.min((stage.count / delivered) * 100, 100) : 0}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TemplateDetail({ row, startDate, endDate }: {
+  row: TemplatePerformance;
+  startDate: string;
+  endDate: string;
+}) {
+  const params = new URLSearchParams({
+    start_date: startDate,
+    end_date: endDate,
+    template_name: row.template_name,
+    language: row.language,
+  });
+  const { data, error, isLoading } = useSWR<TemplateMetricsResponse>(
+    `/api/metrics/templates?${params.toString()}`,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error.message}</p>;
+  }
+
+  const daily = data?.data ?? [];
+  const meetings = data?.meetings ?? [];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 pt-3 border-t">
+      <div>
+        <p className="text-sm font-medium text-gray-900 mb-2">Daily activity</p>
+        {daily.length > 0 ? (
+          <ResponsiveContainer width="100%" height={220}>
+            <AreaChart data={daily} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis dataKey="day" tick={{ fontSize: 11 }} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+              <Tooltip />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Area type="monotone" dataKey="sends" name="Sends" stroke="#6366f1" fill="#6366f1" fillOpacity={0.15} />
+              <Area type="monotone" dataKey="replies_24h" name="Replies (24h)" stroke="#10b981" fill="#10b981" fillOpacity={0.15} />
+              <Area type="monotone" dataKey="delivery_failures" name="Failures" stroke="#ef4444" fill="#ef4444" fillOpacity={0.1} />
+            </AreaChart>
+          </ResponsiveContainer>
+        ) : (
+          <p className="text-sm text-gray-500">No daily data in this period</p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm font-medium text-gray-900 mb-2">Current deal stage of leads</p>
+          <DealStageBars row={row} />
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-900 mb-2">
+            Resulting meetings ({formatNumber(row.meetings_booked)})
+          </p>
+          {meetings.length > 0 ? (
+            <div className="divide-y border rounded-md max-h-40 overflow-y-auto">
+              {meetings.map((meeting) => (
+                <div key={meeting.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="text-gray-700">
+                    {meeting.start_time
+                      ? new Date(meeting.start_time).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })
+                      : 'Not scheduled'}
+                  </span>
+                  {meeting.showed === 1 ? (
+                    <Badge variant="secondary" className="text-xs bg-green-100 text-green-700">Showed</Badge>
+                  ) : meeting.showed === 0 ? (
+                    <Badge variant="secondary" className="text-xs bg-red-100 text-red-700">No-show</Badge>
+                  ) : (
+                    <Badge variant="secondary" className="text-xs">Not marked</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No meetings booked after this template</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function TemplateAnalyticsSection() {
+  const [dateRange, setDateRange] = useState<DateRange>('30d');
+  const [search, setSearch] = useState('');
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  const { startDate, endDate } = getDateRange(dateRange);
+  const apiUrl = `/api/metrics/templates?start_date=${startDate}&end_date=${endDate}`;
+  const { data, error, isLoading, mutate } = useSWR<TemplateMetricsResponse>(
+    apiUrl,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+
+  // Outcomes are cached on the server for a few minutes; Refresh collects them again
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    setRefreshError(null);
+    try {
+      await mutate(fetcher(`${apiUrl}&refresh=true`), { revalidate: false });
+    } catch (err) {
+      console.error('Error refreshing template analytics:', err);
+      setRefreshError(err instanceof Error ? err.message : 'Failed to load template analytics');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+  const errorMessage = refreshError ?? error?.message;
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (data?.templates ?? [])
+      .filter((row) => !query || row.template_name.toLowerCase().includes(query))
+      .sort((a, b) => b.sends - a.sends);
+  }, [data, search]);
+
+  const totals = useMemo(() => rows.reduce(
+    (sum, row) => ({
+      sends: sum.sends + row.sends,
+      delivery_failures: sum.delivery_failures + row.delivery_failures,
+      replies_24h: sum.replies_24h + row.replies_24h,
+      meetings_booked: sum.meetings_booked + row.meetings_booked,
+    }),
+    { sends: 0, delivery_failures: 0, replies_24h: 0, meetings_booked: 0 }
+  ), [rows]);
+  const totalDelivered = getDelivered(totals);
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Template Analytics</h1>
+          <p className="text-gray-500 text-sm mt-1">
+            How templates sent from this app perform after they go out
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={refreshing}>
+            <RefreshCw className={cn('w-4 h-4', refreshing && 'animate-spin')} />
+          </Button>
+          <Select value={dateRange} onValueChange={(value) => setDateRange(value as DateRange)}>
+            <SelectTrigger className="w-[160px]">
+              <Calendar className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7d">Last 7 days</SelectItem>
+              <SelectItem value="14d">Last 14 days</SelectItem>
+              <SelectItem value="30d">Last 30 days</SelectItem>
+              <SelectItem value="90d">Last 90 days</SelectItem>
+              <SelectItem value="180d">Last 180 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {errorMessage}
+        </div>
+      )}
+
+      {data && (data.truncated || data.failed_conversations > 0) && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2 text-sm text-amber-800">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">Some outcomes may be missing</p>
+            {data.truncated && (
+              <p>
+                Only the {formatNumber(data.conversations_scanned)} leads sent to most recently were checked for
+                replies, meetings and deal stages. Try a shorter date range.
+              </p>
+            )}
+            {data.failed_conversations > 0 && (
+              <p>
+                {formatNumber(data.failed_conversations)}{' '}
+                {data.failed_conversations === 1 ? 'lead' : 'leads'} couldn&apos;t be loaded. Refresh to try again.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Totals */}
+      {isLoading ? (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-20 rounded-lg" />
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          <SummaryCard
+            title="Sends"
+            value={totals.sends}
+            icon={<Send className="w-5 h-5" />}
+            iconBg="bg-indigo-100 text-indigo-600"
+          />
+          <SummaryCard
+            title="Delivery failures"
+            value={totals.delivery_failures}
+            detail={`${getRate(totals.delivery_failures, totals.sends)} of sends`}
+            icon={<XCircle className="w-5 h-5" />}
+            iconBg="bg-red-100 text-red-600"
+          />
+          <SummaryCard
+            title="Replies within 24h"
+            value={totals.replies_24h}
+            detail={`${getRate(totals.replies_24h, totalDelivered)} of delivered`}
+            icon={<MessageSquareReply className="w-5 h-5" />}
+            iconBg="bg-emerald-100 text-emerald-600"
+          />
+          <SummaryCard
+            title="Meetings"
+            value={totals.meetings_booked}
+            detail={`${getRate(totals.meetings_booked, totalDelivered)} of delivered`}
+            icon={<CalendarCheck className="w-5 h-5" />}
+            iconBg="bg-orange-100 text-orange-600"
+          />
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <Input
+          placeholder="Search templates..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9 h-10"
+        />
+      </div>
+
+      {/* Per-template rows */}
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-lg" />
+          ))}
+        </div>
+      ) : rows.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <BarChart3 className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+            <p className="font-medium text-gray-900">No template sends in this period</p>
+            <p className="text-sm text-gray-500 mt-1">Only templates sent from this app are counted. Try a longer date range</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row) => {
+            const key = getRowKey(row);
+            const isExpanded = expandedKey === key;
+            const delivered = getDelivered(row);
+            const furthestStage = [...row.deal_stages].reverse().find((stage) => stage.count > 0);
+
+            return (
+              <Card key={key}>
+                <CardContent className="p-4 space-y-3">
+                  <button
+                    onClick={() => setExpandedKey(isExpanded ? null : key)}
+                    className="w-full text-left cursor-pointer"
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <h3 className="font-medium text-gray-900 truncate">
+                          {row.template_name.replace(/_/g, ' ')}
+                        </h3>
+                        <Badge variant="outline" className="text-xs uppercase">{row.language}</Badge>
+                      </div>
+                      {isExpanded ? (
+                        <ChevronUp className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      ) : (
+                        <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-x-4 gap-y-2 mt-3 text-sm">
+                      <div>
+                        <p className="text-xs text-gray-500">Sends</p>
+                        <p className="font-medium text-gray-900">{formatNumber(row.sends)}</p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500">Failed</p>
+                        <p className={cn('font-medium', row.delivery_failures > 0 ? 'text-red-600' : 'text-gray-900')}>
+                          {formatNumber(row.delivery_failures)}
+                          <span className="text-xs text-gray-500 font-normal ml-1">
+                            {getRate(row.delivery_failures, row.sends)}
+                          </span>
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500">Replied (24h)</p>
+                        <p className="font-medium text-gray-900">
+                          {formatNumber(row.replies_24h)}
+                          <span className="text-xs text-gray-500 font-normal ml-1">
+                            {getRate(row.replies_24h, delivered)}
+                          </span>
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500">Meetings</p>
+                        <p className="font-medium text-gray-900">
+                          {formatNumber(row.meetings_booked)}
+                          <span className="text-xs text-gray-500 font-normal ml-1">
+                            {formatNumber(row.meetings_showed)} showed
+                          </span>
+                        </p>
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-xs text-gray-500">Furthest current deal stage</p>
+                        <p className="font-medium text-gray-900 truncate">
+                          {furthestStage
+                            ? `${furthestStage.stage_label} (${formatNumber(furthestStage.count)})`
+                            : '—'}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+
+                  {isExpanded && <TemplateDetail row={row} startDate={startDate} endDate={endDate} />}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import useSWR from 'swr';
+import { ArrowRight, Copy, History, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { SideBySideDiff } from '@/components/side-by-side-diff';
+import { cn } from '@/lib/utils';
+import { diffLines } from '@/lib/diff';
+import { DIFF_SECTIONS, getPreviousVersion, getSectionLines } from '@/lib/template-history';
+import type {
+  Template,
+  TemplateSnapshot,
+  TemplateVersion,
+  TemplateVersionEvent,
+} from '@/types/whatsapp';
+
+type Props = {
+  open: boolean;
+  // Template to show history for; null shows every template, including deleted ones
+  template: Pick<Template, 'name' | 'language'> | null;
+  onOpenChange: (open: boolean) => void;
+  onClone: (snapshot: TemplateSnapshot) => void;
+};
+
+const fetcher = async <T,>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load template history');
+  }
+  return data;
+};
+
+const EVENT_LABELS: Record<TemplateVersionEvent, string> = {
+  created: 'Created',
+  synced: 'Synced',
+  deleted: 'Deleted',
+};
+
+const EVENT_STYLES: Record<TemplateVersionEvent, string> = {
+  created: 'bg-blue-100 text-blue-700',
+  synced: 'bg-gray-100 text-gray-700',
+  deleted: 'bg-red-100 text-red-700',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  APPROVED: 'text-green-700',
+  PENDING: 'text-yellow-700',
+  REJECTED: 'text-red-700',
+  DELETED: 'text-gray-500',
+};
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function StatusLabel({ status }: { status?: string | null }) {
+  if (!status) return <span className="text-gray-400">—</span>;
+  return <span className={cn('font-medium', STATUS_STYLES[status] ?? 'text-gray-700')}>{status}</span>;
+}
+
+/**
+ * Side-by-side diff of a version's content against the one before it
+ */
+function VersionDiff({ previous, current }: { previous: TemplateVersion | null; current: TemplateVersion }) {
+  const sections = DIFF_SECTIONS.map((section) => {
+    const before = getSectionLines(previous?.snapshot ?? null, section.key);
+    const after = getSectionLines(current.snapshot, section.key);
+    return { ...section, rows: diffLines(before, after), changed: before.join('\n') !== after.join('\n') };
+  }).filter((section) => section.rows.length > 0);
+
+  if (sections.length === 0) {
+    return <p className="text-sm text-gray-500">This version has no content.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 text-xs text-gray-500">
+        <span>{previous ? `v${previous.version}` : 'Before'}</span>
+        <span>v{current.version}</span>
+      </div>
+      {sections.map((section) => (
+        <div key={section.key}>
+          <div className="flex items-center gap-2 mb-1">
+            <p className="text-xs font-medium text-gray-700">{section.label}</p>
+            {section.changed && previous && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">Changed</Badge>
+            )}
+          </div>
+          <SideBySideDiff rows={section.rows} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Timeline of recorded template versions with a diff of each against the
+ * previous one. Any version can be cloned into a new template.
+ */
+export function TemplateHistoryDialog({ open, template, onOpenChange, onClone }: Props) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const query = template
+    ? `?${new URLSearchParams({ name: template.name, language: template.language })}`
+    : '';
+  const { data, error, isLoading } = useSWR<{ versions: TemplateVersion[] }>(
+    open ? `/api/admin/templates/history${query}` : null,
+    fetcher
+  );
+  const versions = useMemo(() => data?.versions ?? [], [data]);
+
+  // Start on the newest version each time the dialog opens
+  useEffect(() => {
+    if (!open) setSelectedId(null);
+  }, [open]);
+
+  const selected = versions.find((version) => version.id === selectedId) ?? versions[0] ?? null;
+  const previous = selected ? getPreviousVersion(versions, selected) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            {template ? `History: ${template.name}` : 'Template history'}
+          </DialogTitle>
+          <DialogDescription>
+            {template
+              ? `Every recorded version of this template (${template.language}).`
+              : 'Every recorded version of every template, including deleted ones.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 py-6 text-center">{error.message}</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">
+            No history recorded yet. Versions are captured on create, sync and delete.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-4 min-h-0 flex-1">
+            <ScrollArea className="md:h-[60vh] max-h-48 md:max-h-none border rounded-md">
+              <div className="divide-y">
+                {versions.map((version) => (
+                  <button
+                    key={version.id}
+                    type="button"
+                    onClick={() => setSelectedId(version.id)}
+                    className={cn(
+                      'w-full text-left px-3 py-2 hover:bg-gray-50',
+                      selected?.id === version.id && 'bg-green-50 hover:bg-green-50'
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">v{version.version}</span>
+                      <Badge className={cn('text-[10px] px-1.5 py-0', EVENT_STYLES[version.event])}>
+                        {EVENT_LABELS[version.event]}
+                      </Badge>
+                    </div>
+                    {!template && (
+                      <p className="text-xs text-gray-700 truncate">
+                        {version.snapshot.name} ({version.snapshot.language})
+                      </p>
+                    )}
+                    {version.status_from !== version.status_to && (
+                      <p className="text-xs flex items-center gap-1 mt-0.5">
+                        <StatusLabel status={version.status_from} />
+                        <ArrowRight className="w-3 h-3 text-gray-400" />
+                        <StatusLabel status={version.status_to} />
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {formatDateTime(version.created_at)}
+                      {version.actor && ` · ${version.actor}`}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <ScrollArea className="md:h-[60vh]">
+                <div className="space-y-4 pr-3">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {selected.snapshot.name} · v{selected.version}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {EVENT_LABELS[selected.event]} {formatDateTime(selected.created_at)}
+                        {selected.actor ? ` by ${selected.actor}` : ''}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => onClone(selected.snapshot)}>
+                      <Copy className="w-4 h-4 mr-2" />
+                      Clone as new template
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-500">Status:</span>
+                    <StatusLabel status={selected.status_from} />
+                    <ArrowRight className="w-3.5 h-3.5 text-gray-400" />
+                    <StatusLabel status={selected.status_to} />
+                  </div>
+
+                  {selected.snapshot.status === 'REJECTED' && selected.snapshot.rejection_reason && (
+                    <div className="p-3 bg-red-50 rounded-md">
+                      <p className="text-xs text-red-600 font-medium">Rejection Reason</p>
+                      <p className="text-sm text-red-700">{selected.snapshot.rejection_reason}</p>
+                    </div>
+                  )}
+
+                  {previous && selected.changed_fields.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Changed: {selected.changed_fields.join(', ')}
+                    </p>
+                  )}
+
+                  <VersionDiff previous={previous} current={selected} />
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
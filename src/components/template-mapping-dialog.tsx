@@ -0,0 +1,387 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TemplateMessagePreview } from '@/components/template-message-preview';
+import { getTemplateParameters } from '@/lib/template-parser';
+import {
+  DEFAULT_CURRENCY,
+  TEMPLATE_PARAMETER_SOURCES,
+  TEMPLATE_SOURCE_FIELDS,
+  TEMPLATE_VALUE_FORMATS,
+  findTemplateMapping,
+  getTemplateLocale,
+  resolveTemplateParameters,
+  validateTemplateMapping,
+  type TemplateRenderContext,
+} from '@/lib/template-mapping';
+import type {
+  Template,
+  TemplateParameterMapping,
+  TemplateParameterRule,
+  TemplateParameterSource,
+  TemplateValueFormat,
+} from '@/types/whatsapp';
+
+type Props = {
+  template: Template | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (mapping: TemplateParameterMapping | null) => void;
+};
+
+// Select value for parameters left to name-based auto-fill
+const AUTO_SOURCE = 'auto';
+
+// Made-up lead used to render the preview while editing
+const SAMPLE_CONTEXT: Omit<TemplateRenderContext, 'locale'> = {
+  lead: {
+    name: 'María González',
+    firstName: 'María',
+    lastName: 'González',
+    email: 'maria.gonzalez@acme.com',
+    phone: '5215512345678',
+    company: 'Acme',
+    position: 'Head of Finance',
+  },
+  hubspot: {
+    firstname: 'María',
+    lastname: 'González',
+    email: 'maria.gonzalez@acme.com',
+    company: 'Acme',
+    jobtitle: 'Head of Finance',
+    city: 'Monterrey',
+    country: 'Mexico',
+    website: 'acme.com',
+    lifecyclestage: 'lead',
+  },
+  deal: {
+    dealname: 'Acme - Annual plan',
+    amount: 12500,
+    dealstage_label: 'Proposal sent',
+    pipeline_label: 'Sales',
+    closedate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
+    createdate: new Date().toISOString(),
+  },
+  sender: {
+    name: 'Carlos Ruiz',
+    email: 'carlos.ruiz@example.com',
+    timezone: 'America/Mexico_City',
+  },
+};
+
+const formatParameterName = (name: string): string => {
+  return name
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, char => char.toUpperCase())
+    .replace(/Param (\d+)/, 'Parameter $1')
+    .replace(/Button (\d+) Parameter (\d+)/, 'Button $1 URL Parameter $2');
+};
+
+/**
+ * Admin editor for how a template's parameters are filled when sending
+ */
+export function TemplateMappingDialog({ template, onOpenChange, onSaved }: Props) {
+  const [rules, setRules] = useState<Record<string, TemplateParameterRule>>({});
+  const [existing, setExisting] = useState<TemplateParameterMapping | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parameterInfo = useMemo(() => (template ? getTemplateParameters(template) : null), [template]);
+
+  useEffect(() => {
+    if (!template) return;
+
+    let cancelled = false;
+    setRules({});
+    setExisting(null);
+    setError(null);
+    setLoading(true);
+
+    fetch('/api/templates/mappings')
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load mapping');
+        if (cancelled) return;
+        const mapping = findTemplateMapping(data.mappings || [], template) ?? null;
+        setExisting(mapping);
+        setRules(mapping?.parameters ?? {});
+      })
+      .catch((err) => {
+        console.error('Error loading template mapping:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load mapping');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [template]);
+
+  const mapping: TemplateParameterMapping | null = template
+    ? { template_name: template.name, language: template.language, parameters: rules }
+    : null;
+
+  const previewValues = useMemo(() => {
+    if (!template || !parameterInfo) return {};
+    const resolved = resolveTemplateParameters(
+      parameterInfo,
+      { template_name: template.name, language: template.language, parameters: rules },
+      { ...SAMPLE_CONTEXT, locale: getTemplateLocale(template.language) }
+    );
+    return Object.fromEntries(Object.entries(resolved).map(([name, { value }]) => [name, value]));
+  }, [template, parameterInfo, rules]);
+
+  const updateRule = (paramName: string, changes: Partial<TemplateParameterRule>) => {
+    setRules((prev) => ({ ...prev, [paramName]: { ...prev[paramName], ...changes } }));
+  };
+
+  const handleSourceChange = (paramName: string, value: string) => {
+    if (value === AUTO_SOURCE) {
+      setRules((prev) => {
+        const next = { ...prev };
+        delete next[paramName];
+        return next;
+      });
+      return;
+    }
+    const source = value as TemplateParameterSource;
+    const firstField = source === 'static' ? undefined : TEMPLATE_SOURCE_FIELDS[source][0]?.id;
+    updateRule(paramName, { source, field: firstField, value: undefined });
+  };
+
+  const handleSave = async () => {
+    if (!mapping) return;
+
+    const validationError = validateTemplateMapping(mapping);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/templates/mappings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mapping),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save mapping');
+      }
+      onSaved?.(data);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error saving template mapping:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save mapping');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!template || !confirm('Remove this mapping? Parameters will go back to auto-fill by name.')) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ template_name: template.name, language: template.language });
+      const response = await fetch(`/api/templates/mappings?${params}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove mapping');
+      }
+      onSaved?.(null);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error removing template mapping:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove mapping');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !saving && onOpenChange(open)}>
+      <DialogContent className="max-h-[90vh] flex flex-col" style={{ maxWidth: '760px', width: '95vw' }}>
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle>Parameter mapping</DialogTitle>
+          <DialogDescription>
+            {template?.name} · {template?.language}. Choose where each parameter is filled from when sending.
+            Unmapped parameters are guessed from their name.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 flex-shrink-0">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : !template || !parameterInfo || parameterInfo.parameters.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">This template has no parameters to map.</p>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto space-y-4 pr-1">
+            <TemplateMessagePreview template={template} parameterInfo={parameterInfo} values={previewValues} />
+            <p className="text-xs text-gray-500 -mt-2">Preview uses a sample lead, deal and sender.</p>
+
+            <div className="space-y-3">
+              {parameterInfo.parameters.map((param) => {
+                const rule = rules[param.name];
+                const fieldOptions = rule && rule.source !== 'static' ? TEMPLATE_SOURCE_FIELDS[rule.source] : [];
+
+                return (
+                  <div key={param.name} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                    <div className="flex items-baseline justify-between gap-2">
+                      <Label className="text-sm text-gray-900">{formatParameterName(param.name)}</Label>
+                      {param.example && (
+                        <span className="text-xs text-gray-400 truncate">e.g. {param.example}</span>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                      <Select value={rule?.source ?? AUTO_SOURCE} onValueChange={(value) => handleSourceChange(param.name, value)}>
+                        <SelectTrigger className="h-9 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={AUTO_SOURCE}>Auto (by name)</SelectItem>
+                          {TEMPLATE_PARAMETER_SOURCES.map((source) => (
+                            <SelectItem key={source.id} value={source.id}>{source.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      {rule?.source === 'static' ? (
+                        <Input
+                          value={rule.value ?? ''}
+                          onChange={(e) => updateRule(param.name, { value: e.target.value })}
+                          placeholder="Text"
+                          className="h-9 text-sm sm:col-span-2"
+                        />
+                      ) : rule?.source === 'hubspot' ? (
+                        <>
+                          <Input
+                            value={rule.field ?? ''}
+                            onChange={(e) => updateRule(param.name, { field: e.target.value.trim() })}
+                            placeholder="Property name"
+                            list={`hubspot-properties-${param.name}`}
+                            className="h-9 text-sm font-mono"
+                          />
+                          <datalist id={`hubspot-properties-${param.name}`}>
+                            {fieldOptions.map((field) => (
+                              <option key={field.id} value={field.id} />
+                            ))}
+                          </datalist>
+                        </>
+                      ) : rule ? (
+                        <Select value={rule.field ?? ''} onValueChange={(value) => updateRule(param.name, { field: value })}>
+                          <SelectTrigger className="h-9 text-sm">
+                            <SelectValue placeholder="Field" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {fieldOptions.map((field) => (
+                              <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : null}
+
+                      {rule && rule.source !== 'static' && (
+                        <Select
+                          value={rule.format ?? 'text'}
+                          onValueChange={(value) => updateRule(param.name, {
+                            format: value as TemplateValueFormat,
+                            currency: value === 'currency' ? rule.currency ?? DEFAULT_CURRENCY : undefined,
+                          })}
+                        >
+                          <SelectTrigger className="h-9 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TEMPLATE_VALUE_FORMATS.map((format) => (
+                              <SelectItem key={format.id} value={format.id}>{format.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+
+                    {rule && rule.source !== 'static' && (
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <Input
+                          value={rule.fallback ?? ''}
+                          onChange={(e) => updateRule(param.name, { fallback: e.target.value })}
+                          placeholder="Fallback when empty (optional)"
+                          className="h-9 text-sm sm:col-span-2"
+                        />
+                        {rule.format === 'currency' && (
+                          <Input
+                            value={rule.currency ?? ''}
+                            onChange={(e) => updateRule(param.name, { currency: e.target.value.toUpperCase() })}
+                            placeholder="Currency (e.g. MXN)"
+                            maxLength={3}
+                            className="h-9 text-sm font-mono"
+                          />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex-shrink-0 mt-2">
+          {existing && (
+            <Button
+              variant="outline"
+              className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700 sm:mr-auto"
+              onClick={handleRemove}
+              disabled={saving}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Remove mapping
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || loading || !parameterInfo?.parameters.length}
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save mapping'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { ExternalLink, Eye, Phone, Reply } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { renderTemplateSegments, type RenderedSegment } from '@/lib/template-mapping';
+import type { Template, TemplateParameterInfo } from '@/types/whatsapp';
+
+type Props = {
+  template: Template;
+  parameterInfo: TemplateParameterInfo | null;
+  values: Record<string, string>;
+  className?: string;
+};
+
+function Segments({ segments }: { segments: RenderedSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.missing ? (
+          <mark key={index} className="bg-amber-200 text-amber-900 rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * WhatsApp-style bubble showing the template exactly as it will be sent.
+ * Placeholders still without a value are highlighted.
+ */
+export function TemplateMessagePreview({ template, parameterInfo, values, className }: Props) {
+  const buttons = template.buttons_json?.buttons ?? [];
+  const missingCount = parameterInfo?.parameters.filter((param) => !values[param.name]?.trim()).length ?? 0;
+
+  return (
+    <div className={cn('bg-[#efeae2] rounded-lg p-3 border border-[#d1d7db]', className)}>
+      <div className="flex items-center gap-2 mb-2">
+        <Eye className="w-4 h-4 text-[#667781]" />
+        <span className="text-xs font-medium text-[#667781]">Preview</span>
+        {missingCount > 0 && (
+          <span className="text-xs text-amber-700 ml-auto">
+            {missingCount} missing {missingCount === 1 ? 'value' : 'values'}
+          </span>
+        )}
+      </div>
+      <div className="max-w-[320px]">
+        <div className="bg-[#d9fdd3] rounded-lg shadow-sm overflow-hidden">
+          {template.header_type && template.header_type !== 'TEXT' && (
+            <div className="bg-[#c5e8bf] text-[#667781] text-xs text-center py-6">
+              {template.header_type.toLowerCase()} header
+            </div>
+          )}
+          {template.header_text && (
+            <p className="text-sm font-semibold text-[#111b21] px-3 pt-2">
+              <Segments segments={renderTemplateSegments(template.header_text, 'HEADER', parameterInfo, values)} />
+            </p>
+          )}
+          <p className="text-sm text-[#111b21] whitespace-pre-wrap break-words px-3 py-2">
+            <Segments segments={renderTemplateSegments(template.body_text || '', 'BODY', parameterInfo, values)} />
+          </p>
+          {template.footer_text && (
+            <p className="text-xs text-[#667781] px-3 pb-2">
+              {template.footer_text}
+            </p>
+          )}
+        </div>
+        {buttons.length > 0 && (
+          <div className="mt-1 space-y-1">
+            {buttons.map((button, index) => (
+              <div
+                key={index}
+                className="bg-white rounded-lg shadow-sm text-sm text-[#00a884] font-medium text-center py-2 flex items-center justify-center gap-1.5"
+              >
+                {button.type === 'URL' && <ExternalLink className="w-3.5 h-3.5" />}
+                {button.type === 'PHONE_NUMBER' && <Phone className="w-3.5 h-3.5" />}
+                {button.type === 'QUICK_REPLY' && <Reply className="w-3.5 h-3.5" />}
+                {button.text}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
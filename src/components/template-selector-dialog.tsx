@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useState, useMemo, useRef } from 'react';
-import { Loader2, ChevronRight, Search, Send, ArrowLeft, Sparkles, Eye } from 'lucide-react';
+import { Loader2, ChevronRight, Search, Send, ArrowLeft, Sparkles, Link2, AlertTriangle } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -14,75 +14,56 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import type { Template, TemplateParameterInfo } from '@/types/whatsapp';
+import { TemplateMessagePreview } from '@/components/template-message-preview';
+import { useAuth } from '@/contexts/auth-context';
+import { useCRMCacheStore } from '@/lib/stores';
+import { cn } from '@/lib/utils';
+import type {
+  ContactData,
+  Template,
+  TemplateParameterInfo,
+  TemplateParameterMapping,
+} from '@/types/whatsapp';
+import type { FullContactResponse, SDRAgent } from '@/types/cortex';
 import { getTemplateParameters, formatParametersForTemplate } from '@/lib/template-parser';
+import {
+  findTemplateMapping,
+  getRequiredSources,
+  getTemplateLocale,
+  resolveTemplateParameters,
+  type ResolvedParameter,
+  type TemplateRenderContext,
+} from '@/lib/template-mapping';
 
-export interface ContactData {
-  name?: string;
-  firstName?: string;
-  lastName?: string;
-  email?: string;
-  phone?: string;
-  company?: string;
-  position?: string;
-}
+export type { ContactData } from '@/types/whatsapp';
 
 type Props = {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  phoneNumber: string;
+  phoneNumber?: string;
   contactData?: ContactData;
+  // Deal and HubSpot data the caller already has; anything else a mapping needs is fetched
+  crmContext?: Pick<TemplateRenderContext, 'deal' | 'hubspot'>;
   onTemplateSent?: () => void;
+  // Pick a template instead of sending it (e.g. for a campaign)
+  onSelectTemplate?: (template: Template, parameterInfo: TemplateParameterInfo) => void;
 };
 
 type ViewState = 'list' | 'parameters';
 
-/**
- * Auto-fill parameter values based on parameter name matching contact data fields
- */
-function getAutoFillValue(paramName: string, contactData?: ContactData): string {
-  if (!contactData) return '';
-
-  const lowerName = paramName.toLowerCase();
-
-  // Name variations
-  if (lowerName.includes('name') && !lowerName.includes('last') && !lowerName.includes('company')) {
-    if (lowerName.includes('first') || lowerName === 'name' || lowerName === 'customer_name' || lowerName === 'client_name') {
-      return contactData.firstName || contactData.name || '';
-    }
-    if (lowerName.includes('last')) {
-      return contactData.lastName || '';
-    }
-    if (lowerName.includes('full')) {
-      return contactData.name || `${contactData.firstName || ''} ${contactData.lastName || ''}`.trim();
-    }
-    return contactData.firstName || contactData.name || '';
-  }
-
-  // Email
-  if (lowerName.includes('email') || lowerName.includes('correo')) {
-    return contactData.email || '';
-  }
-
-  // Phone
-  if (lowerName.includes('phone') || lowerName.includes('telefono') || lowerName.includes('numero')) {
-    return contactData.phone || '';
-  }
-
-  // Company
-  if (lowerName.includes('company') || lowerName.includes('empresa') || lowerName.includes('organization')) {
-    return contactData.company || '';
-  }
-
-  // Position/Title
-  if (lowerName.includes('position') || lowerName.includes('title') || lowerName.includes('cargo') || lowerName.includes('puesto')) {
-    return contactData.position || '';
-  }
-
-  return '';
-}
+export function TemplateSelectorDialog({
+  open,
+  onOpenChange,
+  phoneNumber,
+  contactData,
+  crmContext,
+  onTemplateSent,
+  onSelectTemplate,
+}: Props) {
+  const { user } = useAuth();
+  const getCachedFullContact = useCRMCacheStore((state) => state.getFullContact);
+  const setCachedFullContact = useCRMCacheStore((state) => state.setFullContact);
 
-export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contactData, onTemplateSent }: Props) {
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(false);
   const [sending, setSending] = useState(false);
@@ -95,7 +76,13 @@ export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contac
   const [parameterInfo, setParameterInfo] = useState<TemplateParameterInfo | null>(null);
   const [parameterValues, setParameterValues] = useState<Record<string, string>>({});
 
-  const hasInitialized = useRef(false);
+  // Admin-managed parameter mappings and what they resolved to for this lead
+  const mappingsRef = useRef<Promise<TemplateParameterMapping[]>>(Promise.resolve([]));
+  const [resolved, setResolved] = useState<Record<string, ResolvedParameter>>({});
+  const [resolving, setResolving] = useState(false);
+
+  // Guards against a slow resolve overwriting a newer template selection
+  const resolveRequestRef = useRef(0);
 
   // Filter templates based on search
   const filteredTemplates = useMemo(() => {
@@ -111,32 +98,19 @@ export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contac
   useEffect(() => {
     if (open) {
       fetchTemplates();
+      if (!onSelectTemplate) mappingsRef.current = fetchMappings();
       // Reset state when dialog opens
       setSearchQuery('');
       setViewState('list');
       setSelectedTemplate(null);
       setParameterInfo(null);
       setParameterValues({});
+      setResolved({});
       setError(null);
-      hasInitialized.current = false;
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open]);
 
-  // Auto-fill parameters when template is selected
-  useEffect(() => {
-    if (viewState === 'parameters' && parameterInfo && !hasInitialized.current) {
-      const autoFilledValues: Record<string, string> = {};
-      parameterInfo.parameters.forEach(param => {
-        const autoValue = getAutoFillValue(param.name, contactData);
-        if (autoValue) {
-          autoFilledValues[param.name] = autoValue;
-        }
-      });
-      setParameterValues(autoFilledValues);
-      hasInitialized.current = true;
-    }
-  }, [viewState, parameterInfo, contactData]);
-
   const fetchTemplates = async () => {
     setLoading(true);
     setError(null);
@@ -160,29 +134,104 @@ export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contac
     }
   };
 
+  const fetchMappings = async (): Promise<TemplateParameterMapping[]> => {
+    try {
+      const response = await fetch('/api/templates/mappings');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch template mappings');
+      }
+      return data.mappings || [];
+    } catch (err) {
+      // Without mappings, parameters still auto-fill by name
+      console.error('Error fetching template mappings:', err);
+      return [];
+    }
+  };
+
+  const fetchHubSpotProperties = async (phone: string) => {
+    const cached = getCachedFullContact(phone);
+    if (cached) return cached.properties;
+
+    const response = await fetch(`/api/crm/contact/full?phone=${encodeURIComponent(phone)}`);
+    if (!response.ok) return null;
+    const data: FullContactResponse = await response.json();
+    setCachedFullContact(phone, data);
+    return data.properties;
+  };
+
+  // The sender is the SDR profile of the signed-in user
+  const fetchSender = async () => {
+    if (!user?.email) return null;
+    const response = await fetch('/api/sdr');
+    if (!response.ok) return null;
+    const data: { agents: SDRAgent[] } = await response.json();
+    return data.agents.find((agent) => agent.email.toLowerCase() === user.email.toLowerCase()) ?? null;
+  };
+
+  /**
+   * Fill parameters from the template's mapping, loading only the sources it uses
+   */
+  const resolveParameters = async (template: Template, params: TemplateParameterInfo) => {
+    const requestId = ++resolveRequestRef.current;
+    const phone = phoneNumber || contactData?.phone;
+
+    setResolving(true);
+    try {
+      const mapping = findTemplateMapping(await mappingsRef.current, template);
+      const sources = getRequiredSources(mapping);
+
+      const [hubspot, sender] = await Promise.all([
+        sources.has('hubspot') && !crmContext?.hubspot && phone
+          ? fetchHubSpotProperties(phone).catch(() => null)
+          : crmContext?.hubspot ?? null,
+        sources.has('sender') ? fetchSender().catch(() => null) : null,
+      ]);
+      if (requestId !== resolveRequestRef.current) return;
+
+      const result = resolveTemplateParameters(params, mapping, {
+        lead: contactData,
+        deal: crmContext?.deal,
+        hubspot,
+        sender,
+        locale: getTemplateLocale(template.language),
+      });
+      setResolved(result);
+      setParameterValues(Object.fromEntries(
+        Object.entries(result).map(([name, { value }]) => [name, value])
+      ));
+    } finally {
+      if (requestId === resolveRequestRef.current) setResolving(false);
+    }
+  };
+
   const handleSelectTemplate = (template: Template) => {
     const params = getTemplateParameters(template);
 
-    if (params.parameters.length > 0) {
-      // Template has parameters - show parameters view
-      setSelectedTemplate(template);
-      setParameterInfo(params);
-      setParameterValues({});
-      hasInitialized.current = false;
-      setViewState('parameters');
-    } else {
-      // No parameters - send immediately
-      handleSendTemplate(template);
+    if (onSelectTemplate) {
+      onSelectTemplate(template, params);
+      onOpenChange(false);
+      return;
     }
+
+    // Always review the rendered message before sending
+    setSelectedTemplate(template);
+    setParameterInfo(params);
+    setParameterValues({});
+    setResolved({});
+    setViewState('parameters');
+    resolveParameters(template, params);
   };
 
   const handleBack = () => {
+    resolveRequestRef.current++;
     setViewState('list');
     setSelectedTemplate(null);
     setParameterInfo(null);
     setParameterValues({});
+    setResolved({});
+    setResolving(false);
     setError(null);
-    hasInitialized.current = false;
   };
 
   const handleParameterChange = (paramName: string, value: string) => {
@@ -238,36 +287,6 @@ export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contac
     param => parameterValues[param.name]?.trim()
   ) ?? true;
 
-  // Generate preview text with filled parameters
-  const previewText = useMemo(() => {
-    if (!selectedTemplate) return '';
-    let text = selectedTemplate.body_text || '';
-    parameterInfo?.parameters.forEach(param => {
-      const value = parameterValues[param.name] || `{{${param.name}}}`;
-      const namedRegex = new RegExp(`\\{\\{${param.name}\\}\\}`, 'gi');
-      text = text.replace(namedRegex, value);
-      const match = param.name.match(/param_(\d+)/i);
-      if (match) {
-        const positionalRegex = new RegExp(`\\{\\{${match[1]}\\}\\}`, 'g');
-        text = text.replace(positionalRegex, value);
-      }
-    });
-    return text;
-  }, [selectedTemplate, parameterInfo, parameterValues]);
-
-  const headerPreviewText = useMemo(() => {
-    if (!selectedTemplate?.header_text) return '';
-    let text = selectedTemplate.header_text;
-    parameterInfo?.parameters.forEach(param => {
-      if (param.component === 'HEADER') {
-        const value = parameterValues[param.name] || `{{${param.name}}}`;
-        const namedRegex = new RegExp(`\\{\\{${param.name}\\}\\}`, 'gi');
-        text = text.replace(namedRegex, value);
-      }
-    });
-    return text;
-  }, [selectedTemplate, parameterInfo, parameterValues]);
-
   const getCategoryColor = (category: string) => {
     switch (category) {
       case 'MARKETING':
@@ -289,8 +308,15 @@ export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contac
       .replace(/Button (\d+) Parameter (\d+)/, 'Button $1 URL Parameter $2');
   };
 
+  // A badge only applies while the value is still the one we filled in
+  const getFilledOrigin = (paramName: string) => {
+    const entry = resolved[paramName];
+    if (!entry || entry.origin === 'missing' || parameterValues[paramName] !== entry.value) return null;
+    return entry.origin;
+  };
+
   const autoFilledCount = parameterInfo?.parameters.filter(
-    param => getAutoFillValue(param.name, contactData)
+    param => getFilledOrigin(param.name)
   ).length ?? 0;
 
   return (
@@ -302,7 +328,7 @@ export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contac
             <>
               <DialogTitle>Send template message</DialogTitle>
               <DialogDescription>
-                Select a template to send to {phoneNumber}
+                {onSelectTemplate ? 'Select an approved template' : `Select a template to send to ${phoneNumber}`}
               </DialogDescription>
             </>
           ) : (
@@ -320,7 +346,7 @@ export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contac
                   {selectedTemplate?.name.replace(/_/g, ' ')}
                 </DialogTitle>
                 <DialogDescription>
-                  Fill in the parameters
+                  {parameterInfo?.parameters.length ? 'Fill in the parameters' : 'Review the message before sending'}
                   {autoFilledCount > 0 && (
                     <span className="flex items-center gap-1 text-green-600 mt-0.5">
                       <Sparkles className="w-3 h-3" />
@@ -425,58 +451,73 @@ export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contac
           ) : (
             // Parameters View
             <>
-              {/* WhatsApp Preview */}
-              <div className="bg-[#efeae2] rounded-lg p-3 border border-[#d1d7db] flex-shrink-0 mb-3">
-                <div className="flex items-center gap-2 mb-2">
-                  <Eye className="w-4 h-4 text-[#667781]" />
-                  <span className="text-xs font-medium text-[#667781]">Preview</span>
-                </div>
-                <div className="bg-[#d9fdd3] rounded-lg shadow-sm max-w-[280px] overflow-hidden">
-                  {headerPreviewText && (
-                    <p className="text-sm font-semibold text-[#111b21] px-3 pt-2">
-                      {headerPreviewText}
-                    </p>
-                  )}
-                  <p className="text-sm text-[#111b21] whitespace-pre-wrap px-3 py-2 line-clamp-4">
-                    {previewText}
-                  </p>
-                  {selectedTemplate?.footer_text && (
-                    <p className="text-xs text-[#667781] px-3 pb-2">
-                      {selectedTemplate.footer_text}
-                    </p>
-                  )}
-                </div>
-              </div>
+              {selectedTemplate && (
+                <TemplateMessagePreview
+                  template={selectedTemplate}
+                  parameterInfo={parameterInfo}
+                  values={parameterValues}
+                  className="flex-shrink-0 mb-3 max-h-[40vh] overflow-auto"
+                />
+              )}
 
               {/* Parameter Inputs */}
               <div className="flex-1 min-h-0 overflow-auto">
-                <div className="space-y-3 pr-2">
-                  {parameterInfo?.parameters.map((param) => {
-                    const isAutoFilled = Boolean(getAutoFillValue(param.name, contactData));
-                    return (
-                      <div key={param.name} className="space-y-1.5">
-                        <div className="flex items-center gap-2">
-                          <Label htmlFor={param.name} className="text-sm text-gray-700">
-                            {formatParameterName(param.name)}
-                          </Label>
-                          {isAutoFilled && parameterValues[param.name] && (
-                            <Badge variant="secondary" className="text-xs bg-green-100 text-green-700">
-                              <Sparkles className="w-3 h-3 mr-1" />
-                              Auto
-                            </Badge>
-                          )}
+                {resolving ? (
+                  <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Filling in parameters...
+                  </div>
+                ) : (
+                  <div className="space-y-3 pr-2">
+                    {parameterInfo?.parameters.map((param) => {
+                      const origin = getFilledOrigin(param.name);
+                      const isMissing = !parameterValues[param.name]?.trim();
+                      return (
+                        <div key={param.name} className="space-y-1.5">
+                          <div className="flex items-center gap-2">
+                            <Label htmlFor={param.name} className="text-sm text-gray-700">
+                              {formatParameterName(param.name)}
+                            </Label>
+                            {origin === 'mapped' && (
+                              <Badge variant="secondary" className="text-xs bg-green-100 text-green-700">
+                                <Link2 className="w-3 h-3 mr-1" />
+                                Mapped
+                              </Badge>
+                            )}
+                            {origin === 'auto' && (
+                              <Badge variant="secondary" className="text-xs bg-green-100 text-green-700">
+                                <Sparkles className="w-3 h-3 mr-1" />
+                                Auto
+                              </Badge>
+                            )}
+                            {origin === 'fallback' && (
+                              <Badge variant="secondary" className="text-xs bg-blue-100 text-blue-700">
+                                Fallback
+                              </Badge>
+                            )}
+                            {isMissing && (
+                              <Badge variant="secondary" className="text-xs bg-amber-100 text-amber-800">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                Missing
+                              </Badge>
+                            )}
+                          </div>
+                          <Input
+                            id={param.name}
+                            value={parameterValues[param.name] || ''}
+                            onChange={(e) => handleParameterChange(param.name, e.target.value)}
+                            placeholder={param.example || `Enter ${formatParameterName(param.name)}`}
+                            className={cn(
+                              'h-9',
+                              origin && origin !== 'fallback' && 'border-green-300',
+                              isMissing && 'border-amber-400 bg-amber-50'
+                            )}
+                          />
                         </div>
-                        <Input
-                          id={param.name}
-                          value={parameterValues[param.name] || ''}
-                          onChange={(e) => handleParameterChange(param.name, e.target.value)}
-                          placeholder={param.example || `Enter ${formatParameterName(param.name)}`}
-                          className={`h-9 ${isAutoFilled && parameterValues[param.name] ? 'border-green-300' : ''}`}
-                        />
-                      </div>
-                    );
-                  })}
-                </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
             </>
           )}
@@ -492,7 +533,7 @@ export function TemplateSelectorDialog({ open, onOpenChange, phoneNumber, contac
           ) : (
             <Button
               onClick={handleSendWithParameters}
-              disabled={!allParametersFilled || sending}
+              disabled={!allParametersFilled || sending || resolving}
               className="bg-[#00a884] hover:bg-[#008f6f]"
             >
               {sending ? (
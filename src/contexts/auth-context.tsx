@@ -3,6 +3,7 @@
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
 import { ALLOWED_ROLES, type UserRole } from '@/types/cortex';
+import { SESSION_COOKIE, decodeSessionPayload } from '@/lib/session';
 
 interface User {
   id: number;
@@ -37,10 +38,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // First try to get user info from cookie (faster)
       const userInfoCookie = document.cookie
         .split('; ')
-        .find(row => row.startsWith('user_info='));
+        .find(row => row.startsWith(`${SESSION_COOKIE}=`));
 
-      if (userInfoCookie) {
-        const userInfo = JSON.parse(decodeURIComponent(userInfoCookie.split('=')[1]));
+      // Signature is verified server-side; the payload is only used for display
+      const userInfo = decodeSessionPayload(userInfoCookie?.split('=')[1]);
+      if (userInfo) {
         setUser(userInfo);
       }
 
@@ -1,33 +1,36 @@
 'use client';
 
-import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
-
-interface DealStage {
-  id: string;
-  label: string;
-}
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import type { DealPipeline, DealStage } from '@/types/cortex';
 
 interface DealStagesContextType {
+  pipelines: DealPipeline[];
   stagesMap: Record<string, string>;
-  stages: DealStage[];
+  stages: DealStage[]; // Stages of every pipeline, each with its pipeline_id
   isLoaded: boolean;
-  getStageLabel: (stageId: string | null | undefined) => string | null;
+  getStageLabel: (stageId: string | null | undefined, pipelineId?: string | null) => string | null;
+  getPipelineLabel: (pipelineId: string | null | undefined) => string | null;
+  getPipelineStages: (pipelineId: string | null | undefined) => DealStage[];
 }
 
 const DealStagesContext = createContext<DealStagesContextType | undefined>(undefined);
 
 export function DealStagesProvider({ children }: { children: ReactNode }) {
+  const [pipelines, setPipelines] = useState<DealPipeline[]>([]);
   const [stagesMap, setStagesMap] = useState<Record<string, string>>({});
   const [stages, setStages] = useState<DealStage[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
 
-  // Fetch deal stages once on mount
+  // Fetch pipelines and their deal stages once on mount
   useEffect(() => {
     const fetchDealStages = async () => {
       try {
         const response = await fetch('/api/crm/deal-stages');
         if (response.ok) {
           const data = await response.json();
+          if (data.pipelines) {
+            setPipelines(data.pipelines);
+          }
           if (data.stages_map) {
             setStagesMap(data.stages_map);
           }
@@ -45,14 +48,36 @@ export function DealStagesProvider({ children }: { children: ReactNode }) {
     fetchDealStages();
   }, []);
 
-  // Helper to get label from stage ID
-  const getStageLabel = useCallback((stageId: string | null | undefined): string | null => {
+  const pipelinesById = useMemo(
+    () => new Map(pipelines.map((pipeline) => [pipeline.id, pipeline])),
+    [pipelines]
+  );
+
+  // Helper to get label from stage ID. Prefers the deal's own pipeline, since
+  // stage IDs are only guaranteed unique within a pipeline.
+  const getStageLabel = useCallback((stageId: string | null | undefined, pipelineId?: string | null): string | null => {
     if (!stageId) return null;
-    return stagesMap[stageId] || null;
-  }, [stagesMap]);
+    const pipelineStage = pipelineId
+      ? pipelinesById.get(pipelineId)?.stages.find((stage) => stage.id === stageId)
+      : undefined;
+    return pipelineStage?.label || stagesMap[stageId] || null;
+  }, [pipelinesById, stagesMap]);
+
+  const getPipelineLabel = useCallback((pipelineId: string | null | undefined): string | null => {
+    if (!pipelineId) return null;
+    return pipelinesById.get(pipelineId)?.label || null;
+  }, [pipelinesById]);
+
+  // Stages of one pipeline, or of all pipelines when none is given
+  const getPipelineStages = useCallback((pipelineId: string | null | undefined): DealStage[] => {
+    if (!pipelineId) return stages;
+    return pipelinesById.get(pipelineId)?.stages ?? [];
+  }, [pipelinesById, stages]);
 
   return (
-    <DealStagesContext.Provider value={{ stagesMap, stages, isLoaded, getStageLabel }}>
+    <DealStagesContext.Provider
+      value={{ pipelines, stagesMap, stages, isLoaded, getStageLabel, getPipelineLabel, getPipelineStages }}
+    >
       {children}
     </DealStagesContext.Provider>
   );
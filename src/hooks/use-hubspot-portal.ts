@@ -0,0 +1,42 @@
+'use client';
+
+import { useCallback } from 'react';
+import useSWR from 'swr';
+import {
+  getHubSpotActivityLink,
+  getHubSpotRecordLink,
+  type HubSpotPortal,
+  type HubSpotRecordType,
+} from '@/lib/hubspot-links';
+
+const fetcher = async (url: string): Promise<HubSpotPortal> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to load HubSpot portal');
+  }
+  return response.json();
+};
+
+/**
+ * HubSpot portal of the current workspace, with deep-link builders bound to it.
+ * Fetched once and shared by every caller.
+ */
+export function useHubSpotPortal() {
+  const { data: portal } = useSWR<HubSpotPortal>('/api/crm/portal', fetcher, {
+    revalidateOnFocus: false,
+    revalidateIfStale: false,
+  });
+
+  const getRecordLink = useCallback(
+    (type: HubSpotRecordType, id: string | number | null | undefined) => getHubSpotRecordLink(portal, type, id),
+    [portal]
+  );
+
+  const getActivityLink = useCallback(
+    (contactId: string | null | undefined, activityId: string | null | undefined) =>
+      getHubSpotActivityLink(portal, contactId, activityId),
+    [portal]
+  );
+
+  return { portal: portal ?? null, getRecordLink, getActivityLink };
+}
@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from 'react';
+import type { InboxEvent, InboxEventType } from '@/types/cortex';
+
+const EVENT_TYPES: InboxEventType[] = [
+  'message.new',
+  'agent.toggled',
+  'window.changed',
+  'deal_stage.changed',
+];
+
+type UseInboxStreamOptions = {
+  leadIds?: (string | number)[]; // Only receive events for these leads (all leads if omitted)
+  enabled?: boolean;
+  onEvent: (event: InboxEvent) => void;
+};
+
+/**
+ * Subscribe to real-time inbox events from /api/stream.
+ * `connected` is false while the stream is down, so callers can fall back to polling.
+ * EventSource reconnects on its own; the tab being hidden closes the stream.
+ */
+export function useInboxStream({ leadIds, enabled = true, onEvent }: UseInboxStreamOptions) {
+  const [connected, setConnected] = useState(false);
+
+  // Store callback in ref to avoid reconnecting when callback changes
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const leadsKey = leadIds?.map(String).join(',') ?? '';
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') {
+      setConnected(false);
+      return;
+    }
+
+    let source: EventSource | null = null;
+
+    const handleMessage = (message: MessageEvent<string>) => {
+      try {
+        onEventRef.current(JSON.parse(message.data));
+      } catch (error) {
+        console.error('Invalid inbox event:', error);
+      }
+    };
+
+    const open = () => {
+      if (source) return;
+      const url = leadsKey ? `/api/stream?leads=${encodeURIComponent(leadsKey)}` : '/api/stream';
+      source = new EventSource(url);
+      source.onopen = () => setConnected(true);
+      source.onerror = () => setConnected(false);
+      EVENT_TYPES.forEach((type) => source?.addEventListener(type, handleMessage));
+    };
+
+    const close = () => {
+      source?.close();
+      source = null;
+      setConnected(false);
+    };
+
+    // Pause when tab is hidden, like useAutoPolling
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        close();
+      } else {
+        open();
+      }
+    };
+
+    if (!document.hidden) open();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      close();
+    };
+  }, [enabled, leadsKey]);
+
+  return { connected };
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useCallback } from 'react';
+import useSWR from 'swr';
+import type { LeadFilters, SavedLeadView } from '@/lib/lead-filters';
+
+// Stable empty list so callers don't get a new array on every render
+const NO_VIEWS: SavedLeadView[] = [];
+
+const fetcher = async ([url]: [string, number]): Promise<SavedLeadView[]> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to load saved views');
+  }
+  const data: { views: SavedLeadView[] } = await response.json();
+  return data.views;
+};
+
+async function postView(name: string, filters: LeadFilters): Promise<SavedLeadView> {
+  const response = await fetch('/api/lead-views', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, filters }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to save view');
+  }
+  return response.json();
+}
+
+/**
+ * The logged-in user's saved inbox views, stored on the server
+ */
+export function useSavedLeadViews(userId: number | null | undefined) {
+  const hasUser = userId !== null && userId !== undefined;
+  const { data: savedViews, mutate } = useSWR(hasUser ? ['/api/lead-views', userId] : null, fetcher, {
+    revalidateOnFocus: false,
+  });
+
+  const saveView = useCallback(async (name: string, filters: LeadFilters) => {
+    try {
+      const view = await postView(name, filters);
+      await mutate(
+        (views = []) => [...views.filter((existing) => existing.name.toLowerCase() !== name.toLowerCase()), view],
+        { revalidate: false }
+      );
+    } catch (error) {
+      console.error('Error saving view:', error);
+    }
+  }, [mutate]);
+
+  const deleteView = useCallback(async (viewId: string) => {
+    try {
+      await mutate(
+        async (views = []) => {
+          const response = await fetch(`/api/lead-views/${encodeURIComponent(viewId)}`, { method: 'DELETE' });
+          if (!response.ok && response.status !== 404) {
+            throw new Error('Failed to delete view');
+          }
+          return views.filter((view) => view.id !== viewId);
+        },
+        {
+          optimisticData: (views = []) => views.filter((view) => view.id !== viewId),
+          rollbackOnError: true,
+          revalidate: false,
+        }
+      );
+    } catch (error) {
+      console.error('Error deleting view:', error);
+    }
+  }, [mutate]);
+
+  return {
+    savedViews: savedViews ?? NO_VIEWS,
+    saveView,
+    deleteView,
+  };
+}
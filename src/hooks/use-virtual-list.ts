@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+type UseVirtualListOptions = {
+  scrollElement: HTMLElement | null; // Scroll container (pass from a callback ref so remounts are picked up)
+  keys: string[]; // Stable key per item, in render order
+  estimateSize?: number; // Height assumed for items that haven't been measured yet
+  overscan?: number; // Extra pixels rendered above and below the viewport
+};
+
+export type VirtualItem = {
+  key: string;
+  index: number;
+  start: number;
+};
+
+/**
+ * Window a long list of variable-height items inside a scroll container.
+ * Items are measured after render (attach `measureElement` with a `data-key`);
+ * when an item above the viewport changes height the scroll position is
+ * corrected so the visible content doesn't jump.
+ */
+export function useVirtualList({
+  scrollElement,
+  keys,
+  estimateSize = 80,
+  overscan = 600,
+}: UseVirtualListOptions) {
+  const sizesRef = useRef(new Map<string, number>());
+  const [, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  // Item offsets for the current keys; offsets[i] is the top of item i
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < keys.length; i++) {
+    offsets[i + 1] = offsets[i] + (sizesRef.current.get(keys[i]) ?? estimateSize);
+  }
+  const totalSize = offsets[keys.length];
+
+  // Latest layout for the ResizeObserver callback
+  const layoutRef = useRef({ keys, offsets, scrollElement });
+  layoutRef.current = { keys, offsets, scrollElement };
+
+  // Track scroll position and viewport height
+  useEffect(() => {
+    const element = scrollElement;
+    if (!element) return;
+
+    let frame: number | null = null;
+    const update = () => {
+      frame = null;
+      setViewport({ top: element.scrollTop, height: element.clientHeight });
+    };
+    const handleScroll = () => {
+      if (frame === null) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    element.addEventListener('scroll', handleScroll, { passive: true });
+    const resizeObserver = new ResizeObserver(handleScroll);
+    resizeObserver.observe(element);
+
+    return () => {
+      element.removeEventListener('scroll', handleScroll);
+      resizeObserver.disconnect();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [scrollElement]);
+
+  // One observer for every rendered item
+  const itemObserverRef = useRef<ResizeObserver | null>(null);
+  const getItemObserver = () => {
+    if (!itemObserverRef.current) {
+      itemObserverRef.current = new ResizeObserver((entries) => {
+        let changed = false;
+        let scrollAdjustment = 0;
+        const { keys: currentKeys, offsets: currentOffsets, scrollElement: container } = layoutRef.current;
+        const scrollTop = container?.scrollTop ?? 0;
+
+        for (const entry of entries) {
+          const element = entry.target as HTMLElement;
+          const key = element.dataset.key;
+          if (!key) continue;
+
+          const size = element.offsetHeight;
+          const previous = sizesRef.current.get(key) ?? estimateSize;
+          if (size === previous && sizesRef.current.has(key)) continue;
+
+          sizesRef.current.set(key, size);
+          changed = true;
+
+          const index = currentKeys.indexOf(key);
+          if (index !== -1 && currentOffsets[index] < scrollTop) {
+            scrollAdjustment += size - previous;
+          }
+        }
+
+        if (!changed) return;
+        if (scrollAdjustment !== 0 && container) {
+          container.scrollTop += scrollAdjustment;
+        }
+        setMeasureVersion((version) => version + 1);
+      });
+    }
+    return itemObserverRef.current;
+  };
+
+  useEffect(() => () => itemObserverRef.current?.disconnect(), []);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    const observer = getItemObserver();
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // Observer reads the latest layout from refs
+
+  // Binary search for the first item that ends below the given offset
+  const findIndex = (offset: number) => {
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= offset) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  };
+
+  const startIndex = findIndex(Math.max(0, viewport.top - overscan));
+  const endIndex = Math.min(keys.length - 1, findIndex(viewport.top + viewport.height + overscan));
+
+  const items: VirtualItem[] = [];
+  for (let i = startIndex; i <= endIndex; i++) {
+    items.push({ key: keys[i], index: i, start: offsets[i] });
+  }
+
+  return { items, totalSize, measureElement };
+}
@@ -0,0 +1,15 @@
+import { assertSessionConfig } from '@/lib/session';
+
+/**
+ * Runs once when a server instance starts
+ */
+export async function register() {
+  // Refuse to start without a session secret rather than failing every request
+  assertSessionConfig();
+
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Continue campaign queues that were running when the server last stopped
+    const { resumeCampaigns } = await import('@/lib/campaigns');
+    resumeCampaigns().catch((error) => console.error('Error resuming campaigns:', error));
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * API Error Responses
+ * Maps errors thrown while calling Cortex to the HTTP status the UI should see.
+ */
+
+import { NextResponse } from 'next/server';
+import { CortexAPIError } from '@/lib/cortex-client';
+
+/**
+ * Status returned to the browser for a Cortex error.
+ * Client errors pass through; Cortex failures become gateway errors so they
+ * are not mistaken for bugs in this app.
+ */
+export function getErrorStatus(error: CortexAPIError): number {
+  switch (error.kind) {
+    case 'upstream':
+    case 'network':
+      return 502;
+    case 'timeout':
+      return 504;
+    case 'aborted':
+      return 499;
+    default:
+      return error.status;
+  }
+}
+
+/**
+ * Build the JSON error response for a route handler's catch block
+ */
+export function toErrorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof CortexAPIError) {
+    const headers: Record<string, string> = {};
+    if (error.retryAfterMs !== undefined) {
+      headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+    }
+
+    return NextResponse.json(
+      {
+        error: error.message || fallbackMessage,
+        code: error.errorCode || error.kind,
+        retryable: error.retryable,
+      },
+      { status: getErrorStatus(error), headers }
+    );
+  }
+
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallbackMessage },
+    { status: 500 }
+  );
+}
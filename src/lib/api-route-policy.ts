@@ -0,0 +1,140 @@
+/**
+ * API Route Policy
+ * Declarative map of every /api route and method to the roles allowed to call it.
+ * Enforced centrally by middleware.ts before any route handler runs.
+ *
+ * Patterns mirror the folder names under src/app/api:
+ * - `[param]` matches exactly one path segment
+ * - `[...param]` matches one or more trailing segments
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * - 'public': no session required (login, register, logout)
+ * - 'authenticated': any logged-in user, regardless of role
+ * - string[]: logged-in user whose role is in the list (case-insensitive)
+ */
+export type RouteAccess = 'public' | 'authenticated' | readonly string[];
+
+export interface ApiRoutePolicy {
+  pattern: string;
+  // Omit to apply the same access to every method
+  methods?: Partial<Record<HttpMethod, RouteAccess>>;
+  access?: RouteAccess;
+}
+
+// Roles allowed into the main app (inbox, metrics, AI agent)
+const APP_ROLES = ['admin', 'manager', 'sdr'] as const;
+const ADMIN_MANAGER_ROLES = ['admin', 'manager'] as const;
+const ADMIN_ONLY_ROLES = ['admin'] as const;
+
+/**
+ * Routes not listed here fall back to DEFAULT_API_ACCESS.
+ * Order matters: the first matching pattern wins.
+ */
+export const API_ROUTE_POLICIES: readonly ApiRoutePolicy[] = [
+  // Auth
+  { pattern: '/api/auth/login', access: 'public' },
+  { pattern: '/api/auth/register', access: 'public' },
+  { pattern: '/api/auth/logout', access: 'public' },
+  { pattern: '/api/auth/me', access: 'authenticated' },
+
+  // Admin
+  { pattern: '/api/admin/users', access: ADMIN_ONLY_ROLES },
+  { pattern: '/api/admin/users/[...path]', access: ADMIN_ONLY_ROLES },
+  { pattern: '/api/admin/templates', access: ADMIN_MANAGER_ROLES },
+  { pattern: '/api/admin/templates/[...path]', access: ADMIN_MANAGER_ROLES },
+
+  // Business profile and phone numbers (settings, admin only)
+  { pattern: '/api/business/[...path]', access: ADMIN_ONLY_ROLES },
+
+  // AI Brain
+  { pattern: '/api/ai/[...path]', access: ADMIN_ONLY_ROLES },
+
+  // Leads
+  {
+    pattern: '/api/leads/[id]',
+    methods: { GET: APP_ROLES, DELETE: ADMIN_ONLY_ROLES },
+  },
+  { pattern: '/api/leads', access: APP_ROLES },
+  { pattern: '/api/leads/[...path]', access: APP_ROLES },
+
+  // Saved inbox views (each user's own)
+  { pattern: '/api/lead-views', access: APP_ROLES },
+  { pattern: '/api/lead-views/[id]', access: APP_ROLES },
+
+  // Legacy conversation list and message view
+  { pattern: '/api/conversations', access: APP_ROLES },
+  { pattern: '/api/messages/[...path]', access: APP_ROLES },
+
+  // WhatsApp media proxy and outbound uploads
+  { pattern: '/api/media/upload', access: APP_ROLES },
+  { pattern: '/api/media/[mediaId]', access: APP_ROLES },
+
+  // CRM, templates, metrics, SDRs
+  { pattern: '/api/crm/[...path]', access: APP_ROLES },
+  { pattern: '/api/templates', access: APP_ROLES },
+  { pattern: '/api/templates/send', access: APP_ROLES },
+  {
+    pattern: '/api/templates/mappings',
+    methods: { GET: APP_ROLES, PUT: ADMIN_MANAGER_ROLES, DELETE: ADMIN_MANAGER_ROLES },
+  },
+  { pattern: '/api/metrics', access: APP_ROLES },
+  { pattern: '/api/metrics/[...path]', access: APP_ROLES },
+  { pattern: '/api/sdr', access: APP_ROLES },
+  { pattern: '/api/sdr/[...path]', access: APP_ROLES },
+
+  // Template broadcast campaigns
+  { pattern: '/api/campaigns', access: ADMIN_MANAGER_ROLES },
+  { pattern: '/api/campaigns/[...path]', access: ADMIN_MANAGER_ROLES },
+
+  // Real-time inbox events (SSE)
+  { pattern: '/api/stream', access: APP_ROLES },
+];
+
+// Unlisted routes and methods are never public
+export const DEFAULT_API_ACCESS: RouteAccess = APP_ROLES;
+
+/**
+ * Match a pathname against a route pattern
+ */
+export function matchRoutePattern(pattern: string, pathname: string): boolean {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = pathname.replace(/\/$/, '').split('/').filter(Boolean);
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+
+    // Catch-all: must consume at least one remaining segment
+    if (segment.startsWith('[...') && segment.endsWith(']')) {
+      return pathSegments.length > i;
+    }
+
+    if (i >= pathSegments.length) return false;
+
+    const isDynamic = segment.startsWith('[') && segment.endsWith(']');
+    if (!isDynamic && segment !== pathSegments[i]) return false;
+  }
+
+  return patternSegments.length === pathSegments.length;
+}
+
+/**
+ * Resolve the access rule for an API request
+ */
+export function resolveApiAccess(pathname: string, method: string): RouteAccess {
+  const policy = API_ROUTE_POLICIES.find(p => matchRoutePattern(p.pattern, pathname));
+  if (!policy) return DEFAULT_API_ACCESS;
+
+  const methodAccess = policy.methods?.[method.toUpperCase() as HttpMethod];
+  return methodAccess ?? policy.access ?? DEFAULT_API_ACCESS;
+}
+
+/**
+ * Check whether a role satisfies an access rule
+ */
+export function isRoleAllowed(access: RouteAccess, role: string | null | undefined): boolean {
+  if (access === 'public' || access === 'authenticated') return true;
+  return access.includes((role || '').toLowerCase());
+}
@@ -1,5 +1,13 @@
 import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
+import { AUTH_TOKEN_COOKIE, SESSION_COOKIE, resolveSession, verifySession } from '@/lib/session';
+import {
+  getCortexClient,
+  CortexAPIError,
+  type ActingUser,
+  type CortexCallOptions,
+  type CortexClient,
+} from '@/lib/cortex-client';
 
 export interface UserInfo {
   id?: number;
@@ -19,8 +27,8 @@ export interface AuthResult {
  */
 export async function validateApiAuth(allowedRoles?: string[]): Promise<AuthResult> {
   const cookieStore = await cookies();
-  const authToken = cookieStore.get('auth_token')?.value;
-  const userInfoCookie = cookieStore.get('user_info')?.value;
+  const authToken = cookieStore.get(AUTH_TOKEN_COOKIE)?.value;
+  const sessionCookie = cookieStore.get(SESSION_COOKIE)?.value;
 
   // Check authentication
   if (!authToken) {
@@ -34,28 +42,26 @@ export async function validateApiAuth(allowedRoles?: string[]): Promise<AuthResu
     };
   }
 
-  // Parse user info
-  let userInfo: UserInfo | null = null;
-  if (userInfoCookie) {
-    try {
-      const decoded = decodeURIComponent(userInfoCookie);
-      userInfo = JSON.parse(decoded);
-    } catch {
-      userInfo = null;
-    }
-  }
+  // Verify the signed session (rejects forged, expired or revoked sessions)
+  const { session } = await resolveSession(authToken, sessionCookie);
 
-  if (!userInfo) {
+  if (!session) {
     return {
       isAuthenticated: false,
       user: null,
       error: NextResponse.json(
-        { error: 'Unauthorized - Invalid user info' },
+        { error: 'Unauthorized - Invalid or expired session' },
         { status: 401 }
       ),
     };
   }
 
+  const userInfo: UserInfo = {
+    id: session.id,
+    email: session.email,
+    role: session.role,
+  };
+
   // Check role if allowedRoles specified (case-insensitive)
   if (allowedRoles && allowedRoles.length > 0) {
     const userRole = (userInfo.role || '').toLowerCase();
@@ -82,5 +88,40 @@ export async function validateApiAuth(allowedRoles?: string[]): Promise<AuthResu
  */
 export async function getAuthToken(): Promise<string | undefined> {
   const cookieStore = await cookies();
-  return cookieStore.get('auth_token')?.value;
+  return cookieStore.get(AUTH_TOKEN_COOKIE)?.value;
+}
+
+/**
+ * Get the logged-in user for attributing backend calls.
+ * Middleware has already re-verified stale sessions, so only the signature is checked here.
+ */
+export async function getActingUser(): Promise<ActingUser | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(AUTH_TOKEN_COOKIE)?.value;
+  const session = await verifySession(cookieStore.get(SESSION_COOKIE)?.value, token);
+
+  if (!token || !session) {
+    return null;
+  }
+
+  return {
+    id: session.id,
+    email: session.email,
+    role: session.role,
+    token,
+  };
+}
+
+/**
+ * Get a Cortex client that acts on behalf of the logged-in user.
+ * Pass `{ signal: request.signal }` so reads are cancelled when the browser disconnects.
+ */
+export async function getUserCortexClient(callOptions?: CortexCallOptions): Promise<CortexClient> {
+  const actingUser = await getActingUser();
+  if (!actingUser) {
+    throw new CortexAPIError('Unauthorized - Invalid or expired session', 401);
+  }
+
+  const client = getCortexClient().forUser(actingUser);
+  return callOptions ? client.withOptions(callOptions) : client;
 }
@@ -0,0 +1,196 @@
+/**
+ * Campaign Audience
+ * Recipient parsing and template parameter mapping shared by the campaign
+ * builder (preview) and the server-side send queue.
+ */
+
+import type {
+  CampaignClientField,
+  CampaignParameterSource,
+  CampaignRecipientInput,
+  ClientData,
+} from '@/types/cortex';
+
+// Largest audience a single campaign may target
+export const MAX_CAMPAIGN_RECIPIENTS = 1000;
+
+export const CAMPAIGN_CLIENT_FIELDS: { id: CampaignClientField; label: string }[] = [
+  { id: 'name', label: 'Full name' },
+  { id: 'first_name', label: 'First name' },
+  { id: 'last_name', label: 'Last name' },
+  { id: 'company', label: 'Company' },
+  { id: 'position', label: 'Position' },
+  { id: 'email', label: 'Email' },
+  { id: 'phone', label: 'Phone' },
+];
+
+// CSV header aliases (lowercased) for each recipient column
+const CSV_COLUMNS: Record<keyof CampaignRecipientInput, string[]> = {
+  phone: ['phone', 'phone_number', 'telefono', 'teléfono', 'whatsapp', 'mobile', 'celular', 'numero', 'número'],
+  name: ['name', 'full_name', 'nombre', 'contact'],
+  email: ['email', 'e-mail', 'correo'],
+  company: ['company', 'empresa', 'organization', 'organisation'],
+  position: ['position', 'title', 'job_title', 'cargo', 'puesto', 'role'],
+};
+
+/**
+ * Normalize a phone number to digits only (E.164 without "+").
+ * Returns null when it can't be a valid international number.
+ */
+export function normalizePhone(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const digits = raw.replace(/\D/g, '');
+  return digits.length >= 8 && digits.length <= 15 ? digits : null;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parse an uploaded CSV of recipients.
+ * A header row is optional: without one, the first column is the phone number.
+ * Rows without a usable phone are reported by 1-based line number.
+ */
+export function parseRecipientsCsv(text: string): {
+  recipients: CampaignRecipientInput[];
+  invalid_rows: number[];
+} {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const firstLine = lines.find((line) => line.trim()) ?? '';
+  const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+
+  const headerCells = splitCsvLine(firstLine, delimiter).map((cell) => cell.toLowerCase());
+  const columnIndex = (column: keyof CampaignRecipientInput) =>
+    headerCells.findIndex((cell) => CSV_COLUMNS[column].includes(cell));
+  const hasHeader = columnIndex('phone') !== -1;
+
+  const columns = {
+    phone: hasHeader ? columnIndex('phone') : 0,
+    name: hasHeader ? columnIndex('name') : 1,
+    email: hasHeader ? columnIndex('email') : -1,
+    company: hasHeader ? columnIndex('company') : 2,
+    position: hasHeader ? columnIndex('position') : 3,
+  };
+
+  const recipients: CampaignRecipientInput[] = [];
+  const invalidRows: number[] = [];
+  let headerSkipped = !hasHeader;
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    if (!headerSkipped) {
+      headerSkipped = true;
+      return;
+    }
+
+    const cells = splitCsvLine(line, delimiter);
+    const cell = (i: number) => (i >= 0 ? cells[i] || undefined : undefined);
+    const phone = normalizePhone(cell(columns.phone));
+
+    if (!phone) {
+      invalidRows.push(index + 1);
+      return;
+    }
+
+    recipients.push({
+      phone,
+      name: cell(columns.name),
+      email: cell(columns.email),
+      company: cell(columns.company),
+      position: cell(columns.position),
+    });
+  });
+
+  return { recipients, invalid_rows: invalidRows };
+}
+
+/**
+ * Guess which recipient field a template parameter is asking for from its name
+ */
+export function suggestParameterField(paramName: string): CampaignClientField | null {
+  const lowerName = paramName.toLowerCase();
+
+  if (lowerName.includes('company') || lowerName.includes('empresa') || lowerName.includes('organization')) {
+    return 'company';
+  }
+  if (lowerName.includes('name') || lowerName.includes('nombre')) {
+    if (lowerName.includes('last') || lowerName.includes('apellido')) return 'last_name';
+    if (lowerName.includes('full')) return 'name';
+    return 'first_name';
+  }
+  if (lowerName.includes('email') || lowerName.includes('correo')) return 'email';
+  if (lowerName.includes('phone') || lowerName.includes('telefono')) return 'phone';
+  if (lowerName.includes('position') || lowerName.includes('cargo') || lowerName.includes('puesto')) {
+    return 'position';
+  }
+
+  return null;
+}
+
+/**
+ * Read one field from a recipient's client data
+ */
+export function getClientFieldValue(clientData: ClientData, field: CampaignClientField): string {
+  const [firstName = '', ...rest] = (clientData.name || '').trim().split(/\s+/);
+
+  switch (field) {
+    case 'first_name':
+      return firstName;
+    case 'last_name':
+      return rest.join(' ');
+    default:
+      return (clientData[field] ?? '').toString().trim();
+  }
+}
+
+/**
+ * Fill every template parameter for one recipient.
+ * `missing` lists parameters that ended up empty, so the recipient can be skipped.
+ */
+export function resolveCampaignParameters(
+  mapping: Record<string, CampaignParameterSource>,
+  clientData: ClientData
+): { parameters: Record<string, string>; missing: string[] } {
+  const parameters: Record<string, string> = {};
+  const missing: string[] = [];
+
+  Object.entries(mapping).forEach(([name, source]) => {
+    const value = (source.field ? getClientFieldValue(clientData, source.field) : '') || source.value?.trim() || '';
+    if (value) {
+      parameters[name] = value;
+    } else {
+      missing.push(name);
+    }
+  });
+
+  return { parameters, missing };
+}
@@ -0,0 +1,717 @@
+/**
+ * Campaigns
+ * Server-side send queue for template broadcast campaigns.
+ *
+ * A running campaign sends to one recipient at a time, spaced to its
+ * messages_per_minute, using the Cortex identity of whoever last started it.
+ * Campaigns and their per-recipient results are kept in the JSON store, so
+ * queues survive restarts: running campaigns are resumed on boot (see
+ * instrumentation.ts). A paused queue, or one that paused itself because the
+ * session expired, continues from its first pending recipient when resumed,
+ * so nobody is messaged twice.
+ *
+ * Each running campaign is sent by one server instance at a time, which holds
+ * a lease on it; a campaign whose lease lapsed (its instance stopped) is taken
+ * over by the next instance to boot or list campaigns. A send interrupted by a
+ * restart is marked failed rather than repeated, since it may have gone out.
+ */
+
+import { deleteJsonStore, readJsonStore, updateJsonStore } from '@/lib/json-store';
+import { getCortexClient, CortexAPIError, type ActingUser } from '@/lib/cortex-client';
+import { recordTemplateSend } from '@/lib/template-send-log';
+import {
+  MAX_CAMPAIGN_RECIPIENTS,
+  normalizePhone,
+  resolveCampaignParameters,
+} from '@/lib/campaign-audience';
+import type {
+  Campaign,
+  CampaignAction,
+  CampaignAudienceRequest,
+  CampaignCounts,
+  CampaignDetail,
+  CampaignRecipient,
+  ClientData,
+  CreateCampaignRequest,
+} from '@/types/cortex';
+
+export const DEFAULT_MESSAGES_PER_MINUTE = 20;
+export const MAX_MESSAGES_PER_MINUTE = 60;
+
+// Finished campaigns kept for their reports; older ones are dropped first
+const MAX_FINISHED_CAMPAIGNS = 50;
+// Wait before retrying a recipient when Cortex rate-limits without a Retry-After
+const RATE_LIMIT_BACKOFF_MS = 60000;
+// How long past its next scheduled send an instance's lease on a campaign lasts
+const LEASE_GRACE_MS = 60000;
+
+const INDEX_STORE = 'campaigns';
+
+const INTERRUPTED_ERROR = 'Interrupted by a server restart before the send was confirmed. Retry to send again.';
+
+/**
+ * Error with the HTTP status the campaign routes should answer with
+ */
+export class CampaignError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'CampaignError';
+  }
+}
+
+interface RunnerLease {
+  instance_id: string;
+  expires_at: string;
+}
+
+interface CampaignRecord {
+  campaign: Campaign;
+  // Stored with the user's Cortex token so the queue can continue after a restart;
+  // cleared once the campaign has finished so the token doesn't outlive its use
+  acting_user: ActingUser | null;
+  runner: RunnerLease | null;
+}
+
+interface CampaignIndex {
+  campaigns: CampaignRecord[];
+}
+
+interface RecipientsDocument {
+  recipients: CampaignRecipient[];
+}
+
+const EMPTY_INDEX: CampaignIndex = { campaigns: [] };
+const EMPTY_RECIPIENTS: RecipientsDocument = { recipients: [] };
+
+interface CampaignRun {
+  id: string;
+  timer: ReturnType<typeof setTimeout> | null;
+  sending: boolean; // A send is in flight; it schedules the next one itself
+}
+
+interface CampaignHub {
+  instanceId: string;
+  runs: Map<string, CampaignRun>; // Campaigns this instance is sending
+}
+
+// Kept on globalThis so dev hot reloads don't orphan running queues
+const globalForCampaigns = globalThis as typeof globalThis & { __campaignHub?: CampaignHub };
+const hub: CampaignHub = globalForCampaigns.__campaignHub ??= {
+  instanceId: crypto.randomUUID(),
+  runs: new Map(),
+};
+
+function recipientsStore(id: string): string {
+  return `campaigns/${id}`;
+}
+
+function countRecipients(recipients: CampaignRecipient[]): CampaignCounts {
+  const counts: CampaignCounts = { total: recipients.length, pending: 0, sent: 0, failed: 0, skipped: 0 };
+  recipients.forEach((recipient) => {
+    counts[recipient.status]++;
+  });
+  return counts;
+}
+
+function isFinished(campaign: Campaign): boolean {
+  return campaign.status === 'completed' || campaign.status === 'cancelled';
+}
+
+function leaseFor(delayMs: number): RunnerLease {
+  return {
+    instance_id: hub.instanceId,
+    expires_at: new Date(Date.now() + delayMs + LEASE_GRACE_MS).toISOString(),
+  };
+}
+
+function isLeasedElsewhere(record: CampaignRecord): boolean {
+  return !!record.runner &&
+    record.runner.instance_id !== hub.instanceId &&
+    new Date(record.runner.expires_at).getTime() > Date.now();
+}
+
+/**
+ * Update one campaign's record. `update` returns the new record, or throws a
+ * CampaignError to leave the store untouched.
+ */
+async function updateRecord(
+  id: string,
+  update: (record: CampaignRecord) => CampaignRecord
+): Promise<CampaignRecord> {
+  const { record, dropped } = await updateJsonStore(INDEX_STORE, EMPTY_INDEX, (index) => {
+    const current = index.campaigns.find((candidate) => candidate.campaign.id === id);
+    if (!current) {
+      throw new CampaignError('Campaign not found', 404);
+    }
+    const next = update(current);
+    const campaigns = index.campaigns.map((candidate) => (candidate === current ? next : candidate));
+
+    // Drop the oldest finished campaigns beyond the limit
+    const finished = campaigns
+      .filter((candidate) => isFinished(candidate.campaign))
+      .sort((a, b) => a.campaign.updated_at.localeCompare(b.campaign.updated_at));
+    const droppedIds = new Set(
+      finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_CAMPAIGNS)).map((c) => c.campaign.id)
+    );
+
+    return {
+      data: { campaigns: campaigns.filter((candidate) => !droppedIds.has(candidate.campaign.id)) },
+      result: { record: next, dropped: [...droppedIds] },
+    };
+  });
+
+  await Promise.all(dropped.map((droppedId) => deleteJsonStore(recipientsStore(droppedId))));
+  return record;
+}
+
+/**
+ * Update a campaign's recipients, returning their new counts with `update`'s result
+ */
+async function updateRecipients<R>(
+  id: string,
+  update: (recipients: CampaignRecipient[]) => R
+): Promise<{ counts: CampaignCounts; result: R }> {
+  return updateJsonStore(recipientsStore(id), EMPTY_RECIPIENTS, (document) => {
+    const recipients = document.recipients.map((recipient) => ({ ...recipient }));
+    const result = update(recipients);
+    return { data: { recipients }, result: { counts: countRecipients(recipients), result } };
+  });
+}
+
+function withCampaign(record: CampaignRecord, changes: Partial<Campaign>): CampaignRecord {
+  return {
+    ...record,
+    campaign: { ...record.campaign, ...changes, updated_at: new Date().toISOString() },
+  };
+}
+
+function clearTimer(run: CampaignRun) {
+  if (run.timer) {
+    clearTimeout(run.timer);
+    run.timer = null;
+  }
+}
+
+function stopRun(id: string) {
+  const run = hub.runs.get(id);
+  if (run) {
+    clearTimer(run);
+    hub.runs.delete(id);
+  }
+}
+
+function schedule(run: CampaignRun, delayMs: number) {
+  clearTimer(run);
+  run.timer = setTimeout(() => {
+    run.timer = null;
+    sendNext(run).catch((error) => console.error(`Error running campaign ${run.id}:`, error));
+  }, delayMs);
+}
+
+/**
+ * Resolve the audience into recipients. Invalid and duplicate phones are
+ * kept as skipped so they show up in the report.
+ */
+async function buildRecipients(
+  actingUser: ActingUser,
+  audience: CampaignAudienceRequest
+): Promise<CampaignRecipient[]> {
+  const candidates: { phone: string; conversation_id?: number; client_data: ClientData }[] = [];
+
+  if (audience.type === 'search') {
+    const client = getCortexClient().forUser(actingUser);
+    const { lead_status: leadStatus, ...filters } = audience.filters;
+    let cursor: string | undefined;
+
+    do {
+      const page = await client.searchConversations({
+        ...filters,
+        lead_status: leadStatus && leadStatus !== 'all' ? leadStatus : undefined,
+        cursor,
+        limit: 100,
+      });
+      page.items.forEach((item) => {
+        candidates.push({
+          phone: item.client_phone || '',
+          conversation_id: item.id,
+          client_data: {
+            client_id: item.client_id,
+            name: item.client_name,
+            email: item.client_email,
+            phone: item.client_phone,
+            company: item.client_company,
+          },
+        });
+      });
+      cursor = page.has_more && page.next_cursor ? page.next_cursor : undefined;
+    } while (cursor && candidates.length < MAX_CAMPAIGN_RECIPIENTS);
+  } else {
+    audience.recipients.forEach((row) => {
+      candidates.push({
+        phone: row.phone,
+        client_data: {
+          name: row.name || null,
+          email: row.email || null,
+          phone: row.phone,
+          company: row.company || null,
+          position: row.position || null,
+        },
+      });
+    });
+  }
+
+  const seen = new Set<string>();
+  return candidates.slice(0, MAX_CAMPAIGN_RECIPIENTS).map((candidate): CampaignRecipient => {
+    const phone = normalizePhone(candidate.phone);
+    const recipient: CampaignRecipient = {
+      phone: phone || candidate.phone,
+      conversation_id: candidate.conversation_id ?? null,
+      client_data: candidate.client_data,
+      status: 'pending',
+    };
+
+    if (!phone) {
+      return { ...recipient, status: 'skipped', error: 'Invalid phone number' };
+    }
+    if (seen.has(phone)) {
+      return { ...recipient, status: 'skipped', error: 'Duplicate phone number' };
+    }
+    seen.add(phone);
+    return recipient;
+  });
+}
+
+/**
+ * Start sending a campaign from this instance unless a send in flight will continue it
+ */
+function wake(id: string) {
+  let run = hub.runs.get(id);
+  if (!run) {
+    run = { id, timer: null, sending: false };
+    hub.runs.set(id, run);
+  }
+  if (!run.sending && !run.timer) {
+    schedule(run, 0);
+  }
+}
+
+/**
+ * Send to the next pending recipient, then schedule the one after it
+ */
+async function sendNext(run: CampaignRun) {
+  run.sending = true;
+  let delayMs: number | null = null;
+  try {
+    delayMs = await sendToNextRecipient(run.id);
+  } finally {
+    run.sending = false;
+    // A run replaced by pause and resume while this send was in flight just ends
+    if (hub.runs.get(run.id) === run) {
+      if (delayMs === null) {
+        stopRun(run.id);
+      } else {
+        schedule(run, delayMs);
+      }
+    }
+  }
+}
+
+/**
+ * Take or renew this instance's lease on a running campaign. Returns null when
+ * the campaign stopped or another instance is sending it.
+ */
+async function claimCampaign(id: string): Promise<CampaignRecord | null> {
+  try {
+    return await updateJsonStore(INDEX_STORE, EMPTY_INDEX, (index) => {
+      const record = index.campaigns.find((candidate) => candidate.campaign.id === id);
+      if (!record || record.campaign.status !== 'running' || isLeasedElsewhere(record)) {
+        return { data: index, result: null };
+      }
+      const claimed: CampaignRecord = { ...record, runner: leaseFor(0) };
+      return {
+        data: { campaigns: index.campaigns.map((candidate) => (candidate === record ? claimed : candidate)) },
+        result: claimed,
+      };
+    });
+  } catch (error) {
+    console.error(`Error claiming campaign ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record the outcome of a send and extend the lease to cover the next one.
+ * Returns false when the campaign was paused or cancelled meanwhile.
+ */
+async function recordOutcome(
+  id: string,
+  position: number,
+  outcome: Partial<CampaignRecipient>,
+  delayMs: number
+): Promise<boolean> {
+  const { counts } = await updateRecipients(id, (recipients) => {
+    recipients[position] = { ...recipients[position], ...outcome, sending_at: null };
+  });
+  const record = await updateRecord(id, (current) => ({
+    ...withCampaign(current, { counts }),
+    runner: current.campaign.status === 'running' ? leaseFor(delayMs) : null,
+  }));
+  return record.campaign.status === 'running';
+}
+
+/**
+ * Returns the delay before the next send, or null when the queue has stopped
+ */
+async function sendToNextRecipient(id: string): Promise<number | null> {
+  const record = await claimCampaign(id);
+  if (!record?.acting_user) return null;
+  const { campaign } = record;
+
+  const { counts, result: next } = await updateRecipients(id, (recipients) => {
+    const position = recipients.findIndex((r) => r.status === 'pending' && !r.sending_at);
+    if (position === -1) return null;
+    recipients[position].sending_at = new Date().toISOString();
+    return { position, recipient: recipients[position] };
+  });
+
+  if (!next) {
+    // Sends in flight elsewhere are still recorded after completion
+    await updateRecord(id, (current) =>
+      current.campaign.status === 'running'
+        ? {
+            ...withCampaign(current, { status: 'completed', completed_at: new Date().toISOString(), counts }),
+            acting_user: null,
+            runner: null,
+          }
+        : current
+    );
+    return null;
+  }
+
+  const { position, recipient } = next;
+  const client = getCortexClient().forUser(record.acting_user);
+
+  // Search results don't carry the contact's position; load it only when a parameter needs it
+  let clientData = recipient.client_data;
+  const needsPosition = Object.values(campaign.parameter_mapping).some((source) => source.field === 'position');
+  if (needsPosition && recipient.conversation_id && clientData.position === undefined) {
+    try {
+      const conversation = await client.getConversation({ internal_id: recipient.conversation_id });
+      clientData = { ...clientData, ...conversation.client_data };
+    } catch (error) {
+      console.error(`Error loading client data for campaign recipient ${recipient.phone}:`, error);
+      clientData = { ...clientData, position: null };
+    }
+  }
+
+  const { parameters, missing } = resolveCampaignParameters(campaign.parameter_mapping, clientData);
+
+  if (missing.length > 0) {
+    // Nothing was sent, so the next recipient doesn't need to wait
+    const running = await recordOutcome(id, position, {
+      client_data: clientData,
+      status: 'skipped',
+      error: `Missing value for ${missing.map((name) => `{{${name}}}`).join(', ')}`,
+    }, 0);
+    return running ? 0 : null;
+  }
+
+  let delayMs = 60000 / campaign.messages_per_minute;
+  let outcome: Partial<CampaignRecipient> = { client_data: clientData };
+
+  try {
+    const result = await client.sendTemplate({
+      phone_number: recipient.phone,
+      template_name: campaign.template.name,
+      language_code: campaign.template.language,
+      ...(Object.keys(parameters).length > 0 && { parameters }),
+    });
+
+    try {
+      await recordTemplateSend({
+        template_name: campaign.template.name,
+        language: campaign.template.language,
+        conversation_id: recipient.conversation_id ?? result.conversation_id ?? null,
+        phone: recipient.phone,
+        message_id: result.message_id ?? null,
+        failed: !result.success,
+        sent_by: record.acting_user.email,
+      });
+    } catch (logError) {
+      console.error('Error logging template send:', logError);
+    }
+
+    outcome = result.success
+      ? {
+          ...outcome,
+          parameters,
+          status: 'sent',
+          message_id: result.message_id ?? null,
+          sent_at: new Date().toISOString(),
+          error: null,
+        }
+      : { ...outcome, parameters, status: 'failed', error: result.message || 'Template was not sent' };
+  } catch (error) {
+    if (error instanceof CortexAPIError && error.kind === 'unauthorized') {
+      // Keep the recipient pending; resuming with a fresh session continues from here
+      await recordOutcome(id, position, outcome, 0);
+      await updateRecord(id, (current) =>
+        current.campaign.status === 'running'
+          ? {
+              ...withCampaign(current, {
+                status: 'paused',
+                status_reason: 'Session expired. Resume the campaign to continue sending.',
+              }),
+              runner: null,
+            }
+          : current
+      );
+      return null;
+    }
+    if (error instanceof CortexAPIError && error.kind === 'rate_limited') {
+      // The recipient stays pending and is tried again after the backoff
+      delayMs = error.retryAfterMs ?? RATE_LIMIT_BACKOFF_MS;
+    } else {
+      console.error(`Error sending campaign ${campaign.id} to ${recipient.phone}:`, error);
+      outcome = {
+        ...outcome,
+        parameters,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to send template',
+      };
+    }
+  }
+
+  const running = await recordOutcome(id, position, outcome, delayMs);
+  return running ? delayMs : null;
+}
+
+/**
+ * Resume running campaigns that no live instance is sending, e.g. after a
+ * restart. Sends that were in flight when their instance stopped are marked
+ * failed, since they may already have reached the lead.
+ */
+export async function resumeCampaigns(): Promise<void> {
+  const index = await readJsonStore(INDEX_STORE, EMPTY_INDEX);
+  const orphaned = index.campaigns.filter(
+    (record) => record.campaign.status === 'running' && !isLeasedElsewhere(record) && !hub.runs.has(record.campaign.id)
+  );
+
+  for (const { campaign } of orphaned) {
+    try {
+      const { counts } = await updateRecipients(campaign.id, (recipients) => {
+        recipients.forEach((recipient) => {
+          if (recipient.sending_at && recipient.status === 'pending') {
+            recipient.status = 'failed';
+            recipient.error = INTERRUPTED_ERROR;
+          }
+          recipient.sending_at = null;
+        });
+      });
+      const record = await updateRecord(campaign.id, (current) =>
+        current.campaign.status === 'running' && !isLeasedElsewhere(current)
+          ? { ...withCampaign(current, { counts }), runner: leaseFor(0) }
+          : current
+      );
+      if (record.runner?.instance_id === hub.instanceId) {
+        wake(campaign.id);
+      }
+    } catch (error) {
+      console.error(`Error resuming campaign ${campaign.id}:`, error);
+    }
+  }
+}
+
+/**
+ * List campaigns, newest first. Also picks up campaigns whose instance stopped.
+ */
+export async function listCampaigns(): Promise<Campaign[]> {
+  resumeCampaigns().catch((error) => console.error('Error resuming campaigns:', error));
+
+  const index = await readJsonStore(INDEX_STORE, EMPTY_INDEX);
+  return index.campaigns
+    .map((record) => record.campaign)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Get a campaign with its per-recipient report
+ */
+export async function getCampaign(id: string): Promise<CampaignDetail | null> {
+  const index = await readJsonStore(INDEX_STORE, EMPTY_INDEX);
+  const record = index.campaigns.find((candidate) => candidate.campaign.id === id);
+  if (!record) return null;
+
+  const { recipients } = await readJsonStore(recipientsStore(id), EMPTY_RECIPIENTS);
+  return { ...record.campaign, recipients };
+}
+
+async function getCampaignOrThrow(id: string): Promise<CampaignDetail> {
+  const campaign = await getCampaign(id);
+  if (!campaign) {
+    throw new CampaignError('Campaign not found', 404);
+  }
+  return campaign;
+}
+
+/**
+ * Create a campaign and start sending right away
+ */
+export async function createCampaign(
+  actingUser: ActingUser,
+  request: CreateCampaignRequest
+): Promise<CampaignDetail> {
+  if (!request.name?.trim()) {
+    throw new CampaignError('name is required', 400);
+  }
+  if (!request.template?.name || !request.template.language) {
+    throw new CampaignError('template is required', 400);
+  }
+  if (request.audience?.type !== 'search' && request.audience?.type !== 'csv') {
+    throw new CampaignError('audience must be a lead search or a CSV upload', 400);
+  }
+
+  const recipients = await buildRecipients(actingUser, request.audience);
+  if (!recipients.some((recipient) => recipient.status === 'pending')) {
+    throw new CampaignError('The audience has no valid recipients', 400);
+  }
+
+  const now = new Date().toISOString();
+  const messagesPerMinute = Math.min(
+    MAX_MESSAGES_PER_MINUTE,
+    Math.max(1, Math.round(request.messages_per_minute || DEFAULT_MESSAGES_PER_MINUTE))
+  );
+
+  const campaign: Campaign = {
+    id: crypto.randomUUID(),
+    name: request.name.trim(),
+    template: request.template,
+    parameter_mapping: request.parameter_mapping ?? {},
+    audience: {
+      type: request.audience.type,
+      label: request.audience.label || (request.audience.type === 'csv' ? 'CSV upload' : 'Lead search'),
+    },
+    messages_per_minute: messagesPerMinute,
+    status: 'running',
+    status_reason: null,
+    counts: countRecipients(recipients),
+    created_by: actingUser.email,
+    created_at: now,
+    updated_at: now,
+    completed_at: null,
+  };
+
+  // Recipients first, so a stored campaign always has its recipients
+  await updateJsonStore(recipientsStore(campaign.id), EMPTY_RECIPIENTS, () => ({
+    data: { recipients },
+    result: undefined,
+  }));
+  await updateJsonStore(INDEX_STORE, EMPTY_INDEX, (index) => ({
+    data: { campaigns: [...index.campaigns, { campaign, acting_user: actingUser, runner: leaseFor(0) }] },
+    result: undefined,
+  }));
+  wake(campaign.id);
+
+  return { ...campaign, recipients };
+}
+
+/**
+ * Pause, resume, cancel or retry the failed recipients of a campaign.
+ * Resuming and retrying continue under the caller's session, on this instance.
+ */
+export async function applyCampaignAction(
+  id: string,
+  action: CampaignAction,
+  actingUser: ActingUser
+): Promise<CampaignDetail> {
+  switch (action) {
+    case 'pause':
+      await updateRecord(id, (record) => {
+        if (record.campaign.status !== 'running') {
+          throw new CampaignError('Only running campaigns can be paused', 409);
+        }
+        return { ...withCampaign(record, { status: 'paused', status_reason: null }), runner: null };
+      });
+      stopRun(id);
+      break;
+
+    case 'resume':
+      await updateRecord(id, (record) => {
+        if (record.campaign.status !== 'paused') {
+          throw new CampaignError('Only paused campaigns can be resumed', 409);
+        }
+        return {
+          ...withCampaign(record, { status: 'running', status_reason: null }),
+          acting_user: actingUser,
+          runner: leaseFor(0),
+        };
+      });
+      wake(id);
+      break;
+
+    case 'cancel': {
+      // Stop the queue first so no new sends start while recipients are skipped
+      await updateRecord(id, (record) => {
+        if (isFinished(record.campaign)) {
+          throw new CampaignError('Campaign has already finished', 409);
+        }
+        return {
+          ...withCampaign(record, { status: 'cancelled', status_reason: null, completed_at: new Date().toISOString() }),
+          acting_user: null,
+          runner: null,
+        };
+      });
+      stopRun(id);
+      // A send in flight records its own outcome
+      const { counts } = await updateRecipients(id, (recipients) => {
+        recipients.forEach((recipient) => {
+          if (recipient.status === 'pending' && !recipient.sending_at) {
+            recipient.status = 'skipped';
+            recipient.error = 'Campaign cancelled';
+          }
+        });
+      });
+      await updateRecord(id, (record) => withCampaign(record, { counts }));
+      break;
+    }
+
+    case 'retry_failed': {
+      const current = await getCampaignOrThrow(id);
+      if (current.status === 'cancelled') {
+        throw new CampaignError('Cancelled campaigns cannot be retried', 409);
+      }
+      const { counts, result: retried } = await updateRecipients(id, (recipients) => {
+        const failed = recipients.filter((recipient) => recipient.status === 'failed');
+        failed.forEach((recipient) => {
+          recipient.status = 'pending';
+          recipient.error = null;
+        });
+        return failed.length;
+      });
+      if (retried === 0) {
+        throw new CampaignError('There are no failed recipients to retry', 409);
+      }
+      const record = await updateRecord(id, (record) => {
+        const restart = record.campaign.status === 'completed';
+        const next = withCampaign(record, {
+          counts,
+          ...(restart && { status: 'running' as const, completed_at: null }),
+        });
+        return {
+          ...next,
+          acting_user: actingUser,
+          runner: next.campaign.status === 'running' && !isLeasedElsewhere(record) ? leaseFor(0) : record.runner,
+        };
+      });
+      if (record.runner?.instance_id === hub.instanceId) {
+        wake(id);
+      }
+      break;
+    }
+
+    default:
+      throw new CampaignError(`Unknown action: ${action}`, 400);
+  }
+
+  return getCampaignOrThrow(id);
+}
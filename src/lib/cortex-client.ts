@@ -20,6 +20,9 @@ import type {
   HubSpotOwnersResponse,
   HubSpotDeal,
   DealStagesResponse,
+  DealPipelinesResponse,
+  UpdateDealRequest,
+  UpdateDealResponse,
   HubSpotLinksResponse,
   FullContactResponse,
   FormSubmissionsResponse,
@@ -27,7 +30,11 @@ import type {
   ConversionSummaryResponse,
   ErrorResponse,
   SendTextRequest,
+  SendInteractiveButtonsRequest,
   MessageSentResponse,
+  MediaDownload,
+  MediaUploadResponse,
+  SendMediaRequest,
   FunnelMetricsResponse,
   ConversionRatesResponse,
   ConversationsCountResponse,
@@ -48,68 +55,351 @@ import type {
   DiagramResponse,
   PromptListResponse,
   PromptDetail,
+  UpdatePromptRequest,
   NodeListResponse,
   NodeDetail,
   AgentArchitectureResponse,
+  ConversationTraceResponse,
+  PlaygroundRunRequest,
+  PlaygroundRunResponse,
+  TemplateListResponse,
+  SendTemplateRequest,
+  SendTemplateResponse,
+  DeleteTemplateResponse,
+  TemplateSyncResponse,
+  TemplateMediaUploadResponse,
+  BusinessProfile,
+  BusinessPhoneNumber,
+  BusinessVerticalsResponse,
+  CompanyIntelligenceCheckResponse,
+  CompanyIntelligenceResponse,
+  UserLogin,
+  UserRegister,
+  TokenResponse,
+  UserResponse,
 } from '@/types/cortex';
+import type { Template } from '@/types/whatsapp';
+
+/**
+ * Error categories the UI can react to, independent of the raw status code.
+ * timeout, network and aborted never reached a Cortex response.
+ */
+type CortexErrorKind =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'validation'
+  | 'rate_limited'
+  | 'upstream'
+  | 'timeout'
+  | 'network'
+  | 'aborted';
+
+function getErrorKind(status: number): CortexErrorKind {
+  switch (status) {
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 409:
+      return 'conflict';
+    case 422:
+      return 'validation';
+    case 429:
+      return 'rate_limited';
+    default:
+      return status >= 500 ? 'upstream' : 'bad_request';
+  }
+}
 
 class CortexAPIError extends Error {
+  public kind: CortexErrorKind;
+
   constructor(
     message: string,
     public status: number,
-    public errorCode?: string
+    public errorCode?: string,
+    kind?: CortexErrorKind,
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'CortexAPIError';
+    this.kind = kind ?? getErrorKind(status);
+  }
+
+  /**
+   * Whether the same request may succeed if sent again
+   */
+  get retryable(): boolean {
+    return ['rate_limited', 'upstream', 'timeout', 'network'].includes(this.kind);
+  }
+}
+
+/**
+ * Per-call transport options.
+ * Apply them with `client.withOptions(...)` for a single call or a whole request.
+ */
+interface CortexCallOptions {
+  timeoutMs?: number; // Per-attempt timeout
+  retries?: number; // Max retries for idempotent (GET/HEAD) requests
+  signal?: AbortSignal; // Caller cancellation, e.g. the incoming request.signal
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 5_000;
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter, honoring Retry-After when present
+ */
+function getRetryDelay(attempt: number, error: CortexAPIError): number {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, RETRY_MAX_DELAY_MS);
   }
+  const ceiling = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CortexAPIError('Request aborted', 499, undefined, 'aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CortexAPIError('Request aborted', 499, undefined, 'aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function parseJsonResponse<T>(response: Response): Promise<T> {
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return await response.json();
+}
+
+/**
+ * Filename from a Content-Disposition header, if any
+ */
+function parseContentDispositionFilename(value: string | null): string | null {
+  if (!value) return null;
+  const encoded = value.match(/filename\*=(?:UTF-8'')?([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Fall through to the plain filename
+    }
+  }
+  const plain = value.match(/filename="?([^";]+)"?/i);
+  return plain ? plain[1].trim() : null;
+}
+
+/**
+ * Parse a `Content-Range: bytes start-end/size` header
+ */
+function parseContentRange(value: string | null): { start: number; end: number; size: number } | null {
+  const match = value?.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+  if (!match) return null;
+  return { start: Number(match[1]), end: Number(match[2]), size: Number(match[3]) };
+}
+
+/**
+ * Logged-in user a request is made on behalf of.
+ * Forwarded to Cortex so outbound messages and CRM mutations are attributable.
+ */
+interface ActingUser {
+  id: number;
+  email: string;
+  role: string;
+  token: string; // User's Cortex bearer token, lets Cortex verify the claims
+}
+
+/**
+ * Headers identifying the acting user on calls authenticated with the API key
+ */
+function getActingUserHeaders(actingUser: ActingUser): Record<string, string> {
+  return {
+    'X-Acting-User-Id': String(actingUser.id),
+    'X-Acting-User-Email': actingUser.email,
+    'X-Acting-User-Role': actingUser.role,
+    'X-Acting-User-Token': actingUser.token,
+  };
 }
 
 class CortexClient {
   private baseUrl: string;
   private apiKey: string;
+  private actingUser?: ActingUser;
+  private callOptions: CortexCallOptions;
 
-  constructor(baseUrl: string, apiKey: string) {
+  constructor(
+    baseUrl: string,
+    apiKey: string,
+    actingUser?: ActingUser,
+    callOptions: CortexCallOptions = {}
+  ) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.apiKey = apiKey;
+    this.actingUser = actingUser;
+    this.callOptions = callOptions;
+  }
+
+  /**
+   * Create a client that attributes every call to the given user.
+   * Use one per request; the shared singleton stays unattributed.
+   */
+  forUser(actingUser: ActingUser): CortexClient {
+    return new CortexClient(this.baseUrl, this.apiKey, actingUser, this.callOptions);
+  }
+
+  /**
+   * Create a client with different timeout, retry or cancellation settings
+   */
+  withOptions(callOptions: CortexCallOptions): CortexClient {
+    return new CortexClient(this.baseUrl, this.apiKey, this.actingUser, {
+      ...this.callOptions,
+      ...callOptions,
+    });
+  }
+
+  /**
+   * Authorization header with the acting user's own token.
+   * Used by endpoints Cortex authorizes per user instead of by API key.
+   */
+  private userAuthHeaders(): HeadersInit {
+    if (!this.actingUser) {
+      throw new CortexAPIError('Unauthorized - No auth token', 401, undefined, 'unauthorized');
+    }
+    return { Authorization: `Bearer ${this.actingUser.token}` };
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    parse: (response: Response) => Promise<T> = parseJsonResponse
+  ): Promise<T> {
+    const method = (options.method || 'GET').toUpperCase();
+    const isIdempotent = method === 'GET' || method === 'HEAD';
+    const maxRetries = isIdempotent ? (this.callOptions.retries ?? DEFAULT_RETRIES) : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt<T>(endpoint, options, parse);
+      } catch (error) {
+        if (!(error instanceof CortexAPIError) || !error.retryable || attempt >= maxRetries) {
+          throw error;
+        }
+        await sleep(getRetryDelay(attempt, error), this.callOptions.signal);
+      }
+    }
+  }
+
+  /**
+   * Send a single request with the per-attempt timeout applied
+   */
+  private async attempt<T>(
+    endpoint: string,
+    options: RequestInit,
+    parse: (response: Response) => Promise<T>
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
     const headers: HeadersInit = {
-      'Content-Type': 'application/json',
+      // Let fetch set the multipart boundary for file uploads
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
       Authorization: `Bearer ${this.apiKey}`,
+      ...(this.actingUser ? getActingUserHeaders(this.actingUser) : {}),
       ...options.headers,
     };
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
-
-    if (!response.ok) {
-      let errorMessage = `API Error: ${response.status}`;
-      let errorCode: string | undefined;
+    const { signal: callerSignal, timeoutMs = DEFAULT_TIMEOUT_MS } = this.callOptions;
+    if (callerSignal?.aborted) {
+      throw new CortexAPIError('Request aborted', 499, undefined, 'aborted');
+    }
 
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onCallerAbort = () => controller.abort();
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    try {
+      let response: Response;
       try {
-        const errorData: ErrorResponse = await response.json();
-        errorMessage = errorData.detail || errorMessage;
-        errorCode = errorData.error_code || undefined;
-      } catch {
-        // Use default error message
+        response = await fetch(url, {
+          ...options,
+          headers,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (timedOut) {
+          throw new CortexAPIError(`Cortex request timed out after ${timeoutMs}ms`, 504, undefined, 'timeout');
+        }
+        if (callerSignal?.aborted) {
+          throw new CortexAPIError('Request aborted', 499, undefined, 'aborted');
+        }
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        throw new CortexAPIError(`Cortex unreachable: ${reason}`, 502, undefined, 'network');
       }
 
-      throw new CortexAPIError(errorMessage, response.status, errorCode);
-    }
+      if (!response.ok) {
+        let errorMessage = `API Error: ${response.status}`;
+        let errorCode: string | undefined;
+
+        try {
+          const errorData: ErrorResponse = await response.json();
+          errorMessage = errorData.detail || errorMessage;
+          errorCode = errorData.error_code || undefined;
+        } catch {
+          // Use default error message
+        }
+
+        throw new CortexAPIError(
+          errorMessage,
+          response.status,
+          errorCode,
+          undefined,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
 
-    // Handle 204 No Content
-    if (response.status === 204) {
-      return {} as T;
+      return await parse(response);
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onCallerAbort);
     }
-
-    return response.json();
   }
 
   // ==========================================================================
@@ -137,6 +427,8 @@ class CortexClient {
     has_meeting?: boolean;
     state?: number;
     deal_stage?: string;
+    deal_pipeline?: string;
+    qualification?: string;
     lead_status?: string;
     date_from?: string;
     date_to?: string;
@@ -152,6 +444,8 @@ class CortexClient {
     if (params.has_meeting !== undefined) searchParams.set('has_meeting', String(params.has_meeting));
     if (params.state !== undefined) searchParams.set('state', String(params.state));
     if (params.deal_stage) searchParams.set('deal_stage', params.deal_stage);
+    if (params.deal_pipeline) searchParams.set('deal_pipeline', params.deal_pipeline);
+    if (params.qualification) searchParams.set('qualification', params.qualification);
     if (params.lead_status) searchParams.set('lead_status', params.lead_status);
     if (params.date_from) searchParams.set('date_from', params.date_from);
     if (params.date_to) searchParams.set('date_to', params.date_to);
@@ -250,6 +544,64 @@ class CortexClient {
     });
   }
 
+  /**
+   * Send an interactive message with reply buttons.
+   */
+  async sendInteractiveButtons(data: SendInteractiveButtonsRequest): Promise<MessageSentResponse> {
+    return this.request('/messages/send/interactive', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Send an image, video, audio or document message by uploaded media ID.
+   */
+  async sendMediaMessage(data: SendMediaRequest): Promise<MessageSentResponse> {
+    return this.request('/messages/send/media', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Upload a file to WhatsApp for sending as a media message.
+   */
+  async uploadMedia(file: File): Promise<MediaUploadResponse> {
+    const formData = new FormData();
+    formData.append('file', file);
+    return this.request('/media/upload', {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  /**
+   * Stream inbound or outbound WhatsApp media by media ID. Cortex resolves
+   * the ID with Meta and returns the file. `range` is passed on as a Range
+   * header; Cortex may ignore it and send the whole file.
+   */
+  async downloadMedia(mediaId: string, range?: string | null): Promise<MediaDownload> {
+    return this.request(
+      `/media/${encodeURIComponent(mediaId)}/download`,
+      range ? { headers: { Range: range } } : {},
+      async (response) => {
+        if (!response.body) {
+          throw new CortexAPIError('Cortex returned an empty media response', 502, undefined, 'upstream');
+        }
+        const contentRange = response.status === 206 ? parseContentRange(response.headers.get('Content-Range')) : null;
+        const contentLength = response.headers.get('Content-Length');
+        return {
+          body: response.body,
+          content_type: response.headers.get('Content-Type'),
+          filename: parseContentDispositionFilename(response.headers.get('Content-Disposition')),
+          size: contentRange?.size ?? (contentLength ? Number(contentLength) : null),
+          range: contentRange ? { start: contentRange.start, end: contentRange.end } : null,
+        };
+      }
+    );
+  }
+
   // ==========================================================================
   // SDR Agents
   // ==========================================================================
@@ -355,10 +707,27 @@ class CortexClient {
     return this.request(`/crm/deal?${searchParams.toString()}`);
   }
 
+  /**
+   * Update a deal's stage or properties by deal ID.
+   */
+  async updateDeal(dealId: string, data: UpdateDealRequest): Promise<UpdateDealResponse> {
+    return this.request(`/crm/deals/${encodeURIComponent(dealId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
   async getDealStages(pipelineId = 'default'): Promise<DealStagesResponse> {
     return this.request(`/crm/deal-stages?pipeline_id=${pipelineId}`);
   }
 
+  /**
+   * Get every deal pipeline with its stages, so stage IDs from any pipeline resolve.
+   */
+  async getDealPipelines(): Promise<DealPipelinesResponse> {
+    return this.request('/crm/pipelines');
+  }
+
   async getHubSpotLinks(params: {
     phone?: string;
     external_id?: string;
@@ -511,14 +880,16 @@ class CortexClient {
   // ==========================================================================
 
   /**
-   * Get CRM funnel volume (counts at each stage).
+   * Get CRM funnel volume (counts at each stage), optionally for one pipeline.
    */
   async getCRMFunnelVolume(
     startDate: string,
-    endDate: string
+    endDate: string,
+    pipelineId?: string
   ): Promise<CRMFunnelVolumeResponse> {
+    const pipelineParam = pipelineId ? `&pipeline_id=${encodeURIComponent(pipelineId)}` : '';
     return this.request(
-      `/metrics/crm/funnel-volume?start_date=${startDate}&end_date=${endDate}`
+      `/metrics/crm/funnel-volume?start_date=${startDate}&end_date=${endDate}${pipelineParam}`
     );
   }
 
@@ -528,10 +899,12 @@ class CortexClient {
    */
   async getCRMConversionRates(
     startDate: string,
-    endDate: string
+    endDate: string,
+    pipelineId?: string
   ): Promise<CRMConversionRatesResponse> {
+    const pipelineParam = pipelineId ? `&pipeline_id=${encodeURIComponent(pipelineId)}` : '';
     return this.request(
-      `/metrics/crm/conversion-rates?start_date=${startDate}&end_date=${endDate}`
+      `/metrics/crm/conversion-rates?start_date=${startDate}&end_date=${endDate}${pipelineParam}`
     );
   }
 
@@ -569,6 +942,16 @@ class CortexClient {
     return this.request(`/ai/prompts/${encodeURIComponent(promptId)}`);
   }
 
+  /**
+   * Replace a prompt's live content. The agent uses it from the next turn.
+   */
+  async updateAIPrompt(promptId: string, data: UpdatePromptRequest): Promise<PromptDetail> {
+    return this.request(`/ai/prompts/${encodeURIComponent(promptId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
   /**
    * Get list of all agent nodes.
    */
@@ -590,6 +973,228 @@ class CortexClient {
   async getAIArchitecture(): Promise<AgentArchitectureResponse> {
     return this.request('/ai/architecture');
   }
+
+  /**
+   * Get the nodes each turn of a conversation went through, with the state
+   * fields that changed on the way.
+   */
+  async getConversationTrace(params: {
+    external_id?: string;
+    internal_id?: number;
+  }): Promise<ConversationTraceResponse> {
+    const searchParams = new URLSearchParams();
+    if (params.external_id) searchParams.set('external_id', params.external_id);
+    if (params.internal_id) searchParams.set('internal_id', String(params.internal_id));
+    return this.request(`/ai/trace?${searchParams.toString()}`);
+  }
+
+  /**
+   * Run an agent node against a conversation. Nothing is sent to the lead
+   * and no conversation state is saved.
+   */
+  async runAIPlayground(data: PlaygroundRunRequest): Promise<PlaygroundRunResponse> {
+    return this.request('/ai/playground', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // ==========================================================================
+  // WhatsApp Templates
+  // ==========================================================================
+
+  async listTemplates(params?: {
+    status?: string;
+    category?: string;
+    language?: string;
+  }): Promise<TemplateListResponse> {
+    const searchParams = new URLSearchParams();
+    if (params?.status) searchParams.set('status', params.status);
+    if (params?.category) searchParams.set('category', params.category);
+    if (params?.language) searchParams.set('language', params.language);
+    const queryString = searchParams.toString();
+    return this.request(`/templates${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getTemplate(templateId: string): Promise<Template> {
+    return this.request(`/templates/${encodeURIComponent(templateId)}`);
+  }
+
+  async createTemplate(data: Record<string, unknown>): Promise<Template> {
+    return this.request('/templates', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Delete a template locally and, unless disabled, from Meta.
+   */
+  async deleteTemplate(templateId: string, deleteFromMeta = true): Promise<DeleteTemplateResponse> {
+    return this.request(
+      `/templates/${encodeURIComponent(templateId)}?delete_from_meta=${deleteFromMeta}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  /**
+   * Pull the latest template definitions and review statuses from Meta.
+   */
+  async syncTemplates(): Promise<TemplateSyncResponse> {
+    return this.request('/templates/sync', { method: 'POST' });
+  }
+
+  /**
+   * Upload template header media, either from a public URL or as a file.
+   */
+  async uploadTemplateMedia(
+    source: { url: string; filename?: string; content_type?: string } | File
+  ): Promise<TemplateMediaUploadResponse> {
+    if (source instanceof File) {
+      const formData = new FormData();
+      formData.append('file', source);
+      return this.request('/templates/upload-media', {
+        method: 'POST',
+        body: formData,
+      });
+    }
+
+    return this.request('/templates/upload-media', {
+      method: 'POST',
+      body: JSON.stringify(source),
+    });
+  }
+
+  async sendTemplate(data: SendTemplateRequest): Promise<SendTemplateResponse> {
+    return this.request('/templates/send', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // ==========================================================================
+  // Business Profile & Phone Numbers
+  // ==========================================================================
+
+  async getBusinessProfile(): Promise<BusinessProfile> {
+    return this.request('/business/profile');
+  }
+
+  async updateBusinessProfile(data: Partial<BusinessProfile>): Promise<BusinessProfile> {
+    return this.request('/business/profile', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getBusinessVerticals(): Promise<BusinessVerticalsResponse> {
+    return this.request('/business/verticals');
+  }
+
+  async listPhoneNumbers(): Promise<{ data: BusinessPhoneNumber[] }> {
+    return this.request('/business/phone-numbers');
+  }
+
+  async getPhoneNumber(phoneNumberId: string): Promise<BusinessPhoneNumber> {
+    return this.request(`/business/phone-numbers/${encodeURIComponent(phoneNumberId)}`);
+  }
+
+  async updatePhoneNumber(
+    phoneNumberId: string,
+    data: Record<string, unknown>
+  ): Promise<BusinessPhoneNumber> {
+    return this.request(`/business/phone-numbers/${encodeURIComponent(phoneNumberId)}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // ==========================================================================
+  // Company Intelligence
+  // ==========================================================================
+
+  /**
+   * Check whether company intelligence exists for a lead, by phone or client ID.
+   */
+  async getCompanyIntelligence(
+    identifier: string,
+    identifierType: 'phone' | 'client_id'
+  ): Promise<CompanyIntelligenceCheckResponse> {
+    const searchParams = new URLSearchParams({
+      identifier,
+      identifier_type: identifierType,
+    });
+    return this.request(`/sales/company-intelligence?${searchParams.toString()}`);
+  }
+
+  /**
+   * Generate company intelligence, or return the cached result unless refresh is set.
+   */
+  async generateCompanyIntelligence(
+    identifier: string,
+    identifierType: 'phone' | 'client_id',
+    refresh = false
+  ): Promise<CompanyIntelligenceResponse> {
+    return this.request('/sales/company-intelligence', {
+      method: 'POST',
+      body: JSON.stringify({
+        identifier,
+        identifier_type: identifierType,
+        refresh,
+      }),
+    });
+  }
+
+  // ==========================================================================
+  // Auth & Users
+  // ==========================================================================
+
+  async login(data: UserLogin): Promise<TokenResponse> {
+    return this.request('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async register(data: UserRegister): Promise<TokenResponse> {
+    return this.request('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Get the acting user as Cortex sees them (role and active status).
+   */
+  async getCurrentUser(): Promise<UserResponse> {
+    return this.request('/auth/me', { headers: this.userAuthHeaders() });
+  }
+
+  async listUsers(): Promise<UserResponse[]> {
+    return this.request('/auth/users', { headers: this.userAuthHeaders() });
+  }
+
+  async activateUser(userId: string): Promise<UserResponse> {
+    return this.request(`/auth/users/${encodeURIComponent(userId)}/activate`, {
+      method: 'PATCH',
+      headers: this.userAuthHeaders(),
+    });
+  }
+
+  async deactivateUser(userId: string): Promise<UserResponse> {
+    return this.request(`/auth/users/${encodeURIComponent(userId)}/deactivate`, {
+      method: 'PATCH',
+      headers: this.userAuthHeaders(),
+    });
+  }
+
+  async changeUserRole(userId: string, role: string): Promise<UserResponse> {
+    return this.request(`/auth/users/${encodeURIComponent(userId)}/role`, {
+      method: 'PATCH',
+      headers: this.userAuthHeaders(),
+      body: JSON.stringify({ role }),
+    });
+  }
 }
 
 // =============================================================================
@@ -623,3 +1228,4 @@ export const cortexClient = new Proxy({} as CortexClient, {
 });
 
 export { CortexClient, CortexAPIError };
+export type { ActingUser, CortexCallOptions, CortexErrorKind };
@@ -0,0 +1,64 @@
+/**
+ * Diff
+ * Line-level text diff for side-by-side views. Safe to use on client and server.
+ */
+
+export type DiffLine = {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+// One row of a side-by-side diff; null marks an empty cell
+export type DiffRow = {
+  left: DiffLine | null;
+  right: DiffLine | null;
+};
+
+/**
+ * Line-level diff (longest common subsequence) laid out as side-by-side rows
+ */
+export function diffLines(before: string[], after: string[]): DiffRow[] {
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  // Pair up consecutive removals and additions so edited lines sit side by side
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      flush();
+      rows.push({ left: { type: 'same', text: before[i] }, right: { type: 'same', text: after[j] } });
+      i++;
+      j++;
+    } else if (j < after.length && (i === before.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      added.push({ type: 'added', text: after[j] });
+      j++;
+    } else {
+      removed.push({ type: 'removed', text: before[i] });
+      i++;
+    }
+  }
+  flush();
+
+  return rows;
+}
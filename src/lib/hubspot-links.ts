@@ -0,0 +1,56 @@
+/**
+ * HubSpot Links
+ * Deep links into the HubSpot app for a portal. Safe to use on client and server.
+ */
+
+export interface HubSpotPortal {
+  portal_id: string | null;
+  // Data hosting region ("hublet"), e.g. "na1" or "eu1"; defaults to na1
+  region: string | null;
+}
+
+export type HubSpotRecordType = 'contact' | 'deal' | 'company' | 'task';
+
+const DEFAULT_REGION = 'na1';
+
+/**
+ * Base URL of the HubSpot app for a region. Accounts hosted outside na1
+ * live on a region-specific subdomain, e.g. app-eu1.hubspot.com.
+ */
+export function getHubSpotAppUrl(region?: string | null): string {
+  const hublet = region?.trim().toLowerCase() || DEFAULT_REGION;
+  return hublet === DEFAULT_REGION ? 'https://app.hubspot.com' : `https://app-${hublet}.hubspot.com`;
+}
+
+/**
+ * Deep link to a contact, deal, company or task. Returns null when the
+ * portal is not configured or the record has no ID.
+ */
+export function getHubSpotRecordLink(
+  portal: HubSpotPortal | null | undefined,
+  type: HubSpotRecordType,
+  id: string | number | null | undefined
+): string | null {
+  if (!portal?.portal_id || !id) return null;
+
+  const baseUrl = getHubSpotAppUrl(portal.region);
+  const recordId = encodeURIComponent(String(id));
+  if (type === 'task') {
+    return `${baseUrl}/tasks/${portal.portal_id}/view/all/task/${recordId}`;
+  }
+  return `${baseUrl}/contacts/${portal.portal_id}/${type}/${recordId}/`;
+}
+
+/**
+ * Deep link to an activity (note, call, email, meeting or task) on a
+ * contact's timeline.
+ */
+export function getHubSpotActivityLink(
+  portal: HubSpotPortal | null | undefined,
+  contactId: string | null | undefined,
+  activityId: string | null | undefined
+): string | null {
+  const contactLink = getHubSpotRecordLink(portal, 'contact', contactId);
+  if (!contactLink || !activityId) return contactLink;
+  return `${contactLink}?engagement=${encodeURIComponent(activityId)}`;
+}
@@ -0,0 +1,177 @@
+/**
+ * Inbox Events
+ * Server-side fan-out of inbox changes for the /api/stream SSE endpoint.
+ *
+ * Cortex has no push channel, so a single shared watcher polls
+ * /conversations/search while at least one browser is subscribed, diffs the
+ * result against the previous snapshot and publishes one event per change.
+ * N open tabs therefore cost one Cortex request per interval instead of N.
+ *
+ * The hub lives in process memory, so each server instance runs its own
+ * watcher for its own subscribers; running several instances multiplies the
+ * polling but every instance sees the same changes. The watcher serves every
+ * subscriber at once, so it polls with the API key rather than on behalf of
+ * any one user, and events cover every lead regardless of who subscribed.
+ *
+ * Only the WATCH_LIMIT most recently updated conversations are diffed. A new
+ * message moves a conversation to the top, so message.new covers every lead,
+ * but agent, window and deal stage changes on leads outside the window are
+ * only reported once they're active again.
+ */
+
+import { getCortexClient } from '@/lib/cortex-client';
+import type { ConversationSearchItem, InboxEvent } from '@/types/cortex';
+
+const WATCH_INTERVAL_MS = 3000;
+// Most recently updated conversations to diff on each cycle (the search page size limit)
+const WATCH_LIMIT = 100;
+// Snapshots kept for leads that dropped out of the window, least recently seen dropped first
+const MAX_SNAPSHOTS = WATCH_LIMIT * 10;
+
+type Snapshot = Pick<
+  ConversationSearchItem,
+  'messages_count' | 'state' | 'window_status' | 'deal_stage'
+>;
+
+type Listener = (event: InboxEvent) => void;
+
+interface InboxEventHub {
+  listeners: Set<Listener>;
+  snapshot: Map<number, Snapshot> | null;
+  watchingSince: number; // When the current baseline was taken
+  timer: ReturnType<typeof setTimeout> | null;
+  watching: boolean; // A watch cycle is scheduled or in flight
+}
+
+// Kept on globalThis so dev hot reloads don't start a second watcher
+const globalForHub = globalThis as typeof globalThis & { __inboxEventHub?: InboxEventHub };
+const hub: InboxEventHub = globalForHub.__inboxEventHub ??= {
+  listeners: new Set(),
+  snapshot: null,
+  watchingSince: 0,
+  timer: null,
+  watching: false,
+};
+
+/**
+ * Diff one conversation against its previous snapshot
+ */
+function diffItem(item: ConversationSearchItem, previous: Snapshot | undefined, since: number): InboxEvent[] {
+  const base = {
+    lead_id: item.id,
+    external_id: item.external_id,
+    at: new Date().toISOString(),
+  };
+  const events: InboxEvent[] = [];
+
+  if (!previous || item.messages_count > previous.messages_count) {
+    events.push({
+      ...base,
+      type: 'message.new',
+      messages_count: item.messages_count,
+      last_message_at: item.last_message_at,
+      last_message_role: item.last_message_role,
+      last_message_content: item.last_message_content?.substring(0, 100),
+      // A lead without a snapshot may have been pruned; only leads created since the baseline are new
+      is_new_lead: !previous && Date.parse(item.created_at) >= since,
+    });
+  }
+  if (!previous) return events;
+
+  if (item.state !== previous.state) {
+    events.push({ ...base, type: 'agent.toggled', state: item.state });
+  }
+  if ((item.window_status ?? null) !== (previous.window_status ?? null)) {
+    events.push({ ...base, type: 'window.changed', window_status: item.window_status ?? null });
+  }
+  if ((item.deal_stage ?? null) !== (previous.deal_stage ?? null)) {
+    events.push({ ...base, type: 'deal_stage.changed', deal_stage: item.deal_stage ?? null });
+  }
+
+  return events;
+}
+
+async function watch() {
+  hub.timer = null;
+  if (hub.listeners.size === 0) {
+    hub.watching = false;
+    return;
+  }
+
+  try {
+    const response = await getCortexClient()
+      .withOptions({ retries: 0 })
+      .searchConversations({ limit: WATCH_LIMIT });
+
+    const previous = hub.snapshot;
+    // Keep leads that dropped out of the window so they aren't reported as new when they return
+    const next = new Map<number, Snapshot>(previous ?? []);
+
+    for (const item of response.items) {
+      // Re-insert so the map stays ordered from least to most recently seen
+      next.delete(item.id);
+      next.set(item.id, {
+        messages_count: item.messages_count,
+        state: item.state,
+        window_status: item.window_status,
+        deal_stage: item.deal_stage,
+      });
+      // First cycle only establishes the baseline
+      if (previous) {
+        diffItem(item, previous.get(item.id), hub.watchingSince).forEach(publishInboxEvent);
+      }
+    }
+
+    for (const id of next.keys()) {
+      if (next.size <= MAX_SNAPSHOTS) break;
+      next.delete(id);
+    }
+
+    hub.snapshot = next;
+  } catch (error) {
+    console.error('Error watching inbox:', error);
+  }
+
+  if (hub.listeners.size > 0) {
+    hub.timer = setTimeout(watch, WATCH_INTERVAL_MS);
+  } else {
+    hub.watching = false;
+  }
+}
+
+/**
+ * Deliver an event to every subscriber
+ */
+function publishInboxEvent(event: InboxEvent) {
+  hub.listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Inbox listener error:', error);
+    }
+  });
+}
+
+/**
+ * Subscribe to inbox events. Returns an unsubscribe function.
+ * The watcher starts with the first subscriber and stops after the last one leaves.
+ */
+export function subscribeInboxEvents(listener: Listener): () => void {
+  hub.listeners.add(listener);
+
+  if (!hub.watching) {
+    hub.watching = true;
+    hub.snapshot = null;
+    hub.watchingSince = Date.now();
+    void watch();
+  }
+
+  return () => {
+    hub.listeners.delete(listener);
+    if (hub.listeners.size === 0 && hub.timer) {
+      clearTimeout(hub.timer);
+      hub.timer = null;
+      hub.watching = false;
+    }
+  };
+}
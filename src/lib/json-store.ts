@@ -0,0 +1,76 @@
+/**
+ * JSON Store
+ * Small file-backed store for app settings that Cortex doesn't manage
+ * (e.g. template parameter mappings). Server-only.
+ *
+ * Files live in APP_DATA_DIR (default: <project>/.data). Writes go through a
+ * temp file and rename, and are serialized per file within this process.
+ * Files are created owner-only (0600) since some hold credentials.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Shared with other file-backed stores (e.g. the media cache)
+export const DATA_DIR = process.env.APP_DATA_DIR || path.join(process.cwd(), '.data');
+
+// Pending write per file, so concurrent updates apply in order
+const writeQueues = new Map<string, Promise<unknown>>();
+
+// Names may contain `/` to group related documents in a subdirectory
+function resolveFile(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+/**
+ * Read a JSON document, or `fallback` when it doesn't exist yet
+ */
+export async function readJsonStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(resolveFile(name), 'utf8');
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Read, modify and write a JSON document atomically with respect to other
+ * updates in this process. Returns whatever `update` returns. `update` may be
+ * async to make a check and a side effect it guards atomic too; nothing is
+ * written if it throws.
+ */
+export async function updateJsonStore<T, R>(
+  name: string,
+  fallback: T,
+  update: (current: T) => { data: T; result: R } | Promise<{ data: T; result: R }>
+): Promise<R> {
+  const previous = writeQueues.get(name) ?? Promise.resolve();
+
+  const next = previous.catch(() => undefined).then(async () => {
+    const { data, result } = await update(await readJsonStore(name, fallback));
+    const file = resolveFile(name);
+    const tempFile = `${file}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+    await fs.writeFile(tempFile, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tempFile, file);
+    return result;
+  });
+
+  writeQueues.set(name, next);
+  try {
+    return await next;
+  } finally {
+    if (writeQueues.get(name) === next) writeQueues.delete(name);
+  }
+}
+
+/**
+ * Delete a JSON document. Missing documents are ignored.
+ */
+export async function deleteJsonStore(name: string): Promise<void> {
+  await (writeQueues.get(name) ?? Promise.resolve()).catch(() => undefined);
+  await fs.rm(resolveFile(name), { force: true });
+}
@@ -0,0 +1,132 @@
+/**
+ * Lead Filters
+ * The inbox filter set shared by the sidebar, the lead list, saved views and
+ * shareable URLs. Query param names match GET /api/leads.
+ */
+
+import type { CampaignSearchFilters } from '@/types/cortex';
+
+// Lead status values matching the API
+export type LeadStatus = 'all' | 'new_leads' | 'conversing' | 'qualified' | 'demo' | 'demo_today' | 'manual_mode';
+
+// Window status for 24h filter
+export type WindowStatus = 'all' | 'open' | 'expired';
+
+export interface LeadFilters {
+  lead_status: LeadStatus;
+  q: string;
+  date_from: string | null;
+  date_to: string | null;
+  window_status: WindowStatus;
+  assigned_sdr_id: number | null;
+  qualification: string | null;
+  deal_pipeline: string | null;
+  deal_stage: string | null;
+}
+
+export interface SavedLeadView {
+  id: string;
+  name: string;
+  filters: LeadFilters;
+  created_at: string;
+}
+
+const LEAD_STATUSES: LeadStatus[] = ['all', 'new_leads', 'conversing', 'qualified', 'demo', 'demo_today', 'manual_mode'];
+const WINDOW_STATUSES: WindowStatus[] = ['all', 'open', 'expired'];
+
+// Query params that carry filters; any of them in the URL overrides the defaults
+const FILTER_PARAMS = ['lead_status', 'q', 'date_from', 'date_to', 'window_status', 'assigned_sdr_id', 'qualification', 'deal_pipeline', 'deal_stage'];
+
+// Helper to get date string in YYYY-MM-DD format
+function getDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Default inbox filters: every lead from the last 7 days
+ */
+export function getDefaultLeadFilters(): LeadFilters {
+  const today = new Date();
+  const sevenDaysAgo = new Date(today);
+  sevenDaysAgo.setDate(today.getDate() - 7);
+
+  return {
+    lead_status: 'all',
+    q: '',
+    date_from: getDateString(sevenDaysAgo),
+    date_to: getDateString(today),
+    window_status: 'all',
+    assigned_sdr_id: null,
+    qualification: null,
+    deal_pipeline: null,
+    deal_stage: null,
+  };
+}
+
+/**
+ * Whether the URL carries a filter set (a shared view link)
+ */
+export function hasLeadFilterParams(searchParams: URLSearchParams): boolean {
+  return FILTER_PARAMS.some((param) => searchParams.has(param));
+}
+
+/**
+ * Read filters from URL query params. Missing params mean "no filter", so a
+ * shared link reproduces exactly the view it was copied from.
+ */
+export function parseLeadFilters(searchParams: URLSearchParams): LeadFilters {
+  const leadStatus = searchParams.get('lead_status') as LeadStatus | null;
+  const windowStatus = searchParams.get('window_status') as WindowStatus | null;
+  const sdrId = parseInt(searchParams.get('assigned_sdr_id') || '', 10);
+
+  return {
+    lead_status: leadStatus && LEAD_STATUSES.includes(leadStatus) ? leadStatus : 'all',
+    q: searchParams.get('q') || '',
+    date_from: searchParams.get('date_from') || null,
+    date_to: searchParams.get('date_to') || null,
+    window_status: windowStatus && WINDOW_STATUSES.includes(windowStatus) ? windowStatus : 'all',
+    assigned_sdr_id: Number.isNaN(sdrId) ? null : sdrId,
+    qualification: searchParams.get('qualification') || null,
+    deal_pipeline: searchParams.get('deal_pipeline') || null,
+    deal_stage: searchParams.get('deal_stage') || null,
+  };
+}
+
+/**
+ * Write filters as URL query params, leaving out the ones that don't filter
+ */
+export function leadFiltersToSearchParams(filters: LeadFilters): URLSearchParams {
+  const params = new URLSearchParams({ lead_status: filters.lead_status });
+
+  if (filters.q) params.set('q', filters.q);
+  if (filters.date_from) params.set('date_from', filters.date_from);
+  if (filters.date_to) params.set('date_to', filters.date_to);
+  if (filters.window_status !== 'all') params.set('window_status', filters.window_status);
+  if (filters.assigned_sdr_id !== null) params.set('assigned_sdr_id', String(filters.assigned_sdr_id));
+  if (filters.qualification) params.set('qualification', filters.qualification);
+  if (filters.deal_pipeline) params.set('deal_pipeline', filters.deal_pipeline);
+  if (filters.deal_stage) params.set('deal_stage', filters.deal_stage);
+
+  return params;
+}
+
+/**
+ * Convert filters to searchConversations params, e.g. for a campaign audience
+ */
+export function leadFiltersToSearchFilters(filters: LeadFilters): CampaignSearchFilters {
+  return {
+    lead_status: filters.lead_status,
+    q: filters.q || undefined,
+    date_from: filters.date_from || undefined,
+    date_to: filters.date_to || undefined,
+    window_status: filters.window_status !== 'all' ? filters.window_status : undefined,
+    assigned_sdr_id: filters.assigned_sdr_id ?? undefined,
+    qualification: filters.qualification || undefined,
+    deal_pipeline: filters.deal_pipeline || undefined,
+    deal_stage: filters.deal_stage || undefined,
+  };
+}
+
+export function areLeadFiltersEqual(a: LeadFilters, b: LeadFilters): boolean {
+  return leadFiltersToSearchParams(a).toString() === leadFiltersToSearchParams(b).toString();
+}
@@ -0,0 +1,53 @@
+/**
+ * Lead View Store
+ * Persists each user's saved inbox views, so they follow the user across
+ * browsers and devices. Server-only.
+ */
+
+import { readJsonStore, updateJsonStore } from '@/lib/json-store';
+import type { LeadFilters, SavedLeadView } from '@/lib/lead-filters';
+
+// Views per user; saving beyond this drops the oldest
+const MAX_VIEWS_PER_USER = 50;
+
+interface ViewDocument {
+  views: SavedLeadView[];
+}
+
+const EMPTY_DOCUMENT: ViewDocument = { views: [] };
+
+function storeName(userId: number): string {
+  return `lead-views/${userId}`;
+}
+
+export async function listLeadViews(userId: number): Promise<SavedLeadView[]> {
+  const document = await readJsonStore(storeName(userId), EMPTY_DOCUMENT);
+  return document.views;
+}
+
+/**
+ * Save a view. Saving under an existing name (case-insensitive) replaces that view.
+ */
+export async function saveLeadView(userId: number, name: string, filters: LeadFilters): Promise<SavedLeadView> {
+  const view: SavedLeadView = {
+    id: crypto.randomUUID(),
+    name,
+    filters,
+    created_at: new Date().toISOString(),
+  };
+
+  return updateJsonStore(storeName(userId), EMPTY_DOCUMENT, (document) => {
+    const views = document.views.filter((existing) => existing.name.toLowerCase() !== name.toLowerCase());
+    return { data: { views: [...views, view].slice(-MAX_VIEWS_PER_USER) }, result: view };
+  });
+}
+
+/**
+ * Delete a view. Returns false when the user has no view with that ID.
+ */
+export async function deleteLeadView(userId: number, viewId: string): Promise<boolean> {
+  return updateJsonStore(storeName(userId), EMPTY_DOCUMENT, (document) => {
+    const views = document.views.filter((view) => view.id !== viewId);
+    return { data: { views }, result: views.length < document.views.length };
+  });
+}
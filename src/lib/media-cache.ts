@@ -0,0 +1,166 @@
+/**
+ * Media Cache
+ * Disk cache for WhatsApp media proxied from Cortex. Media IDs never change
+ * content, so entries are kept until evicted. Server-only.
+ *
+ * Each entry is a `<id>.bin` file with a `<id>.json` sidecar holding its
+ * content type and filename. The total size is bounded by MEDIA_CACHE_MAX_BYTES
+ * (default 500 MB); the least recently used entries are evicted first.
+ */
+
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { DATA_DIR } from '@/lib/json-store';
+
+const CACHE_DIR = path.join(DATA_DIR, 'media-cache');
+
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+
+const MAX_BYTES = Number(process.env.MEDIA_CACHE_MAX_BYTES) || DEFAULT_MAX_BYTES;
+
+// Files larger than this share of the cache are served but not stored
+const MAX_ENTRY_SHARE = 0.25;
+
+export interface CachedMedia {
+  file: string;
+  size: number;
+  content_type: string;
+  filename: string | null;
+}
+
+interface MediaMetadata {
+  content_type: string;
+  filename: string | null;
+  size: number;
+}
+
+// Eviction in progress, so concurrent writes don't evict twice
+let evicting: Promise<void> | null = null;
+
+function resolvePaths(mediaId: string) {
+  return {
+    file: path.join(CACHE_DIR, `${mediaId}.bin`),
+    metadata: path.join(CACHE_DIR, `${mediaId}.json`),
+  };
+}
+
+/**
+ * Look up a cached file, marking it as recently used
+ */
+export async function getCachedMedia(mediaId: string): Promise<CachedMedia | null> {
+  const paths = resolvePaths(mediaId);
+  try {
+    const metadata = JSON.parse(await fs.readFile(paths.metadata, 'utf8')) as MediaMetadata;
+    const stat = await fs.stat(paths.file);
+    if (stat.size !== metadata.size) return null;
+
+    const now = new Date();
+    await fs.utimes(paths.file, now, now).catch(() => undefined);
+
+    return {
+      file: paths.file,
+      size: stat.size,
+      content_type: metadata.content_type,
+      filename: metadata.filename,
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Whether a file of this size can be cached
+ */
+export function isCacheableMediaSize(size: number): boolean {
+  return size <= MAX_BYTES * MAX_ENTRY_SHARE;
+}
+
+/**
+ * Write a downloaded file to the cache as it streams in, then evict old
+ * entries if the cache is over its limit. Fails, leaving nothing behind, when
+ * the stream doesn't deliver exactly `size` bytes.
+ */
+export async function cacheMedia(
+  mediaId: string,
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+  filename: string | null,
+  size: number
+): Promise<CachedMedia> {
+  if (!isCacheableMediaSize(size)) {
+    await body.cancel();
+    throw new Error(`Media ${mediaId} is too large to cache`);
+  }
+
+  const paths = resolvePaths(mediaId);
+  // Unique per write, so concurrent downloads of the same file don't collide
+  const tempFile = `${paths.file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  const metadata: MediaMetadata = { content_type: contentType, filename, size };
+
+  let written = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      written += chunk.length;
+      callback(written > size ? new Error(`Media ${mediaId} is larger than reported`) : null, chunk);
+    },
+  });
+
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+  try {
+    await pipeline(
+      Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+      counter,
+      createWriteStream(tempFile)
+    );
+    if (written !== size) {
+      throw new Error(`Media ${mediaId} download ended after ${written} of ${size} bytes`);
+    }
+    await fs.rename(tempFile, paths.file);
+    await fs.writeFile(paths.metadata, JSON.stringify(metadata), 'utf8');
+  } catch (error) {
+    await fs.rm(tempFile, { force: true });
+    throw error;
+  }
+
+  if (!evicting) {
+    evicting = evictMedia().finally(() => {
+      evicting = null;
+    });
+  }
+  await evicting;
+  return { file: paths.file, size, content_type: contentType, filename };
+}
+
+/**
+ * Delete least recently used entries until the cache fits within MAX_BYTES
+ */
+async function evictMedia(): Promise<void> {
+  const names = await fs.readdir(CACHE_DIR);
+  const entries: Array<{ id: string; size: number; usedAt: number }> = [];
+
+  for (const name of names) {
+    if (!name.endsWith('.bin')) continue;
+    try {
+      const stat = await fs.stat(path.join(CACHE_DIR, name));
+      entries.push({ id: name.slice(0, -'.bin'.length), size: stat.size, usedAt: stat.mtimeMs });
+    } catch {
+      // Removed by another request
+    }
+  }
+
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (total <= MAX_BYTES) return;
+
+  entries.sort((a, b) => a.usedAt - b.usedAt);
+  for (const entry of entries) {
+    if (total <= MAX_BYTES) break;
+    const paths = resolvePaths(entry.id);
+    await fs.rm(paths.file, { force: true });
+    await fs.rm(paths.metadata, { force: true });
+    total -= entry.size;
+  }
+}
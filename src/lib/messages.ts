@@ -0,0 +1,227 @@
+/**
+ * Message Normalization
+ * Gives every Cortex message a stable ID, its own timestamp and a delivery status,
+ * and pages through the thread by message ID.
+ *
+ * Cortex returns messages as a plain array and keeps WhatsApp/Kapso delivery
+ * details in free-form metadata, so the API routes normalize them here before
+ * they reach the chat thread.
+ */
+
+import type {
+  ConversationObject,
+  Message,
+  MessageDeliveryError,
+  MessageDeliveryStatus,
+  MessagePage,
+  MessageStatusUpdate,
+} from '@/types/cortex';
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 200;
+// Outbound messages near the end of the thread whose status is re-sent on `since` requests
+const STATUS_WINDOW = 50;
+
+// Metadata keys that may hold the WhatsApp message ID, in order of preference
+const MESSAGE_ID_KEYS = ['message_id', 'wamid', 'whatsapp_message_id', 'kapso_message_id'];
+
+// Raw Kapso/WhatsApp statuses mapped to the lifecycle shown in the UI
+const STATUS_MAP: Record<string, MessageDeliveryStatus> = {
+  pending: 'queued',
+  queued: 'queued',
+  accepted: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  played: 'read', // Voice notes report "played" instead of "read"
+  failed: 'failed',
+  error: 'failed',
+  undelivered: 'failed',
+};
+
+// Order of the lifecycle, used to never move a message backwards
+const STATUS_RANK: Record<MessageDeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+/**
+ * Short, deterministic hash (FNV-1a) for messages without a WhatsApp ID
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function getMetadataString(metadata: Message['metadata'], key: string): string | undefined {
+  const value = metadata?.[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * WhatsApp message ID from the message metadata, if Cortex recorded one
+ */
+export function getWhatsAppMessageId(message: Message): string | undefined {
+  for (const key of MESSAGE_ID_KEYS) {
+    const id = getMetadataString(message.metadata, key);
+    if (id) return id;
+  }
+  return undefined;
+}
+
+/**
+ * Delivery status of an outbound message.
+ * Takes the furthest status found in kapso_status, status or a statuses history.
+ */
+export function getMessageStatus(message: Message): MessageDeliveryStatus | undefined {
+  if (message.role !== 'assistant') return undefined;
+
+  const metadata = message.metadata;
+  const raw: unknown[] = [metadata?.kapso_status, metadata?.status];
+  if (Array.isArray(metadata?.statuses)) {
+    for (const entry of metadata.statuses) {
+      raw.push(typeof entry === 'object' && entry ? (entry as { status?: unknown }).status : entry);
+    }
+  }
+
+  let status: MessageDeliveryStatus | undefined;
+  for (const value of raw) {
+    const mapped = typeof value === 'string' ? STATUS_MAP[value.toLowerCase()] : undefined;
+    if (mapped && (!status || STATUS_RANK[mapped] > STATUS_RANK[status])) {
+      status = mapped;
+    }
+  }
+  return status;
+}
+
+/**
+ * Error reason of a failed message (failure_reason from Kapso, or a WhatsApp error object)
+ */
+export function getMessageError(message: Message): MessageDeliveryError | null {
+  const metadata = message.metadata;
+  const candidates: unknown[] = [
+    metadata?.failure_reason,
+    metadata?.error,
+    Array.isArray(metadata?.errors) ? metadata.errors[0] : undefined,
+  ];
+
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && candidate) {
+      return { title: candidate };
+    }
+    if (typeof candidate === 'object' && candidate) {
+      const { code, title, message: text } = candidate as {
+        code?: number | string;
+        title?: string;
+        message?: string;
+      };
+      if (code !== undefined || title || text) {
+        return { code, title: title || text };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize the messages of a conversation for the chat thread.
+ * - id: WhatsApp message ID, or a hash of the message so it survives new messages arriving
+ * - created_at: the message's own timestamp; falls back to the previous message, then the conversation
+ * - status/error: delivery lifecycle for outbound messages
+ */
+export function normalizeMessages(conversation: ConversationObject): Message[] {
+  const seen = new Map<string, number>();
+  let lastTimestamp = conversation.created_at;
+
+  return conversation.conversation.map((msg) => {
+    const createdAt = msg.created_at || getMetadataString(msg.metadata, 'timestamp') || lastTimestamp;
+    lastTimestamp = createdAt;
+
+    let id = msg.id || getWhatsAppMessageId(msg);
+    if (!id) {
+      const base = `${conversation.id}-${hashString(`${msg.role}|${createdAt}|${msg.content}`)}`;
+      // Identical messages sent at the same time still get distinct IDs
+      const count = seen.get(base) ?? 0;
+      seen.set(base, count + 1);
+      id = count > 0 ? `${base}-${count}` : base;
+    }
+
+    const status = getMessageStatus(msg);
+
+    return {
+      ...msg,
+      id,
+      created_at: createdAt,
+      status,
+      error: status === 'failed' ? getMessageError(msg) : null,
+    };
+  });
+}
+
+type MessagePageParams = {
+  cursor?: string | null; // Return the page of messages before this message ID
+  since?: string | null; // Return only messages after this message ID
+  limit?: number;
+};
+
+/**
+ * Slice normalized messages into a page.
+ * Cursors are message IDs, which stay valid as new messages are appended.
+ * An unknown cursor, or more new messages than fit in a page, returns the latest page with reset set.
+ */
+export function paginateMessages(
+  messages: Message[],
+  { cursor, since, limit = DEFAULT_MESSAGE_PAGE_SIZE }: MessagePageParams
+): Pick<MessagePage, 'messages' | 'next_cursor' | 'has_more' | 'reset' | 'statuses'> {
+  const pageSize = Math.min(Math.max(1, limit), MAX_MESSAGE_PAGE_SIZE);
+
+  const latestPage = (reset: boolean) => {
+    const start = Math.max(0, messages.length - pageSize);
+    return {
+      messages: messages.slice(start),
+      next_cursor: start > 0 ? messages[start].id ?? null : null,
+      has_more: start > 0,
+      reset,
+      statuses: [],
+    };
+  };
+
+  if (since) {
+    const index = messages.findIndex((msg) => msg.id === since);
+    const newMessages = index === -1 ? null : messages.slice(index + 1);
+    if (!newMessages || newMessages.length > pageSize) return latestPage(true);
+
+    const statuses: MessageStatusUpdate[] = [];
+    for (const msg of messages.slice(Math.max(0, index + 1 - STATUS_WINDOW), index + 1)) {
+      if (msg.id && msg.status) {
+        statuses.push({ id: msg.id, status: msg.status, error: msg.error });
+      }
+    }
+
+    return { messages: newMessages, next_cursor: null, has_more: false, reset: false, statuses };
+  }
+
+  if (cursor) {
+    const end = messages.findIndex((msg) => msg.id === cursor);
+    if (end === -1) return latestPage(true);
+
+    const start = Math.max(0, end - pageSize);
+    return {
+      messages: messages.slice(start, end),
+      next_cursor: start > 0 ? messages[start].id ?? null : null,
+      has_more: start > 0,
+      reset: false,
+      statuses: [],
+    };
+  }
+
+  return latestPage(false);
+}
@@ -0,0 +1,128 @@
+/**
+ * My Tasks
+ * Collects a HubSpot owner's tasks across their leads for /api/crm/tasks/mine.
+ * Server-only.
+ *
+ * Cortex lists tasks per contact only, so collecting them costs one request per
+ * conversation scanned. Results are cached per owner for a few minutes, and
+ * concurrent requests share a collection in flight. Task changes made through
+ * this app drop the cache; changes made in HubSpot show up when it expires or
+ * on an explicit refresh.
+ */
+
+import type { CortexClient } from '@/lib/cortex-client';
+import { mapWithConcurrency } from '@/lib/utils';
+import type { ConversationSearchItem, MyTask } from '@/types/cortex';
+
+// Conversations scanned for tasks, and Cortex task requests in flight at once
+const MAX_CONVERSATIONS = 150;
+const TASK_FETCH_CONCURRENCY = 5;
+const OWNER_TASKS_TTL_MS = 2 * 60 * 1000;
+
+export interface OwnerTasks {
+  tasks: MyTask[]; // Owned by the owner, including completed, in no particular order
+  conversations_scanned: number;
+  truncated: boolean; // More conversations than MAX_CONVERSATIONS; older leads weren't scanned
+  failed_conversations: number; // Conversations whose tasks couldn't be loaded
+  collected_at: string;
+}
+
+interface OwnerTasksEntry {
+  expiresAt: number;
+  result: Promise<OwnerTasks>;
+}
+
+// Kept on globalThis so dev hot reloads share one cache
+const globalForTasks = globalThis as typeof globalThis & { __ownerTasks?: Map<string, OwnerTasksEntry> };
+const cache: Map<string, OwnerTasksEntry> = globalForTasks.__ownerTasks ??= new Map();
+
+async function collectOwnerTasks(client: CortexClient, ownerId: string, sdrId: number | null): Promise<OwnerTasks> {
+  // Collect conversations page by page
+  const conversations: ConversationSearchItem[] = [];
+  let cursor: string | undefined;
+  let hasMore = false;
+  do {
+    const page = await client.searchConversations({
+      assigned_sdr_id: sdrId ?? undefined,
+      cursor,
+      limit: Math.min(100, MAX_CONVERSATIONS - conversations.length),
+    });
+    conversations.push(...page.items);
+    hasMore = page.has_more;
+    cursor = page.has_more && page.next_cursor ? page.next_cursor : undefined;
+  } while (cursor && conversations.length < MAX_CONVERSATIONS);
+
+  // One lead failing (e.g. no HubSpot contact) doesn't fail the whole list
+  let failed = 0;
+  const taskLists = await mapWithConcurrency(
+    conversations.filter((conversation) => conversation.client_phone),
+    TASK_FETCH_CONCURRENCY,
+    async (conversation): Promise<MyTask[]> => {
+      try {
+        const { tasks } = await client.getTasks({ phone: conversation.client_phone! });
+        return tasks
+          .filter((task) => task.owner_id === ownerId)
+          .map((task) => ({
+            ...task,
+            lead: {
+              id: conversation.id,
+              external_id: conversation.external_id,
+              name: conversation.client_name,
+              phone: conversation.client_phone,
+              company: conversation.client_company,
+            },
+          }));
+      } catch (error) {
+        console.error(`Error fetching tasks for conversation ${conversation.id}:`, error);
+        failed++;
+        return [];
+      }
+    }
+  );
+
+  return {
+    tasks: taskLists.flat(),
+    conversations_scanned: conversations.length,
+    truncated: hasMore,
+    failed_conversations: failed,
+    collected_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Get a HubSpot owner's tasks from the leads assigned to their SDR profile, or
+ * from the most recent leads when they have none. Pass a client without a
+ * request signal: the collection is shared with other callers.
+ */
+export function getOwnerTasks(
+  client: CortexClient,
+  ownerId: string,
+  sdrId: number | null,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<OwnerTasks> {
+  const now = Date.now();
+  const key = `${ownerId}:${sdrId ?? ''}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now && !refresh) {
+    return cached.result;
+  }
+
+  const entry: OwnerTasksEntry = {
+    expiresAt: now + OWNER_TASKS_TTL_MS,
+    result: collectOwnerTasks(client, ownerId, sdrId),
+  };
+  cache.set(key, entry);
+  // Don't keep failures; the next request tries again
+  entry.result.catch(() => {
+    if (cache.get(key) === entry) cache.delete(key);
+  });
+
+  return entry.result;
+}
+
+/**
+ * Drop every cached task list, e.g. after a task was created, updated or deleted
+ */
+export function invalidateOwnerTasks() {
+  cache.clear();
+}
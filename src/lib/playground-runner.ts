@@ -0,0 +1,70 @@
+/**
+ * Playground Runner
+ * Runs an agent node against a sample conversation for the AI Brain
+ * playground. Server-only.
+ *
+ * Set AI_PLAYGROUND_RUNNER=stub to use a local stub instead of Cortex, e.g. to
+ * work on the playground offline. The stub makes no network calls; its reply
+ * and state are derived from the conversation with simple pattern matching.
+ */
+
+import type { CortexClient } from '@/lib/cortex-client';
+import type { PlaygroundRunRequest, PlaygroundRunResponse, PlaygroundRunResult } from '@/types/cortex';
+
+export type PlaygroundRunnerName = PlaygroundRunResult['source'];
+
+export type PlaygroundRunner = (request: PlaygroundRunRequest) => Promise<PlaygroundRunResponse>;
+
+export function getPlaygroundRunnerName(): PlaygroundRunnerName {
+  return process.env.AI_PLAYGROUND_RUNNER === 'stub' ? 'stub' : 'cortex';
+}
+
+// Field name fragments mapped to the pattern whose first group is the value
+const STUB_EXTRACTORS: Array<{ match: RegExp; pattern: RegExp }> = [
+  { match: /email/i, pattern: /([\w.+-]+@[\w-]+\.[\w.-]+)/ },
+  { match: /phone/i, pattern: /(\+?\d[\d\s-]{7,}\d)/ },
+  { match: /company|business/i, pattern: /\b(?:work (?:at|for)|from|company is|trabajo en|empresa(?: es)?)\s+([A-Z][\w&.-]*(?:\s+[A-Z][\w&.-]*)*)/ },
+  { match: /name/i, pattern: /\b(?:[Mm]y name is|I'm|I am|[Mm]e llamo|[Ss]oy)\s+([A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)?)/ },
+  { match: /invoice|count|number|amount/i, pattern: /(\d[\d,.]*)/ },
+];
+
+function extractStubState(request: PlaygroundRunRequest): Record<string, unknown> {
+  const userText = request.messages
+    .filter((message) => message.role === 'user')
+    .map((message) => message.content)
+    .join('\n');
+
+  const state: Record<string, unknown> = {};
+  for (const field of request.state_fields ?? []) {
+    const extractor = STUB_EXTRACTORS.find((candidate) => candidate.match.test(field));
+    const value = extractor?.pattern.exec(userText)?.[1];
+    if (value) state[field] = value.trim();
+  }
+  return state;
+}
+
+const stubRunner: PlaygroundRunner = async (request) => {
+  const lastUserMessage = [...request.messages].reverse().find((message) => message.role === 'user');
+  const promptSource = request.prompt_content
+    ? `a ${request.prompt_content.length}-character prompt override`
+    : request.prompt_id
+      ? `the live "${request.prompt_id}" prompt`
+      : 'the node\'s default prompts';
+
+  return {
+    node: request.node,
+    reply:
+      `[Stub ${request.node}] Got it: "${lastUserMessage?.content ?? ''}". ` +
+      `This reply was generated locally from ${promptSource} and ${request.messages.length} messages.`,
+    state: extractStubState(request),
+  };
+};
+
+/**
+ * Runner for the configured backend. `getClient` is only called for Cortex,
+ * so the stub needs no session or API connection.
+ */
+export function getPlaygroundRunner(getClient: () => Promise<CortexClient>): PlaygroundRunner {
+  if (getPlaygroundRunnerName() === 'stub') return stubRunner;
+  return async (request) => (await getClient()).runAIPlayground(request);
+}
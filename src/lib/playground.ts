@@ -0,0 +1,117 @@
+/**
+ * Playground
+ * Builds playground conversations from pasted transcripts and recorded
+ * conversations. Safe to use on client and server.
+ */
+
+import type { AgentNode, Message, PlaygroundMessage } from '@/types/cortex';
+
+export const AGENT_NODES: AgentNode[] = [
+  'orchestrator',
+  'qa_agent',
+  'data_gathering_agent',
+  'qualification_agent',
+  'scheduling_agent',
+  'global',
+];
+
+// Longest conversation a playground run accepts, in messages
+export const MAX_PLAYGROUND_MESSAGES = 200;
+
+// Speaker labels recognised at the start of a transcript line
+const SPEAKER_PATTERN = /^\s*(user|lead|customer|client|agent|assistant|bot|ai)\s*:\s?/i;
+
+const ASSISTANT_SPEAKERS = new Set(['agent', 'assistant', 'bot', 'ai']);
+
+export function isAgentNode(value: unknown): value is AgentNode {
+  return AGENT_NODES.includes(value as AgentNode);
+}
+
+/**
+ * Parse a pasted transcript with one `Speaker: text` turn per line. Lines
+ * without a label continue the previous turn; leading unlabelled text is
+ * treated as the user's.
+ */
+export function parseTranscript(text: string): PlaygroundMessage[] {
+  const messages: PlaygroundMessage[] = [];
+
+  for (const line of text.split('\n')) {
+    const speaker = SPEAKER_PATTERN.exec(line);
+    if (speaker) {
+      messages.push({
+        role: ASSISTANT_SPEAKERS.has(speaker[1].toLowerCase()) ? 'assistant' : 'user',
+        content: line.slice(speaker[0].length),
+      });
+    } else if (messages.length > 0) {
+      messages[messages.length - 1].content += `\n${line}`;
+    } else if (line.trim()) {
+      messages.push({ role: 'user', content: line });
+    }
+  }
+
+  return messages
+    .map((message) => ({ ...message, content: message.content.trim() }))
+    .filter((message) => message.content);
+}
+
+/**
+ * Format messages back into the transcript format parseTranscript reads
+ */
+export function formatTranscript(messages: PlaygroundMessage[]): string {
+  return messages
+    .map((message) => `${message.role === 'user' ? 'User' : 'Agent'}: ${message.content}`)
+    .join('\n');
+}
+
+/**
+ * Split a recorded conversation into the turns up to the last user message
+ * and the agent's recorded reply to it, if any, for comparing against the
+ * playground's reply. System messages and empty messages are dropped.
+ */
+export function toPlaygroundConversation(messages: Message[]): {
+  messages: PlaygroundMessage[];
+  recorded_reply: string | null;
+} {
+  const turns: PlaygroundMessage[] = messages
+    .filter((message) => message.role !== 'system' && message.content?.trim())
+    .map((message) => ({ role: message.role as PlaygroundMessage['role'], content: message.content }));
+
+  let lastUserIndex = turns.length - 1;
+  while (lastUserIndex >= 0 && turns[lastUserIndex].role !== 'user') lastUserIndex--;
+
+  const reply = turns
+    .slice(lastUserIndex + 1)
+    .map((message) => message.content)
+    .join('\n');
+
+  return {
+    messages: turns.slice(0, lastUserIndex + 1),
+    recorded_reply: reply || null,
+  };
+}
+
+/**
+ * Validate a playground conversation, returning an error message when it
+ * can't be run
+ */
+export function validatePlaygroundMessages(messages: unknown): string | null {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return 'The conversation needs at least one message';
+  }
+  if (messages.length > MAX_PLAYGROUND_MESSAGES) {
+    return `The conversation can have at most ${MAX_PLAYGROUND_MESSAGES} messages`;
+  }
+  const valid = messages.every(
+    (message) =>
+      (message?.role === 'user' || message?.role === 'assistant') &&
+      typeof message.content === 'string' &&
+      message.content.trim()
+  );
+  if (!valid) {
+    return 'Each message needs a role of user or assistant and some content';
+  }
+  if (messages[messages.length - 1].role !== 'user') {
+    return 'The conversation must end with a user message for the agent to reply to';
+  }
+  return null;
+}
@@ -0,0 +1,196 @@
+/**
+ * Prompt History Store
+ * Drafts and version history for AI Brain prompts. Cortex holds only the live
+ * content; every draft save, publish and rollback is recorded here with its
+ * author. Server-only.
+ */
+
+import { readJsonStore, updateJsonStore } from '@/lib/json-store';
+import type {
+  PromptDraft,
+  PromptHistoryResponse,
+  PromptVersion,
+  PromptVersionEvent,
+} from '@/types/cortex';
+
+const STORE_NAME = 'prompt-history';
+
+// Oldest versions beyond this are dropped, per prompt
+const MAX_VERSIONS_PER_PROMPT = 100;
+
+// Events after which the version's content is what Cortex serves
+const LIVE_EVENTS: PromptVersionEvent[] = ['baseline', 'published', 'rolled_back'];
+
+interface HistoryDocument {
+  versions: PromptVersion[];
+  drafts: PromptDraft[];
+}
+
+const EMPTY_DOCUMENT: HistoryDocument = { versions: [], drafts: [] };
+
+function getPromptVersions(versions: PromptVersion[], promptId: string): PromptVersion[] {
+  return versions.filter((version) => version.prompt_id === promptId);
+}
+
+function getLatestLiveVersion(versions: PromptVersion[], promptId: string): PromptVersion | null {
+  const live = getPromptVersions(versions, promptId).filter((version) => LIVE_EVENTS.includes(version.event));
+  return live[live.length - 1] ?? null;
+}
+
+function buildVersion(
+  versions: PromptVersion[],
+  promptId: string,
+  fields: Pick<PromptVersion, 'event' | 'content' | 'author'> & Partial<Pick<PromptVersion, 'note' | 'rolled_back_to'>>
+): PromptVersion {
+  const previous = getPromptVersions(versions, promptId);
+  return {
+    id: crypto.randomUUID(),
+    prompt_id: promptId,
+    version: (previous[previous.length - 1]?.version ?? 0) + 1,
+    note: null,
+    rolled_back_to: null,
+    ...fields,
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Record the content Cortex serves as a baseline when history doesn't already
+ * end with it, so it can be diffed against and rolled back to
+ */
+function withBaseline(versions: PromptVersion[], promptId: string, liveContent: string): PromptVersion[] {
+  const latestLive = getLatestLiveVersion(versions, promptId);
+  if (latestLive?.content === liveContent) return versions;
+  return [...versions, buildVersion(versions, promptId, { event: 'baseline', content: liveContent, author: null })];
+}
+
+function pruneVersions(versions: PromptVersion[]): PromptVersion[] {
+  const counts = new Map<string, number>();
+  const kept: PromptVersion[] = [];
+  // Versions are stored oldest first; walk back so the most recent are kept
+  for (let i = versions.length - 1; i >= 0; i--) {
+    const count = (counts.get(versions[i].prompt_id) ?? 0) + 1;
+    counts.set(versions[i].prompt_id, count);
+    if (count <= MAX_VERSIONS_PER_PROMPT) kept.unshift(versions[i]);
+  }
+  return kept;
+}
+
+export async function getPromptHistory(promptId: string): Promise<PromptHistoryResponse> {
+  const document = await readJsonStore(STORE_NAME, EMPTY_DOCUMENT);
+  return {
+    prompt_id: promptId,
+    live_version: getLatestLiveVersion(document.versions, promptId)?.version ?? null,
+    draft: document.drafts.find((draft) => draft.prompt_id === promptId) ?? null,
+    versions: getPromptVersions(document.versions, promptId).reverse(),
+  };
+}
+
+/**
+ * Look up one recorded version of a prompt
+ */
+export async function getPromptVersion(promptId: string, version: number): Promise<PromptVersion | null> {
+  const document = await readJsonStore(STORE_NAME, EMPTY_DOCUMENT);
+  return document.versions.find((v) => v.prompt_id === promptId && v.version === version) ?? null;
+}
+
+/**
+ * Create or replace the prompt's draft. `liveContent` is what Cortex currently
+ * serves, recorded as a baseline if history doesn't know it yet.
+ */
+export async function savePromptDraft(
+  promptId: string,
+  content: string,
+  author: string | null,
+  liveContent: string
+): Promise<PromptDraft> {
+  return updateJsonStore(STORE_NAME, EMPTY_DOCUMENT, (document) => {
+    let versions = withBaseline(document.versions, promptId, liveContent);
+    const baseVersion = getLatestLiveVersion(versions, promptId)?.version ?? null;
+
+    // Saving unchanged content only matters when it moves the draft onto the live version
+    const existing = document.drafts.find((draft) => draft.prompt_id === promptId);
+    if (existing?.content === content && existing.base_version === baseVersion) {
+      return { data: document, result: existing };
+    }
+
+    versions = [...versions, buildVersion(versions, promptId, { event: 'draft', content, author })];
+
+    const draft: PromptDraft = {
+      prompt_id: promptId,
+      content,
+      base_version: baseVersion,
+      author,
+      updated_at: new Date().toISOString(),
+    };
+
+    return {
+      data: {
+        versions: pruneVersions(versions),
+        drafts: [...document.drafts.filter((d) => d.prompt_id !== promptId), draft],
+      },
+      result: draft,
+    };
+  });
+}
+
+/**
+ * Delete the prompt's draft. Returns false when there was none.
+ */
+export async function discardPromptDraft(promptId: string): Promise<boolean> {
+  return updateJsonStore(STORE_NAME, EMPTY_DOCUMENT, (document) => {
+    const drafts = document.drafts.filter((draft) => draft.prompt_id !== promptId);
+    return { data: { ...document, drafts }, result: drafts.length < document.drafts.length };
+  });
+}
+
+export type PromptReleaseResult<T> =
+  | { status: 'released'; prompt: T; version: PromptVersion }
+  | { status: 'conflict' } // Cortex no longer serves the content the edit started from
+  | { status: 'unchanged' }; // The content is already live
+
+/**
+ * Make content live in Cortex through `cortex.update` and record it, clearing
+ * the draft. Runs inside the history store's update so concurrent releases
+ * are checked and recorded one at a time. `baseContent`, when given, is the
+ * live content the edit started from; the release is refused if Cortex now
+ * serves anything else, whether another publish or an edit made in Cortex.
+ */
+export async function releasePrompt<T>(
+  promptId: string,
+  release: {
+    event: Extract<PromptVersionEvent, 'published' | 'rolled_back'>;
+    content: string;
+    author: string | null;
+    note?: string | null;
+    rolled_back_to?: number | null;
+  },
+  cortex: {
+    getLiveContent: () => Promise<string>;
+    update: () => Promise<T>;
+  },
+  baseContent?: string
+): Promise<PromptReleaseResult<T>> {
+  return updateJsonStore<HistoryDocument, PromptReleaseResult<T>>(STORE_NAME, EMPTY_DOCUMENT, async (document) => {
+    const liveContent = await cortex.getLiveContent();
+    if (baseContent !== undefined && liveContent !== baseContent) {
+      return { data: document, result: { status: 'conflict' } };
+    }
+    if (liveContent === release.content) {
+      return { data: document, result: { status: 'unchanged' } };
+    }
+
+    const prompt = await cortex.update();
+    // Keep what Cortex served before as a baseline if history doesn't know it
+    const versions = withBaseline(document.versions, promptId, liveContent);
+    const version = buildVersion(versions, promptId, release);
+
+    return {
+      data: {
+        versions: pruneVersions([...versions, version]),
+        drafts: document.drafts.filter((draft) => draft.prompt_id !== promptId),
+      },
+      result: { status: 'released', prompt, version },
+    };
+  });
+}
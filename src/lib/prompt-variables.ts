@@ -0,0 +1,60 @@
+/**
+ * Prompt Variables
+ * Finds `{variable}` placeholders in agent prompts for highlighting and
+ * checks. `{{` and `}}` are literal braces, as in Python format strings.
+ * Safe to use on client and server.
+ */
+
+export type PromptSegment = {
+  text: string;
+  variable?: string; // Set when the segment is a placeholder
+  known?: boolean; // Whether the placeholder is one of the prompt's declared variables
+};
+
+const PLACEHOLDER_PATTERN = /\{\{|\}\}|\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Split prompt content into plain text and placeholder segments
+ */
+export function splitPromptVariables(content: string, variables: string[] = []): PromptSegment[] {
+  const declared = new Set(variables);
+  const segments: PromptSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1];
+    if (!name) continue; // Escaped brace
+
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: content.slice(lastIndex, index) });
+    }
+    segments.push({ text: match[0], variable: name, known: declared.has(name) });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ text: content.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * Declared variables the content no longer uses, and placeholders that
+ * aren't declared (usually typos the agent can't fill)
+ */
+export function checkPromptVariables(
+  content: string,
+  variables: string[] = []
+): { missing: string[]; unknown: string[] } {
+  const used = new Set(
+    splitPromptVariables(content, variables)
+      .map((segment) => segment.variable)
+      .filter((name): name is string => !!name)
+  );
+
+  return {
+    missing: variables.filter((name) => !used.has(name)),
+    unknown: [...used].filter((name) => !variables.includes(name)),
+  };
+}
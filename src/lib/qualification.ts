@@ -57,6 +57,15 @@ const qualificationMap: Record<string, QualificationInfo> = {
   },
 };
 
+/**
+ * Known qualification values, best leads first (for filter pickers)
+ */
+export function getQualificationOptions(): { value: string; label: string }[] {
+  return Object.entries(qualificationMap)
+    .sort(([, a], [, b]) => a.priority - b.priority)
+    .map(([value, info]) => ({ value, label: info.label }));
+}
+
 /**
  * Get qualification info for a given value
  */
@@ -0,0 +1,267 @@
+/**
+ * Signed Session
+ * HMAC-SHA256 signed user_info cookie shared by middleware (Edge) and API routes (Node).
+ * Uses Web Crypto only so it runs in both runtimes.
+ *
+ * Cookie format: base64url(JSON payload) + '.' + base64url(signature)
+ *
+ * The payload carries a hash of the auth_token it was issued with, so a signed
+ * cookie is only accepted next to that same token.
+ */
+
+import type { UserRole } from '@/types/cortex';
+
+export const AUTH_TOKEN_COOKIE = 'auth_token';
+export const SESSION_COOKIE = 'user_info';
+
+// Re-check role and active status against Cortex /auth/me after this long
+export const SESSION_REVALIDATE_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface SessionUser {
+  id: number;
+  email: string;
+  role: UserRole;
+  is_active: boolean;
+}
+
+export interface SessionPayload extends SessionUser {
+  exp: number; // Expiry (epoch ms), matches the auth token expiry
+  verified_at: number; // Last time the claims were confirmed by Cortex (epoch ms)
+  token_hash: string; // base64url SHA-256 of the auth_token the session belongs to
+}
+
+export interface ResolvedSession {
+  session: SessionPayload | null;
+  // New cookie value when the session was re-verified against Cortex
+  refreshedValue?: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const MISSING_SECRET_MESSAGE =
+  'SESSION_SECRET environment variable is not set. Set it to a long random string ' +
+  '(e.g. `openssl rand -base64 32`) in .env.local; sessions cannot be signed without it.';
+
+let _signingKey: Promise<CryptoKey> | null = null;
+
+/**
+ * Throw unless sessions can be signed. Called once at startup (see
+ * src/instrumentation.ts) so a misconfigured server fails to boot instead of
+ * failing every request.
+ */
+export function assertSessionConfig() {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error(MISSING_SECRET_MESSAGE);
+  }
+}
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!_signingKey) {
+    const secret = process.env.SESSION_SECRET;
+    if (!secret) {
+      throw new Error(MISSING_SECRET_MESSAGE);
+    }
+
+    _signingKey = crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+  }
+  return _signingKey;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, '=');
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Hash an auth token for binding it to a session
+ */
+async function hashToken(authToken: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(authToken));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Sign session claims into a cookie value
+ */
+export async function signSession(payload: SessionPayload): Promise<string> {
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await getSigningKey();
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(encodedPayload));
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Create a signed session value from a freshly authenticated user and their auth token
+ */
+export async function createSession(user: SessionUser, expiresAt: Date, authToken: string): Promise<string> {
+  return signSession({
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    is_active: user.is_active,
+    exp: expiresAt.getTime(),
+    verified_at: Date.now(),
+    token_hash: await hashToken(authToken),
+  });
+}
+
+/**
+ * Decode the payload WITHOUT verifying the signature.
+ * Only for client-side display; never use for authorization.
+ */
+export function decodeSessionPayload(value: string | null | undefined): SessionPayload | null {
+  if (!value) return null;
+  const [encodedPayload] = value.split('.');
+  if (!encodedPayload) return null;
+
+  try {
+    return JSON.parse(decoder.decode(fromBase64Url(encodedPayload)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify signature, expiry and that the session belongs to `authToken`.
+ * Returns null for forged, malformed, expired or mismatched sessions.
+ */
+export async function verifySession(
+  value: string | null | undefined,
+  authToken: string | null | undefined
+): Promise<SessionPayload | null> {
+  if (!value || !authToken) return null;
+
+  const parts = value.split('.');
+  if (parts.length !== 2) return null;
+  const [encodedPayload, encodedSignature] = parts;
+
+  let valid = false;
+  try {
+    const key = await getSigningKey();
+    valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+  } catch (error) {
+    // Missing secret is a configuration error, not a forged session
+    if (error instanceof Error && error.message === MISSING_SECRET_MESSAGE) throw error;
+    return null;
+  }
+  if (!valid) return null;
+
+  const payload = decodeSessionPayload(value);
+  if (!payload || typeof payload.exp !== 'number' || payload.exp <= Date.now()) {
+    return null;
+  }
+  if (payload.token_hash !== await hashToken(authToken)) {
+    return null;
+  }
+  return payload;
+}
+
+export function isSessionStale(session: SessionPayload): boolean {
+  return Date.now() - session.verified_at > SESSION_REVALIDATE_MS;
+}
+
+/**
+ * Re-check the session claims against Cortex /auth/me.
+ * Returns 'revoked' when Cortex rejects the token or the user was deactivated,
+ * and 'unavailable' when Cortex could not be reached.
+ */
+async function revalidateSession(
+  authToken: string,
+  session: SessionPayload
+): Promise<{ status: 'refreshed'; session: SessionPayload } | { status: 'revoked' } | { status: 'unavailable' }> {
+  const baseUrl = process.env.CORTEX_API_URL;
+  if (!baseUrl) return { status: 'unavailable' };
+
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/auth/me`, {
+      headers: { Authorization: `Bearer ${authToken}` },
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      return { status: 'revoked' };
+    }
+    if (!response.ok) {
+      return { status: 'unavailable' };
+    }
+
+    const user: SessionUser = await response.json();
+    if (!user.is_active) {
+      return { status: 'revoked' };
+    }
+
+    return {
+      status: 'refreshed',
+      session: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        is_active: user.is_active,
+        exp: session.exp,
+        verified_at: Date.now(),
+        token_hash: session.token_hash,
+      },
+    };
+  } catch {
+    return { status: 'unavailable' };
+  }
+}
+
+/**
+ * Verify the session cookie and re-check stale claims against Cortex.
+ * Used by both middleware and validateApiAuth so they apply the same rules.
+ */
+export async function resolveSession(
+  authToken: string | undefined,
+  sessionValue: string | undefined
+): Promise<ResolvedSession> {
+  if (!authToken) return { session: null };
+
+  const session = await verifySession(sessionValue, authToken);
+  if (!session) return { session: null };
+
+  if (!isSessionStale(session)) return { session };
+
+  const result = await revalidateSession(authToken, session);
+  if (result.status === 'revoked') return { session: null };
+  // Keep the signed claims if Cortex is temporarily unreachable
+  if (result.status === 'unavailable') return { session };
+
+  return {
+    session: result.session,
+    refreshedValue: await signSession(result.session),
+  };
+}
+
+/**
+ * Cookie options shared by every place that writes the session cookies
+ */
+export function getSessionCookieOptions(expires: Date, httpOnly: boolean) {
+  return {
+    httpOnly,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    expires,
+    path: '/',
+  };
+}
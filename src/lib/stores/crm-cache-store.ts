@@ -79,6 +79,7 @@ interface CRMCacheActions {
   getCRMData: (leadId: string) => CRMData | null;
   setCRMData: (leadId: string, data: CRMData) => void;
   getCRMDataTimeRemaining: (leadId: string) => number | null;
+  invalidateCRMData: (leadId: string) => void;
 
   // Clear all cache
   clearAll: () => void;
@@ -274,6 +275,13 @@ export const useCRMCacheStore = create<CRMCacheStore>((set, get) => ({
     return getTimeRemaining(crmData.get(leadId));
   },
 
+  invalidateCRMData: (leadId: string) => {
+    const { crmData } = get();
+    const newMap = new Map(crmData);
+    newMap.delete(leadId);
+    set({ crmData: newMap });
+  },
+
   // Clear all cache
   clearAll: () => {
     set({
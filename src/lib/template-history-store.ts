@@ -0,0 +1,124 @@
+/**
+ * Template History Store
+ * Records a version of a template each time it is created, changes on sync,
+ * or is deleted. Server-only.
+ */
+
+import { readJsonStore, updateJsonStore } from '@/lib/json-store';
+import { diffTemplateSnapshots, getTemplateKey, toTemplateSnapshot } from '@/lib/template-history';
+import type { Template, TemplateVersion, TemplateVersionEvent } from '@/types/whatsapp';
+
+const STORE_NAME = 'template-history';
+
+// Oldest versions beyond this are dropped, per template
+const MAX_VERSIONS_PER_TEMPLATE = 50;
+
+interface HistoryDocument {
+  versions: TemplateVersion[];
+}
+
+const EMPTY_DOCUMENT: HistoryDocument = { versions: [] };
+
+function getLatestVersion(versions: TemplateVersion[], templateKey: string): TemplateVersion | null {
+  let latest: TemplateVersion | null = null;
+  for (const version of versions) {
+    if (version.template_key === templateKey && (!latest || version.version > latest.version)) {
+      latest = version;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Build the next version for a template, or null when a sync found nothing new
+ */
+function buildVersion(
+  versions: TemplateVersion[],
+  template: Template,
+  event: TemplateVersionEvent,
+  actor: string | null
+): TemplateVersion | null {
+  const templateKey = getTemplateKey(template);
+  const previous = getLatestVersion(versions, templateKey);
+  const snapshot = toTemplateSnapshot(template);
+  if (event === 'deleted') snapshot.status = 'DELETED';
+  const changedFields = diffTemplateSnapshots(previous?.snapshot ?? null, snapshot);
+
+  if (event === 'synced' && previous && changedFields.length === 0) {
+    return null;
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    template_key: templateKey,
+    template_id: template.id ?? null,
+    version: (previous?.version ?? 0) + 1,
+    event,
+    snapshot,
+    changed_fields: changedFields,
+    status_from: previous?.snapshot.status ?? null,
+    status_to: snapshot.status ?? null,
+    actor,
+    created_at: new Date().toISOString(),
+  };
+}
+
+function pruneVersions(versions: TemplateVersion[]): TemplateVersion[] {
+  const counts = new Map<string, number>();
+  const kept: TemplateVersion[] = [];
+  // Versions are stored oldest first; walk back so the most recent are kept
+  for (let i = versions.length - 1; i >= 0; i--) {
+    const count = (counts.get(versions[i].template_key) ?? 0) + 1;
+    counts.set(versions[i].template_key, count);
+    if (count <= MAX_VERSIONS_PER_TEMPLATE) kept.unshift(versions[i]);
+  }
+  return kept;
+}
+
+/**
+ * Record templates as seen after a create, sync or delete. Templates whose
+ * content and status are unchanged since their last version are skipped
+ * when syncing. Returns the versions that were added.
+ */
+export async function recordTemplateVersions(
+  templates: Template[],
+  event: TemplateVersionEvent,
+  actor: string | null
+): Promise<TemplateVersion[]> {
+  if (templates.length === 0) return [];
+
+  return updateJsonStore(STORE_NAME, EMPTY_DOCUMENT, (document) => {
+    const versions = [...document.versions];
+    const added: TemplateVersion[] = [];
+
+    for (const template of templates) {
+      const version = buildVersion(versions, template, event, actor);
+      if (version) {
+        versions.push(version);
+        added.push(version);
+      }
+    }
+
+    if (added.length === 0) {
+      return { data: document, result: added };
+    }
+    return { data: { versions: pruneVersions(versions) }, result: added };
+  });
+}
+
+/**
+ * List recorded versions, newest first, optionally for one template
+ */
+export async function listTemplateVersions(filter?: {
+  name?: string;
+  language?: string;
+}): Promise<TemplateVersion[]> {
+  const document = await readJsonStore(STORE_NAME, EMPTY_DOCUMENT);
+
+  return document.versions
+    .filter((version) =>
+      (!filter?.name || version.snapshot.name === filter.name) &&
+      (!filter?.language || version.snapshot.language === filter.language)
+    )
+    .reverse();
+}
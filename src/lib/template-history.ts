@@ -0,0 +1,100 @@
+/**
+ * Template History
+ * Snapshot and diff helpers for template versions. Safe to use on client and server.
+ */
+
+import type { Template, TemplateSnapshot, TemplateVersion } from '@/types/whatsapp';
+
+export const SNAPSHOT_FIELDS: Array<keyof TemplateSnapshot> = [
+  'name',
+  'language',
+  'category',
+  'status',
+  'body_text',
+  'header_type',
+  'header_text',
+  'footer_text',
+  'buttons_json',
+  'parameter_format',
+  'parameters_json',
+  'rejection_reason',
+  'meta_template_id',
+];
+
+// Content sections shown side by side in the history diff
+export const DIFF_SECTIONS = [
+  { key: 'header', label: 'Header' },
+  { key: 'body', label: 'Body' },
+  { key: 'footer', label: 'Footer' },
+  { key: 'buttons', label: 'Buttons' },
+] as const;
+
+export type DiffSection = (typeof DIFF_SECTIONS)[number]['key'];
+
+export function getTemplateKey(template: Pick<Template, 'name' | 'language'>): string {
+  return `${template.name}:${template.language}`;
+}
+
+export function toTemplateSnapshot(template: Template): TemplateSnapshot {
+  const snapshot: Partial<TemplateSnapshot> = {};
+  for (const field of SNAPSHOT_FIELDS) {
+    const value = template[field];
+    if (value !== undefined && value !== null && value !== '') {
+      (snapshot as Record<string, unknown>)[field] = value;
+    }
+  }
+  return snapshot as TemplateSnapshot;
+}
+
+/**
+ * Snapshot fields whose values differ between two versions
+ */
+export function diffTemplateSnapshots(
+  previous: TemplateSnapshot | null,
+  next: TemplateSnapshot
+): string[] {
+  return SNAPSHOT_FIELDS.filter(
+    (field) => JSON.stringify(previous?.[field] ?? null) !== JSON.stringify(next[field] ?? null)
+  );
+}
+
+/**
+ * Lines of one content section, with buttons flattened to one line each
+ */
+export function getSectionLines(snapshot: TemplateSnapshot | null, section: DiffSection): string[] {
+  if (!snapshot) return [];
+
+  let text: string | undefined;
+  switch (section) {
+    case 'header':
+      text = snapshot.header_type && snapshot.header_type !== 'TEXT'
+        ? `[${snapshot.header_type}]`
+        : snapshot.header_text;
+      break;
+    case 'body':
+      text = snapshot.body_text;
+      break;
+    case 'footer':
+      text = snapshot.footer_text;
+      break;
+    case 'buttons':
+      return (snapshot.buttons_json?.buttons ?? []).map((button) => {
+        const target = button.url || button.phone_number;
+        return `${button.type}: ${button.text ?? ''}${target ? ` → ${target}` : ''}`;
+      });
+  }
+
+  return text ? text.split('\n') : [];
+}
+
+/**
+ * The version recorded just before `version` for the same template, if any
+ */
+export function getPreviousVersion(
+  versions: TemplateVersion[],
+  version: TemplateVersion
+): TemplateVersion | null {
+  return versions
+    .filter((v) => v.template_key === version.template_key && v.version < version.version)
+    .reduce<TemplateVersion | null>((latest, v) => (!latest || v.version > latest.version ? v : latest), null);
+}
@@ -0,0 +1,60 @@
+/**
+ * Template Mapping Store
+ * Persists admin-managed template parameter mappings. Server-only.
+ */
+
+import { readJsonStore, updateJsonStore } from '@/lib/json-store';
+import type { TemplateParameterMapping } from '@/types/whatsapp';
+
+const STORE_NAME = 'template-mappings';
+
+interface MappingDocument {
+  mappings: TemplateParameterMapping[];
+}
+
+const EMPTY_DOCUMENT: MappingDocument = { mappings: [] };
+
+function isSameTemplate(mapping: TemplateParameterMapping, templateName: string, language: string): boolean {
+  return mapping.template_name === templateName && mapping.language === language;
+}
+
+export async function listTemplateMappings(): Promise<TemplateParameterMapping[]> {
+  const document = await readJsonStore(STORE_NAME, EMPTY_DOCUMENT);
+  return document.mappings;
+}
+
+/**
+ * Create or replace the mapping for a template
+ */
+export async function saveTemplateMapping(
+  mapping: TemplateParameterMapping,
+  updatedBy: string | null
+): Promise<TemplateParameterMapping> {
+  const saved: TemplateParameterMapping = {
+    template_name: mapping.template_name,
+    language: mapping.language,
+    parameters: mapping.parameters,
+    updated_by: updatedBy,
+    updated_at: new Date().toISOString(),
+  };
+
+  return updateJsonStore(STORE_NAME, EMPTY_DOCUMENT, (document) => ({
+    data: {
+      mappings: [
+        ...document.mappings.filter((m) => !isSameTemplate(m, saved.template_name, saved.language)),
+        saved,
+      ],
+    },
+    result: saved,
+  }));
+}
+
+/**
+ * Remove a template's mapping. Returns false when there was none.
+ */
+export async function deleteTemplateMapping(templateName: string, language: string): Promise<boolean> {
+  return updateJsonStore(STORE_NAME, EMPTY_DOCUMENT, (document) => {
+    const mappings = document.mappings.filter((m) => !isSameTemplate(m, templateName, language));
+    return { data: { mappings }, result: mappings.length < document.mappings.length };
+  });
+}
@@ -0,0 +1,387 @@
+/**
+ * Template Parameter Mapping
+ * Resolves template parameter values from lead, HubSpot, deal and sender data
+ * using the admin-managed mapping, and renders the filled message for preview.
+ * Shared by the template dialogs (client) and the mapping API (validation).
+ */
+
+import type {
+  ContactData,
+  Template,
+  TemplateParameterInfo,
+  TemplateParameterMapping,
+  TemplateParameterRule,
+  TemplateParameterSource,
+  TemplateValueFormat,
+} from '@/types/whatsapp';
+import type { HubSpotContactProperties, HubSpotDeal, SDRAgent } from '@/types/cortex';
+
+/**
+ * Everything a parameter can be filled from when sending to one lead
+ */
+export interface TemplateRenderContext {
+  lead?: ContactData;
+  hubspot?: HubSpotContactProperties | null;
+  deal?: Partial<HubSpotDeal> | null;
+  sender?: Partial<SDRAgent> | null;
+  locale?: string; // BCP 47, used by date/number/currency formats
+}
+
+export type ParameterOrigin = 'mapped' | 'fallback' | 'auto' | 'missing';
+
+export interface ResolvedParameter {
+  value: string;
+  origin: ParameterOrigin;
+}
+
+export interface RenderedSegment {
+  text: string;
+  param?: string;
+  missing?: boolean;
+}
+
+type FieldOption = { id: string; label: string };
+
+export const TEMPLATE_PARAMETER_SOURCES: { id: TemplateParameterSource; label: string }[] = [
+  { id: 'lead', label: 'Lead' },
+  { id: 'hubspot', label: 'HubSpot property' },
+  { id: 'deal', label: 'Deal' },
+  { id: 'sender', label: 'Sender (SDR)' },
+  { id: 'static', label: 'Fixed text' },
+];
+
+// Fields offered per source; HubSpot accepts any property name
+export const TEMPLATE_SOURCE_FIELDS: Record<Exclude<TemplateParameterSource, 'static'>, FieldOption[]> = {
+  lead: [
+    { id: 'first_name', label: 'First name' },
+    { id: 'last_name', label: 'Last name' },
+    { id: 'name', label: 'Full name' },
+    { id: 'company', label: 'Company' },
+    { id: 'position', label: 'Position' },
+    { id: 'email', label: 'Email' },
+    { id: 'phone', label: 'Phone' },
+  ],
+  hubspot: [
+    { id: 'firstname', label: 'firstname' },
+    { id: 'lastname', label: 'lastname' },
+    { id: 'email', label: 'email' },
+    { id: 'company', label: 'company' },
+    { id: 'jobtitle', label: 'jobtitle' },
+    { id: 'city', label: 'city' },
+    { id: 'country', label: 'country' },
+    { id: 'website', label: 'website' },
+    { id: 'lifecyclestage', label: 'lifecyclestage' },
+  ],
+  deal: [
+    { id: 'dealname', label: 'Deal name' },
+    { id: 'amount', label: 'Amount' },
+    { id: 'dealstage_label', label: 'Stage' },
+    { id: 'pipeline_label', label: 'Pipeline' },
+    { id: 'closedate', label: 'Close date' },
+    { id: 'createdate', label: 'Created date' },
+  ],
+  sender: [
+    { id: 'first_name', label: 'First name' },
+    { id: 'name', label: 'Full name' },
+    { id: 'email', label: 'Email' },
+    { id: 'timezone', label: 'Timezone' },
+  ],
+};
+
+export const TEMPLATE_VALUE_FORMATS: { id: TemplateValueFormat; label: string }[] = [
+  { id: 'text', label: 'As is' },
+  { id: 'capitalize', label: 'Capitalize' },
+  { id: 'uppercase', label: 'UPPERCASE' },
+  { id: 'lowercase', label: 'lowercase' },
+  { id: 'number', label: 'Number' },
+  { id: 'currency', label: 'Currency' },
+  { id: 'date', label: 'Date' },
+  { id: 'datetime', label: 'Date and time' },
+];
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Auto-fill parameter values based on parameter name matching contact data fields
+ */
+export function getAutoFillValue(paramName: string, contactData?: ContactData): string {
+  if (!contactData) return '';
+
+  const lowerName = paramName.toLowerCase();
+
+  // Name variations
+  if (lowerName.includes('name') && !lowerName.includes('last') && !lowerName.includes('company')) {
+    if (lowerName.includes('first') || lowerName === 'name' || lowerName === 'customer_name' || lowerName === 'client_name') {
+      return contactData.firstName || contactData.name || '';
+    }
+    if (lowerName.includes('last')) {
+      return contactData.lastName || '';
+    }
+    if (lowerName.includes('full')) {
+      return contactData.name || `${contactData.firstName || ''} ${contactData.lastName || ''}`.trim();
+    }
+    return contactData.firstName || contactData.name || '';
+  }
+
+  // Email
+  if (lowerName.includes('email') || lowerName.includes('correo')) {
+    return contactData.email || '';
+  }
+
+  // Phone
+  if (lowerName.includes('phone') || lowerName.includes('telefono') || lowerName.includes('numero')) {
+    return contactData.phone || '';
+  }
+
+  // Company
+  if (lowerName.includes('company') || lowerName.includes('empresa') || lowerName.includes('organization')) {
+    return contactData.company || '';
+  }
+
+  // Position/Title
+  if (lowerName.includes('position') || lowerName.includes('title') || lowerName.includes('cargo') || lowerName.includes('puesto')) {
+    return contactData.position || '';
+  }
+
+  return '';
+}
+
+/**
+ * Template language code (e.g. "es_MX") to a locale for Intl formatting
+ */
+export function getTemplateLocale(language: string | undefined): string | undefined {
+  return language ? language.replace('_', '-') : undefined;
+}
+
+/**
+ * Find the mapping saved for a template, if any
+ */
+export function findTemplateMapping(
+  mappings: TemplateParameterMapping[],
+  template: Pick<Template, 'name' | 'language'>
+): TemplateParameterMapping | undefined {
+  return mappings.find((m) => m.template_name === template.name && m.language === template.language);
+}
+
+/**
+ * Sources a mapping reads from, so callers only load the data they need
+ */
+export function getRequiredSources(mapping: TemplateParameterMapping | undefined): Set<TemplateParameterSource> {
+  return new Set(Object.values(mapping?.parameters ?? {}).map((rule) => rule.source));
+}
+
+function splitName(name: string | null | undefined): [string, string] {
+  const [first = '', ...rest] = (name || '').trim().split(/\s+/);
+  return [first, rest.join(' ')];
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+/**
+ * Read one field from the render context
+ */
+export function readTemplateField(
+  context: TemplateRenderContext,
+  source: Exclude<TemplateParameterSource, 'static'>,
+  field: string | undefined
+): string {
+  if (!field) return '';
+
+  switch (source) {
+    case 'lead': {
+      const lead = context.lead ?? {};
+      const [first, last] = splitName(lead.name);
+      if (field === 'first_name') return toText(lead.firstName || first);
+      if (field === 'last_name') return toText(lead.lastName || last);
+      return toText(lead[field as keyof ContactData]);
+    }
+    case 'hubspot':
+      return toText(context.hubspot?.[field]);
+    case 'deal':
+      return toText(context.deal?.[field as keyof HubSpotDeal]);
+    case 'sender': {
+      const sender = context.sender ?? {};
+      if (field === 'first_name') return splitName(sender.name)[0];
+      return toText(sender[field as keyof SDRAgent]);
+    }
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// HubSpot returns dates as ISO strings or epoch milliseconds. Date-only values
+// ("2024-03-05", or date properties as UTC midnight) mark a calendar day, not an instant.
+function parseDate(raw: string): { date: Date; dateOnly: boolean } | null {
+  const isEpoch = /^\d{11,}$/.test(raw);
+  const date = isEpoch ? new Date(Number(raw)) : new Date(raw);
+  if (isNaN(date.getTime())) return null;
+  const dateOnly = isEpoch ? date.getTime() % DAY_MS === 0 : /^\d{4}-\d{2}-\d{2}$/.test(raw);
+  return { date, dateOnly };
+}
+
+/**
+ * Apply a display format; values that can't be parsed are returned unchanged
+ */
+export function formatTemplateValue(
+  raw: string,
+  format: TemplateValueFormat | undefined,
+  options: { locale?: string; currency?: string } = {}
+): string {
+  const { locale, currency = DEFAULT_CURRENCY } = options;
+
+  try {
+    switch (format) {
+      case 'uppercase':
+        return raw.toLocaleUpperCase(locale);
+      case 'lowercase':
+        return raw.toLocaleLowerCase(locale);
+      case 'capitalize':
+        return raw.toLocaleLowerCase(locale).replace(/(^|\s)(\S)/g, (_, space, char) => space + char.toLocaleUpperCase(locale));
+      case 'number':
+      case 'currency': {
+        const amount = Number(raw.replace(/,/g, ''));
+        if (isNaN(amount)) return raw;
+        return new Intl.NumberFormat(locale, format === 'currency' ? { style: 'currency', currency } : undefined).format(amount);
+      }
+      case 'date':
+      case 'datetime': {
+        const parsed = parseDate(raw);
+        if (!parsed) return raw;
+        // Date-only values are UTC midnight; formatting them in a local time zone could show the previous day
+        return parsed.date.toLocaleString(locale, {
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+          ...(parsed.dateOnly
+            ? { timeZone: 'UTC' }
+            : format === 'datetime' && { hour: '2-digit', minute: '2-digit' }),
+        });
+      }
+      default:
+        return raw;
+    }
+  } catch {
+    // Invalid locale or currency code
+    return raw;
+  }
+}
+
+/**
+ * Resolve one parameter: mapped field, then its fallback.
+ * Unmapped parameters keep the name-based auto-fill guess.
+ */
+export function resolveTemplateParameter(
+  paramName: string,
+  rule: TemplateParameterRule | undefined,
+  context: TemplateRenderContext
+): ResolvedParameter {
+  if (!rule) {
+    const value = getAutoFillValue(paramName, context.lead);
+    return value ? { value, origin: 'auto' } : { value: '', origin: 'missing' };
+  }
+
+  const raw = rule.source === 'static'
+    ? toText(rule.value)
+    : readTemplateField(context, rule.source, rule.field);
+
+  if (raw) {
+    return {
+      value: formatTemplateValue(raw, rule.format, { locale: context.locale, currency: rule.currency }),
+      origin: 'mapped',
+    };
+  }
+  if (rule.fallback?.trim()) {
+    return { value: rule.fallback.trim(), origin: 'fallback' };
+  }
+  return { value: '', origin: 'missing' };
+}
+
+/**
+ * Resolve every parameter of a template for one lead
+ */
+export function resolveTemplateParameters(
+  parameterInfo: TemplateParameterInfo,
+  mapping: TemplateParameterMapping | undefined,
+  context: TemplateRenderContext
+): Record<string, ResolvedParameter> {
+  const resolved: Record<string, ResolvedParameter> = {};
+  parameterInfo.parameters.forEach((param) => {
+    resolved[param.name] = resolveTemplateParameter(param.name, mapping?.parameters[param.name], context);
+  });
+  return resolved;
+}
+
+/**
+ * Split header/body text into literal text and filled placeholders.
+ * Positional placeholders ({{1}}) match parameters named like "body_param_1".
+ */
+export function renderTemplateSegments(
+  text: string,
+  component: 'HEADER' | 'BODY',
+  parameterInfo: TemplateParameterInfo | null,
+  values: Record<string, string>
+): RenderedSegment[] {
+  const segments: RenderedSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(/\{\{(\w+)\}\}/g)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, index) });
+    }
+
+    const key = match[1];
+    const param = parameterInfo?.parameters.find((p) =>
+      p.component === component &&
+      (p.name === key || p.name === `${component.toLowerCase()}_param_${key}` || p.name === `param_${key}`)
+    );
+    const value = param ? values[param.name]?.trim() : '';
+    segments.push(value
+      ? { text: value, param: param?.name }
+      : { text: match[0], param: param?.name, missing: true });
+
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * Check a mapping submitted to the API. Returns an error message, or null when valid.
+ */
+export function validateTemplateMapping(mapping: Partial<TemplateParameterMapping> | null | undefined): string | null {
+  if (!mapping?.template_name || !mapping.language) {
+    return 'template_name and language are required';
+  }
+  if (!mapping.parameters || typeof mapping.parameters !== 'object') {
+    return 'parameters must be an object keyed by parameter name';
+  }
+
+  const sources = TEMPLATE_PARAMETER_SOURCES.map((s) => s.id);
+  const formats = TEMPLATE_VALUE_FORMATS.map((f) => f.id);
+
+  for (const [name, rule] of Object.entries(mapping.parameters)) {
+    if (!rule || !sources.includes(rule.source)) {
+      return `Invalid source for parameter "${name}"`;
+    }
+    if (rule.source === 'static' ? !rule.value?.trim() : !rule.field?.trim()) {
+      return rule.source === 'static'
+        ? `Fixed text is required for parameter "${name}"`
+        : `A field is required for parameter "${name}"`;
+    }
+    if (rule.format && !formats.includes(rule.format)) {
+      return `Invalid format for parameter "${name}"`;
+    }
+    if (rule.format === 'currency' && rule.currency && !/^[A-Z]{3}$/.test(rule.currency)) {
+      return `Currency for parameter "${name}" must be a 3-letter ISO code`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,310 @@
+/**
+ * Template Metrics
+ * Per-template outcomes for /api/metrics/templates, put together from the
+ * template send log and the Cortex conversation, meeting and CRM endpoints.
+ * Server-only.
+ *
+ * For each logged send: it failed if Cortex didn't send it or its WhatsApp
+ * message later reported failed; it got a reply if the lead wrote within 24h;
+ * a meeting booked in the conversation counts for the latest send before it.
+ * Deal stages are the current stage of each lead's HubSpot deal.
+ *
+ * That costs three Cortex requests per conversation, so only the
+ * MAX_CONVERSATIONS most recently sent to are scanned, and outcomes are
+ * cached per date range for a few minutes.
+ */
+
+import type { CortexClient } from '@/lib/cortex-client';
+import { normalizeMessages } from '@/lib/messages';
+import { listTemplateSends, type TemplateSend } from '@/lib/template-send-log';
+import { mapWithConcurrency } from '@/lib/utils';
+import type {
+  DailyTemplatePerformance,
+  HubSpotDeal,
+  Meeting,
+  Message,
+  TemplateMetricsResponse,
+  TemplatePerformance,
+} from '@/types/cortex';
+
+const MAX_CONVERSATIONS = 200;
+const CONVERSATION_FETCH_CONCURRENCY = 5;
+const OUTCOMES_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_RANGES = 20;
+const REPLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface SendOutcome {
+  send: TemplateSend;
+  failed: boolean;
+  replied: boolean;
+  meetings: Meeting[]; // Booked after this send and before the next one in the conversation
+  deal: HubSpotDeal | null;
+}
+
+interface RangeOutcomes {
+  outcomes: SendOutcome[];
+  stageOrder: Map<string, number>; // Stage ID to its position across pipelines
+  conversations_scanned: number;
+  truncated: boolean;
+  failed_conversations: number;
+}
+
+interface ConversationData {
+  messages: Message[];
+  meetings: Meeting[];
+  deal: HubSpotDeal | null;
+}
+
+interface OutcomesEntry {
+  expiresAt: number;
+  result: Promise<RangeOutcomes>;
+}
+
+// Kept on globalThis so dev hot reloads share one cache
+const globalForMetrics = globalThis as typeof globalThis & { __templateOutcomes?: Map<string, OutcomesEntry> };
+const cache: Map<string, OutcomesEntry> = globalForMetrics.__templateOutcomes ??= new Map();
+
+function getTemplateKey(send: Pick<TemplateSend, 'template_name' | 'language'>): string {
+  return `${send.template_name}:${send.language}`;
+}
+
+function toTime(value: string | null | undefined): number {
+  return value ? new Date(value).getTime() : NaN;
+}
+
+async function loadConversation(client: CortexClient, conversationId: number): Promise<ConversationData> {
+  const [conversation, { meetings }, { deal }] = await Promise.all([
+    client.getConversation({ internal_id: conversationId }),
+    client.getMeetings({ conversation_id: conversationId }),
+    // A lead without a HubSpot contact has no deal; that shouldn't drop its replies and meetings
+    client.getDeal({ internal_id: conversationId }).catch(() => ({ deal: null })),
+  ]);
+  return { messages: normalizeMessages(conversation), meetings, deal };
+}
+
+/**
+ * Stage positions across pipelines, for listing stages in pipeline order
+ */
+async function loadStageOrder(client: CortexClient): Promise<Map<string, number>> {
+  const order = new Map<string, number>();
+  try {
+    const { pipelines } = await client.getDealPipelines();
+    [...pipelines]
+      .sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0))
+      .flatMap((pipeline) => pipeline.stages)
+      .forEach((stage) => {
+        if (!order.has(stage.id)) order.set(stage.id, order.size);
+      });
+  } catch (error) {
+    console.error('Error fetching deal pipelines for template metrics:', error);
+  }
+  return order;
+}
+
+function getSendOutcomes(sends: TemplateSend[], data: ConversationData | null): SendOutcome[] {
+  const sorted = [...sends].sort((a, b) => toTime(a.sent_at) - toTime(b.sent_at));
+
+  return sorted.map((send, index) => {
+    const sentAt = toTime(send.sent_at);
+    const nextSentAt = index + 1 < sorted.length ? toTime(sorted[index + 1].sent_at) : Infinity;
+    const message = send.message_id ? data?.messages.find((m) => m.id === send.message_id) : undefined;
+
+    return {
+      send,
+      failed: send.failed || message?.status === 'failed',
+      replied: !send.failed && !!data?.messages.some((m) => {
+        const at = toTime(m.created_at);
+        return m.role === 'user' && at > sentAt && at <= sentAt + REPLY_WINDOW_MS;
+      }),
+      meetings: send.failed
+        ? []
+        : (data?.meetings ?? []).filter((meeting) => {
+          const bookedAt = toTime(meeting.created_at);
+          return bookedAt >= sentAt && bookedAt < nextSentAt;
+        }),
+      deal: data?.deal ?? null,
+    };
+  });
+}
+
+async function collectOutcomes(client: CortexClient, startDate: string, endDate: string): Promise<RangeOutcomes> {
+  const sends = await listTemplateSends(startDate, endDate);
+
+  // Sends grouped by conversation, most recently sent to first
+  const byConversation = new Map<number, TemplateSend[]>();
+  const unlinked: TemplateSend[] = [];
+  [...sends].reverse().forEach((send) => {
+    if (send.conversation_id === null) {
+      unlinked.push(send);
+      return;
+    }
+    const group = byConversation.get(send.conversation_id) ?? [];
+    group.push(send);
+    byConversation.set(send.conversation_id, group);
+  });
+  const conversationIds = [...byConversation.keys()];
+  const scanned = conversationIds.slice(0, MAX_CONVERSATIONS);
+
+  let failed = 0;
+  const [stageOrder, perConversation] = await Promise.all([
+    loadStageOrder(client),
+    mapWithConcurrency(scanned, CONVERSATION_FETCH_CONCURRENCY, async (conversationId) => {
+      try {
+        return await loadConversation(client, conversationId);
+      } catch (error) {
+        console.error(`Error loading conversation ${conversationId} for template metrics:`, error);
+        failed++;
+        return null;
+      }
+    }),
+  ]);
+
+  // Sends to conversations that weren't scanned still count as sends
+  const outcomes = [
+    ...scanned.flatMap((id, index) => getSendOutcomes(byConversation.get(id)!, perConversation[index])),
+    ...conversationIds.slice(MAX_CONVERSATIONS).flatMap((id) => getSendOutcomes(byConversation.get(id)!, null)),
+    ...getSendOutcomes(unlinked, null),
+  ];
+
+  return {
+    outcomes,
+    stageOrder,
+    conversations_scanned: scanned.length,
+    truncated: conversationIds.length > MAX_CONVERSATIONS,
+    failed_conversations: failed,
+  };
+}
+
+/**
+ * Outcomes of every send in the range, from the cache when fresh
+ */
+function getRangeOutcomes(
+  client: CortexClient,
+  userId: number,
+  startDate: string,
+  endDate: string,
+  refresh: boolean
+): Promise<RangeOutcomes> {
+  const now = Date.now();
+  const key = `${userId}:${startDate}:${endDate}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now && !refresh) {
+    return cached.result;
+  }
+
+  cache.forEach((entry, cachedKey) => {
+    if (entry.expiresAt <= now) cache.delete(cachedKey);
+  });
+  // Map iteration is in insertion order, so the oldest go first
+  for (const cachedKey of cache.keys()) {
+    if (cache.size < MAX_CACHED_RANGES) break;
+    cache.delete(cachedKey);
+  }
+
+  const entry: OutcomesEntry = {
+    expiresAt: now + OUTCOMES_TTL_MS,
+    result: collectOutcomes(client, startDate, endDate),
+  };
+  cache.set(key, entry);
+  // Don't keep failures; the next request tries again
+  entry.result.catch(() => {
+    if (cache.get(key) === entry) cache.delete(key);
+  });
+
+  return entry.result;
+}
+
+function summarize(
+  outcomes: SendOutcome[],
+  stageOrder: Map<string, number>
+): Omit<TemplatePerformance, 'template_name' | 'language'> {
+  const stages = new Map<string, { stage_label: string; leads: Set<number> }>();
+  outcomes.forEach(({ send, failed, deal }) => {
+    if (failed || !deal?.dealstage || send.conversation_id === null) return;
+    const stage = stages.get(deal.dealstage) ?? { stage_label: deal.dealstage_label || deal.dealstage, leads: new Set() };
+    stage.leads.add(send.conversation_id);
+    stages.set(deal.dealstage, stage);
+  });
+
+  const position = (stageId: string) => stageOrder.get(stageId) ?? Number.MAX_SAFE_INTEGER;
+
+  return {
+    sends: outcomes.length,
+    delivery_failures: outcomes.filter((outcome) => outcome.failed).length,
+    replies_24h: outcomes.filter((outcome) => outcome.replied).length,
+    meetings_booked: outcomes.reduce((sum, outcome) => sum + outcome.meetings.length, 0),
+    meetings_showed: outcomes.reduce(
+      (sum, outcome) => sum + outcome.meetings.filter((meeting) => meeting.showed === 1).length,
+      0
+    ),
+    deal_stages: [...stages.entries()]
+      .sort(([a], [b]) => position(a) - position(b))
+      .map(([stageId, stage]) => ({ stage_id: stageId, stage_label: stage.stage_label, count: stage.leads.size })),
+  };
+}
+
+function getDailyPerformance(outcomes: SendOutcome[]): DailyTemplatePerformance[] {
+  const days = new Map<string, DailyTemplatePerformance>();
+  outcomes.forEach((outcome) => {
+    const day = outcome.send.sent_at.slice(0, 10);
+    const entry = days.get(day) ?? { day, sends: 0, delivery_failures: 0, replies_24h: 0, meetings_booked: 0 };
+    entry.sends++;
+    if (outcome.failed) entry.delivery_failures++;
+    if (outcome.replied) entry.replies_24h++;
+    entry.meetings_booked += outcome.meetings.length;
+    days.set(day, entry);
+  });
+  return [...days.values()].sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/**
+ * Per-template performance between two dates (YYYY-MM-DD, inclusive). Pass a
+ * template to narrow it to that one, with its daily breakdown and meetings.
+ * Pass a client without a request signal: the collection is shared with other callers.
+ */
+export async function getTemplateMetrics(
+  client: CortexClient,
+  userId: number,
+  startDate: string,
+  endDate: string,
+  {
+    template,
+    refresh = false,
+  }: { template?: { template_name: string; language: string }; refresh?: boolean } = {}
+): Promise<TemplateMetricsResponse> {
+  const range = await getRangeOutcomes(client, userId, startDate, endDate, refresh);
+
+  const byTemplate = new Map<string, SendOutcome[]>();
+  range.outcomes.forEach((outcome) => {
+    const key = getTemplateKey(outcome.send);
+    if (template && key !== getTemplateKey(template)) return;
+    const outcomes = byTemplate.get(key) ?? [];
+    outcomes.push(outcome);
+    byTemplate.set(key, outcomes);
+  });
+
+  const templates: TemplatePerformance[] = [...byTemplate.values()].map((outcomes) => ({
+    template_name: outcomes[0].send.template_name,
+    language: outcomes[0].send.language,
+    ...summarize(outcomes, range.stageOrder),
+  }));
+
+  const response: TemplateMetricsResponse = {
+    start_date: startDate,
+    end_date: endDate,
+    templates,
+    conversations_scanned: range.conversations_scanned,
+    truncated: range.truncated,
+    failed_conversations: range.failed_conversations,
+  };
+
+  if (template) {
+    const outcomes = byTemplate.get(getTemplateKey(template)) ?? [];
+    response.data = getDailyPerformance(outcomes);
+    response.meetings = outcomes
+      .flatMap((outcome) => outcome.meetings)
+      .sort((a, b) => toTime(b.created_at) - toTime(a.created_at));
+  }
+
+  return response;
+}
@@ -8,7 +8,7 @@ import type {
 /**
  * Extract parameter placeholders from text (e.g., {{name}}, {{1}})
  */
-function extractPlaceholders(text: string): string[] {
+export function extractPlaceholders(text: string): string[] {
   const matches = text.match(/\{\{(\w+)\}\}/g) || [];
   // Remove duplicates while preserving order
   return [...new Set(matches.map(m => m.replace(/[{}]/g, '')))];
@@ -0,0 +1,63 @@
+/**
+ * Template Send Log
+ * Records each template this app sends, one-off or from a campaign, for
+ * template analytics. Cortex keeps a sent template only as message text in the
+ * conversation, without which template it was. Server-only.
+ */
+
+import { readJsonStore, updateJsonStore } from '@/lib/json-store';
+
+const STORE_NAME = 'template-sends';
+
+// Oldest sends beyond this are dropped
+const MAX_SENDS = 10000;
+
+export interface TemplateSend {
+  id: string;
+  template_name: string;
+  language: string;
+  conversation_id: number | null;
+  phone: string;
+  message_id: string | null; // WhatsApp message ID, to find the message in the thread
+  failed: boolean; // Cortex answered but didn't send
+  sent_by: string | null;
+  sent_at: string;
+}
+
+interface SendLogDocument {
+  sends: TemplateSend[];
+}
+
+const EMPTY_DOCUMENT: SendLogDocument = { sends: [] };
+
+/**
+ * Record a template send that Cortex answered, whether it went out or not
+ */
+export async function recordTemplateSend(send: Omit<TemplateSend, 'id' | 'sent_at'>): Promise<void> {
+  await updateJsonStore(STORE_NAME, EMPTY_DOCUMENT, (document) => ({
+    data: {
+      sends: [
+        ...document.sends,
+        { ...send, id: crypto.randomUUID(), sent_at: new Date().toISOString() },
+      ].slice(-MAX_SENDS),
+    },
+    result: undefined,
+  }));
+}
+
+/**
+ * Sends between two dates (YYYY-MM-DD, inclusive, UTC), oldest first.
+ * Pass template_name and language to narrow it to one template.
+ */
+export async function listTemplateSends(
+  startDate: string,
+  endDate: string,
+  template?: { template_name: string; language: string }
+): Promise<TemplateSend[]> {
+  const document = await readJsonStore(STORE_NAME, EMPTY_DOCUMENT);
+  return document.sends.filter((send) => {
+    const day = send.sent_at.slice(0, 10);
+    if (day < startDate || day > endDate) return false;
+    return !template || (send.template_name === template.template_name && send.language === template.language);
+  });
+}
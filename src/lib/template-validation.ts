@@ -0,0 +1,290 @@
+/**
+ * Template Validation
+ * WhatsApp (Meta) template authoring rules, checked before a template is
+ * submitted for review. Shared by the create form (inline errors) and
+ * POST /api/admin/templates, so bad templates never reach Meta.
+ */
+
+import { extractPlaceholders } from '@/lib/template-parser';
+import type { TemplateButton } from '@/types/whatsapp';
+
+/**
+ * Template as submitted by the create form
+ */
+export interface TemplateDraft {
+  name?: string;
+  category?: string;
+  language?: string;
+  body_text?: string;
+  header_type?: string;
+  header_text?: string;
+  header_handle?: string;
+  footer_text?: string;
+  buttons?: TemplateButton[];
+  parameter_examples?: Record<string, string>;
+}
+
+/**
+ * Error message per form field. Keys are field names, with `buttons.<index>.<field>`
+ * for button fields and `parameter_examples.<param>` for examples.
+ */
+export type TemplateValidationErrors = Record<string, string>;
+
+export const TEMPLATE_LIMITS = {
+  NAME_MAX_LENGTH: 512,
+  HEADER_TEXT_MAX_LENGTH: 60,
+  HEADER_MAX_PARAMETERS: 1,
+  BODY_MAX_LENGTH: 1024,
+  FOOTER_MAX_LENGTH: 60,
+  BUTTON_TEXT_MAX_LENGTH: 25,
+  BUTTONS_MAX: 10,
+  URL_BUTTONS_MAX: 2,
+  PHONE_BUTTONS_MAX: 1,
+  COPY_CODE_BUTTONS_MAX: 1,
+  URL_MAX_LENGTH: 2000,
+  PHONE_MAX_LENGTH: 20,
+  // Meta rejects bodies that are mostly variables; require this many words of text per parameter
+  WORDS_PER_PARAMETER: 2,
+} as const;
+
+const MEDIA_HEADER_TYPES = ['IMAGE', 'VIDEO', 'DOCUMENT'];
+
+const NAME_PATTERN = /^[a-z0-9_]+$/;
+const NAMED_PARAMETER_PATTERN = /^[a-z][a-z0-9_]*$/;
+const POSITIONAL_PARAMETER_PATTERN = /^\d+$/;
+
+function setError(errors: TemplateValidationErrors, field: string, message: string) {
+  // Keep the first problem per field; it's usually the one to fix first
+  if (!errors[field]) errors[field] = message;
+}
+
+/**
+ * Placeholders must be {{1}}, {{2}}, ... without gaps, or all named (lowercase, underscores)
+ */
+function checkPlaceholderNames(
+  placeholders: string[],
+  field: string,
+  errors: TemplateValidationErrors
+) {
+  if (placeholders.length === 0) return;
+
+  const positional = placeholders.filter((p) => POSITIONAL_PARAMETER_PATTERN.test(p));
+  if (positional.length > 0 && positional.length < placeholders.length) {
+    setError(errors, field, 'Use either numbered ({{1}}) or named ({{first_name}}) parameters, not both');
+    return;
+  }
+
+  if (positional.length > 0) {
+    const numbers = positional.map(Number);
+    const expected = numbers.map((_, i) => i + 1);
+    if (numbers.some((n, i) => n !== expected[i])) {
+      setError(errors, field, `Numbered parameters must be sequential starting at {{1}} (found ${positional.map((p) => `{{${p}}}`).join(', ')})`);
+    }
+    return;
+  }
+
+  const invalid = placeholders.find((p) => !NAMED_PARAMETER_PATTERN.test(p));
+  if (invalid) {
+    setError(errors, field, `{{${invalid}}} is not a valid name: use lowercase letters, numbers and underscores, starting with a letter`);
+  }
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+function validateBody(draft: TemplateDraft, errors: TemplateValidationErrors) {
+  const body = draft.body_text ?? '';
+  const trimmed = body.trim();
+
+  if (!trimmed) {
+    setError(errors, 'body_text', 'Message body is required');
+    return;
+  }
+  if (body.length > TEMPLATE_LIMITS.BODY_MAX_LENGTH) {
+    setError(errors, 'body_text', `Body must be ${TEMPLATE_LIMITS.BODY_MAX_LENGTH} characters or fewer (currently ${body.length})`);
+  }
+
+  if (/\{\{[^}]*\}\}/.test(body.replace(/\{\{\w+\}\}/g, ''))) {
+    setError(errors, 'body_text', 'Parameters can only contain letters, numbers and underscores, e.g. {{1}} or {{first_name}}');
+  }
+
+  const placeholders = extractPlaceholders(body);
+  checkPlaceholderNames(placeholders, 'body_text', errors);
+
+  if (placeholders.length === 0) return;
+
+  if (/^\{\{\w+\}\}/.test(trimmed)) {
+    setError(errors, 'body_text', 'The body can\'t start with a parameter; add some text before it');
+  }
+  if (/\{\{\w+\}\}$/.test(trimmed)) {
+    setError(errors, 'body_text', 'The body can\'t end with a parameter; add some text after it');
+  }
+  if (/\{\{\w+\}\}\s*\{\{\w+\}\}/.test(body)) {
+    setError(errors, 'body_text', 'Parameters must be separated by text');
+  }
+
+  const occurrences = (body.match(/\{\{\w+\}\}/g) || []).length;
+  const words = countWords(body.replace(/\{\{\w+\}\}/g, ' '));
+  const minimumWords = occurrences * TEMPLATE_LIMITS.WORDS_PER_PARAMETER + 1;
+  if (words < minimumWords) {
+    setError(errors, 'body_text', `Too many parameters for the message length: ${occurrences} parameters need at least ${minimumWords} words of text (currently ${words})`);
+  }
+}
+
+function validateHeader(draft: TemplateDraft, errors: TemplateValidationErrors) {
+  const headerType = draft.header_type;
+  if (!headerType) return;
+
+  if (headerType === 'TEXT') {
+    const text = draft.header_text ?? '';
+    if (!text.trim()) {
+      setError(errors, 'header_text', 'Header text is required for a text header');
+      return;
+    }
+    if (text.length > TEMPLATE_LIMITS.HEADER_TEXT_MAX_LENGTH) {
+      setError(errors, 'header_text', `Header must be ${TEMPLATE_LIMITS.HEADER_TEXT_MAX_LENGTH} characters or fewer (currently ${text.length})`);
+    }
+    if (/[\n\r]/.test(text)) {
+      setError(errors, 'header_text', 'Header can\'t contain line breaks');
+    }
+    if (/[*_~`]/.test(text.replace(/\{\{\w+\}\}/g, ''))) {
+      setError(errors, 'header_text', 'Header can\'t contain formatting characters (* _ ~ `)');
+    }
+    if (/\p{Extended_Pictographic}/u.test(text)) {
+      setError(errors, 'header_text', 'Header can\'t contain emojis');
+    }
+
+    const placeholders = extractPlaceholders(text);
+    if (placeholders.length > TEMPLATE_LIMITS.HEADER_MAX_PARAMETERS) {
+      setError(errors, 'header_text', 'Header can have at most one parameter');
+    }
+    checkPlaceholderNames(placeholders, 'header_text', errors);
+    return;
+  }
+
+  if (MEDIA_HEADER_TYPES.includes(headerType) && !draft.header_handle) {
+    setError(errors, 'header_handle', `Upload a sample ${headerType.toLowerCase()} for the header`);
+  }
+}
+
+function validateFooter(draft: TemplateDraft, errors: TemplateValidationErrors) {
+  const footer = draft.footer_text ?? '';
+  if (!footer) return;
+
+  if (footer.length > TEMPLATE_LIMITS.FOOTER_MAX_LENGTH) {
+    setError(errors, 'footer_text', `Footer must be ${TEMPLATE_LIMITS.FOOTER_MAX_LENGTH} characters or fewer (currently ${footer.length})`);
+  }
+  if (/\{\{\w+\}\}/.test(footer)) {
+    setError(errors, 'footer_text', 'Footer can\'t contain parameters');
+  }
+}
+
+function validateButtons(draft: TemplateDraft, errors: TemplateValidationErrors) {
+  const buttons = draft.buttons ?? [];
+  if (buttons.length === 0) return;
+
+  const countOf = (type: string) => buttons.filter((b) => b.type === type).length;
+
+  if (buttons.length > TEMPLATE_LIMITS.BUTTONS_MAX) {
+    setError(errors, 'buttons', `At most ${TEMPLATE_LIMITS.BUTTONS_MAX} buttons are allowed`);
+  } else if (countOf('URL') > TEMPLATE_LIMITS.URL_BUTTONS_MAX) {
+    setError(errors, 'buttons', `At most ${TEMPLATE_LIMITS.URL_BUTTONS_MAX} URL buttons are allowed`);
+  } else if (countOf('PHONE_NUMBER') > TEMPLATE_LIMITS.PHONE_BUTTONS_MAX) {
+    setError(errors, 'buttons', 'Only one call button is allowed');
+  } else if (countOf('COPY_CODE') > TEMPLATE_LIMITS.COPY_CODE_BUTTONS_MAX) {
+    setError(errors, 'buttons', 'Only one copy code button is allowed');
+  }
+
+  // Quick replies and call-to-action buttons must each be grouped together
+  const groups = buttons
+    .map((b) => (b.type === 'QUICK_REPLY' ? 'reply' : 'cta'))
+    .filter((group, i, all) => i === 0 || group !== all[i - 1]);
+  if (groups.length > 2) {
+    setError(errors, 'buttons', 'Keep quick reply buttons together, before or after the other buttons');
+  }
+
+  const seenTexts = new Set<string>();
+  buttons.forEach((button, index) => {
+    const text = button.text?.trim() ?? '';
+    const field = `buttons.${index}`;
+
+    if (!text) {
+      setError(errors, `${field}.text`, 'Button text is required');
+    } else if (text.length > TEMPLATE_LIMITS.BUTTON_TEXT_MAX_LENGTH) {
+      setError(errors, `${field}.text`, `Button text must be ${TEMPLATE_LIMITS.BUTTON_TEXT_MAX_LENGTH} characters or fewer`);
+    } else if (seenTexts.has(text.toLowerCase())) {
+      setError(errors, `${field}.text`, 'Button texts must be unique');
+    }
+    seenTexts.add(text.toLowerCase());
+
+    if (button.type === 'URL') {
+      const url = button.url?.trim() ?? '';
+      const variables = extractPlaceholders(url);
+
+      if (!url) {
+        setError(errors, `${field}.url`, 'URL is required');
+      } else if (!/^https?:\/\/[^\s/$.?#].[^\s]*$/i.test(url.replace(/\{\{\w+\}\}/g, 'x'))) {
+        setError(errors, `${field}.url`, 'Enter a valid http(s) URL');
+      } else if (url.length > TEMPLATE_LIMITS.URL_MAX_LENGTH) {
+        setError(errors, `${field}.url`, `URL must be ${TEMPLATE_LIMITS.URL_MAX_LENGTH} characters or fewer`);
+      } else if (variables.length > 1 || (variables.length === 1 && variables[0] !== '1')) {
+        setError(errors, `${field}.url`, 'A URL can have one variable, {{1}}');
+      } else if (variables.length === 1 && !url.endsWith('{{1}}')) {
+        setError(errors, `${field}.url`, 'The {{1}} variable must be at the end of the URL');
+      } else if (variables.length === 1 && !button.example?.[0]?.trim()) {
+        setError(errors, `${field}.example`, 'Add an example of the full URL');
+      }
+    }
+
+    if (button.type === 'PHONE_NUMBER') {
+      const phone = (button.phone_number ?? '').replace(/[\s()-]/g, '');
+      if (!phone) {
+        setError(errors, `${field}.phone_number`, 'Phone number is required');
+      } else if (!/^\+?\d{7,15}$/.test(phone) || phone.length > TEMPLATE_LIMITS.PHONE_MAX_LENGTH) {
+        setError(errors, `${field}.phone_number`, 'Use international format, e.g. +15551234567');
+      }
+    }
+  });
+}
+
+function validateExamples(draft: TemplateDraft, errors: TemplateValidationErrors) {
+  const placeholders = getDraftPlaceholders(draft);
+  placeholders.forEach((param) => {
+    if (!draft.parameter_examples?.[param]?.trim()) {
+      setError(errors, `parameter_examples.${param}`, 'Example is required');
+    }
+  });
+}
+
+/**
+ * Header and body placeholders that need an example, in order of appearance
+ */
+export function getDraftPlaceholders(draft: TemplateDraft): string[] {
+  const header = draft.header_type === 'TEXT' ? extractPlaceholders(draft.header_text ?? '') : [];
+  return [...new Set([...header, ...extractPlaceholders(draft.body_text ?? '')])];
+}
+
+/**
+ * Check a template against Meta's authoring rules. Returns an empty object when valid.
+ */
+export function validateTemplateDraft(draft: TemplateDraft): TemplateValidationErrors {
+  const errors: TemplateValidationErrors = {};
+
+  const name = draft.name ?? '';
+  if (!name) {
+    setError(errors, 'name', 'Template name is required');
+  } else if (!NAME_PATTERN.test(name)) {
+    setError(errors, 'name', 'Use only lowercase letters, numbers and underscores');
+  } else if (name.length > TEMPLATE_LIMITS.NAME_MAX_LENGTH) {
+    setError(errors, 'name', `Name must be ${TEMPLATE_LIMITS.NAME_MAX_LENGTH} characters or fewer`);
+  }
+
+  validateHeader(draft, errors);
+  validateBody(draft, errors);
+  validateFooter(draft, errors);
+  validateButtons(draft, errors);
+  validateExamples(draft, errors);
+
+  return errors;
+}
@@ -0,0 +1,88 @@
+/**
+ * Thread Cache
+ * Short-lived per-user cache of conversations and their normalized messages.
+ * Server-only.
+ *
+ * Cortex returns a conversation with its whole message history and can't
+ * return only the newest messages, so every incremental poll of
+ * /api/leads/[id]/messages costs a full thread fetch. Caching the thread for
+ * just under the polling interval lets the lead details and messages routes,
+ * several open tabs, and concurrent requests share a single Cortex request.
+ * Sending a message drops the cached thread so the next poll includes it.
+ */
+
+import type { CortexClient } from '@/lib/cortex-client';
+import { normalizeMessages } from '@/lib/messages';
+import type { ConversationObject, Message } from '@/types/cortex';
+
+// Below the chat panel's 5s fallback polling interval
+const THREAD_TTL_MS = 4000;
+const MAX_THREADS = 200;
+
+export interface CachedThread {
+  conversation: ConversationObject;
+  messages: Message[];
+}
+
+interface ThreadEntry {
+  expiresAt: number;
+  thread: Promise<CachedThread>;
+}
+
+// Kept on globalThis so dev hot reloads share one cache
+const globalForThreads = globalThis as typeof globalThis & { __threadCache?: Map<string, ThreadEntry> };
+const threads: Map<string, ThreadEntry> = globalForThreads.__threadCache ??= new Map();
+
+function threadKey(userId: number, id: string): string {
+  return `${userId}:${id}`;
+}
+
+function pruneThreads(now: number) {
+  threads.forEach((entry, key) => {
+    if (entry.expiresAt <= now) threads.delete(key);
+  });
+  // Map iteration is in insertion order, so the oldest go first
+  for (const key of threads.keys()) {
+    if (threads.size < MAX_THREADS) break;
+    threads.delete(key);
+  }
+}
+
+/**
+ * Get a conversation and its normalized messages, from the cache when fresh.
+ * `id` is an internal (numeric) or external conversation ID. Pass a client
+ * without a request signal: the fetch is shared with other callers.
+ */
+export function getConversationThread(client: CortexClient, userId: number, id: string): Promise<CachedThread> {
+  const now = Date.now();
+  const key = threadKey(userId, id);
+  const cached = threads.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.thread;
+  }
+
+  const isNumeric = /^\d+$/.test(id);
+  const thread = client
+    .getConversation(isNumeric ? { internal_id: parseInt(id, 10) } : { external_id: id })
+    .then((conversation) => ({ conversation, messages: normalizeMessages(conversation) }));
+
+  pruneThreads(now);
+  const entry: ThreadEntry = { expiresAt: now + THREAD_TTL_MS, thread };
+  threads.set(key, entry);
+  // Don't keep failures; the next request tries again
+  thread.catch(() => {
+    if (threads.get(key) === entry) threads.delete(key);
+  });
+
+  return thread;
+}
+
+/**
+ * Drop a conversation's cached thread for every user, e.g. after sending to it
+ */
+export function invalidateConversationThread(...ids: (string | number | null | undefined)[]) {
+  const suffixes = ids.filter((id) => id !== null && id !== undefined && id !== '').map((id) => `:${id}`);
+  threads.forEach((_, key) => {
+    if (suffixes.some((suffix) => key.endsWith(suffix))) threads.delete(key);
+  });
+}
@@ -15,3 +15,26 @@ export function formatNumber(num: number | string | null | undefined): string {
   if (isNaN(n)) return '0';
   return n.toLocaleString('en-US');
 }
+
+/**
+ * Run an async function over items with at most `concurrency` calls in flight.
+ * Results keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,96 @@
+/**
+ * WhatsApp Media
+ * File types, size limits and caption rules for media messages sent from the
+ * inbox. Safe to use on client and server.
+ */
+
+import type { MessageMedia } from '@/types/cortex';
+
+// Stickers can be received but not sent from the composer
+export type OutboundMediaType = Exclude<MessageMedia['type'], 'sticker'>;
+
+const MB = 1024 * 1024;
+
+// Limits from the WhatsApp Cloud API media reference
+export const MEDIA_LIMITS: Record<OutboundMediaType, { label: string; maxBytes: number; mimeTypes: string[] }> = {
+  image: {
+    label: 'Image',
+    maxBytes: 5 * MB,
+    mimeTypes: ['image/jpeg', 'image/png'],
+  },
+  video: {
+    label: 'Video',
+    maxBytes: 16 * MB,
+    mimeTypes: ['video/mp4', 'video/3gpp'],
+  },
+  audio: {
+    label: 'Audio',
+    maxBytes: 16 * MB,
+    mimeTypes: ['audio/aac', 'audio/amr', 'audio/mpeg', 'audio/mp4', 'audio/ogg'],
+  },
+  document: {
+    label: 'Document',
+    maxBytes: 100 * MB,
+    mimeTypes: [
+      'application/pdf',
+      'text/plain',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+  },
+};
+
+export const OUTBOUND_MEDIA_TYPES = Object.keys(MEDIA_LIMITS) as OutboundMediaType[];
+
+// For the file picker's `accept` attribute
+export const ACCEPTED_MEDIA_MIME_TYPES = OUTBOUND_MEDIA_TYPES.flatMap((type) => MEDIA_LIMITS[type].mimeTypes).join(',');
+
+export const MAX_CAPTION_LENGTH = 1024;
+
+export function isOutboundMediaType(value: unknown): value is OutboundMediaType {
+  return typeof value === 'string' && (OUTBOUND_MEDIA_TYPES as string[]).includes(value);
+}
+
+/**
+ * Message type a file is sent as, or null when WhatsApp doesn't accept it
+ */
+export function getOutboundMediaType(mimeType: string): OutboundMediaType | null {
+  // Drop parameters such as "audio/ogg; codecs=opus"
+  const baseType = mimeType.split(';')[0].trim().toLowerCase();
+  return OUTBOUND_MEDIA_TYPES.find((type) => MEDIA_LIMITS[type].mimeTypes.includes(baseType)) ?? null;
+}
+
+/**
+ * Audio messages can't carry a caption; any text is sent as its own message
+ */
+export function supportsCaption(type: OutboundMediaType): boolean {
+  return type !== 'audio';
+}
+
+function formatSize(bytes: number): string {
+  return `${Math.round(bytes / MB)} MB`;
+}
+
+/**
+ * Check a file against WhatsApp's accepted types and size limits
+ */
+export function validateMediaFile(
+  file: { type: string; size: number }
+): { type: OutboundMediaType } | { error: string } {
+  const type = getOutboundMediaType(file.type);
+  if (!type) {
+    return { error: 'Unsupported file type. Send a JPEG or PNG image, MP4 video, audio file, PDF or Office document.' };
+  }
+  if (file.size === 0) {
+    return { error: 'The file is empty' };
+  }
+  const { label, maxBytes } = MEDIA_LIMITS[type];
+  if (file.size > maxBytes) {
+    return { error: `${label} files can be at most ${formatSize(maxBytes)}` };
+  }
+  return { type };
+}
@@ -1,5 +1,13 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { resolveApiAccess, isRoleAllowed } from '@/lib/api-route-policy';
+import {
+  AUTH_TOKEN_COOKIE,
+  SESSION_COOKIE,
+  resolveSession,
+  getSessionCookieOptions,
+  type SessionPayload,
+} from '@/lib/session';
 
 // Routes that don't require authentication
 const publicRoutes = ['/login', '/register', '/access-denied'];
@@ -13,38 +21,48 @@ const ADMIN_ONLY_ROUTES = ['/ai-brain'];
 // Routes accessible by admin and manager
 const ADMIN_MANAGER_ROUTES = ['/settings'];
 
-export function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
+// Continue to the route, forwarding any cookies updated on the request
+function next(request: NextRequest) {
+  return NextResponse.next({ request: { headers: request.headers } });
+}
 
-  // Skip middleware for API routes and static files
-  if (
-    pathname.startsWith('/api') ||
-    pathname.startsWith('/_next') ||
-    pathname.startsWith('/static') ||
-    pathname.includes('.')
-  ) {
-    return NextResponse.next();
+/**
+ * Enforce the declarative API route policy before the route handler runs
+ */
+function handleApiRequest(request: NextRequest, session: SessionPayload | null) {
+  const access = resolveApiAccess(request.nextUrl.pathname, request.method);
+
+  if (!request.cookies.get(AUTH_TOKEN_COOKIE)?.value) {
+    return NextResponse.json(
+      { error: 'Unauthorized - No auth token' },
+      { status: 401 }
+    );
   }
 
-  // Get auth token from cookies
-  const authToken = request.cookies.get('auth_token')?.value;
-  const userInfoCookie = request.cookies.get('user_info')?.value;
-
-  // Parse user info if available (cookie value may be URL-encoded)
-  let userInfo: { role?: string } | null = null;
-  if (userInfoCookie) {
-    try {
-      const decoded = decodeURIComponent(userInfoCookie);
-      userInfo = JSON.parse(decoded);
-    } catch {
-      userInfo = null;
-    }
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Unauthorized - Invalid or expired session' },
+      { status: 401 }
+    );
+  }
+
+  if (!isRoleAllowed(access, session.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden - Insufficient permissions' },
+      { status: 403 }
+    );
   }
 
-  const userRole = (userInfo?.role || '').toLowerCase();
+  return next(request);
+}
+
+function handlePageRequest(request: NextRequest, session: SessionPayload | null) {
+  const { pathname } = request.nextUrl;
+
+  const userRole = (session?.role || '').toLowerCase();
   const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route));
-  const isAuthenticated = !!authToken;
-  const hasAccess = userInfo && ALLOWED_ROLES.includes(userRole);
+  const isAuthenticated = !!session;
+  const hasAccess = isAuthenticated && ALLOWED_ROLES.includes(userRole);
 
   // Redirect unauthenticated users to login (except for public routes)
   if (!isAuthenticated && !isPublicRoute) {
@@ -89,18 +107,67 @@ export function middleware(request: NextRequest) {
     }
   }
 
-  return NextResponse.next();
+  return next(request);
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isApiRoute = pathname.startsWith('/api');
+
+  // Skip middleware for static files
+  if (
+    !isApiRoute &&
+    (pathname.startsWith('/_next') ||
+      pathname.startsWith('/static') ||
+      pathname.includes('.'))
+  ) {
+    return NextResponse.next();
+  }
+
+  // Public API routes (login, register, logout) never need a session
+  if (isApiRoute && resolveApiAccess(pathname, request.method) === 'public') {
+    return NextResponse.next();
+  }
+
+  const authToken = request.cookies.get(AUTH_TOKEN_COOKIE)?.value;
+  const { session, refreshedValue } = await resolveSession(
+    authToken,
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+
+  // Forward re-verified claims so route handlers see the fresh session
+  if (refreshedValue) {
+    request.cookies.set(SESSION_COOKIE, refreshedValue);
+  }
+
+  const response = isApiRoute
+    ? handleApiRequest(request, session)
+    : handlePageRequest(request, session);
+
+  if (session && refreshedValue) {
+    response.cookies.set(
+      SESSION_COOKIE,
+      refreshedValue,
+      getSessionCookieOptions(new Date(session.exp), false)
+    );
+  } else if (authToken && !session) {
+    // Forged, expired or revoked session: drop both cookies
+    response.cookies.delete(AUTH_TOKEN_COOKIE);
+    response.cookies.delete(SESSION_COOKIE);
+  }
+
+  return response;
 }
 
 export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
+     * API routes are included so the route policy is enforced for them.
      */
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/((?!_next/static|_next/image|favicon.ico).*)',
   ],
 };
@@ -3,6 +3,8 @@
  * Based on Savio Cortex API v0.1.0
  */
 
+import type { Template, TemplateParameters } from '@/types/whatsapp';
+
 // =============================================================================
 // Core Types
 // =============================================================================
@@ -17,10 +19,23 @@ export interface MessageMedia {
   caption?: string;
 }
 
+/**
+ * WhatsApp delivery lifecycle of an outbound message
+ */
+export type MessageDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface MessageDeliveryError {
+  code?: number | string;
+  title?: string;
+}
+
 export interface Message {
+  id?: string; // Stable ID, set by the API routes (WhatsApp message ID when known)
   role: MessageRole;
   content: string;
   created_at?: string | null;
+  status?: MessageDeliveryStatus; // Outbound messages only
+  error?: MessageDeliveryError | null; // Set when status is 'failed'
   metadata?: {
     media?: MessageMedia;
     message_type?: string;
@@ -58,6 +73,7 @@ export interface ConversationSummary {
   qualification?: string | null;
   has_meeting?: boolean;
   deal_stage?: string | null;
+  deal_pipeline?: string | null;
   window_status?: 'open' | 'expired' | null;
 }
 
@@ -76,6 +92,7 @@ export interface ConversationSearchItem {
   qualification?: string | null;
   has_meeting: boolean;
   deal_stage?: string | null;
+  deal_pipeline?: string | null;
   client_id?: number | null;
   client_name?: string | null;
   client_email?: string | null;
@@ -190,6 +207,45 @@ export interface SendTextRequest {
   preview_url?: boolean;
 }
 
+/**
+ * Reply button for an interactive message. WhatsApp allows 1-3 buttons, titles up to 20 characters.
+ */
+export interface InteractiveButton {
+  id: string;
+  title: string;
+}
+
+export interface SendInteractiveButtonsRequest {
+  phone: string;
+  body: string;
+  buttons: InteractiveButton[];
+  header?: string;
+  footer?: string;
+}
+
+/**
+ * Media message (image, video, audio or document) sent by uploaded media ID.
+ * Audio messages don't support captions.
+ */
+export interface SendMediaRequest {
+  phone: string;
+  type: Exclude<MessageMedia['type'], 'sticker'>;
+  media_id: string;
+  caption?: string;
+  filename?: string; // Shown to the recipient for documents
+}
+
+/**
+ * Response from uploading outbound media to WhatsApp.
+ */
+export interface MediaUploadResponse {
+  media_id: string;
+  mime_type?: string | null;
+  filename?: string | null;
+  size?: number | null;
+  type?: MessageMedia['type']; // Set by the API route
+}
+
 export interface MessageSentResponse {
   success: boolean;
   message_id?: string | null;
@@ -199,6 +255,17 @@ export interface MessageSentResponse {
   stored?: boolean;
 }
 
+/**
+ * WhatsApp media file streamed from Cortex.
+ */
+export interface MediaDownload {
+  body: ReadableStream<Uint8Array>;
+  content_type: string | null;
+  filename: string | null;
+  size: number | null; // Size of the whole file, when Cortex reports it
+  range: { start: number; end: number } | null; // Set when Cortex answered a Range request with part of the file
+}
+
 // =============================================================================
 // SDR Agent Types
 // =============================================================================
@@ -278,13 +345,38 @@ export interface HubSpotDeal {
   pipeline_label?: string | null;
   hubspot_owner_id?: string | null;
   closedate?: string | null;
+  hs_next_step?: string | null;
   createdate?: string | null;
   lastmodifieddate?: string | null;
 }
 
+/**
+ * Deal properties editable from the CRM tab. Null clears a property.
+ * Moving to a stage in another pipeline requires sending `pipeline` too.
+ */
+export interface UpdateDealRequest {
+  dealstage?: string;
+  pipeline?: string;
+  amount?: number | null;
+  closedate?: string | null;
+  hs_next_step?: string | null;
+}
+
+/**
+ * Response after updating a deal.
+ */
+export interface UpdateDealResponse {
+  success: boolean;
+  deal_id: string;
+  updated_properties?: string[];
+  deal?: HubSpotDeal | null;
+  error?: string | null;
+}
+
 export interface DealStage {
   id: string;
   label: string;
+  pipeline_id?: string; // Set when stages of several pipelines are listed together
 }
 
 export interface DealStagesResponse {
@@ -293,6 +385,18 @@ export interface DealStagesResponse {
   total_count: number;
 }
 
+export interface DealPipeline {
+  id: string;
+  label: string;
+  display_order?: number;
+  stages: DealStage[]; // In pipeline order
+}
+
+export interface DealPipelinesResponse {
+  pipelines: DealPipeline[];
+  total_count: number;
+}
+
 export interface HubSpotLinksResponse {
   conversation_id?: number | null;
   phone?: string | null;
@@ -586,6 +690,59 @@ export interface CRMMetricsResponse {
   conversions: CRMConversionRatesResponse;
 }
 
+// =============================================================================
+// Template Performance Metrics Types
+// =============================================================================
+
+/**
+ * Leads that received the template, by their deal's current stage.
+ * Used in TemplatePerformance.deal_stages, in pipeline order.
+ */
+export interface TemplateDealStageCount {
+  stage_id: string;
+  stage_label: string;
+  count: number;
+}
+
+/**
+ * Outcomes for one template (name + language) within the date range.
+ * Replies count sends followed by an inbound message within 24h; meetings
+ * count those booked after a send (see lib/template-metrics.ts).
+ */
+export interface TemplatePerformance {
+  template_name: string;
+  language: string;
+  sends: number;
+  delivery_failures: number;
+  replies_24h: number;
+  meetings_booked: number;
+  meetings_showed: number;
+  deal_stages: TemplateDealStageCount[];
+}
+
+export interface DailyTemplatePerformance {
+  day: string;
+  sends: number;
+  delivery_failures: number;
+  replies_24h: number;
+  meetings_booked: number;
+}
+
+/**
+ * Response from /api/metrics/templates, for templates sent from this app.
+ * When filtered to a single template, includes its daily breakdown and meetings.
+ */
+export interface TemplateMetricsResponse {
+  start_date: string;
+  end_date: string;
+  templates: TemplatePerformance[];
+  data?: DailyTemplatePerformance[];
+  meetings?: Meeting[];
+  conversations_scanned: number;
+  truncated: boolean; // Too many conversations to scan; outcomes of the oldest aren't counted
+  failed_conversations: number; // Conversations whose outcomes couldn't be loaded
+}
+
 // =============================================================================
 // Auth Types
 // =============================================================================
@@ -804,6 +961,33 @@ export interface GetTaskResponse {
   hubspot_link?: string | null;
 }
 
+/**
+ * Task from /api/crm/tasks/mine, with the lead it belongs to.
+ */
+export interface MyTask extends HubSpotTask {
+  lead: {
+    id: number;
+    external_id: string;
+    name?: string | null;
+    phone?: string | null;
+    company?: string | null;
+  };
+}
+
+/**
+ * Response from /api/crm/tasks/mine.
+ */
+export interface MyTasksResponse {
+  owner_id: string | null; // HubSpot owner matched to the logged-in user
+  sdr_id: number | null; // SDR profile matched to the logged-in user
+  tasks: MyTask[];
+  total_count: number;
+  conversations_scanned: number;
+  truncated: boolean; // Only the most recent conversations were scanned
+  failed_conversations: number; // Conversations whose tasks couldn't be loaded
+  collected_at: string | null; // When the tasks were collected; lists are cached for a few minutes
+}
+
 // =============================================================================
 // Qualification Types
 // =============================================================================
@@ -910,6 +1094,58 @@ export interface PromptListResponse {
   prompts: PromptMetadata[];
 }
 
+/**
+ * Replace a prompt's live content.
+ */
+export interface UpdatePromptRequest {
+  content: string;
+  author?: string | null;
+  note?: string | null;
+}
+
+/**
+ * How a prompt version came about. 'baseline' records live content found in
+ * Cortex that wasn't published from the app (before the first in-app edit,
+ * or after an edit made elsewhere).
+ */
+export type PromptVersionEvent = 'baseline' | 'draft' | 'published' | 'rolled_back';
+
+/**
+ * One recorded change to a prompt, kept by the app (not Cortex).
+ */
+export interface PromptVersion {
+  id: string;
+  prompt_id: string;
+  version: number;
+  event: PromptVersionEvent;
+  content: string;
+  author: string | null;
+  note?: string | null;
+  rolled_back_to?: number | null; // Version whose content was restored
+  created_at: string;
+}
+
+/**
+ * Unpublished edit of a prompt. There is at most one draft per prompt.
+ */
+export interface PromptDraft {
+  prompt_id: string;
+  content: string;
+  base_version: number | null; // Live version the draft was started from
+  author: string | null;
+  updated_at: string;
+}
+
+/**
+ * Response from /api/ai/prompts/[promptId]/versions, newest version first.
+ */
+export interface PromptHistoryResponse {
+  prompt_id: string;
+  live_version: number | null;
+  draft: PromptDraft | null;
+  versions: PromptVersion[];
+}
+
 /**
  * Detailed node information.
  */
@@ -945,6 +1181,75 @@ export interface AgentArchitectureResponse {
   node_id_mapping?: Record<string, string>;
 }
 
+/**
+ * A state field whose value changed during a conversation turn.
+ */
+export interface TraceStateChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * One turn of a conversation as processed by the agent graph: the user's
+ * message, the nodes that ran in order, and the agent's reply.
+ */
+export interface ConversationTraceStep {
+  turn: number;
+  user_message: string | null;
+  agent_reply: string | null;
+  created_at?: string | null;
+  nodes: AgentNode[];
+  state_changes: TraceStateChange[];
+}
+
+/**
+ * Response from /ai/trace endpoint, oldest turn first.
+ */
+export interface ConversationTraceResponse {
+  conversation_id: number;
+  external_id: string;
+  steps: ConversationTraceStep[];
+}
+
+/**
+ * One turn of a playground conversation.
+ */
+export interface PlaygroundMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Run one agent node against a conversation without sending anything to the lead.
+ * `prompt_content` replaces the live prompt for this run (e.g. a draft).
+ */
+export interface PlaygroundRunRequest {
+  node: AgentNode;
+  messages: PlaygroundMessage[];
+  prompt_id?: string | null;
+  prompt_content?: string | null;
+  state_fields?: string[]; // State fields to extract
+}
+
+/**
+ * Response from /ai/playground: the node's reply to the last user message and
+ * the state fields it extracted from the conversation.
+ */
+export interface PlaygroundRunResponse {
+  node: AgentNode;
+  reply: string;
+  state: Record<string, unknown>;
+}
+
+/**
+ * Response from /api/ai/playground, with which runner produced it.
+ */
+export interface PlaygroundRunResult extends PlaygroundRunResponse {
+  source: 'cortex' | 'stub';
+  duration_ms: number;
+}
+
 // =============================================================================
 // Company Intelligence Types
 // =============================================================================
@@ -1145,3 +1450,282 @@ export interface CompanyIntelligenceCheckResponse {
   error?: string;
   error_code?: string;
 }
+
+// =============================================================================
+// WhatsApp Template Types
+// =============================================================================
+
+/**
+ * Paginated template list from GET /templates
+ */
+export interface TemplateListResponse {
+  items: Template[];
+  total_count: number;
+  has_more: boolean;
+}
+
+/**
+ * Request to send an approved template to a WhatsApp number
+ */
+export interface SendTemplateRequest {
+  phone_number: string;
+  template_name: string;
+  language_code?: string;
+  parameters?: TemplateParameters | Record<string, unknown>;
+}
+
+export interface SendTemplateResponse {
+  success: boolean;
+  message_id?: string | null;
+  conversation_id?: number | null;
+  message?: string;
+}
+
+/**
+ * Result of deleting a template locally and, optionally, from Meta
+ */
+export interface DeleteTemplateResponse {
+  deleted_locally?: boolean;
+  deleted_from_meta?: boolean;
+  message?: string;
+}
+
+export interface TemplateSyncResponse {
+  synced?: number;
+  created?: number;
+  updated?: number;
+  message?: string;
+}
+
+/**
+ * Uploaded template header media. header_handle is passed back when creating the template.
+ */
+export interface TemplateMediaUploadResponse {
+  header_handle: string;
+  url?: string;
+  warning?: string;
+}
+
+// =============================================================================
+// Business Profile Types
+// =============================================================================
+
+export interface BusinessProfile {
+  about?: string;
+  address?: string;
+  description?: string;
+  email?: string;
+  profile_picture_url?: string;
+  websites?: string[];
+  vertical?: string;
+  messaging_product?: string;
+  // HubSpot account of this workspace, used for deep links
+  hubspot_portal_id?: string | null;
+  hubspot_region?: string | null;
+}
+
+export interface BusinessPhoneNumber {
+  id: string;
+  verified_name?: string;
+  display_phone_number?: string;
+  quality_rating?: string;
+  code_verification_status?: string;
+  is_official_business_account?: boolean;
+  name_status?: string;
+  platform_type?: string;
+  account_mode?: string;
+  messaging_limit_tier?: string;
+  throughput?: {
+    level?: string;
+  };
+}
+
+/**
+ * Verticals are returned either as raw enum strings or as { id, name } objects
+ */
+export interface BusinessVerticalsResponse {
+  verticals: (string | { id: string; name: string })[];
+}
+
+// =============================================================================
+// Message History Types (GET /api/leads/[id]/messages)
+// =============================================================================
+
+export interface MessageStatusUpdate {
+  id: string;
+  status: MessageDeliveryStatus;
+  error?: MessageDeliveryError | null;
+}
+
+export interface MessagePage {
+  messages: Message[]; // Oldest first
+  next_cursor: string | null; // Pass as `cursor` to load older messages
+  has_more: boolean; // Older messages exist before this page
+  reset: boolean; // `cursor`/`since` was not found or too far behind; replace the thread with this page
+  statuses: MessageStatusUpdate[]; // `since` requests only: current status of recent outbound messages
+  total: number;
+  user_messages_count: number;
+  conversation_id: number;
+  external_id: string;
+}
+
+// =============================================================================
+// Inbox Stream Types (GET /api/stream)
+// =============================================================================
+
+export type InboxEventType =
+  | 'message.new'
+  | 'agent.toggled'
+  | 'window.changed'
+  | 'deal_stage.changed';
+
+interface InboxEventBase {
+  lead_id: number;
+  external_id: string;
+  at: string; // ISO timestamp the change was detected
+}
+
+export interface NewMessageEvent extends InboxEventBase {
+  type: 'message.new';
+  messages_count: number;
+  last_message_at?: string | null;
+  last_message_role?: string | null;
+  last_message_content?: string | null;
+  is_new_lead: boolean;
+}
+
+export interface AgentToggledEvent extends InboxEventBase {
+  type: 'agent.toggled';
+  state: number; // 0 = agent active, 1 = manual mode
+}
+
+export interface WindowChangedEvent extends InboxEventBase {
+  type: 'window.changed';
+  window_status: 'open' | 'expired' | null;
+}
+
+export interface DealStageChangedEvent extends InboxEventBase {
+  type: 'deal_stage.changed';
+  deal_stage: string | null;
+}
+
+export type InboxEvent =
+  | NewMessageEvent
+  | AgentToggledEvent
+  | WindowChangedEvent
+  | DealStageChangedEvent;
+
+// =============================================================================
+// Campaign Types (/api/campaigns)
+// =============================================================================
+
+/**
+ * Recipient fields a template parameter can be filled from
+ */
+export type CampaignClientField =
+  | 'name'
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'phone'
+  | 'company'
+  | 'position';
+
+/**
+ * Where one template parameter gets its value. `value` is used as-is when
+ * there is no field, and as the fallback when the recipient's field is empty.
+ */
+export interface CampaignParameterSource {
+  field?: CampaignClientField | null;
+  value?: string | null;
+}
+
+/**
+ * searchConversations filters of a saved lead search
+ */
+export interface CampaignSearchFilters {
+  q?: string;
+  lead_status?: string;
+  date_from?: string;
+  date_to?: string;
+  window_status?: string;
+  assigned_sdr_id?: number;
+  qualification?: string;
+  deal_stage?: string;
+  deal_pipeline?: string;
+}
+
+/**
+ * One row of an uploaded CSV audience
+ */
+export interface CampaignRecipientInput {
+  phone: string;
+  name?: string;
+  email?: string;
+  company?: string;
+  position?: string;
+}
+
+export type CampaignAudienceRequest =
+  | { type: 'search'; filters: CampaignSearchFilters; label?: string }
+  | { type: 'csv'; recipients: CampaignRecipientInput[]; label?: string };
+
+export interface CampaignTemplateRef {
+  id: string;
+  name: string;
+  language: string;
+}
+
+export interface CreateCampaignRequest {
+  name: string;
+  template: CampaignTemplateRef;
+  parameter_mapping: Record<string, CampaignParameterSource>; // By template parameter name
+  audience: CampaignAudienceRequest;
+  messages_per_minute?: number;
+}
+
+export type CampaignStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export type CampaignRecipientStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface CampaignRecipient {
+  phone: string;
+  conversation_id?: number | null;
+  client_data: ClientData;
+  status: CampaignRecipientStatus;
+  parameters?: Record<string, string>;
+  message_id?: string | null;
+  error?: string | null;
+  sent_at?: string | null;
+  sending_at?: string | null; // Set while a send is in flight; cleared once its outcome is recorded
+}
+
+export interface CampaignCounts {
+  total: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  template: CampaignTemplateRef;
+  parameter_mapping: Record<string, CampaignParameterSource>;
+  audience: { type: 'search' | 'csv'; label: string };
+  messages_per_minute: number;
+  status: CampaignStatus;
+  status_reason?: string | null; // Why the queue paused itself, e.g. an expired session
+  counts: CampaignCounts;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string | null;
+}
+
+export interface CampaignDetail extends Campaign {
+  recipients: CampaignRecipient[];
+}
+
+export type CampaignAction = 'pause' | 'resume' | 'cancel' | 'retry_failed';
@@ -63,3 +63,80 @@ export type TemplateParameterInfo = {
 };
 
 export type TemplateParameters = Record<string, string>;
+
+// Lead fields available when filling template parameters
+export type ContactData = {
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  position?: string;
+};
+
+// Where a mapped template parameter reads its value from
+export type TemplateParameterSource = 'lead' | 'hubspot' | 'deal' | 'sender' | 'static';
+
+export type TemplateValueFormat =
+  | 'text'
+  | 'uppercase'
+  | 'lowercase'
+  | 'capitalize'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'datetime';
+
+export type TemplateParameterRule = {
+  source: TemplateParameterSource;
+  field?: string; // Lead/deal/sender field or HubSpot property name; unused for 'static'
+  value?: string; // Text for 'static'
+  fallback?: string; // Used when the field is empty
+  format?: TemplateValueFormat;
+  currency?: string; // ISO 4217 code for 'currency'
+};
+
+// Admin-managed mapping for one template, keyed by name + language
+export type TemplateParameterMapping = {
+  template_name: string;
+  language: string;
+  parameters: Record<string, TemplateParameterRule>; // By template parameter name
+  updated_by?: string | null;
+  updated_at?: string;
+};
+
+// What happened to a template when a version was recorded
+export type TemplateVersionEvent = 'created' | 'synced' | 'deleted';
+
+// Template content and review state at one point in time
+export type TemplateSnapshot = Pick<
+  Template,
+  | 'name'
+  | 'language'
+  | 'category'
+  | 'status'
+  | 'body_text'
+  | 'header_type'
+  | 'header_text'
+  | 'footer_text'
+  | 'buttons_json'
+  | 'parameter_format'
+  | 'parameters_json'
+  | 'rejection_reason'
+  | 'meta_template_id'
+>;
+
+export type TemplateVersion = {
+  id: string;
+  template_key: string; // "<name>:<language>"
+  template_id?: string | null;
+  version: number; // 1-based, per template_key
+  event: TemplateVersionEvent;
+  snapshot: TemplateSnapshot;
+  changed_fields: string[]; // Snapshot fields that differ from the previous version
+  status_from?: string | null;
+  status_to?: string | null;
+  actor?: string | null; // Email of the user who triggered it, when known
+  created_at: string;
+};